@@ -0,0 +1,62 @@
+/**
+ * GET /api/alerts/[id]/activity
+ *
+ * Work log of an alert, oldest first (see lib/utils/alertActivity.ts)
+ *
+ * ACCESS:
+ * - Alert owner or its current assignee, 404 for anyone else
+ *
+ * RESPONSE:
+ * - 200: { activities: AlertActivity[] }
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { getAccessibleAlert } from '@/lib/utils/alertActivity'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function GET(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const alert = await getAccessibleAlert(id, user.id)
+
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      )
+    }
+
+    const activities = await prisma.alertActivity.findMany({
+      where: { alert_id: alert.id },
+      orderBy: { created_at: 'asc' },
+    })
+
+    return NextResponse.json({ activities })
+  } catch (error) {
+    console.error('[API /alerts/[id]/activity] Error fetching activity:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
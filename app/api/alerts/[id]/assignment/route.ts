@@ -0,0 +1,171 @@
+/**
+ * /api/alerts/[id]/assignment
+ *
+ * PUT    - Assign the alert to a colleague (replaces the current assignee)
+ * DELETE - Remove the assignment
+ *
+ * REQUEST BODY (PUT):
+ * {
+ *   email: string  // Login email of another app user
+ * }
+ *
+ * BEHAVIOR:
+ * - Logged to the alert's work log (ASSIGNED / UNASSIGNED)
+ * - The new assignee gets an email with a link to the alert (if SMTP is set up)
+ *
+ * ACCESS:
+ * - Alert owner or its current assignee (hand-over), 404 for anyone else
+ *
+ * RESPONSE:
+ * - PUT 200: AlertAssignment
+ * - PUT 400: { error: 'Validation failed', details: string[] } - e.g. unknown user
+ * - DELETE 200: { success: true }, 404 if not assigned
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { findUserByEmail } from '@/lib/utils/email'
+import { getAccessibleAlert, logAlertActivity, sendAssignmentEmail } from '@/lib/utils/alertActivity'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function PUT(
+  req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    // STEP 1: Authentication check
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // STEP 2: Access check
+    // COMMENT: Before the email lookup, so the endpoint can't be used to probe
+    // which emails are registered
+    const alert = await getAccessibleAlert(id, user.id)
+
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      )
+    }
+
+    // STEP 3: Validate
+    const body = await req.json()
+
+    if (typeof body.email !== 'string' || body.email.trim() === '') {
+      return NextResponse.json(
+        { error: 'Validation failed', details: ['email is required'] },
+        { status: 400 }
+      )
+    }
+
+    const assignee = await findUserByEmail(body.email)
+
+    if (!assignee) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: [`No user with email ${body.email.trim()}`] },
+        { status: 400 }
+      )
+    }
+
+    if (alert.assignment?.assignee_id === assignee.id) {
+      return NextResponse.json(alert.assignment)
+    }
+
+    // STEP 4: Assign, log and tell the assignee
+    const assignment = await prisma.alertAssignment.upsert({
+      where: { alert_id: alert.id },
+      create: {
+        alert_id: alert.id,
+        assignee_id: assignee.id,
+        assignee_email: assignee.email,
+        assigned_by: user.id,
+      },
+      update: {
+        assignee_id: assignee.id,
+        assignee_email: assignee.email,
+        assigned_by: user.id,
+        assigned_at: new Date(),
+      },
+    })
+
+    await logAlertActivity(alert.id, 'ASSIGNED', `Assigned to ${assignee.email}`, {
+      id: user.id,
+      email: user.email,
+    })
+
+    if (assignee.id !== user.id) {
+      await sendAssignmentEmail(alert, assignee.email, user.email)
+    }
+
+    console.log('[API /alerts/[id]/assignment] Assigned:', {
+      alert_id: alert.id,
+      assignee_id: assignee.id,
+      assigned_by: user.id,
+    })
+
+    return NextResponse.json(assignment)
+  } catch (error) {
+    console.error('[API /alerts/[id]/assignment] Error assigning alert:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const alert = await getAccessibleAlert(id, user.id)
+
+    if (!alert || !alert.assignment) {
+      return NextResponse.json(
+        { error: 'Assignment not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.alertAssignment.delete({ where: { alert_id: alert.id } })
+
+    await logAlertActivity(alert.id, 'UNASSIGNED', `Unassigned ${alert.assignment.assignee_email}`, {
+      id: user.id,
+      email: user.email,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[API /alerts/[id]/assignment] Error removing assignment:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * DELETE /api/alerts/[id]/comments/[commentId]
+ *
+ * Delete one of your own comments (the activity log entry stays)
+ *
+ * RESPONSE:
+ * - 200: { success: true }
+ * - 404: Not found, not your comment, or no access to the alert
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+    commentId: string
+  }>
+}
+
+export async function DELETE(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id, commentId } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // Security: only the author's own comments on this alert
+    const result = await prisma.alertComment.deleteMany({
+      where: { id: commentId, alert_id: id, user_id: user.id },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[API /alerts/[id]/comments/[commentId]] Error deleting comment:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * /api/alerts/[id]/comments
+ *
+ * GET  - Comments and resolution notes of an alert, oldest first
+ * POST - Add a comment
+ *
+ * REQUEST BODY (POST):
+ * {
+ *   body: string,                 // Max 5000 characters
+ *   is_resolution_note?: boolean  // What fixed it, e.g. "valve replaced"
+ * }
+ *
+ * ACCESS:
+ * - Alert owner or its current assignee (see lib/utils/alertActivity.ts)
+ * - 404 for anyone else
+ *
+ * RESPONSE:
+ * - GET 200: { comments: AlertComment[], current_user_id: string }
+ *   (current_user_id lets the UI offer delete on the user's own comments)
+ * - POST 201: AlertComment
+ * - POST 400: { error: 'Validation failed', details: string[] }
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { getAccessibleAlert, logAlertActivity, validateAlertComment } from '@/lib/utils/alertActivity'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function GET(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const alert = await getAccessibleAlert(id, user.id)
+
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      )
+    }
+
+    const comments = await prisma.alertComment.findMany({
+      where: { alert_id: alert.id },
+      orderBy: { created_at: 'asc' },
+    })
+
+    return NextResponse.json({ comments, current_user_id: user.id })
+  } catch (error) {
+    console.error('[API /alerts/[id]/comments] Error fetching comments:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    // STEP 1: Authentication check
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // STEP 2: Validate
+    const body = await req.json()
+    const errors = validateAlertComment(body)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      )
+    }
+
+    // STEP 3: Access check
+    const alert = await getAccessibleAlert(id, user.id)
+
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      )
+    }
+
+    // STEP 4: Save and log
+    const isResolutionNote = body.is_resolution_note === true
+
+    const comment = await prisma.alertComment.create({
+      data: {
+        alert_id: alert.id,
+        user_id: user.id,
+        user_email: user.email,
+        body: body.body.trim(),
+        is_resolution_note: isResolutionNote,
+      },
+    })
+
+    await logAlertActivity(
+      alert.id,
+      isResolutionNote ? 'RESOLUTION_NOTE' : 'COMMENTED',
+      comment.body.length > 120 ? `${comment.body.slice(0, 117)}...` : comment.body,
+      { id: user.id, email: user.email }
+    )
+
+    console.log('[API /alerts/[id]/comments] Comment added:', {
+      alert_id: alert.id,
+      user_id: user.id,
+      is_resolution_note: isResolutionNote,
+    })
+
+    return NextResponse.json(comment, { status: 201 })
+  } catch (error) {
+    console.error('[API /alerts/[id]/comments] Error adding comment:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -15,10 +15,13 @@
  *   - Sets acknowledged_by to current user's ID
  * - When is_read is set to true:
  *   - Simply updates the flag
+ * - Acknowledging the last unacknowledged alert of an incident acknowledges
+ *   the incident too
+ * - Acknowledging / un-acknowledging is written to the alert's work log
  *
  * SECURITY:
  * - Requires authentication
- * - User can only update their own alerts
+ * - User can only update their own alerts, or alerts assigned to them
  * - Returns 403 if alert doesn't belong to user
  * - Returns 404 if alert doesn't exist
  *
@@ -29,6 +32,8 @@
 import { NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/supabase/server'
 import { prisma } from '@/lib/prisma'
+import { syncIncidentAcknowledgement } from '@/lib/utils/incidents'
+import { logAlertActivity } from '@/lib/utils/alertActivity'
 
 type RouteContext = {
   params: Promise<{
@@ -36,6 +41,63 @@ type RouteContext = {
   }>
 }
 
+/**
+ * GET /api/alerts/[id]
+ *
+ * Single alert with its escalation history (oldest step first) and assignment
+ *
+ * RESPONSE:
+ * - 200: Alert & { escalations: AlertEscalation[], assignment: AlertAssignment | null }
+ * - 403 / 404: Same rules as PATCH
+ */
+export async function GET(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const alert = await prisma.alert.findUnique({
+      where: { id },
+      include: {
+        escalations: { orderBy: { escalated_at: 'asc' } },
+        assignment: true,
+      },
+    })
+
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      )
+    }
+
+    if (alert.user_id !== user.id && alert.assignment?.assignee_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden - You do not have permission to view this alert' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json(alert)
+  } catch (error) {
+    console.error('[API /alerts/[id]] Error fetching alert:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
 export async function PATCH(
   req: Request,
   { params }: RouteContext
@@ -68,6 +130,7 @@ export async function PATCH(
     // STEP 4: Fetch alert and verify ownership
     const alert = await prisma.alert.findUnique({
       where: { id },
+      include: { assignment: true },
     })
 
     if (!alert) {
@@ -77,8 +140,8 @@ export async function PATCH(
       )
     }
 
-    // STEP 5: Security check - verify alert belongs to user
-    if (alert.user_id !== user.id) {
+    // STEP 5: Security check - verify alert belongs to user (or is assigned to them)
+    if (alert.user_id !== user.id && alert.assignment?.assignee_id !== user.id) {
       return NextResponse.json(
         { error: 'Forbidden - You do not have permission to update this alert' },
         { status: 403 }
@@ -118,6 +181,20 @@ export async function PATCH(
       data: updateData,
     })
 
+    if (is_acknowledged !== undefined && is_acknowledged !== alert.is_acknowledged) {
+      await logAlertActivity(
+        id,
+        is_acknowledged ? 'ACKNOWLEDGED' : 'UNACKNOWLEDGED',
+        is_acknowledged ? 'Acknowledged' : 'Acknowledgement withdrawn',
+        { id: user.id, email: user.email }
+      )
+    }
+
+    // COMMENT: The incident belongs to the alert's owner, the assignee may be the one acknowledging
+    if (is_acknowledged === true && updatedAlert.incident_id) {
+      await syncIncidentAcknowledgement([updatedAlert.incident_id], updatedAlert.user_id, user.id)
+    }
+
     console.log('[API /alerts/[id]] Alert updated successfully')
 
     return NextResponse.json(updatedAlert)
@@ -12,6 +12,8 @@
  * - Sets is_acknowledged = true
  * - Sets acknowledged_at = current timestamp
  * - Sets acknowledged_by = current user's ID
+ * - Incidents whose alerts are now all acknowledged become ACKNOWLEDGED
+ * - Written to each newly acknowledged alert's work log
  *
  * USE CASES:
  * - Facility manager reviews and acknowledges multiple alerts
@@ -36,6 +38,8 @@
 import { NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/supabase/server'
 import { prisma } from '@/lib/prisma'
+import { syncIncidentAcknowledgement } from '@/lib/utils/incidents'
+import { logAlertActivity } from '@/lib/utils/alertActivity'
 
 export async function POST(req: Request) {
   try {
@@ -77,6 +81,12 @@ export async function POST(req: Request) {
     // Security: WHERE clause ensures we only update user's own alerts
     const now = new Date()
 
+    // COMMENT: Only alerts that weren't acknowledged yet get a work log entry
+    const toAcknowledge = await prisma.alert.findMany({
+      where: { id: { in: alert_ids }, user_id: user.id, is_acknowledged: false },
+      select: { id: true },
+    })
+
     const result = await prisma.alert.updateMany({
       where: {
         id: {
@@ -92,6 +102,22 @@ export async function POST(req: Request) {
       },
     })
 
+    await logAlertActivity(
+      toAcknowledge.map((a) => a.id),
+      'ACKNOWLEDGED',
+      'Acknowledged (bulk)',
+      { id: user.id, email: user.email }
+    )
+
+    const incidentAlerts = await prisma.alert.findMany({
+      where: { id: { in: alert_ids }, user_id: user.id, incident_id: { not: null } },
+      select: { incident_id: true },
+    })
+    await syncIncidentAcknowledgement(
+      incidentAlerts.map((a) => a.incident_id as string),
+      user.id
+    )
+
     console.log('[API /alerts/acknowledge-multiple] Acknowledged:', {
       requested: alert_ids.length,
       acknowledged: result.count,
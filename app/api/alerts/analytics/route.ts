@@ -0,0 +1,85 @@
+/**
+ * GET /api/alerts/analytics
+ *
+ * Alert response metrics for the analytics page (see lib/utils/alertAnalytics.ts)
+ *
+ * QUERY PARAMETERS:
+ * - from (ISO 8601): Start of the range (default: 30 days before `to`)
+ * - to (ISO 8601): End of the range (default: now)
+ *
+ * RESPONSE:
+ * - 200: AlertAnalytics - MTTA/MTTR, volume over time, totals, top offenders
+ * - 400: Invalid date or from after to
+ *
+ * AUTHENTICATION:
+ * - Requires valid session, returns 401 otherwise
+ * - Only counts alerts belonging to the authenticated user
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { getAlertAnalytics } from '@/lib/utils/alertAnalytics'
+
+const DEFAULT_RANGE_DAYS = 30
+
+export async function GET(req: Request) {
+  try {
+    // STEP 1: Authentication check
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // STEP 2: Parse and validate the date range
+    const { searchParams } = new URL(req.url)
+    const fromParam = searchParams.get('from')
+    const toParam = searchParams.get('to')
+
+    const to = toParam ? new Date(toParam) : new Date()
+    const from = fromParam
+      ? new Date(fromParam)
+      : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000)
+
+    if (isNaN(from.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid 'from' date format. Use ISO 8601 format." },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(to.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid 'to' date format. Use ISO 8601 format." },
+        { status: 400 }
+      )
+    }
+
+    if (from > to) {
+      return NextResponse.json(
+        { error: "'from' must be before 'to'" },
+        { status: 400 }
+      )
+    }
+
+    console.log('[API /alerts/analytics] GET request:', {
+      user_id: user.id,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    })
+
+    // STEP 3: Aggregate
+    const analytics = await getAlertAnalytics(user.id, from, to)
+
+    return NextResponse.json(analytics)
+  } catch (error) {
+    console.error('[API /alerts/analytics] Error computing analytics:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * POST /api/alerts/bulk
+ *
+ * Acknowledge or mark as read every alert matching a filter
+ *
+ * REQUEST BODY:
+ * {
+ *   action: 'acknowledge' | 'mark_read',
+ *   filters?: {                  // Same filters as GET /api/alerts
+ *     source?, alert_type?, severity?, device_id?, location?,
+ *     from?, to?, is_read?, is_acknowledged?, is_resolved?, is_suppressed?
+ *   },
+ *   dry_run?: boolean            // Only count the matches (default false)
+ * }
+ *
+ * BEHAVIOR:
+ * - Only alerts the action would change count as matching
+ *   (acknowledge: unacknowledged ones, mark_read: unread ones)
+ * - acknowledge works like acknowledge-multiple: sets acknowledged_at/by,
+ *   marks as read, writes the work log and syncs incidents - in chunks of
+ *   BULK_CHUNK_SIZE until no matching alert is left
+ *
+ * USE CASES:
+ * - Acknowledging thousands of stale alerts from a noisy probe
+ * - "Acknowledge all matching" on the notifications page (dry run first
+ *   to show the count)
+ *
+ * SECURITY:
+ * - Requires authentication
+ * - Only matches alerts belonging to the authenticated user
+ *
+ * RESPONSE:
+ * {
+ *   action: string,
+ *   dry_run: boolean,
+ *   matched_count: number,
+ *   updated_count: number        // 0 for dry runs
+ * }
+ *
+ * VALIDATION:
+ * - Unknown action or invalid filter values return 400 (an ignored filter
+ *   would widen the match)
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { buildAlertWhere } from '@/lib/utils/alertFilters'
+import { syncIncidentAcknowledgement } from '@/lib/utils/incidents'
+import { logAlertActivity } from '@/lib/utils/alertActivity'
+import type { Prisma } from '@/lib/generated/prisma'
+
+type BulkAction = 'acknowledge' | 'mark_read'
+
+/**
+ * Alerts acknowledged per query - keeps the ID list, the update and the work
+ * log of one round small, however many alerts match
+ */
+const BULK_CHUNK_SIZE = 1000
+
+export async function POST(req: Request) {
+  try {
+    // STEP 1: Authentication check
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // STEP 2: Parse and validate request body
+    const body = await req.json()
+    const { action, filters = {}, dry_run = false } = body as {
+      action: BulkAction
+      filters?: Record<string, unknown>
+      dry_run?: boolean
+    }
+
+    const details: string[] = []
+
+    if (action !== 'acknowledge' && action !== 'mark_read') {
+      details.push('action must be one of acknowledge, mark_read')
+    }
+    if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+      details.push('filters must be an object')
+    }
+
+    const { where, errors } = buildAlertWhere(user.id, details.length === 0 ? filters : {})
+    details.push(...errors)
+
+    if (details.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details },
+        { status: 400 }
+      )
+    }
+
+    // COMMENT: Narrow to the alerts the action actually changes
+    const matchWhere: Prisma.AlertWhereInput = action === 'acknowledge'
+      ? { AND: [where, { is_acknowledged: false }] }
+      : { AND: [where, { is_read: false }] }
+
+    // STEP 3: Dry run - count only
+    if (dry_run === true) {
+      const matched = await prisma.alert.count({ where: matchWhere })
+
+      return NextResponse.json({
+        action,
+        dry_run: true,
+        matched_count: matched,
+        updated_count: 0,
+      })
+    }
+
+    console.log('[API /alerts/bulk] POST request:', {
+      user_id: user.id,
+      action,
+      filters: where,
+    })
+
+    // STEP 4: Apply the action
+    if (action === 'mark_read') {
+      const result = await prisma.alert.updateMany({
+        where: matchWhere,
+        data: { is_read: true },
+      })
+
+      console.log('[API /alerts/bulk] Marked as read:', result.count)
+
+      return NextResponse.json({
+        action,
+        dry_run: false,
+        matched_count: result.count,
+        updated_count: result.count,
+      })
+    }
+
+    // COMMENT: Resolve the IDs of each chunk first so the work log and incident
+    // sync cover exactly the alerts that were updated. Acknowledged alerts drop
+    // out of matchWhere, so the next query returns the next chunk.
+    const acknowledgedAt = new Date()
+    const incidentIds = new Set<string>()
+    let matchedCount = 0
+    let updatedCount = 0
+
+    while (true) {
+      const toAcknowledge = await prisma.alert.findMany({
+        where: matchWhere,
+        select: { id: true, incident_id: true },
+        orderBy: { id: 'asc' },
+        take: BULK_CHUNK_SIZE,
+      })
+      if (toAcknowledge.length === 0) break
+
+      const alertIds = toAcknowledge.map((a) => a.id)
+
+      const result = await prisma.alert.updateMany({
+        where: { id: { in: alertIds }, user_id: user.id, is_acknowledged: false },
+        data: {
+          is_acknowledged: true,
+          acknowledged_at: acknowledgedAt,
+          acknowledged_by: user.id,
+          is_read: true,
+        },
+      })
+
+      await logAlertActivity(
+        alertIds,
+        'ACKNOWLEDGED',
+        'Acknowledged (bulk, by filter)',
+        { id: user.id, email: user.email }
+      )
+
+      toAcknowledge.forEach((a) => a.incident_id && incidentIds.add(a.incident_id))
+      matchedCount += alertIds.length
+      updatedCount += result.count
+
+      if (toAcknowledge.length < BULK_CHUNK_SIZE) break
+    }
+
+    await syncIncidentAcknowledgement([...incidentIds], user.id)
+
+    console.log('[API /alerts/bulk] Acknowledged:', {
+      matched: matchedCount,
+      acknowledged: updatedCount,
+    })
+
+    return NextResponse.json({
+      action,
+      dry_run: false,
+      matched_count: matchedCount,
+      updated_count: updatedCount,
+    })
+  } catch (error) {
+    console.error('[API /alerts/bulk] Error applying bulk action:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,14 +6,22 @@
  * QUERY PARAMETERS:
  * - is_acknowledged (boolean): Filter by acknowledgment status
  * - is_read (boolean): Filter by read status
+ * - is_resolved (boolean): Filter by resolution (resolved_at set or not)
  * - source (AlertSource): Filter by THERMIONIX, SCADA, or WEATHERLINK
  * - alert_type (AlertType): Filter by specific alert type
  * - severity (AlertSeverity): Filter by LOW, MEDIUM, or HIGH
+ * - device_id (string): Filter by Thermionix device
+ * - location (string): Filter by lamela / station, e.g. "L8"
+ * - is_suppressed (boolean): true for alerts recorded during maintenance
+ *   windows (default false - they are hidden)
  * - from (ISO date): Filter alerts created after this date
  * - to (ISO date): Filter alerts created before this date
  * - limit (number): Results per page (max 200, default 50)
  * - offset (number): Pagination offset (default 0)
  *
+ * Filters are parsed by lib/utils/alertFilters.ts (shared with
+ * POST /api/alerts/bulk).
+ *
  * ORDERING:
  * 1. Unacknowledged alerts first (is_acknowledged ASC)
  * 2. High severity first (severity DESC: HIGH > MEDIUM > LOW)
@@ -37,7 +45,7 @@
 import { NextResponse } from 'next/server'
 import { getCurrentUser } from '@/lib/supabase/server'
 import { prisma } from '@/lib/prisma'
-import type { AlertType, AlertSource, AlertSeverity } from '@/lib/generated/prisma'
+import { buildAlertWhere } from '@/lib/utils/alertFilters'
 
 export async function GET(req: Request) {
   try {
@@ -54,13 +62,6 @@ export async function GET(req: Request) {
     // STEP 2: Parse query parameters
     const { searchParams } = new URL(req.url)
 
-    const isAcknowledged = searchParams.get('is_acknowledged')
-    const isRead = searchParams.get('is_read')
-    const source = searchParams.get('source') as AlertSource | null
-    const alertType = searchParams.get('alert_type') as AlertType | null
-    const severity = searchParams.get('severity') as AlertSeverity | null
-    const from = searchParams.get('from')
-    const to = searchParams.get('to')
     const limitParam = searchParams.get('limit')
     const offsetParam = searchParams.get('offset')
 
@@ -83,53 +84,9 @@ export async function GET(req: Request) {
     }
 
     // STEP 4: Build WHERE clause for filtering
-    const whereClause: any = {
-      user_id: user.id, // Security: only user's alerts
-    }
-
-    // Filter by acknowledgment status
-    if (isAcknowledged !== null) {
-      whereClause.is_acknowledged = isAcknowledged === 'true'
-    }
-
-    // Filter by read status
-    if (isRead !== null) {
-      whereClause.is_read = isRead === 'true'
-    }
-
-    // Filter by source
-    if (source && ['THERMIONIX', 'SCADA', 'WEATHERLINK'].includes(source)) {
-      whereClause.source = source
-    }
-
-    // Filter by alert type
-    if (alertType) {
-      whereClause.alert_type = alertType
-    }
-
-    // Filter by severity
-    if (severity && ['LOW', 'MEDIUM', 'HIGH'].includes(severity)) {
-      whereClause.severity = severity
-    }
-
-    // Filter by date range
-    if (from || to) {
-      whereClause.created_at = {}
-
-      if (from) {
-        const fromDate = new Date(from)
-        if (!isNaN(fromDate.getTime())) {
-          whereClause.created_at.gte = fromDate
-        }
-      }
-
-      if (to) {
-        const toDate = new Date(to)
-        if (!isNaN(toDate.getTime())) {
-          whereClause.created_at.lte = toDate
-        }
-      }
-    }
+    // COMMENT: Invalid filter values are skipped here (the list just shows
+    // more); the bulk endpoint rejects them instead
+    const { where: whereClause } = buildAlertWhere(user.id, Object.fromEntries(searchParams))
 
     console.log('[API /alerts] GET request:', {
       user_id: user.id,
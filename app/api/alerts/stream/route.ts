@@ -0,0 +1,216 @@
+/**
+ * GET /api/alerts/stream
+ *
+ * Server-Sent Events stream of the user's alert changes
+ *
+ * EVENTS:
+ * - new_alert: Alert created since the last event, or outlasting the
+ *   maintenance window it was suppressed in
+ * - alert_escalated: Escalation policy raised it (comes back unread)
+ * - alert_updated: Anything else changed (new measurement, read, acknowledged)
+ * - alert_resolved: Value back in range
+ *   → data: Alert (JSON)
+ * - unread_count: Number of unread alerts changed
+ *   → data: { count: number }
+ *
+ * RESUME:
+ * - Every alert event has id "{updated_at ms}_{alert id}"
+ * - EventSource sends it back as Last-Event-ID when it reconnects (or pass
+ *   ?last_event_id=...), and the stream continues after that alert in
+ *   (updated_at, id) order
+ * - Without it the stream starts now - load the current list via GET /api/alerts
+ * - The cursor also goes out as an id-only message right after connecting,
+ *   with every heartbeat and before the stream closes itself, so a reconnect
+ *   resumes from there even when no alert changed in between
+ *
+ * HOW:
+ * - Checks alerts.updated_at every STREAM_POLL_INTERVAL_MS - one indexed
+ *   query per connection instead of every client re-fetching 50 alerts
+ * - Pages by (updated_at, id), so a bulk update giving hundreds of alerts
+ *   the same updated_at is delivered batch by batch
+ * - Closes after STREAM_MAX_DURATION_MS; EventSource reconnects by itself
+ *   (retry hint below) and resumes from the last event
+ *
+ * AUTHENTICATION:
+ * - Requires valid session, returns 401 otherwise
+ * - Only streams alerts belonging to the authenticated user
+ * - Suppressed alerts (maintenance windows) are left out
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import type { Alert } from '@/lib/generated/prisma'
+
+export const dynamic = 'force-dynamic'
+
+const STREAM_POLL_INTERVAL_MS = 2000
+const STREAM_HEARTBEAT_MS = 15000
+const STREAM_MAX_DURATION_MS = 5 * 60 * 1000
+const STREAM_RETRY_MS = 3000
+const STREAM_BATCH_SIZE = 100
+
+type StreamCursor = {
+  time: Date
+  // COMMENT: Last alert sent with updated_at exactly at `time` ('' = none) -
+  // the next page starts after it, same-millisecond changes aren't lost
+  lastId: string
+}
+
+function parseLastEventId(value: string | null): StreamCursor | null {
+  if (!value) return null
+  const [ms, id] = value.split('_')
+  const time = new Date(parseInt(ms))
+  if (isNaN(time.getTime())) return null
+  return { time, lastId: id ?? '' }
+}
+
+/**
+ * Event id for the cursor - "{time ms}_{alert id}", parsed by parseLastEventId
+ */
+function formatEventId(time: Date, alertId = ''): string {
+  return `${time.getTime()}_${alertId}`
+}
+
+function getEventName(alert: Alert, since: Date): string {
+  if (alert.resolved_at) return 'alert_resolved'
+  if (alert.created_at.getTime() >= since.getTime()) return 'new_alert'
+  // COMMENT: Raised during maintenance and still going afterwards - the client
+  // hasn't seen it yet (known alerts are only replaced, not toasted again)
+  if (alert.maintenance_window_id && !alert.is_read) return 'new_alert'
+  if (alert.escalated_at && alert.escalated_at.getTime() >= since.getTime()) return 'alert_escalated'
+  return 'alert_updated'
+}
+
+export async function GET(req: Request) {
+  // STEP 1: Authentication check
+  const user = await getCurrentUser()
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized - Please log in' },
+      { status: 401 }
+    )
+  }
+
+  // STEP 2: Where to start
+  const { searchParams } = new URL(req.url)
+  const cursor: StreamCursor =
+    parseLastEventId(req.headers.get('last-event-id') || searchParams.get('last_event_id')) ||
+    { time: new Date(), lastId: '' }
+
+  const encoder = new TextEncoder()
+  let closed = false
+  let pollTimer: NodeJS.Timeout | null = null
+  let heartbeatTimer: NodeJS.Timeout | null = null
+  let lifetimeTimer: NodeJS.Timeout | null = null
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          close()
+        }
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        if (pollTimer) clearTimeout(pollTimer)
+        if (heartbeatTimer) clearInterval(heartbeatTimer)
+        if (lifetimeTimer) clearTimeout(lifetimeTimer)
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      }
+
+      let unreadCount: number | null = null
+
+      // COMMENT: A message with only an id updates the client's Last-Event-ID
+      // without firing an event
+      const sendCursor = () => {
+        send(`id: ${formatEventId(cursor.time, cursor.lastId)}\n\n`)
+      }
+
+      // STEP 3: Send changes since the cursor, then the unread count if it changed
+      const poll = async () => {
+        let hasMore = false
+        try {
+          const since = cursor.time
+          const changed = await prisma.alert.findMany({
+            where: {
+              user_id: user.id,
+              is_suppressed: false,
+              OR: [
+                { updated_at: { gt: since } },
+                { updated_at: since, id: { gt: cursor.lastId } },
+              ],
+            },
+            orderBy: [{ updated_at: 'asc' }, { id: 'asc' }],
+            take: STREAM_BATCH_SIZE,
+          })
+          hasMore = changed.length === STREAM_BATCH_SIZE
+
+          for (const alert of changed) {
+            send(
+              `id: ${formatEventId(alert.updated_at, alert.id)}\n` +
+              `event: ${getEventName(alert, since)}\n` +
+              `data: ${JSON.stringify(alert)}\n\n`
+            )
+
+            cursor.time = alert.updated_at
+            cursor.lastId = alert.id
+          }
+
+          const count = await prisma.alert.count({
+            where: { user_id: user.id, is_read: false },
+          })
+          if (count !== unreadCount) {
+            unreadCount = count
+            send(`event: unread_count\ndata: ${JSON.stringify({ count })}\n\n`)
+          }
+        } catch (error) {
+          console.error('[API /alerts/stream] Error polling alerts:', error)
+        } finally {
+          // COMMENT: A full batch means more are waiting - continue right away
+          if (!closed) pollTimer = setTimeout(poll, hasMore ? 0 : STREAM_POLL_INTERVAL_MS)
+        }
+      }
+
+      send(`retry: ${STREAM_RETRY_MS}\n\n`)
+      sendCursor()
+      poll()
+
+      // Comment lines keep proxies from closing an idle connection
+      heartbeatTimer = setInterval(() => {
+        send(': ping\n\n')
+        sendCursor()
+      }, STREAM_HEARTBEAT_MS)
+      lifetimeTimer = setTimeout(() => {
+        sendCursor()
+        close()
+      }, STREAM_MAX_DURATION_MS)
+      req.signal.addEventListener('abort', close)
+    },
+    cancel() {
+      closed = true
+      if (pollTimer) clearTimeout(pollTimer)
+      if (heartbeatTimer) clearInterval(heartbeatTimer)
+      if (lifetimeTimer) clearTimeout(lifetimeTimer)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
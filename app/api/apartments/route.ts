@@ -0,0 +1,51 @@
+/**
+ * Apartments API Route
+ *
+ * ENDPOINT: GET /api/apartments
+ *
+ * Apartments from the device registry with their Thermionix probes - the
+ * Thermionix page picks the climate and CO2 probe from the capabilities
+ * instead of pairing device names.
+ *
+ * RETURNS:
+ * - 200: {
+ *     apartments: Array<{
+ *       id, name: "L8_53_12", number: 12, floor, area_m2, orientation, occupants,
+ *       building: { code: "L8_53", number: 53, lamela: { code: "L8" } } | null,
+ *       probes: Array<{ id, hub_id, device_id, has_temperature, has_humidity, has_co2 }>
+ *     }>
+ *   } - ordered lamela → building → apartment
+ * - 401: Not authenticated
+ *
+ * NOTE: Probes are registered as their measurements arrive (POST
+ * /api/thermionix and the alert worker); scripts/backfill-device-registry.ts
+ * fills in the history and links apartments created before the location
+ * hierarchy to their building (building is null until then)
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { getApartmentsWithProbes } from '@/lib/utils/deviceRegistry'
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const apartments = await getApartmentsWithProbes()
+
+    return NextResponse.json({ apartments })
+  } catch (error) {
+    console.error('[API /apartments] Error fetching apartments:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
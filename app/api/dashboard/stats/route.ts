@@ -7,13 +7,19 @@
  * - WeatherLink: current outdoor temp, humidity + unacknowledged alert count
  *
  * GET /api/dashboard/stats
+ *
+ * QUERY PARAMETERS:
+ * - raw (optional): "true" averages the Thermionix values as stored, without
+ *   sensor calibration
  */
 
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getCurrentUser } from '@/lib/supabase/server'
+import { calibrateReading } from '@/lib/utils/calibration'
+import type { SensorCalibration } from '@/lib/generated/prisma'
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
     const user = await getCurrentUser()
 
@@ -21,6 +27,8 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    const raw = new URL(req.url).searchParams.get('raw') === 'true'
+
     // Fetch all data in parallel for efficiency
     const [
       thermionixStats,
@@ -30,7 +38,7 @@ export async function GET() {
       userSettings,
     ] = await Promise.all([
       // Thermionix: Get latest measurements and calculate averages
-      getThermionixStats(),
+      getThermionixStats(raw),
       // SCADA: Get latest measurements
       getScadaStats(),
       // WeatherLink: Get latest measurement
@@ -65,17 +73,37 @@ export async function GET() {
   }
 }
 
-async function getThermionixStats() {
+async function getThermionixStats(raw: boolean) {
   // Get measurements from last 7 days for averages
   const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
 
-  const measurements = await prisma.thermionyx_measurements.findMany({
-    where: {
-      datetime: { gte: sevenDaysAgo },
-    },
-    orderBy: { datetime: 'desc' },
-    take: 1000, // Limit for performance
-  })
+  const [rawMeasurements, calibrations] = await Promise.all([
+    prisma.thermionyx_measurements.findMany({
+      where: {
+        datetime: { gte: sevenDaysAgo },
+      },
+      orderBy: { datetime: 'desc' },
+      take: 1000, // Limit for performance
+    }),
+    raw
+      ? Promise.resolve([] as SensorCalibration[])
+      : prisma.sensorCalibration.findMany({
+          where: { OR: [{ valid_to: null }, { valid_to: { gt: sevenDaysAgo } }] },
+        }),
+  ])
+
+  // Calibrations are per probe (Device.device_id = probe_id)
+  const calibrationsByDevice = new Map<string, SensorCalibration[]>()
+  for (const calibration of calibrations) {
+    calibrationsByDevice.set(calibration.device_id, [
+      ...(calibrationsByDevice.get(calibration.device_id) || []),
+      calibration,
+    ])
+  }
+
+  const measurements = rawMeasurements.map((m) =>
+    calibrateReading(m, calibrationsByDevice.get(m.probe_id.toString()) || [])
+  )
 
   if (measurements.length === 0) {
     return {
@@ -179,6 +207,7 @@ async function getAlertCountsBySource(userId: string) {
     where: {
       user_id: userId,
       is_acknowledged: false,
+      is_suppressed: false,
     },
     _count: {
       id: true,
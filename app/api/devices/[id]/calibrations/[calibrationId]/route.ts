@@ -0,0 +1,144 @@
+/**
+ * Single Sensor Calibration API Route
+ *
+ * ENDPOINTS:
+ * - PUT    /api/devices/[id]/calibrations/[calibrationId] - Replace a calibration
+ * - DELETE /api/devices/[id]/calibrations/[calibrationId] - Remove it (readings
+ *   it covered are shown raw again)
+ *
+ * SECURITY:
+ * - Requires authentication
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { calibrationSchema } from '@/lib/validations/calibration'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+    calibrationId: string
+  }>
+}
+
+/**
+ * PUT /api/devices/[id]/calibrations/[calibrationId]
+ *
+ * REQUEST BODY: Same as POST /api/devices/[id]/calibrations
+ *
+ * RETURNS:
+ * - 200: Updated SensorCalibration
+ * - 400: Validation failed
+ * - 404: Calibration not found for this device
+ */
+export async function PUT(
+  req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id, calibrationId } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const parsed = calibrationSchema.safeParse(await req.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { metric, offset, gain, valid_from, valid_to, note } = parsed.data
+
+    const result = await prisma.sensorCalibration.updateMany({
+      where: { id: calibrationId, device_id: id },
+      data: {
+        metric,
+        offset,
+        gain,
+        valid_from: new Date(valid_from),
+        valid_to: valid_to ? new Date(valid_to) : null,
+        note: note || null,
+      },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Calibration not found' },
+        { status: 404 }
+      )
+    }
+
+    const calibration = await prisma.sensorCalibration.findUnique({
+      where: { id: calibrationId },
+    })
+
+    console.log('[API /devices/[id]/calibrations] Updated:', { device_id: id, id: calibrationId })
+
+    return NextResponse.json(calibration)
+  } catch (error) {
+    console.error('[API /devices/[id]/calibrations] Error updating calibration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/devices/[id]/calibrations/[calibrationId]
+ *
+ * RETURNS:
+ * - 200: { deleted: true }
+ * - 404: Calibration not found for this device
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id, calibrationId } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const result = await prisma.sensorCalibration.deleteMany({
+      where: { id: calibrationId, device_id: id },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Calibration not found' },
+        { status: 404 }
+      )
+    }
+
+    console.log('[API /devices/[id]/calibrations] Deleted:', { device_id: id, id: calibrationId })
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error('[API /devices/[id]/calibrations] Error deleting calibration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
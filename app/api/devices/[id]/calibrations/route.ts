@@ -0,0 +1,164 @@
+/**
+ * Sensor Calibrations API Route
+ *
+ * Linear corrections (offset/gain) per probe and metric, applied to
+ * Thermionix readings at query time (see lib/utils/calibration.ts)
+ *
+ * ENDPOINTS:
+ * - GET  /api/devices/[id]/calibrations - List the device's calibrations
+ * - POST /api/devices/[id]/calibrations - Add a calibration
+ *
+ * SECURITY:
+ * - Requires authentication
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { calibrationSchema } from '@/lib/validations/calibration'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * GET /api/devices/[id]/calibrations
+ *
+ * RETURNS:
+ * - 200: { calibrations: SensorCalibration[] } - latest start first
+ * - 401: Not authenticated
+ */
+export async function GET(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const calibrations = await prisma.sensorCalibration.findMany({
+      where: { device_id: id },
+      orderBy: { valid_from: 'desc' },
+    })
+
+    return NextResponse.json({ calibrations })
+  } catch (error) {
+    console.error('[API /devices/[id]/calibrations] Error fetching calibrations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/devices/[id]/calibrations
+ *
+ * REQUEST BODY (see calibrationSchema):
+ * {
+ *   metric: 'TEMPERATURE' | 'HUMIDITY' | 'CO2',
+ *   offset: number,            // e.g. -0.7 for a probe reading 0.7 °C high
+ *   gain: number,              // 1 = offset only
+ *   valid_from: string,        // ISO date
+ *   valid_to?: string | null,  // ISO date, omit = still valid
+ *   note?: string
+ * }
+ *
+ * RE-CALIBRATION:
+ * - An open-ended calibration of the same metric that started earlier is
+ *   closed at the new valid_from, so older readings keep their correction
+ *
+ * RETURNS:
+ * - 201: Created SensorCalibration
+ * - 400: Validation failed
+ * - 404: Device not found
+ */
+export async function POST(
+  req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { device_id: id },
+      select: { device_id: true },
+    })
+
+    if (!device) {
+      return NextResponse.json(
+        { error: 'Device not found' },
+        { status: 404 }
+      )
+    }
+
+    const parsed = calibrationSchema.safeParse(await req.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { metric, offset, gain, valid_from, valid_to, note } = parsed.data
+    const validFrom = new Date(valid_from)
+
+    const [closed, calibration] = await prisma.$transaction([
+      prisma.sensorCalibration.updateMany({
+        where: { device_id: id, metric, valid_to: null, valid_from: { lt: validFrom } },
+        data: { valid_to: validFrom },
+      }),
+      prisma.sensorCalibration.create({
+        data: {
+          device_id: id,
+          metric,
+          offset,
+          gain,
+          valid_from: validFrom,
+          valid_to: valid_to ? new Date(valid_to) : null,
+          note: note || null,
+          created_by: user.id,
+        },
+      }),
+    ])
+
+    console.log('[API /devices/[id]/calibrations] Created:', {
+      device_id: id,
+      metric,
+      offset,
+      gain,
+      closed_previous: closed.count,
+    })
+
+    return NextResponse.json(calibration, { status: 201 })
+  } catch (error) {
+    console.error('[API /devices/[id]/calibrations] Error creating calibration:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Single Device API Route
+ *
+ * ENDPOINTS:
+ * - GET    /api/devices/[id] - Device with registry links, activity and open alerts
+ * - PATCH  /api/devices/[id] - Edit name/location/description, decommission or reactivate
+ * - DELETE /api/devices/[id] - Remove the device row
+ *
+ * [id] is Device.device_id (for Thermionix probes the probe ID, e.g. "10315").
+ * Measurements and alerts are kept when a device is deleted - decommissioning
+ * is the usual way to retire a device.
+ *
+ * SECURITY:
+ * - Requires authentication
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/lib/generated/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import {
+  deviceUpdateSchema,
+  getLamelaFromDeviceName,
+  locationMatchesName,
+  locationMismatch,
+} from '@/lib/validations/device'
+import { getProbeMeasurementWhere, linkDeviceToRegistry } from '@/lib/utils/deviceRegistry'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * GET /api/devices/[id]
+ *
+ * RETURNS:
+ * - 200: {
+ *     device: Device & { probe: Probe & { hub, apartment: { building: { lamela } } } | null },
+ *     activity: {                       // null for devices that aren't probes
+ *       last_seen: string | null,
+ *       count_24h: number,
+ *       count_7d: number,
+ *       count_total: number
+ *     } | null,
+ *     open_alerts: Alert[]              // The user's unresolved alerts for this device
+ *   }
+ * - 404: Device not found
+ */
+export async function GET(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { device_id: id },
+      include: {
+        probe: {
+          include: {
+            hub: true,
+            apartment: { include: { building: { include: { lamela: true } } } },
+          },
+        },
+      },
+    })
+
+    if (!device) {
+      return NextResponse.json(
+        { error: 'Device not found' },
+        { status: 404 }
+      )
+    }
+
+    // STEP: Measurement activity - Device.device_id is the probe ID
+    const probeId = parseInt(id, 10)
+    let activity = null
+
+    if (!isNaN(probeId)) {
+      const { where } = await getProbeMeasurementWhere(probeId)
+      const now = Date.now()
+      const dayAgo = new Date(now - 24 * 60 * 60 * 1000)
+      const weekAgo = new Date(now - 7 * 24 * 60 * 60 * 1000)
+
+      const [latest, count24h, count7d, countTotal] = await Promise.all([
+        prisma.thermionyx_measurements.aggregate({ where, _max: { datetime: true } }),
+        prisma.thermionyx_measurements.count({ where: { ...where, datetime: { gte: dayAgo } } }),
+        prisma.thermionyx_measurements.count({ where: { ...where, datetime: { gte: weekAgo } } }),
+        prisma.thermionyx_measurements.count({ where }),
+      ])
+
+      activity = {
+        last_seen: latest._max.datetime,
+        count_24h: count24h,
+        count_7d: count7d,
+        count_total: countTotal,
+      }
+    }
+
+    const openAlerts = await prisma.alert.findMany({
+      where: {
+        user_id: user.id,
+        source: 'THERMIONIX',
+        device_id: id,
+        resolved_at: null,
+        is_suppressed: false,
+      },
+      orderBy: { created_at: 'desc' },
+      take: 50,
+    })
+
+    return NextResponse.json({ device, activity, open_alerts: openAlerts })
+  } catch (error) {
+    console.error('[API /devices/[id]] Error fetching device:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/devices/[id]
+ *
+ * REQUEST BODY (all optional, see deviceUpdateSchema):
+ * {
+ *   name?: string,            // "L8_53_12" / "L8_53_12_CO2"
+ *   location?: string,        // "L8" - defaults to the lamela of a new name, "" clears it
+ *   description?: string,
+ *   decommissioned?: boolean  // true retires the device, false reactivates it
+ * }
+ *
+ * RETURNS:
+ * - 200: Updated Device
+ * - 400: Validation failed
+ * - 404: Device not found
+ */
+export async function PATCH(
+  req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const existing = await prisma.device.findUnique({
+      where: { device_id: id },
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Device not found' },
+        { status: 404 }
+      )
+    }
+
+    const parsed = deviceUpdateSchema.safeParse(await req.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { name, location, description, decommissioned } = parsed.data
+    const renamed = name !== undefined && name !== existing.name
+
+    // COMMENT: The schema can only compare with a name in the body - a
+    // location on its own has to match the stored name
+    if (!locationMatchesName({ name: name ?? existing.name, location })) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: [`${locationMismatch.path.join('.')}: ${locationMismatch.message}`],
+        },
+        { status: 400 }
+      )
+    }
+
+    // COMMENT: A decommissioned device keeps its original decommission date
+    const decommissionedAt = decommissioned === undefined
+      ? undefined
+      : decommissioned ? existing.decommissioned_at ?? new Date() : null
+
+    const device = await prisma.device.update({
+      where: { device_id: id },
+      data: {
+        name,
+        location: location === undefined
+          ? renamed ? getLamelaFromDeviceName(name) : undefined
+          : location || null,
+        description: description === undefined ? undefined : description || null,
+        decommissioned_at: decommissionedAt,
+      },
+    })
+
+    // COMMENT: A new name may mean a different apartment
+    if (renamed) {
+      await linkDeviceToRegistry(device)
+    }
+
+    console.log('[API /devices/[id]] Updated:', {
+      device_id: id,
+      renamed,
+      decommissioned: device.decommissioned_at !== null,
+    })
+
+    return NextResponse.json(device)
+  } catch (error) {
+    console.error('[API /devices/[id]] Error updating device:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/devices/[id]
+ *
+ * RETURNS:
+ * - 200: { deleted: true }
+ * - 404: Device not found
+ * - 409: Device has calibrations - their history is kept, decommission instead
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const calibrations = await prisma.sensorCalibration.count({
+      where: { device_id: id },
+    })
+
+    if (calibrations > 0) {
+      return NextResponse.json(
+        { error: 'Device has calibration history - decommission it instead of deleting it' },
+        { status: 409 }
+      )
+    }
+
+    // COMMENT: The probe stays in the registry (its device link is cleared)
+    const result = await prisma.device.deleteMany({
+      where: { device_id: id },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Device not found' },
+        { status: 404 }
+      )
+    }
+
+    console.log('[API /devices/[id]] Deleted:', id)
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    // COMMENT: A calibration added since the check above (onDelete: Restrict)
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+      return NextResponse.json(
+        { error: 'Device has calibration history - decommission it instead of deleting it' },
+        { status: 409 }
+      )
+    }
+
+    console.error('[API /devices/[id]] Error deleting device:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
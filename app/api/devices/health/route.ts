@@ -0,0 +1,51 @@
+/**
+ * GET /api/devices/health
+ *
+ * Health and data quality of every active device for the device health page
+ * (see lib/utils/deviceHealth.ts)
+ *
+ * RESPONSE:
+ * - 200: {
+ *     generated_at: string,
+ *     expected_interval_minutes: number,
+ *     devices: DeviceHealth[]   // last reading, reporting rate, gaps,
+ *                               // null %, flatline, out-of-range per sensor
+ *   }
+ *
+ * AUTHENTICATION:
+ * - Requires valid session, returns 401 otherwise
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { EXPECTED_INTERVAL_MINUTES, getDeviceHealth } from '@/lib/utils/deviceHealth'
+
+export async function GET() {
+  try {
+    // STEP 1: Authentication check
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // STEP 2: Aggregate the last 7 days of measurements per probe
+    const now = new Date()
+    const devices = await getDeviceHealth(now)
+
+    return NextResponse.json({
+      generated_at: now.toISOString(),
+      expected_interval_minutes: EXPECTED_INTERVAL_MINUTES,
+      devices,
+    })
+  } catch (error) {
+    console.error('[API /devices/health] Error computing device health:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -27,6 +27,8 @@
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
 import { createServerClient } from "@/lib/supabase/server";
+import { deviceSchema, getLamelaFromDeviceName } from "@/lib/validations/device";
+import { linkDeviceToRegistry } from "@/lib/utils/deviceRegistry";
 
 /**
  * GET /api/devices
@@ -71,6 +73,9 @@ import { createServerClient } from "@/lib/supabase/server";
  * - Currently public (no auth check)
  * - TODO: Add auth check if devices should be private per user
  *
+ * NOTE: Decommissioned devices are included (decommissioned_at set) - the
+ * device management page lists them too
+ *
  * @returns JSON array of all Device objects
  */
 export async function GET() {
@@ -130,8 +135,12 @@ export async function GET() {
  * ```
  *
  * VALIDATION:
- * - TODO: Add Zod schema validation for robust input checking
- * - Currently trusts client data (dangerous in production!)
+ * - deviceSchema from lib/validations/device.ts (same as the "Add device" form)
+ * - location defaults to the lamela of the name
+ *
+ * REGISTRY:
+ * - The device is linked to its Probe and Apartment right away
+ *   (lib/utils/deviceRegistry.ts), no backfill needed
  *
  * @param req - Next.js Request object containing JSON body
  * @returns JSON object of the created Device
@@ -153,11 +162,16 @@ export async function POST(req: Request) {
     // It's async because reading the body is an I/O operation
     const data = await req.json();
 
-    // STEP 3: Validate required fields
-    // COMMENT: Basic validation - in production, use Zod for comprehensive validation
-    if (!data.device_id || !data.name) {
+    // STEP 3: Validate fields
+    // LEARNING: safeParse returns { success, data | error } instead of throwing
+    const parsed = deviceSchema.safeParse(data);
+
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: "Missing required fields: device_id and name" },
+        {
+          error: "Validation failed",
+          details: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+        },
         { status: 400 }
       );
     }
@@ -168,14 +182,16 @@ export async function POST(req: Request) {
     // If you need to set device_type, use raw SQL query instead
     const newDevice = await prisma.device.create({
       data: {
-        device_id: data.device_id,
-        name: data.name,
-        location: data.location || null,
-        description: data.description || null,
+        device_id: parsed.data.device_id,
+        name: parsed.data.name,
+        location: parsed.data.location || getLamelaFromDeviceName(parsed.data.name),
+        description: parsed.data.description || null,
         // device_type omitted - it's an unsupported enum type in Prisma
       },
     });
 
+    await linkDeviceToRegistry(newDevice);
+
     // STEP 5: Return created device
     // LEARNING: 201 Created status indicates successful resource creation
     return NextResponse.json(newDevice, { status: 201 });
@@ -0,0 +1,64 @@
+/**
+ * Location Hierarchy API Route
+ *
+ * ENDPOINT: GET /api/hierarchy?lamela=L8
+ *
+ * QUERY PARAMETERS:
+ * - lamela (optional): Only this lamela ("L8"), omit for all
+ *
+ * RETURNS:
+ * - 200: {
+ *     lamelas: Array<{
+ *       id, code: "L8", name, scada_location, area_m2,
+ *       buildings: Array<{
+ *         id, code: "L8_53", number, floors, area_m2,
+ *         apartments: Array<{
+ *           id, name: "L8_53_12", number, floor, area_m2, orientation, occupants,
+ *           probes: Array<{ id, hub_id, device_id, has_temperature, has_humidity, has_co2 }>
+ *         }>
+ *       }>
+ *     }>
+ *   } - lamelas, buildings and apartments in numeric order
+ * - 401: Not authenticated
+ * - 404: Unknown lamela
+ *
+ * NOTE: Filled by scripts/backfill-device-registry.ts, new SCADA locations
+ * and apartment probes are added as their measurements arrive
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { getLocationHierarchy } from '@/lib/utils/locationHierarchy'
+
+export async function GET(req: Request) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(req.url)
+    const lamela = searchParams.get('lamela') || undefined
+
+    const lamelas = await getLocationHierarchy(lamela)
+
+    if (lamela && lamelas.length === 0) {
+      return NextResponse.json(
+        { error: 'Lamela not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ lamelas })
+  } catch (error) {
+    console.error('[API /hierarchy] Error fetching hierarchy:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
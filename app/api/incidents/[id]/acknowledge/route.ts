@@ -0,0 +1,68 @@
+/**
+ * POST /api/incidents/[id]/acknowledge
+ *
+ * Acknowledge an incident and every alert in it at once
+ *
+ * BEHAVIOR:
+ * - All unacknowledged alerts of the incident: is_acknowledged = true,
+ *   acknowledged_at = now, acknowledged_by = current user, is_read = true
+ * - Incident: status ACKNOWLEDGED (RESOLVED incidents stay RESOLVED),
+ *   ACKNOWLEDGED entry on the timeline
+ *
+ * RESPONSE:
+ * - 200: Updated Incident
+ * - 404: Not found or not the user's incident
+ *
+ * AUTHENTICATION:
+ * - Requires valid session, returns 401 otherwise
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { acknowledgeIncident } from '@/lib/utils/incidents'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function POST(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    console.log('[API /incidents/[id]/acknowledge] POST request:', {
+      incident_id: id,
+      user_id: user.id,
+    })
+
+    const incident = await acknowledgeIncident(id, { id: user.id, email: user.email })
+
+    if (!incident) {
+      return NextResponse.json(
+        { error: 'Incident not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(incident)
+  } catch (error) {
+    console.error('[API /incidents/[id]/acknowledge] Error acknowledging incident:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
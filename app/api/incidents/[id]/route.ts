@@ -0,0 +1,66 @@
+/**
+ * GET /api/incidents/[id]
+ *
+ * Single incident with its alerts and timeline
+ *
+ * RESPONSE:
+ * - 200: Incident & {
+ *     alerts: Alert[],          // Newest first
+ *     events: IncidentEvent[],  // Timeline, oldest first
+ *   }
+ * - 404: Not found or not the user's incident
+ *
+ * AUTHENTICATION:
+ * - Requires valid session, returns 401 otherwise
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function GET(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const incident = await prisma.incident.findFirst({
+      where: { id, user_id: user.id },
+      include: {
+        alerts: { orderBy: { created_at: 'desc' } },
+        events: { orderBy: { created_at: 'asc' } },
+      },
+    })
+
+    if (!incident) {
+      return NextResponse.json(
+        { error: 'Incident not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(incident)
+  } catch (error) {
+    console.error('[API /incidents/[id]] Error fetching incident:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * GET /api/incidents
+ *
+ * Fetch user's incidents (groups of related alerts, see lib/utils/incidents.ts)
+ *
+ * QUERY PARAMETERS:
+ * - status (IncidentStatus): OPEN, ACKNOWLEDGED or RESOLVED (default: all)
+ * - limit (number): Results per page (max 200, default 50)
+ * - offset (number): Pagination offset (default 0)
+ *
+ * ORDERING:
+ * - Most recent activity first (last_alert_at DESC)
+ *
+ * RESPONSE:
+ * {
+ *   incidents: Incident[],
+ *   total: number,
+ *   limit: number,
+ *   offset: number,
+ *   hasMore: boolean
+ * }
+ *
+ * AUTHENTICATION:
+ * - Requires valid session, returns 401 otherwise
+ * - Only returns incidents belonging to the authenticated user
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import type { IncidentStatus } from '@/lib/generated/prisma'
+
+const INCIDENT_STATUSES: IncidentStatus[] = ['OPEN', 'ACKNOWLEDGED', 'RESOLVED']
+
+export async function GET(req: Request) {
+  try {
+    // STEP 1: Authentication check
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // STEP 2: Parse query parameters
+    const { searchParams } = new URL(req.url)
+
+    const status = searchParams.get('status') as IncidentStatus | null
+    const limitParam = searchParams.get('limit')
+    const offsetParam = searchParams.get('offset')
+
+    const limit = limitParam ? Math.min(parseInt(limitParam, 10), 200) : 50
+    const offset = offsetParam ? parseInt(offsetParam, 10) : 0
+
+    if (isNaN(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: 'Invalid limit parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: 'Invalid offset parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (status && !INCIDENT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${INCIDENT_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // STEP 3: Query incidents
+    const where = {
+      user_id: user.id,
+      ...(status ? { status } : {}),
+    }
+
+    const [incidents, total] = await Promise.all([
+      prisma.incident.findMany({
+        where,
+        orderBy: { last_alert_at: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.incident.count({ where }),
+    ])
+
+    return NextResponse.json({
+      incidents,
+      total,
+      limit,
+      offset,
+      hasMore: offset + incidents.length < total,
+    })
+  } catch (error) {
+    console.error('[API /incidents] Error fetching incidents:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
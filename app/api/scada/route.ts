@@ -5,7 +5,9 @@
  *
  * QUERY PARAMETERS:
  * - lamela (optional): Lamela location identifier (e.g., "L2", "L3")
- *   - If provided: returns measurements for that specific lamela
+ *   - If provided: returns measurements for that specific lamela, matched
+ *     exactly via Lamela.scada_location (location hierarchy); lamelas not
+ *     registered yet fall back to a substring match
  *   - If omitted: returns all measurements (useful for fetching unique lamelas)
  * - from (optional): Start datetime for filtering (ISO 8601 format)
  * - to (optional): End datetime for filtering (ISO 8601 format)
@@ -15,7 +17,8 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUser } from "@/lib/supabase/server";
-import { checkScadaMeasurement } from "@/lib/utils/alertDetection";
+import { evaluateScadaMeasurement } from "@/lib/utils/alertDetection";
+import { getScadaLocation, registerScadaLocation } from "@/lib/utils/locationHierarchy";
 
 export async function GET(req: Request) {
   try {
@@ -53,7 +56,10 @@ export async function GET(req: Request) {
     const whereClause: any = {};
 
     // Only filter by lamela if provided
-    if (lamela) {
+    const scadaLocation = lamela ? await getScadaLocation(lamela) : null;
+    if (scadaLocation) {
+      whereClause.location = scadaLocation;
+    } else if (lamela) {
       whereClause.location = {
         contains: lamela,
       };
@@ -89,7 +95,10 @@ export async function GET(req: Request) {
       } else {
         const step = Math.max(1, Math.floor(totalCount / limit));
         const safeLamela = lamela ? lamela.replace(/'/g, "''") : null;
-        const lamelaClause = safeLamela ? `AND location LIKE '%${safeLamela}%'` : "";
+        const safeLocation = scadaLocation ? scadaLocation.replace(/'/g, "''") : null;
+        const lamelaClause = safeLocation
+          ? `AND location = '${safeLocation}'`
+          : safeLamela ? `AND location LIKE '%${safeLamela}%'` : "";
         const fromISO = from ? from.toISOString() : null;
         const toISO = to ? to.toISOString() : null;
         const fromClause = fromISO ? `AND datetime >= '${fromISO}'::timestamptz` : "";
@@ -140,7 +149,8 @@ export async function GET(req: Request) {
 /**
  * POST /api/scada
  *
- * Create new SCADA measurements and trigger alert detection
+ * Create new SCADA measurements, register their lamela
+ * (lib/utils/locationHierarchy.ts) and trigger alert detection
  *
  * BODY:
  * {
@@ -239,23 +249,15 @@ export async function POST(req: Request) {
 
         createdMeasurements.push(measurement)
 
+        // COMMENT: New locations show up on the SCADA page without re-running
+        // the backfill; the measurement is stored either way
+        await registerScadaLocation(measurement.location).catch((err) => {
+          console.error('[SCADA POST] Location registration failed:', err)
+        })
+
         // STEP 5: Trigger alert detection (fire and forget - don't await)
         // This runs asynchronously and doesn't block the response
-        checkScadaMeasurement(
-          {
-            datetime: measurement.datetime,
-            location: measurement.location,
-            t_amb: measurement.t_amb,
-            e: measurement.e,
-          },
-          {
-            user_id: user.id,
-            expected_temp_min: userSettings.expected_temp_min,
-            expected_temp_max: userSettings.expected_temp_max,
-            expected_pressure_min: userSettings.expected_pressure_min,
-            expected_pressure_max: userSettings.expected_pressure_max,
-          }
-        ).catch((err) => {
+        evaluateScadaMeasurement(measurement, userSettings).catch((err) => {
           console.error('[SCADA POST] Alert detection failed:', err)
         })
       } catch (measurementError) {
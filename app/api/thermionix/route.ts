@@ -6,16 +6,22 @@
  * ENDPOINT: GET /api/thermionix?device_id=42&from=2024-01-01&to=2024-01-31
  *
  * QUERY PARAMETERS:
- * - device_id (required): Integer ID of the device/sensor
+ * - device_id (required): Integer ID of the probe (= Device.device_id)
  * - from (optional): Start datetime for filtering (ISO 8601 format)
  * - to (optional): End datetime for filtering (ISO 8601 format)
  * - limit (optional): Max number of records to return (default: 100)
+ * - raw (optional): "true" returns the values as stored, without sensor
+ *   calibration (see SensorCalibration in schema.prisma)
  *
  * HOW IT WORKS:
  * 1. Client sends device_id as query parameter (e.g., ?device_id=42)
- * 2. We query thermionyx_measurements table filtering by device_id
- * 3. Optionally filter by date range (for graphs showing specific time periods)
- * 4. Return latest measurements ordered by datetime DESC
+ * 2. The probe's hub is looked up in the device registry (Probe → Hub,
+ *    see lib/utils/deviceRegistry.ts)
+ * 3. We query thermionyx_measurements by hub + probe
+ * 4. Optionally filter by date range (for graphs showing specific time periods)
+ * 5. Apply the probe's sensor calibrations (unless raw=true)
+ * 6. Return measurements ordered by datetime ASC, with the calibrations used
+ *    so realtime rows can be corrected the same way on the client
  *
  * DATABASE STRUCTURE:
  * thermionyx_measurements table:
@@ -31,11 +37,10 @@
  * - Multiple probes can report different values at same datetime for same device
  *
  * WHY THIS STRUCTURE:
- * - device_id (INT) in thermionyx_measurements does NOT directly relate to Device table
- * - Device table has device_id (STRING) - different system!
- * - Device table has 'name' field with format "L8_33_67" (Lamela_Building_Apartment)
- * - We filter measurements by device_id integer, not by parsing name strings
- * - This is a limitation/quirk of the database design to be aware of
+ * - device_id (INT) in thermionyx_measurements is the hub (Hub.id)
+ * - probe_id (INT) is the probe (Probe.id) - Device.device_id holds the same
+ *   number as a STRING
+ * - Probes that aren't in the registry yet are matched by probe_id alone
  *
  * EXAMPLE USAGE:
  * ```typescript
@@ -50,7 +55,9 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUser } from "@/lib/supabase/server";
-import { checkThermionixMeasurement } from "@/lib/utils/alertDetection";
+import { evaluateThermionixMeasurement } from "@/lib/utils/alertDetection";
+import { getProbeMeasurementWhere, registerMeasurementProbe } from "@/lib/utils/deviceRegistry";
+import { calibrateReading } from "@/lib/utils/calibration";
 
 export async function GET(req: Request) {
   try {
@@ -62,6 +69,7 @@ export async function GET(req: Request) {
     const fromParam = searchParams.get("from");
     const toParam = searchParams.get("to");
     const limitParam = searchParams.get("limit");
+    const raw = searchParams.get("raw") === "true";
 
     // STEP 2: Validate required parameters
     // COMMENT: Validate that device_id parameter is provided
@@ -139,12 +147,11 @@ export async function GET(req: Request) {
     // LEARNING: We build the WHERE object conditionally based on params
     // This is more efficient than separate queries for each case
 
-    // COMMENT: Filter by probe_id - the Device table uses probe_ids (10315-10338) as device_id,
+    // COMMENT: The Device table uses probe_ids (10315-10338) as device_id,
     // while thermionyx_measurements.device_id is the hub ID (10046-10049).
-    // Probe_id matches the Device table's device_id, so we query by probe_id.
-    const whereClause: any = {
-      probe_id: deviceId,
-    };
+    // The registry knows each probe's hub, so we query by hub + probe.
+    const { where: probeWhere, hubId } = await getProbeMeasurementWhere(deviceId);
+    const whereClause: any = { ...probeWhere };
 
     // COMMENT: Add date filters if provided
     // WHY separate gte/lte: Allows filtering date ranges
@@ -193,6 +200,7 @@ export async function GET(req: Request) {
       const toISO = to ? to.toISOString() : null;
       const fromClause = fromISO ? `AND datetime >= '${fromISO}'::timestamptz` : "";
       const toClause = toISO ? `AND datetime <= '${toISO}'::timestamptz` : "";
+      const hubClause = hubId !== null ? `AND device_id = ${hubId}` : "";
 
       try {
         data = await prisma.$queryRawUnsafe(`
@@ -201,7 +209,7 @@ export async function GET(req: Request) {
             SELECT datetime, device_id, probe_id, temperature, relative_humidity, co2,
                    ROW_NUMBER() OVER (ORDER BY datetime ASC) AS rn
             FROM "xai4heat_db"."thermionyx_measurements"
-            WHERE probe_id = ${deviceId} ${fromClause} ${toClause}
+            WHERE probe_id = ${deviceId} ${hubClause} ${fromClause} ${toClause}
           ) sub
           WHERE (rn - 1) % ${step} = 0
           ORDER BY datetime ASC
@@ -217,7 +225,24 @@ export async function GET(req: Request) {
       }
     }
 
-    // STEP 7: Return successful response
+    // STEP 7: Sensor calibration
+    // COMMENT: Only calibrations overlapping the requested range matter
+    const calibrations = raw
+      ? []
+      : await prisma.sensorCalibration.findMany({
+          where: {
+            device_id: deviceId.toString(),
+            ...(to ? { valid_from: { lte: to } } : {}),
+            ...(from ? { OR: [{ valid_to: null }, { valid_to: { gt: from } }] } : {}),
+          },
+          orderBy: { valid_from: "asc" },
+        });
+
+    if (calibrations.length > 0) {
+      data = data.map((row) => calibrateReading(row, calibrations));
+    }
+
+    // STEP 8: Return successful response
     // COMMENT: Return measurements as JSON
     // Client components will use this data for:
     // - Temperature cards showing current value
@@ -225,11 +250,14 @@ export async function GET(req: Request) {
     // - Real-time comparisons with expected ranges
     return NextResponse.json({
       device_id: deviceId,
+      hub_id: hubId,
+      raw,
+      calibrations,
       count: data.length,
       measurements: data,
     });
   } catch (error) {
-    // STEP 8: Handle errors
+    // STEP 9: Handle errors
     console.error("Error fetching thermionix measurements:", error);
 
     // COMMENT: Error handling for various failure modes
@@ -250,7 +278,8 @@ export async function GET(req: Request) {
 /**
  * POST /api/thermionix
  *
- * Create new Thermionix measurements and trigger alert detection
+ * Create new Thermionix measurements, register their hubs and probes
+ * (lib/utils/deviceRegistry.ts) and trigger alert detection
  *
  * BODY:
  * {
@@ -330,35 +359,15 @@ export async function POST(req: Request) {
 
         createdMeasurements.push(measurement)
 
-        // STEP 5: Get device info for alert context
-        const device = await prisma.device.findUnique({
-          where: { device_id: device_id.toString() },
+        // COMMENT: New hubs and probes show up on the Thermionix page without
+        // re-running the backfill; the measurement is stored either way
+        await registerMeasurementProbe(measurement).catch((err) => {
+          console.error('[Thermionix POST] Probe registration failed:', err)
         })
 
-        if (!device) {
-          console.warn(`[Thermionix POST] Device ${device_id} not found in devices table`)
-        }
-
-        // STEP 6: Trigger alert detection (fire and forget - don't await)
-        checkThermionixMeasurement(
-          {
-            datetime: measurement.datetime,
-            device_id: measurement.device_id,
-            temperature: measurement.temperature,
-            relative_humidity: measurement.relative_humidity,
-            co2: measurement.co2,
-          },
-          device || { device_id: device_id.toString(), name: null },
-          {
-            user_id: user.id,
-            expected_temp_min: userSettings.expected_temp_min,
-            expected_temp_max: userSettings.expected_temp_max,
-            expected_humidity_min: userSettings.expected_humidity_min,
-            expected_humidity_max: userSettings.expected_humidity_max,
-            expected_co2_min: userSettings.expected_co2_min,
-            expected_co2_max: userSettings.expected_co2_max,
-          }
-        ).catch((err) => {
+        // STEP 5: Trigger alert detection (fire and forget - don't await)
+        // COMMENT: Same evaluation as rows inserted directly into the database
+        evaluateThermionixMeasurement(measurement, userSettings).catch((err) => {
           console.error('[Thermionix POST] Alert detection failed:', err)
         })
       } catch (measurementError) {
@@ -369,7 +378,7 @@ export async function POST(req: Request) {
       }
     }
 
-    // STEP 7: Return response
+    // STEP 6: Return response
     return NextResponse.json({
       success: true,
       created: createdMeasurements.length,
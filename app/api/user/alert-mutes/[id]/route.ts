@@ -0,0 +1,65 @@
+/**
+ * Single Alert Mute API Route
+ *
+ * ENDPOINTS:
+ * - DELETE /api/user/alert-mutes/[id] - Unmute / end a snooze early
+ *
+ * SECURITY:
+ * - Requires authentication
+ * - Returns 404 for mutes that don't exist or belong to another user
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * DELETE /api/user/alert-mutes/[id]
+ *
+ * RETURNS:
+ * - 200: { deleted: true }
+ * - 404: Mute not found
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // Security: deleteMany with user_id so other users' mutes are never touched
+    const result = await prisma.alertMute.deleteMany({
+      where: { id, user_id: user.id },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Alert mute not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error('[API /user/alert-mutes/[id]] Error deleting mute:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
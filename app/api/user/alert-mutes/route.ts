@@ -0,0 +1,123 @@
+/**
+ * Alert Mutes API Route
+ *
+ * Snoozes (until a timestamp) and mutes (indefinite) that silence alerts
+ * per device, location and/or alert type.
+ *
+ * ENDPOINTS:
+ * - GET  /api/user/alert-mutes - List the user's active snoozes/mutes
+ * - POST /api/user/alert-mutes - Snooze or mute
+ *
+ * Matching rules live in lib/utils/alertMutes.ts; alert detection skips
+ * matching alerts in createAndBroadcastAlert().
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { validateAlertMute } from '@/lib/utils/alertMutes'
+import { AlertType } from '@/lib/generated/prisma'
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null
+}
+
+/**
+ * GET /api/user/alert-mutes
+ *
+ * RETURNS:
+ * - 200: { mutes: AlertMute[] } - active only, indefinite mutes first,
+ *   then snoozes by expiry
+ * - 401: Not authenticated
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const mutes = await prisma.alertMute.findMany({
+      where: {
+        user_id: user.id,
+        OR: [{ muted_until: null }, { muted_until: { gt: new Date() } }],
+      },
+      orderBy: [
+        { muted_until: { sort: 'asc', nulls: 'first' } },
+        { created_at: 'desc' },
+      ],
+    })
+
+    return NextResponse.json({ mutes })
+  } catch (error) {
+    console.error('[API /user/alert-mutes] Error fetching mutes:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/user/alert-mutes
+ *
+ * REQUEST BODY:
+ * {
+ *   device_id?: string,       // Thermionix probe
+ *   location?: string,        // SCADA lamela / weather station
+ *   alert_type?: AlertType,   // Omit to silence every type
+ *   muted_until?: string,     // ISO date = snooze, omitted/null = mute
+ *   label?: string            // Display name, e.g. "L8_53_12"
+ * }
+ *
+ * RETURNS:
+ * - 201: Created AlertMute
+ * - 400: Validation failed
+ * - 401: Not authenticated
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+
+    const errors = validateAlertMute(body, Object.values(AlertType))
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const mute = await prisma.alertMute.create({
+      data: {
+        user_id: user.id,
+        device_id: optionalString(body.device_id),
+        location: optionalString(body.location),
+        alert_type: body.alert_type ? (body.alert_type as AlertType) : null,
+        label: optionalString(body.label),
+        muted_until: body.muted_until ? new Date(body.muted_until) : null,
+      },
+    })
+
+    return NextResponse.json(mute, { status: 201 })
+  } catch (error) {
+    console.error('[API /user/alert-mutes] Error creating mute:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Single Escalation Policy API Route
+ *
+ * ENDPOINTS:
+ * - PUT    /api/user/escalation-policies/[id] - Replace a policy
+ * - DELETE /api/user/escalation-policies/[id] - Remove a policy
+ *
+ * SECURITY:
+ * - Requires authentication
+ * - Returns 404 for policies that don't exist or belong to another user
+ *
+ * NOTE: Escalation history of alerts keeps the policy name after deletion.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { pickEscalationPolicyFields, validateEscalationPolicy } from '@/lib/utils/alertEscalation'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * PUT /api/user/escalation-policies/[id]
+ *
+ * REQUEST BODY: Same as POST /api/user/escalation-policies
+ */
+export async function PUT(
+  req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const existing = await prisma.escalationPolicy.findFirst({
+      where: { id, user_id: user.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Escalation policy not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await req.json()
+
+    const errors = validateEscalationPolicy(body)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const policy = await prisma.escalationPolicy.update({
+      where: { id },
+      data: pickEscalationPolicyFields(body),
+    })
+
+    return NextResponse.json(policy)
+  } catch (error) {
+    console.error('[API /user/escalation-policies/[id]] Error updating policy:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/user/escalation-policies/[id]
+ *
+ * RETURNS:
+ * - 200: { deleted: true }
+ * - 404: Policy not found
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // Security: deleteMany with user_id so other users' policies are never touched
+    const result = await prisma.escalationPolicy.deleteMany({
+      where: { id, user_id: user.id },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Escalation policy not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error('[API /user/escalation-policies/[id]] Error deleting policy:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
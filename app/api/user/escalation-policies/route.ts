@@ -0,0 +1,106 @@
+/**
+ * Escalation Policies API Route
+ *
+ * Steps that make unacknowledged alerts louder over time
+ * (see lib/utils/alertEscalation.ts).
+ *
+ * ENDPOINTS:
+ * - GET  /api/user/escalation-policies - List the user's policies
+ * - POST /api/user/escalation-policies - Create a policy
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { pickEscalationPolicyFields, validateEscalationPolicy } from '@/lib/utils/alertEscalation'
+
+/**
+ * GET /api/user/escalation-policies
+ *
+ * RETURNS:
+ * - 200: { policies: EscalationPolicy[] } ordered by after_minutes
+ * - 401: Not authenticated
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const policies = await prisma.escalationPolicy.findMany({
+      where: { user_id: user.id },
+      orderBy: [{ after_minutes: 'asc' }, { created_at: 'asc' }],
+    })
+
+    return NextResponse.json({ policies })
+  } catch (error) {
+    console.error('[API /user/escalation-policies] Error fetching policies:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/user/escalation-policies
+ *
+ * REQUEST BODY:
+ * {
+ *   name: string,
+ *   after_minutes: number,                      // Unacknowledged for this long
+ *   min_severity?: 'LOW' | 'MEDIUM' | 'HIGH',   // Default HIGH
+ *   raise_severity?: boolean,                   // Default true
+ *   renotify?: boolean,                         // Default true
+ *   notify_emails?: string[],                   // Emailed about the alert (email only)
+ *   enabled?: boolean                           // Default true
+ * }
+ *
+ * RETURNS:
+ * - 201: Created EscalationPolicy
+ * - 400: Validation failed
+ * - 401: Not authenticated
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+
+    const errors = validateEscalationPolicy(body)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const policy = await prisma.escalationPolicy.create({
+      data: {
+        user_id: user.id,
+        ...pickEscalationPolicyFields(body),
+      },
+    })
+
+    return NextResponse.json(policy, { status: 201 })
+  } catch (error) {
+    console.error('[API /user/escalation-policies] Error creating policy:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Single Maintenance Window API Route
+ *
+ * ENDPOINTS:
+ * - PUT    /api/user/maintenance-windows/[id] - Replace a window
+ * - DELETE /api/user/maintenance-windows/[id] - Remove a window
+ *
+ * Alerts already suppressed by the window stay suppressed.
+ *
+ * SECURITY:
+ * - Requires authentication
+ * - Returns 404 for windows that don't exist or belong to another user
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { pickMaintenanceWindowFields, validateMaintenanceWindow } from '@/lib/utils/maintenanceWindows'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * PUT /api/user/maintenance-windows/[id]
+ *
+ * REQUEST BODY: Same as POST /api/user/maintenance-windows
+ */
+export async function PUT(
+  req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const existing = await prisma.maintenanceWindow.findFirst({
+      where: { id, user_id: user.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Maintenance window not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await req.json()
+
+    const errors = validateMaintenanceWindow(body)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const maintenanceWindow = await prisma.maintenanceWindow.update({
+      where: { id },
+      data: pickMaintenanceWindowFields(body),
+    })
+
+    return NextResponse.json(maintenanceWindow)
+  } catch (error) {
+    console.error('[API /user/maintenance-windows/[id]] Error updating window:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/user/maintenance-windows/[id]
+ *
+ * RETURNS:
+ * - 200: { deleted: true }
+ * - 404: Window not found
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // Security: deleteMany with user_id so other users' windows are never touched
+    const result = await prisma.maintenanceWindow.deleteMany({
+      where: { id, user_id: user.id },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Maintenance window not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error('[API /user/maintenance-windows/[id]] Error deleting window:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
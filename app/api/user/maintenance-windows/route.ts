@@ -0,0 +1,117 @@
+/**
+ * Maintenance Windows API Route
+ *
+ * Planned maintenance per device, building or lamela. Alerts inside a window
+ * are recorded as suppressed instead of notifying anyone.
+ *
+ * ENDPOINTS:
+ * - GET  /api/user/maintenance-windows - List the user's windows
+ * - POST /api/user/maintenance-windows - Schedule a window
+ *
+ * Matching and recurrence rules live in lib/utils/maintenanceWindows.ts;
+ * alert detection applies them in createAndBroadcastAlert().
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { pickMaintenanceWindowFields, validateMaintenanceWindow } from '@/lib/utils/maintenanceWindows'
+
+/**
+ * GET /api/user/maintenance-windows
+ *
+ * RETURNS:
+ * - 200: { windows: MaintenanceWindow[] } - past ones included (charts shade
+ *   them for older date ranges), latest start first
+ * - 401: Not authenticated
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const windows = await prisma.maintenanceWindow.findMany({
+      where: { user_id: user.id },
+      orderBy: { starts_at: 'desc' },
+    })
+
+    return NextResponse.json({ windows })
+  } catch (error) {
+    console.error('[API /user/maintenance-windows] Error fetching windows:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/user/maintenance-windows
+ *
+ * REQUEST BODY:
+ * {
+ *   scope: 'DEVICE' | 'BUILDING' | 'LAMELA',
+ *   scope_value: string,                          // Device ID, "L8_53" or "L8"
+ *   title: string,                                // e.g. "Substation L8 service"
+ *   starts_at: string,                            // ISO date
+ *   ends_at: string,                              // ISO date
+ *   recurrence?: 'NONE' | 'DAILY' | 'WEEKLY',     // Default NONE
+ *   recurrence_until?: string                     // ISO date, omit = forever
+ * }
+ *
+ * RETURNS:
+ * - 201: Created MaintenanceWindow
+ * - 400: Validation failed
+ * - 401: Not authenticated
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+
+    const errors = validateMaintenanceWindow(body)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const maintenanceWindow = await prisma.maintenanceWindow.create({
+      data: {
+        user_id: user.id,
+        ...pickMaintenanceWindowFields(body),
+      },
+    })
+
+    console.log('[API /user/maintenance-windows] Scheduled:', {
+      id: maintenanceWindow.id,
+      scope: maintenanceWindow.scope,
+      scope_value: maintenanceWindow.scope_value,
+      recurrence: maintenanceWindow.recurrence,
+    })
+
+    return NextResponse.json(maintenanceWindow, { status: 201 })
+  } catch (error) {
+    console.error('[API /user/maintenance-windows] Error creating window:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Notification Preferences API Route
+ *
+ * How the user wants to hear about alerts outside the dashboard
+ * (see lib/utils/alertEmails.ts).
+ *
+ * ENDPOINTS:
+ * - GET /api/user/notification-preferences - Current preferences (defaults on first read)
+ * - PUT /api/user/notification-preferences - Update some or all fields
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser, getNotificationPreferences } from '@/lib/supabase/server'
+import {
+  pickNotificationPreferenceFields,
+  validateNotificationPreferences,
+} from '@/lib/utils/notificationPreferences'
+import { isEmailConfigured } from '@/lib/utils/email'
+
+/**
+ * GET /api/user/notification-preferences
+ *
+ * RETURNS:
+ * - 200: { preferences: NotificationPreferences, login_email, email_configured }
+ *   (email_configured = false when the server has no SMTP settings)
+ * - 401: Not authenticated
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const preferences = await getNotificationPreferences(user.id)
+
+    return NextResponse.json({
+      preferences,
+      login_email: user.email ?? null,
+      email_configured: isEmailConfigured(),
+    })
+  } catch (error) {
+    console.error('[API /user/notification-preferences] Error fetching preferences:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/user/notification-preferences
+ *
+ * REQUEST BODY (all optional):
+ * {
+ *   email_enabled: boolean,
+ *   email_address: string | null,            // null/'' = login email
+ *   email_immediate: boolean,                // HIGH alerts right away
+ *   email_digest: 'NONE' | 'HOURLY' | 'DAILY',
+ *   digest_hour: number,                     // 0-23, for DAILY
+ *   timezone: string                         // IANA, e.g. "Europe/Belgrade"
+ * }
+ *
+ * RETURNS:
+ * - 200: Updated NotificationPreferences
+ * - 400: Validation failed
+ * - 401: Not authenticated
+ */
+export async function PUT(req: Request) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+
+    const errors = validateNotificationPreferences(body)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const data = pickNotificationPreferenceFields(body)
+
+    const preferences = await prisma.notificationPreferences.upsert({
+      where: { user_id: user.id },
+      update: data,
+      create: { user_id: user.id, ...data },
+    })
+
+    return NextResponse.json(preferences)
+  } catch (error) {
+    console.error('[API /user/notification-preferences] Error updating preferences:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Test Email API Route
+ *
+ * ENDPOINTS:
+ * - POST /api/user/notification-preferences/test - Send a digest of the last
+ *   24 hours to the configured address now
+ *
+ * Works while email is disabled, so the address can be checked first.
+ */
+
+import { NextResponse } from 'next/server'
+import { getCurrentUser, getNotificationPreferences } from '@/lib/supabase/server'
+import { sendTestDigestEmail } from '@/lib/utils/alertEmails'
+import { isEmailConfigured } from '@/lib/utils/email'
+
+/**
+ * POST /api/user/notification-preferences/test
+ *
+ * RETURNS:
+ * - 200: { sent: true, to: string }
+ * - 401: Not authenticated
+ * - 502: Sending failed (SMTP error or no address)
+ * - 503: Email not configured on the server
+ */
+export async function POST() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    if (!isEmailConfigured()) {
+      return NextResponse.json(
+        { error: 'Email is not configured on the server (SMTP_HOST)' },
+        { status: 503 }
+      )
+    }
+
+    const preferences = await getNotificationPreferences(user.id)
+    const to = await sendTestDigestEmail(preferences)
+
+    if (!to) {
+      return NextResponse.json(
+        { error: 'Failed to send test email' },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ sent: true, to })
+  } catch (error) {
+    console.error('[API /user/notification-preferences/test] Error sending test email:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -118,12 +118,33 @@ export async function GET(request: NextRequest) {
  *   expected_pressure_min: number,
  *   expected_pressure_max: number,
  *   expected_co2_min: number,
- *   expected_co2_max: number
+ *   expected_co2_max: number,
+ *
+ *   // Optional alert conditions (omitted = keep current value)
+ *   hysteresis_temp?: number,
+ *   hysteresis_humidity?: number,
+ *   hysteresis_pressure?: number,
+ *   hysteresis_co2?: number,
+ *   alert_min_duration_minutes?: number,
+ *   alert_min_consecutive_samples?: number,
+ *   temp_drop_rate_max?: number,
+ *   temp_drop_window_minutes?: number,
+ *
+ *   // Optional SCADA heating circuit thresholds
+ *   supply_ref_tolerance?: number,
+ *   primary_delta_t_min?: number,
+ *
+ *   // Optional weather station thresholds
+ *   frost_temp_threshold?: number,
+ *   wind_gust_max?: number,
+ *   rain_rate_max?: number,
+ *   barometric_drop_max?: number
  * }
  *
  * VALIDATION:
  * - Min values must be less than max values
  * - Values must be within reasonable ranges
+ * - Hysteresis bands must be non-negative and smaller than the metric's range
  *
  * RETURNS:
  * - 200: Updated UserSettings object
@@ -155,6 +176,20 @@ export async function PUT(request: NextRequest) {
       expected_pressure_max,
       expected_co2_min,
       expected_co2_max,
+      hysteresis_temp,
+      hysteresis_humidity,
+      hysteresis_pressure,
+      hysteresis_co2,
+      alert_min_duration_minutes,
+      alert_min_consecutive_samples,
+      temp_drop_rate_max,
+      temp_drop_window_minutes,
+      supply_ref_tolerance,
+      primary_delta_t_min,
+      frost_temp_threshold,
+      wind_gust_max,
+      rain_rate_max,
+      barometric_drop_max,
     } = body
 
     // STEP 3: Validation
@@ -204,6 +239,66 @@ export async function PUT(request: NextRequest) {
       errors.push('expected_co2_min must be less than expected_co2_max')
     }
 
+    // Alert condition validation (optional fields)
+    // COMMENT: A band as wide as the range itself would keep every alert open forever
+    const hysteresisLimits = [
+      ['hysteresis_temp', hysteresis_temp, 20],
+      ['hysteresis_humidity', hysteresis_humidity, 50],
+      ['hysteresis_pressure', hysteresis_pressure, 5],
+      ['hysteresis_co2', hysteresis_co2, 2500],
+    ] as const
+    for (const [field, value, max] of hysteresisLimits) {
+      if (value !== undefined && (typeof value !== 'number' || value < 0 || value > max)) {
+        errors.push(`Invalid ${field} (must be between 0 and ${max})`)
+      }
+    }
+    if (alert_min_duration_minutes !== undefined &&
+      (!Number.isInteger(alert_min_duration_minutes) || alert_min_duration_minutes < 0 || alert_min_duration_minutes > 1440)) {
+      errors.push('Invalid alert_min_duration_minutes (must be a whole number between 0 and 1440)')
+    }
+    if (alert_min_consecutive_samples !== undefined &&
+      (!Number.isInteger(alert_min_consecutive_samples) || alert_min_consecutive_samples < 1 || alert_min_consecutive_samples > 100)) {
+      errors.push('Invalid alert_min_consecutive_samples (must be a whole number between 1 and 100)')
+    }
+
+    // Rate-of-change validation (optional fields)
+    if (temp_drop_rate_max !== undefined &&
+      (typeof temp_drop_rate_max !== 'number' || temp_drop_rate_max <= 0 || temp_drop_rate_max > 20)) {
+      errors.push('Invalid temp_drop_rate_max (must be greater than 0 and at most 20)')
+    }
+    if (temp_drop_window_minutes !== undefined &&
+      (!Number.isInteger(temp_drop_window_minutes) || temp_drop_window_minutes < 10 || temp_drop_window_minutes > 360)) {
+      errors.push('Invalid temp_drop_window_minutes (must be a whole number between 10 and 360)')
+    }
+
+    // Heating circuit validation (optional fields)
+    if (supply_ref_tolerance !== undefined &&
+      (typeof supply_ref_tolerance !== 'number' || supply_ref_tolerance <= 0 || supply_ref_tolerance > 50)) {
+      errors.push('Invalid supply_ref_tolerance (must be greater than 0 and at most 50)')
+    }
+    if (primary_delta_t_min !== undefined &&
+      (typeof primary_delta_t_min !== 'number' || primary_delta_t_min < 0 || primary_delta_t_min > 80)) {
+      errors.push('Invalid primary_delta_t_min (must be between 0 and 80)')
+    }
+
+    // Weather station validation (optional fields)
+    if (frost_temp_threshold !== undefined &&
+      (typeof frost_temp_threshold !== 'number' || frost_temp_threshold < -30 || frost_temp_threshold > 10)) {
+      errors.push('Invalid frost_temp_threshold (must be between -30 and 10)')
+    }
+    if (wind_gust_max !== undefined &&
+      (typeof wind_gust_max !== 'number' || wind_gust_max <= 0 || wind_gust_max > 300)) {
+      errors.push('Invalid wind_gust_max (must be greater than 0 and at most 300)')
+    }
+    if (rain_rate_max !== undefined &&
+      (typeof rain_rate_max !== 'number' || rain_rate_max <= 0 || rain_rate_max > 500)) {
+      errors.push('Invalid rain_rate_max (must be greater than 0 and at most 500)')
+    }
+    if (barometric_drop_max !== undefined &&
+      (typeof barometric_drop_max !== 'number' || barometric_drop_max <= 0 || barometric_drop_max > 1)) {
+      errors.push('Invalid barometric_drop_max (must be greater than 0 and at most 1)')
+    }
+
     if (errors.length > 0) {
       return NextResponse.json(
         { error: 'Validation failed', details: errors },
@@ -212,6 +307,25 @@ export async function PUT(request: NextRequest) {
     }
 
     // STEP 4: Update or create settings
+    // COMMENT: Alert conditions and weather thresholds are only written when sent,
+    // so older clients that only know the ranges don't reset them to the defaults
+    const alertConditions = {
+      ...(hysteresis_temp !== undefined && { hysteresis_temp }),
+      ...(hysteresis_humidity !== undefined && { hysteresis_humidity }),
+      ...(hysteresis_pressure !== undefined && { hysteresis_pressure }),
+      ...(hysteresis_co2 !== undefined && { hysteresis_co2 }),
+      ...(alert_min_duration_minutes !== undefined && { alert_min_duration_minutes }),
+      ...(alert_min_consecutive_samples !== undefined && { alert_min_consecutive_samples }),
+      ...(temp_drop_rate_max !== undefined && { temp_drop_rate_max }),
+      ...(temp_drop_window_minutes !== undefined && { temp_drop_window_minutes }),
+      ...(supply_ref_tolerance !== undefined && { supply_ref_tolerance }),
+      ...(primary_delta_t_min !== undefined && { primary_delta_t_min }),
+      ...(frost_temp_threshold !== undefined && { frost_temp_threshold }),
+      ...(wind_gust_max !== undefined && { wind_gust_max }),
+      ...(rain_rate_max !== undefined && { rain_rate_max }),
+      ...(barometric_drop_max !== undefined && { barometric_drop_max }),
+    }
+
     const settings = await prisma.userSettings.upsert({
       where: { user_id: user.id },
       update: {
@@ -223,6 +337,7 @@ export async function PUT(request: NextRequest) {
         expected_pressure_max,
         expected_co2_min,
         expected_co2_max,
+        ...alertConditions,
       },
       create: {
         user_id: user.id,
@@ -234,6 +349,7 @@ export async function PUT(request: NextRequest) {
         expected_pressure_max,
         expected_co2_min,
         expected_co2_max,
+        ...alertConditions,
       }
     })
 
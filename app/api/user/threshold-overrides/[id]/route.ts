@@ -0,0 +1,140 @@
+/**
+ * Single Threshold Override API Route
+ *
+ * ENDPOINTS:
+ * - PUT    /api/user/threshold-overrides/[id] - Replace an override
+ * - DELETE /api/user/threshold-overrides/[id] - Remove an override
+ *
+ * SECURITY:
+ * - Requires authentication
+ * - Returns 404 for overrides that don't exist or belong to another user
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { pickThresholdFields, validateThresholdOverride } from '@/lib/utils/thresholdOverrides'
+import type { ThresholdScope } from '@/lib/generated/prisma'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * PUT /api/user/threshold-overrides/[id]
+ *
+ * REQUEST BODY: Same as POST /api/user/threshold-overrides
+ * - Omitted threshold fields are cleared (inherit again)
+ */
+export async function PUT(
+  req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const existing = await prisma.thresholdOverride.findFirst({
+      where: { id, user_id: user.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Threshold override not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await req.json()
+
+    const errors = validateThresholdOverride(body)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const override = await prisma.thresholdOverride.update({
+      where: { id },
+      data: {
+        scope: body.scope as ThresholdScope,
+        scope_value: body.scope_value.trim(),
+        label: typeof body.label === 'string' && body.label.trim() !== '' ? body.label.trim() : null,
+        ...pickThresholdFields(body),
+      },
+    })
+
+    return NextResponse.json(override)
+  } catch (error) {
+    console.error('[API /user/threshold-overrides/[id]] Error updating override:', error)
+
+    if (error instanceof Error && error.message.includes('Unique constraint')) {
+      return NextResponse.json(
+        { error: 'An override for this scope already exists' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/user/threshold-overrides/[id]
+ *
+ * RETURNS:
+ * - 200: { deleted: true }
+ * - 404: Override not found
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // Security: deleteMany with user_id so other users' overrides are never touched
+    const result = await prisma.thresholdOverride.deleteMany({
+      where: { id, user_id: user.id },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Threshold override not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error('[API /user/threshold-overrides/[id]] Error deleting override:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Threshold Overrides API Route
+ *
+ * Per-device, per-building and per-lamela overrides of the global
+ * UserSettings expected ranges.
+ *
+ * ENDPOINTS:
+ * - GET  /api/user/threshold-overrides - List the user's overrides
+ * - POST /api/user/threshold-overrides - Create an override
+ *
+ * SCOPES:
+ * - DEVICE: scope_value = Device.device_id (e.g., "10315")
+ * - BUILDING: scope_value = "L8_53"
+ * - LAMELA: scope_value = "L8"
+ *
+ * Threshold fields are optional - omitted fields inherit the next
+ * less specific level (see lib/utils/thresholdOverrides.ts).
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { pickThresholdFields, validateThresholdOverride } from '@/lib/utils/thresholdOverrides'
+import type { ThresholdScope } from '@/lib/generated/prisma'
+
+/**
+ * GET /api/user/threshold-overrides
+ *
+ * RETURNS:
+ * - 200: { overrides: ThresholdOverride[] } ordered LAMELA → BUILDING → DEVICE
+ * - 401: Not authenticated
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const overrides = await prisma.thresholdOverride.findMany({
+      where: { user_id: user.id },
+      orderBy: [
+        { scope: 'desc' },        // LAMELA > BUILDING > DEVICE (enum order reversed)
+        { scope_value: 'asc' },
+      ],
+    })
+
+    return NextResponse.json({ overrides })
+  } catch (error) {
+    console.error('[API /user/threshold-overrides] Error fetching overrides:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/user/threshold-overrides
+ *
+ * REQUEST BODY:
+ * {
+ *   scope: 'DEVICE' | 'BUILDING' | 'LAMELA',
+ *   scope_value: string,
+ *   label?: string,
+ *   expected_temp_min?: number, expected_temp_max?: number,
+ *   expected_humidity_min?: number, expected_humidity_max?: number,
+ *   expected_pressure_min?: number, expected_pressure_max?: number,
+ *   expected_co2_min?: number, expected_co2_max?: number
+ * }
+ *
+ * RETURNS:
+ * - 201: Created ThresholdOverride
+ * - 400: Validation failed
+ * - 401: Not authenticated
+ * - 409: Override for this scope/scope_value already exists
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+
+    const errors = validateThresholdOverride(body)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const override = await prisma.thresholdOverride.create({
+      data: {
+        user_id: user.id,
+        scope: body.scope as ThresholdScope,
+        scope_value: body.scope_value.trim(),
+        label: typeof body.label === 'string' && body.label.trim() !== '' ? body.label.trim() : null,
+        ...pickThresholdFields(body),
+      },
+    })
+
+    return NextResponse.json(override, { status: 201 })
+  } catch (error) {
+    console.error('[API /user/threshold-overrides] Error creating override:', error)
+
+    if (error instanceof Error && error.message.includes('Unique constraint')) {
+      return NextResponse.json(
+        { error: 'An override for this scope already exists' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Webhook Delivery Log API Route
+ *
+ * ENDPOINTS:
+ * - GET /api/user/webhooks/[id]/deliveries - Latest deliveries of an endpoint
+ *
+ * QUERY PARAMS:
+ * - status: PENDING | DELIVERED | FAILED (optional)
+ * - limit: Max results (default 50, max 200)
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { WebhookDeliveryStatus } from '@/lib/generated/prisma'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * GET /api/user/webhooks/[id]/deliveries
+ *
+ * RETURNS:
+ * - 200: { deliveries: WebhookDelivery[] } newest first
+ * - 400: Invalid status
+ * - 401: Not authenticated
+ * - 404: Webhook not found
+ */
+export async function GET(
+  req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: { id, user_id: user.id },
+      select: { id: true },
+    })
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(req.url)
+    const status = searchParams.get('status')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200)
+
+    if (status && !Object.values(WebhookDeliveryStatus).includes(status as WebhookDeliveryStatus)) {
+      return NextResponse.json(
+        { error: 'Invalid status' },
+        { status: 400 }
+      )
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        endpoint_id: id,
+        ...(status ? { status: status as WebhookDeliveryStatus } : {}),
+      },
+      orderBy: { created_at: 'desc' },
+      take: limit,
+    })
+
+    return NextResponse.json({ deliveries })
+  } catch (error) {
+    console.error('[API /user/webhooks/[id]/deliveries] Error fetching deliveries:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
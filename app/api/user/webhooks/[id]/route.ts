@@ -0,0 +1,134 @@
+/**
+ * Single Webhook Endpoint API Route
+ *
+ * ENDPOINTS:
+ * - PUT    /api/user/webhooks/[id] - Replace an endpoint
+ * - DELETE /api/user/webhooks/[id] - Remove an endpoint and its delivery log
+ *
+ * SECURITY:
+ * - Requires authentication
+ * - Returns 404 for endpoints that don't exist or belong to another user
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { pickWebhookEndpointFields, validateWebhookEndpoint } from '@/lib/utils/webhooks'
+import { generateWebhookSecret } from '@/lib/utils/webhookSignature'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * PUT /api/user/webhooks/[id]
+ *
+ * REQUEST BODY: Same as POST /api/user/webhooks, plus
+ * - rotate_secret?: boolean - Generate a new secret (the old one stops working)
+ */
+export async function PUT(
+  req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const existing = await prisma.webhookEndpoint.findFirst({
+      where: { id, user_id: user.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await req.json()
+
+    const errors = validateWebhookEndpoint(body)
+
+    if (body.rotate_secret !== undefined && typeof body.rotate_secret !== 'boolean') {
+      errors.push('rotate_secret must be a boolean')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id },
+      data: {
+        ...pickWebhookEndpointFields(body),
+        ...(body.rotate_secret ? { secret: generateWebhookSecret() } : {}),
+      },
+    })
+
+    return NextResponse.json(endpoint)
+  } catch (error) {
+    console.error('[API /user/webhooks/[id]] Error updating webhook:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/user/webhooks/[id]
+ *
+ * RETURNS:
+ * - 200: { deleted: true }
+ * - 404: Webhook not found
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // Security: deleteMany with user_id so other users' webhooks are never touched
+    const result = await prisma.webhookEndpoint.deleteMany({
+      where: { id, user_id: user.id },
+    })
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error('[API /user/webhooks/[id]] Error deleting webhook:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
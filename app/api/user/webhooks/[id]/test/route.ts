@@ -0,0 +1,67 @@
+/**
+ * Webhook Test API Route
+ *
+ * ENDPOINTS:
+ * - POST /api/user/webhooks/[id]/test - Send a signed 'ping' event now
+ *
+ * Works for disabled endpoints too, so a receiver can be checked before
+ * it is switched on.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { sendWebhookPing } from '@/lib/utils/webhooks'
+
+type RouteContext = {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * POST /api/user/webhooks/[id]/test
+ *
+ * RETURNS:
+ * - 200: The logged WebhookDelivery (status DELIVERED or FAILED)
+ * - 401: Not authenticated
+ * - 404: Webhook not found
+ */
+export async function POST(
+  _req: Request,
+  { params }: RouteContext
+) {
+  try {
+    const { id } = await params
+
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: { id, user_id: user.id },
+    })
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      )
+    }
+
+    const delivery = await sendWebhookPing(endpoint)
+
+    return NextResponse.json(delivery)
+  } catch (error) {
+    console.error('[API /user/webhooks/[id]/test] Error sending test webhook:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
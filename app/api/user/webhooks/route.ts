@@ -0,0 +1,106 @@
+/**
+ * Webhook Endpoints API Route
+ *
+ * URLs that receive the user's alert events as signed JSON
+ * (see lib/utils/webhooks.ts).
+ *
+ * ENDPOINTS:
+ * - GET  /api/user/webhooks - List the user's endpoints
+ * - POST /api/user/webhooks - Create an endpoint (secret is generated)
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUser } from '@/lib/supabase/server'
+import { pickWebhookEndpointFields, validateWebhookEndpoint } from '@/lib/utils/webhooks'
+import { generateWebhookSecret } from '@/lib/utils/webhookSignature'
+
+/**
+ * GET /api/user/webhooks
+ *
+ * RETURNS:
+ * - 200: { endpoints: WebhookEndpoint[] } oldest first, secret included
+ *   (the owner needs it to verify signatures)
+ * - 401: Not authenticated
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { user_id: user.id },
+      orderBy: { created_at: 'asc' },
+    })
+
+    return NextResponse.json({ endpoints })
+  } catch (error) {
+    console.error('[API /user/webhooks] Error fetching webhooks:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/user/webhooks
+ *
+ * REQUEST BODY:
+ * {
+ *   name: string,
+ *   url: string,                // http(s)
+ *   events: string[],           // new_alert | alert_resolved | alert_escalated
+ *   enabled?: boolean           // Default true
+ * }
+ *
+ * RETURNS:
+ * - 201: Created WebhookEndpoint (with its secret)
+ * - 400: Validation failed
+ * - 401: Not authenticated
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json()
+
+    const errors = validateWebhookEndpoint(body)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: errors },
+        { status: 400 }
+      )
+    }
+
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        user_id: user.id,
+        secret: generateWebhookSecret(),
+        ...pickWebhookEndpointFields(body),
+      },
+    })
+
+    return NextResponse.json(endpoint, { status: 201 })
+  } catch (error) {
+    console.error('[API /user/webhooks] Error creating webhook:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
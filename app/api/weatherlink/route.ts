@@ -7,10 +7,26 @@
  * - from (optional): Start datetime for filtering (ISO 8601 format)
  * - to (optional): End datetime for filtering (ISO 8601 format)
  * - limit (optional): Max number of records to return (default: 200)
+ *
+ * ENDPOINT: POST /api/weatherlink (ingestion + weather alert detection)
  */
 
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/supabase/server";
+import { evaluateWeatherlinkMeasurement } from "@/lib/utils/alertDetection";
+
+// COMMENT: Numeric columns of weatherlink_measurements, split by column type
+// so the POST handler can copy them over without listing each one by hand
+const FLOAT_FIELDS = [
+  "bar", "temp_in", "temp_out", "wind_speed", "wind_speed_10_min_avg", "rain_rate_mm",
+  "uv", "solar_rad", "rain_storm_mm", "rain_day_mm", "rain_month_mm", "rain_year_mm",
+  "et_day", "et_month", "et_year", "heat_index", "wind_chill", "wind_gust_10_min",
+] as const;
+
+const INT_FIELDS = [
+  "bar_trend", "hum_in", "wind_dir", "hum_out", "wet_leaf_4", "forecast_rule", "dew_point",
+] as const;
 
 export async function GET(req: Request) {
   try {
@@ -132,3 +148,126 @@ export async function GET(req: Request) {
     );
   }
 }
+
+/**
+ * POST /api/weatherlink
+ *
+ * Create new WeatherLink measurements and trigger weather alert detection
+ *
+ * BODY:
+ * {
+ *   measurements: Array<{
+ *     datetime: string (ISO 8601),
+ *     location?: string (default: "WeatherStation1"),
+ *     temp_out?: number (°C),
+ *     wind_gust_10_min?: number (km/h),
+ *     rain_rate_mm?: number (mm/h),
+ *     bar?: number (inHg),
+ *     ...any other weatherlink_measurements column
+ *   }>
+ * }
+ */
+export async function POST(req: Request) {
+  try {
+    // STEP 1: Get current user
+    const user = await getCurrentUser()
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized - Please log in' },
+        { status: 401 }
+      )
+    }
+
+    // STEP 2: Parse request body
+    const body = await req.json()
+    const { measurements } = body
+
+    if (!measurements || !Array.isArray(measurements) || measurements.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid request body. Expected { measurements: Array }' },
+        { status: 400 }
+      )
+    }
+
+    // STEP 3: Get user settings for threshold comparison
+    const userSettings = await prisma.userSettings.findUnique({
+      where: { user_id: user.id },
+    })
+
+    if (!userSettings) {
+      return NextResponse.json(
+        { error: 'User settings not found' },
+        { status: 404 }
+      )
+    }
+
+    // STEP 4: Process each measurement
+    const createdMeasurements = []
+    const errors = []
+
+    for (const measurementData of measurements) {
+      try {
+        // Validate measurement data
+        const { datetime, location, rain_storm_start_date, forecast_desc } = measurementData
+
+        if (!datetime) {
+          errors.push({
+            measurement: measurementData,
+            error: 'Missing required field: datetime'
+          })
+          continue
+        }
+
+        const numericData: Record<string, number | null> = {}
+        for (const field of FLOAT_FIELDS) {
+          numericData[field] = measurementData[field] !== undefined ? parseFloat(measurementData[field]) : null
+        }
+        for (const field of INT_FIELDS) {
+          numericData[field] = measurementData[field] !== undefined ? parseInt(measurementData[field], 10) : null
+        }
+
+        // Create measurement in database
+        const measurement = await prisma.weatherlink_measurements.create({
+          data: {
+            ...numericData,
+            datetime: new Date(datetime),
+            ...(location && { location }),
+            rain_storm_start_date: rain_storm_start_date ? new Date(rain_storm_start_date) : null,
+            forecast_desc: forecast_desc ?? null,
+          },
+        })
+
+        createdMeasurements.push(measurement)
+
+        // STEP 5: Trigger alert detection (fire and forget - don't await)
+        evaluateWeatherlinkMeasurement(measurement, userSettings).catch((err) => {
+          console.error('[WeatherLink POST] Alert detection failed:', err)
+        })
+      } catch (measurementError) {
+        errors.push({
+          measurement: measurementData,
+          error: String(measurementError),
+        })
+      }
+    }
+
+    // STEP 6: Return response
+    return NextResponse.json({
+      success: true,
+      created: createdMeasurements.length,
+      errors: errors.length > 0 ? errors : undefined,
+      measurements: createdMeasurements,
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('[WeatherLink POST] Error creating measurements:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to create measurements',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined,
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * AlertVolumeChart Component
+ *
+ * Stacked bar chart of alerts per time bucket, split by source or severity
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+import { format } from 'date-fns'
+import { Select } from '@/components/fields/Select'
+import type { AlertVolumeBucket, AnalyticsBucketSize } from '@/lib/utils/alertAnalytics'
+import { SPLIT_OPTIONS, VOLUME_SERIES, VolumeSplit } from '../../data'
+import styles from './AlertVolumeChart.module.css'
+
+type AlertVolumeChartProps = {
+  volume: AlertVolumeBucket[]
+  bucketSize: AnalyticsBucketSize
+  isLoading?: boolean
+}
+
+const BUCKET_FORMAT: Record<AnalyticsBucketSize, string> = {
+  hour: 'MMM d HH:mm',
+  day: 'MMM d',
+  week: "'Week of' MMM d",
+}
+
+export const AlertVolumeChart: React.FC<AlertVolumeChartProps> = ({
+  volume,
+  bucketSize,
+  isLoading = false,
+}) => {
+  const [split, setSplit] = useState<VolumeSplit>('source')
+
+  // Responsive chart sizing based on viewport
+  const [isMobile, setIsMobile] = React.useState(false)
+
+  React.useEffect(() => {
+    const checkMobile = () => setIsMobile(window.innerWidth < 768)
+    checkMobile()
+    window.addEventListener('resize', checkMobile)
+    return () => window.removeEventListener('resize', checkMobile)
+  }, [])
+
+  const chartHeight = isMobile ? 250 : 300
+  const fontSize = isMobile ? 10 : 12
+
+  const chartData = volume.map((bucket) => ({
+    ...bucket,
+    time: format(new Date(bucket.bucket), BUCKET_FORMAT[bucketSize]),
+  }))
+
+  const hasAlerts = volume.some((bucket) => bucket.total > 0)
+
+  return (
+    <div className="card-container">
+      <div className={styles.header}>
+        <h3 className={styles.title}>Alert Volume</h3>
+        <Select
+          options={SPLIT_OPTIONS}
+          value={split}
+          onChange={(value) => setSplit(value as VolumeSplit)}
+          className={styles.select}
+        />
+      </div>
+
+      {isLoading || !hasAlerts ? (
+        <div className={styles.placeholder} style={{ height: chartHeight }}>
+          {isLoading ? 'Loading chart data...' : 'No alerts in selected range'}
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height={chartHeight}>
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
+            <XAxis
+              dataKey="time"
+              stroke="#737373"
+              tick={{ fill: '#737373', fontSize }}
+              angle={isMobile ? -45 : 0}
+              textAnchor={isMobile ? 'end' : 'middle'}
+              height={isMobile ? 60 : 30}
+            />
+            <YAxis
+              allowDecimals={false}
+              stroke="#737373"
+              tick={{ fill: '#737373', fontSize }}
+              width={isMobile ? 30 : 40}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: '#ffffff',
+                border: '1px solid #e5e5e5',
+                borderRadius: '8px',
+                fontSize,
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize, paddingTop: isMobile ? '20px' : '10px' }} />
+            {VOLUME_SERIES[split].map((series) => (
+              <Bar
+                key={series.key}
+                dataKey={series.key}
+                name={series.label}
+                stackId="alerts"
+                fill={series.color}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  )
+}
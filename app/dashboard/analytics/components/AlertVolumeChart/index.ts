@@ -0,0 +1 @@
+export { AlertVolumeChart } from './AlertVolumeChart.component'
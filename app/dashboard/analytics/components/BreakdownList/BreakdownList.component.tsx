@@ -0,0 +1,48 @@
+/**
+ * BreakdownList Component
+ *
+ * Alert counts per category (source, severity, alert type) with share of the total
+ */
+
+'use client'
+
+import React from 'react'
+import styles from './BreakdownList.module.css'
+
+type BreakdownListProps = {
+  title: string
+  items: { label: string; count: number }[]
+  isLoading?: boolean
+}
+
+export const BreakdownList: React.FC<BreakdownListProps> = ({
+  title,
+  items,
+  isLoading = false,
+}) => {
+  const total = items.reduce((sum, item) => sum + item.count, 0)
+
+  return (
+    <div className="card-container">
+      <h3 className={styles.title}>{title}</h3>
+
+      {isLoading ? (
+        <p className={styles.empty}>Loading...</p>
+      ) : total === 0 ? (
+        <p className={styles.empty}>No alerts in selected range</p>
+      ) : (
+        <ul className={styles.list}>
+          {items.map((item) => (
+            <li key={item.label} className={styles.item}>
+              <span className={styles.label}>{item.label}</span>
+              <span className={styles.count}>
+                {item.count}
+                <span className={styles.share}>{Math.round((item.count / total) * 100)}%</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { BreakdownList } from './BreakdownList.component'
@@ -0,0 +1,65 @@
+/**
+ * OffendersTable Component
+ *
+ * Ranking of apartments or lamelas by alert minutes (how long their alerts were open)
+ */
+
+'use client'
+
+import React from 'react'
+import type { AlertOffender } from '@/lib/utils/alertAnalytics'
+import { formatMinutes } from '../../data'
+import styles from './OffendersTable.module.css'
+
+type OffendersTableProps = {
+  title: string
+  nameLabel: string
+  offenders: AlertOffender[]
+  isLoading?: boolean
+}
+
+export const OffendersTable: React.FC<OffendersTableProps> = ({
+  title,
+  nameLabel,
+  offenders,
+  isLoading = false,
+}) => {
+  const maxMinutes = offenders[0]?.alert_minutes || 1
+
+  return (
+    <div className="card-container">
+      <h3 className={styles.title}>{title}</h3>
+
+      {isLoading ? (
+        <p className={styles.empty}>Loading...</p>
+      ) : offenders.length === 0 ? (
+        <p className={styles.empty}>No alerts in selected range</p>
+      ) : (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>{nameLabel}</th>
+              <th className={styles.numeric}>Alerts</th>
+              <th className={styles.numeric}>Alert time</th>
+            </tr>
+          </thead>
+          <tbody>
+            {offenders.map((offender) => (
+              <tr key={offender.name}>
+                <td>
+                  <span className={styles.name}>{offender.name}</span>
+                  <span
+                    className={styles.bar}
+                    style={{ width: `${(offender.alert_minutes / maxMinutes) * 100}%` }}
+                  />
+                </td>
+                <td className={styles.numeric}>{offender.count}</td>
+                <td className={styles.numeric}>{formatMinutes(offender.alert_minutes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
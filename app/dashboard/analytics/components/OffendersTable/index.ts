@@ -0,0 +1 @@
+export { OffendersTable } from './OffendersTable.component'
@@ -0,0 +1,32 @@
+import type { SelectOption } from '@/components/fields/Select'
+
+export type VolumeSplit = 'source' | 'severity'
+
+export const SPLIT_OPTIONS: SelectOption[] = [
+  { label: 'By source', value: 'source' },
+  { label: 'By severity', value: 'severity' },
+]
+
+// COMMENT: Stacked bar series per split - keys match AlertVolumeBucket fields
+export const VOLUME_SERIES: Record<VolumeSplit, { key: string; label: string; color: string }[]> = {
+  source: [
+    { key: 'THERMIONIX', label: 'Thermionix', color: '#16a34a' },
+    { key: 'SCADA', label: 'SCADA', color: '#0ea5e9' },
+    { key: 'WEATHERLINK', label: 'WeatherLink', color: '#a855f7' },
+  ],
+  severity: [
+    { key: 'LOW', label: 'Low', color: '#3b82f6' },
+    { key: 'MEDIUM', label: 'Medium', color: '#f59e0b' },
+    { key: 'HIGH', label: 'High', color: '#dc2626' },
+  ],
+}
+
+/**
+ * Human readable duration, e.g. 45 → "45 min", 150 → "2.5 h", 4320 → "3.0 d"
+ */
+export function formatMinutes(minutes: number | null): string {
+  if (minutes === null) return '—'
+  if (minutes < 60) return `${Math.round(minutes)} min`
+  if (minutes < 48 * 60) return `${(minutes / 60).toFixed(1)} h`
+  return `${(minutes / (24 * 60)).toFixed(1)} d`
+}
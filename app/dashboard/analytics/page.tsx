@@ -0,0 +1,201 @@
+/**
+ * Alert Analytics Page
+ *
+ * How quickly alerts get handled and where they come from:
+ * MTTA/MTTR, alert volume over time and the apartments/lamelas with the most
+ * alert time (see lib/utils/alertAnalytics.ts)
+ */
+
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useSearchParams, useRouter } from "next/navigation";
+import {
+  DateRangeFilter,
+  DateRange,
+} from "@/components/filters/DateRangeFilter";
+import { MetricCardSkeleton } from "@/components/skeletons/MetricCardSkeleton";
+import { DASHBOARD_ROUTES } from "@/lib/constants/routes";
+import type { AlertAnalytics } from "@/lib/utils/alertAnalytics";
+import { AlertVolumeChart } from "./components/AlertVolumeChart";
+import { BreakdownList } from "./components/BreakdownList";
+import { OffendersTable } from "./components/OffendersTable";
+import { VOLUME_SERIES, formatMinutes } from "./data";
+import styles from "./page.module.css";
+
+export default function AnalyticsPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // Read date range from URL params (or use defaults) - memoized to prevent infinite loops
+  const dateRange = useMemo((): DateRange => {
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+
+    if (fromParam && toParam) {
+      const fromDate = new Date(fromParam);
+      const toDate = new Date(toParam);
+
+      if (!isNaN(fromDate.getTime()) && !isNaN(toDate.getTime())) {
+        return { from: fromParam, to: toParam };
+      }
+    }
+
+    // Default: last 30 days
+    const now = new Date();
+    const monthAgo = new Date(now);
+    monthAgo.setDate(monthAgo.getDate() - 30);
+    return {
+      from: monthAgo.toISOString(),
+      to: now.toISOString(),
+    };
+  }, [searchParams]);
+
+  const [analytics, setAnalytics] = useState<AlertAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams({
+          from: dateRange.from,
+          to: dateRange.to,
+        });
+
+        const res = await fetch(`/api/alerts/analytics?${params}`);
+
+        if (!res.ok) {
+          console.error("Failed to fetch alert analytics:", res.statusText);
+          return;
+        }
+
+        setAnalytics(await res.json());
+      } catch (error) {
+        console.error("Error fetching alert analytics:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAnalytics();
+  }, [dateRange]);
+
+  const handleDateRangeChange = (newDateRange: DateRange) => {
+    const params = new URLSearchParams();
+    params.set("from", newDateRange.from);
+    params.set("to", newDateRange.to);
+    router.push(`${DASHBOARD_ROUTES.ANALYTICS}?${params.toString()}`);
+  };
+
+  const summary = analytics?.summary;
+  const open = summary ? summary.total - summary.resolved : 0;
+
+  const labelOf = (split: "source" | "severity", key: string) =>
+    VOLUME_SERIES[split].find((series) => series.key === key)?.label || key;
+
+  return (
+    <div className={styles.page}>
+      <h1 className={styles.title}>Alert Analytics</h1>
+
+      <DateRangeFilter value={dateRange} onChange={handleDateRangeChange} />
+
+      {/* Response times and totals */}
+      <div className={styles.summaryGrid}>
+        {isLoading || !summary ? (
+          Array.from({ length: 4 }).map((_, i) => <MetricCardSkeleton key={i} />)
+        ) : (
+          <>
+            <div className="card-container">
+              <div className={styles.statLabel}>Mean time to acknowledge</div>
+              <div className={styles.statValue}>{formatMinutes(summary.mtta_minutes)}</div>
+              <div className={styles.statDetail}>
+                Median {formatMinutes(summary.mtta_median_minutes)} · {summary.acknowledged} acknowledged
+              </div>
+            </div>
+            <div className="card-container">
+              <div className={styles.statLabel}>Mean time to resolve</div>
+              <div className={styles.statValue}>{formatMinutes(summary.mttr_minutes)}</div>
+              <div className={styles.statDetail}>
+                Median {formatMinutes(summary.mttr_median_minutes)} · {summary.resolved} resolved
+              </div>
+            </div>
+            <div className="card-container">
+              <div className={styles.statLabel}>Alerts</div>
+              <div className={styles.statValue}>{summary.total}</div>
+              <div className={styles.statDetail}>
+                {analytics.by_severity.HIGH} high severity
+              </div>
+            </div>
+            <div className="card-container">
+              <div className={styles.statLabel}>Still open</div>
+              <div className={styles.statValue}>{open}</div>
+              <div className={styles.statDetail}>Value not back in range yet</div>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className={styles.contentGrid}>
+        <div className={styles.gridItemFullWidth}>
+          <AlertVolumeChart
+            volume={analytics?.volume || []}
+            bucketSize={analytics?.bucket_size || "day"}
+            isLoading={isLoading}
+          />
+        </div>
+
+        <div className={styles.gridItem}>
+          <BreakdownList
+            title="By Source"
+            items={Object.entries(analytics?.by_source || {}).map(([key, count]) => ({
+              label: labelOf("source", key),
+              count,
+            }))}
+            isLoading={isLoading}
+          />
+        </div>
+
+        <div className={styles.gridItem}>
+          <BreakdownList
+            title="By Severity"
+            items={Object.entries(analytics?.by_severity || {}).map(([key, count]) => ({
+              label: labelOf("severity", key),
+              count,
+            }))}
+            isLoading={isLoading}
+          />
+        </div>
+
+        <div className={styles.gridItemFullWidth}>
+          <BreakdownList
+            title="By Alert Type"
+            items={(analytics?.by_type || []).map((row) => ({
+              label: row.alert_type,
+              count: row.count,
+            }))}
+            isLoading={isLoading}
+          />
+        </div>
+
+        <div className={styles.gridItem}>
+          <OffendersTable
+            title="Top Apartments"
+            nameLabel="Apartment"
+            offenders={analytics?.top_apartments || []}
+            isLoading={isLoading}
+          />
+        </div>
+
+        <div className={styles.gridItem}>
+          <OffendersTable
+            title="Top Lamelas"
+            nameLabel="Lamela"
+            offenders={analytics?.top_lamelas || []}
+            isLoading={isLoading}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import toast from "react-hot-toast";
+import { Button } from "@/components/atoms/Button";
+import { DASHBOARD_ROUTES } from "@/lib/constants/routes";
+import type { Alert, Apartment, Building, Device, Hub, Lamela, Probe } from "@/lib/generated/prisma";
+import { DeviceForm } from "../components/DeviceForm";
+import { DeviceCalibrations } from "../components/DeviceCalibrations";
+import styles from "./page.module.css";
+
+type DeviceDetail = {
+  device: Device & {
+    probe: (Probe & {
+      hub: Hub | null;
+      apartment: (Apartment & { building: (Building & { lamela: Lamela }) | null }) | null;
+    }) | null;
+  };
+  activity: {
+    last_seen: string | null;
+    count_24h: number;
+    count_7d: number;
+    count_total: number;
+  } | null;
+  open_alerts: Alert[];
+};
+
+/**
+ * Device Detail Page
+ *
+ * One device with its registry links (apartment, hub, sensors), measurement
+ * activity, open alerts and sensor calibration. Edit, decommission /
+ * reactivate and delete.
+ */
+export default function DeviceDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+
+  const [detail, setDetail] = useState<DeviceDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const fetchDevice = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/devices/${encodeURIComponent(id)}`);
+
+      if (!res.ok) {
+        setNotFound(true);
+        return;
+      }
+
+      setDetail(await res.json());
+    } catch (error) {
+      console.error("Error fetching device:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchDevice();
+  }, [fetchDevice]);
+
+  const handleSaved = () => {
+    setIsEditing(false);
+    fetchDevice();
+  };
+
+  const handleDecommission = async (decommissioned: boolean) => {
+    setIsUpdating(true);
+    try {
+      const res = await fetch(`/api/devices/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decommissioned }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || "Failed to update device");
+      }
+
+      toast.success(decommissioned ? "Device decommissioned" : "Device reactivated");
+      await fetchDevice();
+    } catch (error: any) {
+      console.error("Error updating device:", error);
+      toast.error(error.message || "An error occurred while updating the device");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsUpdating(true);
+    try {
+      const res = await fetch(`/api/devices/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || "Failed to delete device");
+      }
+
+      toast.success("Device deleted");
+      router.push(DASHBOARD_ROUTES.DEVICES);
+    } catch (error: any) {
+      console.error("Error deleting device:", error);
+      toast.error(error.message || "An error occurred while deleting the device");
+      setIsUpdating(false);
+    }
+  };
+
+  const backLink = (
+    <Link href={DASHBOARD_ROUTES.DEVICES} className={styles.backLink}>
+      <ArrowLeft size={16} />
+      <span>Devices</span>
+    </Link>
+  );
+
+  if (isLoading) {
+    return (
+      <div className={styles.container}>
+        <p className={styles.loading}>Loading device...</p>
+      </div>
+    );
+  }
+
+  if (notFound || !detail) {
+    return (
+      <div className={styles.container}>
+        {backLink}
+        <div className={styles.emptyState}>
+          <p>Device not found</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { device, activity, open_alerts: openAlerts } = detail;
+  const probe = device.probe;
+  const sensors = probe
+    ? [
+        probe.has_temperature && "Temperature",
+        probe.has_humidity && "Humidity",
+        probe.has_co2 && "CO2",
+      ].filter(Boolean).join(", ")
+    : "";
+
+  return (
+    <div className={styles.container}>
+      {backLink}
+
+      <div className={styles.header}>
+        <div>
+          <h1 className={styles.title}>{device.name || device.device_id}</h1>
+          <p className={styles.subtitle}>
+            Device {device.device_id}
+            {device.decommissioned_at &&
+              ` · Decommissioned ${format(new Date(device.decommissioned_at), "MMM d, yyyy")}`}
+          </p>
+        </div>
+        <div className={styles.headerActions}>
+          {!isEditing && (
+            <Button variant="secondary" onClick={() => setIsEditing(true)} disabled={isUpdating}>
+              Edit
+            </Button>
+          )}
+          <Button
+            variant="secondary"
+            onClick={() => handleDecommission(!device.decommissioned_at)}
+            loading={isUpdating && !confirmDelete}
+            disabled={isUpdating}
+          >
+            {device.decommissioned_at ? "Reactivate" : "Decommission"}
+          </Button>
+          {confirmDelete ? (
+            <>
+              <Button variant="danger" onClick={handleDelete} loading={isUpdating} disabled={isUpdating}>
+                Delete permanently
+              </Button>
+              <Button variant="ghost" onClick={() => setConfirmDelete(false)} disabled={isUpdating}>
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <Button variant="danger" onClick={() => setConfirmDelete(true)} disabled={isUpdating}>
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {confirmDelete && (
+        <p className={styles.warning}>
+          Measurements and alerts are kept. Decommission the device instead if it may come back - a device with calibrations can only be decommissioned.
+        </p>
+      )}
+
+      {isEditing && (
+        <DeviceForm device={device} onSaved={handleSaved} onCancel={() => setIsEditing(false)} />
+      )}
+
+      {/* Measurement activity - only probes report to thermionyx_measurements */}
+      {activity && (
+        <div className={styles.statsGrid}>
+          <div className="card-container">
+            <div className={styles.statLabel}>Last seen</div>
+            <div className={styles.statValue}>
+              {activity.last_seen
+                ? formatDistanceToNow(new Date(activity.last_seen), { addSuffix: true })
+                : "Never"}
+            </div>
+          </div>
+          <div className="card-container">
+            <div className={styles.statLabel}>Readings (24h)</div>
+            <div className={styles.statValue}>{activity.count_24h}</div>
+          </div>
+          <div className="card-container">
+            <div className={styles.statLabel}>Readings (7 days)</div>
+            <div className={styles.statValue}>{activity.count_7d}</div>
+          </div>
+          <div className="card-container">
+            <div className={styles.statLabel}>Readings (total)</div>
+            <div className={styles.statValue}>{activity.count_total}</div>
+          </div>
+        </div>
+      )}
+
+      <div className={styles.columns}>
+        <div className="card-container">
+          <h3 className={styles.sectionTitle}>Details</h3>
+          <dl className={styles.details}>
+            <dt>Lamela</dt>
+            <dd>{device.location || "—"}</dd>
+            <dt>Apartment</dt>
+            <dd>{probe?.apartment?.name || "—"}</dd>
+            <dt>Floor</dt>
+            <dd>{probe?.apartment?.floor ?? "—"}</dd>
+            <dt>Hub</dt>
+            <dd>{probe?.hub ? probe.hub.name || probe.hub.id : "—"}</dd>
+            <dt>Sensors</dt>
+            <dd>{sensors || "—"}</dd>
+            <dt>Description</dt>
+            <dd>{device.description || "—"}</dd>
+          </dl>
+        </div>
+
+        <div className="card-container">
+          <h3 className={styles.sectionTitle}>Open alerts</h3>
+          {openAlerts.length === 0 ? (
+            <p className={styles.empty}>No open alerts</p>
+          ) : (
+            <ul className={styles.alertList}>
+              {openAlerts.map((alert) => (
+                <li key={alert.id}>
+                  <Link href={`/dashboard/notifications/${alert.id}`} className={styles.alertLink}>
+                    <span className={styles.alertType}>{alert.alert_type}</span>
+                    <span className={styles.alertMeta}>
+                      {alert.measured_value} {alert.unit} ·{" "}
+                      {formatDistanceToNow(new Date(alert.created_at), { addSuffix: true })}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Calibration only applies to probes (thermionyx_measurements) */}
+      {activity && <DeviceCalibrations deviceId={device.device_id} />}
+    </div>
+  );
+}
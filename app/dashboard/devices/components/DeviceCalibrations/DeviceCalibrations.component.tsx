@@ -0,0 +1,300 @@
+/**
+ * DeviceCalibrations Component - Client Component
+ *
+ * "Calibration" card of the device detail page:
+ * - Lists the probe's offset/gain corrections per metric with their validity
+ * - Create / edit form, delete individual calibrations
+ *
+ * Readings are corrected at query time (charts, dashboard stats, exports,
+ * alerts) - the stored measurements stay raw.
+ */
+
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useForm, Controller } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { format } from 'date-fns'
+import clsx from 'clsx'
+import toast from 'react-hot-toast'
+import { Input } from '@/components/fields/Input'
+import { Select, SelectOption } from '@/components/fields/Select'
+import { Button } from '@/components/atoms/Button'
+import { CALIBRATION_UNITS } from '@/lib/utils/calibration'
+import { calibrationSchema, CalibrationFormData } from '@/lib/validations/calibration'
+import type { SensorCalibration } from '@/lib/generated/prisma'
+import styles from './DeviceCalibrations.module.css'
+
+const METRIC_OPTIONS: SelectOption[] = [
+  { label: 'Temperature', value: 'TEMPERATURE' },
+  { label: 'Humidity', value: 'HUMIDITY' },
+  { label: 'CO2', value: 'CO2' },
+]
+
+const METRIC_LABELS: Record<SensorCalibration['metric'], string> = {
+  TEMPERATURE: 'Temperature',
+  HUMIDITY: 'Humidity',
+  CO2: 'CO2',
+}
+
+// COMMENT: datetime-local inputs work in local time without a zone -
+// "2026-10-20T08:00" ↔ ISO string for the API
+const toLocalInput = (value: Date | string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm")
+const toIso = (value: string) => new Date(value).toISOString()
+
+const emptyForm = (): CalibrationFormData => ({
+  metric: 'TEMPERATURE',
+  offset: 0,
+  gain: 1,
+  valid_from: toLocalInput(new Date()),
+  valid_to: '',
+  note: '',
+})
+
+/**
+ * "raw × 1.02 − 0.7 °C"
+ */
+function getCorrectionSummary(calibration: SensorCalibration): string {
+  const unit = CALIBRATION_UNITS[calibration.metric]
+  const gain = calibration.gain !== 1 ? ` × ${calibration.gain}` : ''
+  const sign = calibration.offset < 0 ? '−' : '+'
+  return `raw${gain} ${sign} ${Math.abs(calibration.offset)} ${unit}`
+}
+
+function getValiditySummary(calibration: SensorCalibration): string {
+  const from = format(new Date(calibration.valid_from), 'MMM d, yyyy HH:mm')
+  return calibration.valid_to
+    ? `${from} – ${format(new Date(calibration.valid_to), 'MMM d, yyyy HH:mm')}`
+    : `Since ${from}`
+}
+
+type DeviceCalibrationsProps = {
+  deviceId: string
+}
+
+export const DeviceCalibrations: React.FC<DeviceCalibrationsProps> = ({ deviceId }) => {
+  const [calibrations, setCalibrations] = useState<SensorCalibration[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const baseUrl = `/api/devices/${encodeURIComponent(deviceId)}/calibrations`
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<CalibrationFormData>({
+    resolver: zodResolver(calibrationSchema),
+    defaultValues: emptyForm(),
+  })
+
+  const fetchCalibrations = useCallback(async () => {
+    try {
+      const res = await fetch(baseUrl)
+      const data = await res.json()
+      if (data.calibrations) {
+        setCalibrations(data.calibrations)
+      }
+    } catch (error) {
+      console.error('Failed to fetch calibrations:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [baseUrl])
+
+  useEffect(() => {
+    fetchCalibrations()
+  }, [fetchCalibrations])
+
+  const handleEdit = (calibration: SensorCalibration) => {
+    setEditingId(calibration.id)
+    reset({
+      metric: calibration.metric,
+      offset: calibration.offset,
+      gain: calibration.gain,
+      valid_from: toLocalInput(calibration.valid_from),
+      valid_to: calibration.valid_to ? toLocalInput(calibration.valid_to) : '',
+      note: calibration.note || '',
+    })
+  }
+
+  const handleCancelEdit = () => {
+    setEditingId(null)
+    reset(emptyForm())
+  }
+
+  const handleDelete = async (calibration: SensorCalibration) => {
+    try {
+      const res = await fetch(`${baseUrl}/${calibration.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.error || 'Failed to delete calibration')
+      }
+
+      if (editingId === calibration.id) {
+        handleCancelEdit()
+      }
+      await fetchCalibrations()
+      toast.success('Calibration removed')
+    } catch (err: any) {
+      console.error('Error deleting calibration:', err)
+      toast.error(err.message || 'An error occurred while deleting the calibration')
+    }
+  }
+
+  const onSubmit = async (data: CalibrationFormData) => {
+    try {
+      const response = await fetch(editingId ? `${baseUrl}/${editingId}` : baseUrl, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...data,
+          valid_from: toIso(data.valid_from),
+          valid_to: data.valid_to ? toIso(data.valid_to) : null,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to save calibration')
+      }
+
+      await fetchCalibrations()
+      setEditingId(null)
+      reset(emptyForm())
+      toast.success(editingId ? 'Calibration updated!' : 'Calibration added!')
+    } catch (err: any) {
+      console.error('Error saving calibration:', err)
+      toast.error(err.message || 'An error occurred while saving the calibration')
+    }
+  }
+
+  const now = new Date()
+
+  return (
+    <div className="card-container">
+      <h3 className={styles.title}>Calibration</h3>
+      <p className={styles.description}>
+        Corrections for a probe that reads off compared to a reference instrument. Applied to
+        charts, dashboard stats, exports and alerts; the stored readings stay unchanged.
+      </p>
+
+      {isLoading ? (
+        <p className={styles.emptyText}>Loading calibrations...</p>
+      ) : calibrations.length === 0 ? (
+        <p className={styles.emptyText}>No calibrations - readings are shown as measured.</p>
+      ) : (
+        <div className={styles.list}>
+          {calibrations.map((calibration) => (
+            <div
+              key={calibration.id}
+              className={clsx(styles.row, {
+                [styles.ended]: calibration.valid_to !== null && new Date(calibration.valid_to) <= now,
+              })}
+            >
+              <div className={styles.rowInfo}>
+                <span className={styles.rowTitle}>
+                  <span className={styles.metricBadge}>{METRIC_LABELS[calibration.metric]}</span>
+                  {getCorrectionSummary(calibration)}
+                </span>
+                <span className={styles.rowSummary}>
+                  {getValiditySummary(calibration)}
+                  {calibration.note && ` · ${calibration.note}`}
+                </span>
+              </div>
+              <div className={styles.rowActions}>
+                <Button type="button" variant="secondary" size="small" onClick={() => handleEdit(calibration)}>
+                  Edit
+                </Button>
+                <Button type="button" variant="danger" size="small" onClick={() => handleDelete(calibration)}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
+        <h5 className={styles.formTitle}>{editingId ? 'Edit calibration' : 'Add calibration'}</h5>
+
+        <Controller
+          name="metric"
+          control={control}
+          render={({ field }) => (
+            <Select
+              label="Metric"
+              options={METRIC_OPTIONS}
+              value={field.value}
+              onChange={(value) => field.onChange(value)}
+              disabled={isSubmitting}
+              fullWidth
+            />
+          )}
+        />
+
+        <div className={styles.fieldRow}>
+          <Input
+            label="Offset"
+            type="number"
+            step="any"
+            helperText="Added after the gain, e.g. -0.7 for a probe reading 0.7 °C high"
+            disabled={isSubmitting}
+            error={errors.offset?.message}
+            {...register('offset', { valueAsNumber: true })}
+          />
+          <Input
+            label="Gain"
+            type="number"
+            step="any"
+            helperText="1 = offset only"
+            disabled={isSubmitting}
+            error={errors.gain?.message}
+            {...register('gain', { valueAsNumber: true })}
+          />
+        </div>
+
+        <div className={styles.fieldRow}>
+          <Input
+            label="Valid from"
+            type="datetime-local"
+            disabled={isSubmitting}
+            error={errors.valid_from?.message}
+            {...register('valid_from')}
+          />
+          <Input
+            label="Valid until (optional)"
+            type="datetime-local"
+            disabled={isSubmitting}
+            error={errors.valid_to?.message}
+            {...register('valid_to')}
+          />
+        </div>
+
+        <Input
+          label="Note (optional)"
+          placeholder="e.g. Compared with reference thermometer"
+          disabled={isSubmitting}
+          error={errors.note?.message}
+          {...register('note')}
+        />
+
+        <div className={styles.formActions}>
+          <Button type="submit" loading={isSubmitting}>
+            {editingId ? 'Update Calibration' : 'Add Calibration'}
+          </Button>
+          {editingId && (
+            <Button type="button" variant="ghost" onClick={handleCancelEdit} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  )
+}
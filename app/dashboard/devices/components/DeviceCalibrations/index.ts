@@ -0,0 +1 @@
+export { DeviceCalibrations } from './DeviceCalibrations.component'
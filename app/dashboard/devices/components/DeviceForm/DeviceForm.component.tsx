@@ -0,0 +1,134 @@
+/**
+ * DeviceForm Component - Client Component
+ *
+ * Create a device (POST /api/devices) or edit one (PATCH /api/devices/[id]).
+ * Validation: deviceSchema from lib/validations/device.ts, the same schema
+ * the API checks. The device ID is the primary key and can't be changed.
+ */
+
+'use client'
+
+import React from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import toast from 'react-hot-toast'
+import { Input } from '@/components/fields/Input'
+import { Button } from '@/components/atoms/Button'
+import { deviceSchema, DeviceFormData } from '@/lib/validations/device'
+import type { Device } from '@/lib/generated/prisma'
+import styles from './DeviceForm.module.css'
+
+type DeviceFormProps = {
+  device?: Device
+  onSaved: (device: Device) => void
+  onCancel?: () => void
+}
+
+export const DeviceForm: React.FC<DeviceFormProps> = ({ device, onSaved, onCancel }) => {
+  const isEdit = !!device
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<DeviceFormData>({
+    resolver: zodResolver(deviceSchema),
+    defaultValues: {
+      device_id: device?.device_id ?? '',
+      name: device?.name ?? '',
+      location: device?.location ?? '',
+      description: device?.description ?? '',
+    },
+  })
+
+  const onSubmit = async (data: DeviceFormData) => {
+    try {
+      const response = isEdit
+        ? await fetch(`/api/devices/${encodeURIComponent(device.device_id)}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              name: data.name,
+              location: data.location,
+              description: data.description,
+            }),
+          })
+        : await fetch('/api/devices', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(data),
+          })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to save device')
+      }
+
+      const saved: Device = await response.json()
+      if (!isEdit) {
+        reset()
+      }
+      toast.success(isEdit ? 'Device updated!' : 'Device added!')
+      onSaved(saved)
+    } catch (err: any) {
+      console.error('Error saving device:', err)
+      toast.error(err.message || 'An error occurred while saving the device')
+    }
+  }
+
+  return (
+    <div className="card-container">
+      <h3 className={styles.title}>{isEdit ? 'Edit device' : 'Add device'}</h3>
+
+      <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
+        <div className={styles.fieldRow}>
+          <Input
+            label="Device ID"
+            placeholder="10315"
+            helperText={isEdit ? undefined : 'Thermionix probe ID'}
+            readOnly={isEdit}
+            disabled={isSubmitting}
+            error={errors.device_id?.message}
+            {...register('device_id')}
+          />
+          <Input
+            label="Name"
+            placeholder="L8_53_12"
+            disabled={isSubmitting}
+            error={errors.name?.message}
+            {...register('name')}
+          />
+        </div>
+
+        <div className={styles.fieldRow}>
+          <Input
+            label="Location (optional)"
+            placeholder="Lamela from the name"
+            disabled={isSubmitting}
+            error={errors.location?.message}
+            {...register('location')}
+          />
+          <Input
+            label="Description (optional)"
+            placeholder="e.g. Living room, next to the window"
+            disabled={isSubmitting}
+            error={errors.description?.message}
+            {...register('description')}
+          />
+        </div>
+
+        <div className={styles.formActions}>
+          <Button type="submit" loading={isSubmitting}>
+            {isEdit ? 'Update Device' : 'Add Device'}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="ghost" onClick={onCancel} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  )
+}
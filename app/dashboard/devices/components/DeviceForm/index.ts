@@ -0,0 +1 @@
+export { DeviceForm } from './DeviceForm.component'
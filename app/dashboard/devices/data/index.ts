@@ -0,0 +1,23 @@
+import type { SelectOption } from '@/components/fields/Select'
+import type { DeviceHealthStatus } from '@/lib/utils/deviceHealth'
+
+export type DeviceStatusFilter = 'all' | 'active' | 'decommissioned'
+
+export const STATUS_OPTIONS: SelectOption[] = [
+  { label: 'All', value: 'all' },
+  { label: 'Active', value: 'active' },
+  { label: 'Decommissioned', value: 'decommissioned' },
+]
+
+export const HEALTH_STATUS_OPTIONS: SelectOption[] = [
+  { label: 'All', value: 'all' },
+  { label: 'Healthy', value: 'healthy' },
+  { label: 'Degraded', value: 'degraded' },
+  { label: 'Offline', value: 'offline' },
+]
+
+export const HEALTH_STATUS_LABELS: Record<DeviceHealthStatus, string> = {
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  offline: 'Offline',
+}
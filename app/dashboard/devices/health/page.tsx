@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import clsx from "clsx";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowLeft } from "lucide-react";
+import { Select } from "@/components/fields/Select";
+import { MetricCardSkeleton } from "@/components/skeletons/MetricCardSkeleton";
+import { DASHBOARD_ROUTES } from "@/lib/constants/routes";
+import type { DeviceHealth, DeviceHealthStatus, HealthMetric } from "@/lib/utils/deviceHealth";
+import { HEALTH_STATUS_LABELS, HEALTH_STATUS_OPTIONS } from "../data";
+import styles from "./page.module.css";
+
+const METRIC_COLUMNS: { metric: HealthMetric; label: string }[] = [
+  { metric: "temperature", label: "Temp" },
+  { metric: "relative_humidity", label: "Hum" },
+  { metric: "co2", label: "CO2" },
+];
+
+/**
+ * Device Health Page
+ *
+ * Which probes are healthy? Reporting rate, gaps and data quality per sensor
+ * over the last 7 days (see lib/utils/deviceHealth.ts)
+ */
+export default function DeviceHealthPage() {
+  const [devices, setDevices] = useState<DeviceHealth[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<DeviceHealthStatus | "all">("all");
+
+  useEffect(() => {
+    const fetchHealth = async () => {
+      try {
+        const res = await fetch("/api/devices/health");
+
+        if (!res.ok) {
+          console.error("Failed to fetch device health:", res.statusText);
+          return;
+        }
+
+        const data = await res.json();
+        setDevices(data.devices || []);
+      } catch (error) {
+        console.error("Error fetching device health:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHealth();
+  }, []);
+
+  const counts = useMemo(() => {
+    const result: Record<DeviceHealthStatus, number> = { healthy: 0, degraded: 0, offline: 0 };
+    devices.forEach((device) => { result[device.status]++; });
+    return result;
+  }, [devices]);
+
+  const filteredDevices = filterStatus === "all"
+    ? devices
+    : devices.filter((device) => device.status === filterStatus);
+
+  return (
+    <div className={styles.container}>
+      <Link href={DASHBOARD_ROUTES.DEVICES} className={styles.backLink}>
+        <ArrowLeft size={16} />
+        <span>Devices</span>
+      </Link>
+
+      <h1 className={styles.title}>Device Health</h1>
+
+      <div className={styles.summaryGrid}>
+        {isLoading ? (
+          Array.from({ length: 3 }).map((_, i) => <MetricCardSkeleton key={i} />)
+        ) : (
+          (Object.keys(counts) as DeviceHealthStatus[]).map((status) => (
+            <div key={status} className="card-container">
+              <div className={styles.statLabel}>{HEALTH_STATUS_LABELS[status]}</div>
+              <div className={clsx(styles.statValue, styles[status])}>{counts[status]}</div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className={styles.filters}>
+        <Select
+          label="Status"
+          options={HEALTH_STATUS_OPTIONS}
+          value={filterStatus}
+          onChange={(v) => setFilterStatus(v as DeviceHealthStatus | "all")}
+        />
+      </div>
+
+      {isLoading ? (
+        <p className={styles.loading}>Loading device health...</p>
+      ) : filteredDevices.length === 0 ? (
+        <div className={styles.emptyState}>
+          <p>No devices match the current filter</p>
+        </div>
+      ) : (
+        <div className={clsx("card-container", styles.tableWrapper)}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Device</th>
+                <th>Status</th>
+                <th>Last reading</th>
+                <th className={styles.numeric}>Rate 24h</th>
+                <th className={styles.numeric}>Rate 7d</th>
+                <th className={styles.numeric}>Gaps</th>
+                {METRIC_COLUMNS.map(({ metric, label }) => (
+                  <th key={metric} className={styles.numeric}>{label} nulls</th>
+                ))}
+                <th>Issues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredDevices.map((device) => (
+                <tr key={device.device_id}>
+                  <td>
+                    <Link
+                      href={`${DASHBOARD_ROUTES.DEVICES}/${encodeURIComponent(device.device_id)}`}
+                      className={styles.link}
+                    >
+                      {device.name || device.device_id}
+                    </Link>
+                    <span className={styles.muted}>{device.device_id}</span>
+                  </td>
+                  <td>
+                    <span className={clsx(styles.status, styles[device.status])}>
+                      {HEALTH_STATUS_LABELS[device.status]}
+                    </span>
+                  </td>
+                  <td>
+                    {device.last_reading
+                      ? formatDistanceToNow(new Date(device.last_reading), { addSuffix: true })
+                      : "Never"}
+                  </td>
+                  <td className={styles.numeric}>{device.reporting_rate_24h}%</td>
+                  <td className={styles.numeric}>{device.reporting_rate_7d}%</td>
+                  <td
+                    className={styles.numeric}
+                    title={
+                      device.longest_gap_minutes !== null
+                        ? `Longest pause ${device.longest_gap_minutes} min`
+                        : undefined
+                    }
+                  >
+                    {device.gap_count}
+                  </td>
+                  {METRIC_COLUMNS.map(({ metric }) => {
+                    const quality = device.metrics[metric];
+                    return (
+                      <td key={metric} className={styles.numeric}>
+                        {quality?.null_percent != null ? `${quality.null_percent}%` : "—"}
+                      </td>
+                    );
+                  })}
+                  <td className={styles.issues}>
+                    {device.issues.length > 0 ? device.issues.join(" · ") : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
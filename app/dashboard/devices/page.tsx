@@ -0,0 +1,175 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import clsx from "clsx";
+import { format } from "date-fns";
+import { Input } from "@/components/fields/Input";
+import { Select, type SelectOption } from "@/components/fields/Select";
+import { Button } from "@/components/atoms/Button";
+import { DASHBOARD_ROUTES } from "@/lib/constants/routes";
+import type { Device } from "@/lib/generated/prisma";
+import { DeviceForm } from "./components/DeviceForm";
+import { STATUS_OPTIONS, DeviceStatusFilter } from "./data";
+import styles from "./page.module.css";
+
+/**
+ * Devices Page
+ *
+ * All registered devices with search and lamela/status filters. New devices
+ * are added here, everything else happens on /dashboard/devices/[id]
+ */
+export default function DevicesPage() {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [search, setSearch] = useState("");
+  const [filterLamela, setFilterLamela] = useState<string>("all");
+  const [filterStatus, setFilterStatus] = useState<DeviceStatusFilter>("active");
+
+  useEffect(() => {
+    const fetchDevices = async () => {
+      try {
+        const res = await fetch("/api/devices");
+
+        if (!res.ok) {
+          console.error("Failed to fetch devices:", res.statusText);
+          return;
+        }
+
+        setDevices(await res.json());
+      } catch (error) {
+        console.error("Error fetching devices:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchDevices();
+  }, []);
+
+  // COMMENT: Lamelas come from the devices themselves, in numeric order (L10 after L9)
+  const lamelaOptions = useMemo((): SelectOption[] => {
+    const lamelas = Array.from(
+      new Set(devices.map((device) => device.location).filter((l): l is string => !!l)),
+    ).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+    return [
+      { label: "All lamelas", value: "all" },
+      ...lamelas.map((lamela) => ({ label: lamela, value: lamela })),
+    ];
+  }, [devices]);
+
+  const filteredDevices = useMemo(() => {
+    const query = search.trim().toLowerCase();
+
+    return devices.filter((device) => {
+      if (filterLamela !== "all" && device.location !== filterLamela) return false;
+      if (filterStatus === "active" && device.decommissioned_at) return false;
+      if (filterStatus === "decommissioned" && !device.decommissioned_at) return false;
+      if (!query) return true;
+
+      return [device.device_id, device.name, device.description]
+        .some((field) => field?.toLowerCase().includes(query));
+    });
+  }, [devices, search, filterLamela, filterStatus]);
+
+  const handleSaved = (device: Device) => {
+    setDevices((prev) => [...prev, device]);
+    setShowForm(false);
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <h1 className={styles.title}>Devices</h1>
+        <div className={styles.headerActions}>
+          <Link href={DASHBOARD_ROUTES.DEVICE_HEALTH} className={styles.link}>
+            Device health
+          </Link>
+          {!showForm && (
+            <Button onClick={() => setShowForm(true)}>Add device</Button>
+          )}
+        </div>
+      </div>
+
+      {showForm && (
+        <div className={styles.formSection}>
+          <DeviceForm onSaved={handleSaved} onCancel={() => setShowForm(false)} />
+        </div>
+      )}
+
+      <div className={styles.filters}>
+        <Input
+          label="Search"
+          placeholder="ID, name or description"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <Select
+          label="Lamela"
+          options={lamelaOptions}
+          value={filterLamela}
+          onChange={(v) => setFilterLamela(String(v))}
+        />
+        <Select
+          label="Status"
+          options={STATUS_OPTIONS}
+          value={filterStatus}
+          onChange={(v) => setFilterStatus(v as DeviceStatusFilter)}
+        />
+      </div>
+
+      {isLoading ? (
+        <p className={styles.loading}>Loading devices...</p>
+      ) : filteredDevices.length === 0 ? (
+        <div className={styles.emptyState}>
+          <p>No devices match the current filter</p>
+        </div>
+      ) : (
+        <div className="card-container">
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>ID</th>
+                <th>Name</th>
+                <th>Lamela</th>
+                <th>Description</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredDevices.map((device) => (
+                <tr key={device.device_id}>
+                  <td>
+                    <Link
+                      href={`${DASHBOARD_ROUTES.DEVICES}/${encodeURIComponent(device.device_id)}`}
+                      className={styles.link}
+                    >
+                      {device.device_id}
+                    </Link>
+                  </td>
+                  <td>{device.name || "—"}</td>
+                  <td>{device.location || "—"}</td>
+                  <td className={styles.description}>{device.description || "—"}</td>
+                  <td>
+                    <span
+                      className={clsx(styles.status, device.decommissioned_at && styles.decommissioned)}
+                      title={
+                        device.decommissioned_at
+                          ? `Since ${format(new Date(device.decommissioned_at), "MMM d, yyyy")}`
+                          : undefined
+                      }
+                    >
+                      {device.decommissioned_at ? "Decommissioned" : "Active"}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronUp,
+  CircleCheck,
+  Info,
+  Layers,
+  LucideIcon,
+} from 'lucide-react'
+import { formatDistanceToNow, formatDistanceStrict } from 'date-fns'
+import clsx from 'clsx'
+import type { Alert, AlertSeverity, Incident, IncidentEvent } from '@/lib/generated/prisma'
+import { formatLamelaDisplay, parseDeviceLocation } from '@/lib/utils/deviceParsing'
+import { EVENT_LABELS } from '../../data'
+import styles from './IncidentCard.module.css'
+
+type IncidentDetail = Incident & {
+  alerts: Alert[]
+  events: IncidentEvent[]
+}
+
+type IncidentCardProps = {
+  incident: Incident
+  onAcknowledge: (incidentId: string) => Promise<void>
+}
+
+const SEVERITY_ICONS: Record<AlertSeverity, LucideIcon> = {
+  HIGH: AlertCircle,
+  MEDIUM: AlertTriangle,
+  LOW: Info,
+}
+
+/**
+ * "Lamela 8 · Buildings 33, 53"
+ */
+function getIncidentTitle(incident: Incident): string {
+  const lamela = parseDeviceLocation(incident.lamela)
+  const title = lamela !== null ? formatLamelaDisplay(lamela) : incident.lamela
+  if (incident.buildings.length === 0) return title
+
+  const buildings = incident.buildings.map((b) => b.replace(`${incident.lamela}_`, ''))
+  return `${title} · ${buildings.length === 1 ? 'Building' : 'Buildings'} ${buildings.join(', ')}`
+}
+
+function getAlertLabel(alert: Alert): string {
+  const location = alert.apartment_name || alert.location || 'Unknown'
+  return `${location} · ${alert.alert_type} · ${alert.measured_value.toFixed(1)}${alert.unit}`
+}
+
+export const IncidentCard: React.FC<IncidentCardProps> = ({ incident, onAcknowledge }) => {
+  const SeverityIcon = SEVERITY_ICONS[incident.severity] || Info
+  const [detail, setDetail] = useState<IncidentDetail | null>(null)
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [isAcknowledging, setIsAcknowledging] = useState(false)
+
+  const cardClasses = clsx(
+    styles.card,
+    styles[incident.severity.toLowerCase()],
+    incident.status === 'RESOLVED' && styles.resolved
+  )
+
+  const loadDetail = async () => {
+    try {
+      const res = await fetch(`/api/incidents/${incident.id}`)
+      if (res.ok) {
+        setDetail(await res.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch incident:', error)
+    }
+  }
+
+  // Alerts and timeline are loaded on first expand
+  const handleToggle = () => {
+    setIsExpanded(!isExpanded)
+    if (detail === null) loadDetail()
+  }
+
+  const handleAcknowledgeClick = async (e: React.MouseEvent) => {
+    e.stopPropagation()
+    setIsAcknowledging(true)
+    await onAcknowledge(incident.id)
+    setIsAcknowledging(false)
+    if (detail !== null) loadDetail()
+  }
+
+  return (
+    <div className={cardClasses}>
+      <div className={styles.summary} onClick={handleToggle}>
+        <div className={styles.iconWrapper}>
+          <Layers size={24} />
+        </div>
+
+        <div className={styles.content}>
+          <div className={styles.header}>
+            <div className={styles.badges}>
+              <span className={clsx(styles.severityBadge, styles[incident.severity.toLowerCase()])}>
+                <SeverityIcon size={14} />
+                <span>{incident.severity}</span>
+              </span>
+              {incident.sources.map((source) => (
+                <span key={source} className={styles.sourceBadge}>{source}</span>
+              ))}
+              {incident.status === 'ACKNOWLEDGED' && (
+                <span className={styles.acknowledgedBadge}>
+                  <CheckCircle2 size={14} />
+                  <span>Acknowledged</span>
+                </span>
+              )}
+              {incident.status === 'RESOLVED' && (
+                <span className={styles.resolvedBadge}>
+                  <CircleCheck size={14} />
+                  <span>Resolved</span>
+                </span>
+              )}
+            </div>
+            <span className={styles.timestamp}>
+              {formatDistanceToNow(new Date(incident.last_alert_at), { addSuffix: true })}
+            </span>
+          </div>
+
+          <p className={styles.title}>{getIncidentTitle(incident)}</p>
+
+          <span className={styles.meta}>
+            {incident.alert_count} {incident.alert_count === 1 ? 'alert' : 'alerts'} · started{' '}
+            {new Date(incident.first_alert_at).toLocaleString()}
+            {incident.resolved_at &&
+              ` · lasted ${formatDistanceStrict(new Date(incident.first_alert_at), new Date(incident.resolved_at))}`}
+          </span>
+        </div>
+
+        <div className={styles.actions}>
+          {incident.status === 'OPEN' && (
+            <button
+              className={styles.acknowledgeButton}
+              onClick={handleAcknowledgeClick}
+              disabled={isAcknowledging}
+            >
+              <CheckCircle2 size={14} />
+              <span>Acknowledge all</span>
+            </button>
+          )}
+          {isExpanded ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className={styles.details}>
+          {detail === null ? (
+            <p className={styles.meta}>Loading incident...</p>
+          ) : (
+            <>
+              <div>
+                <h3 className={styles.detailTitle}>Timeline</h3>
+                <ul className={styles.timeline}>
+                  {detail.events.map((event) => (
+                    <li key={event.id}>
+                      <span className={styles.eventTime}>{new Date(event.created_at).toLocaleString()}</span>
+                      <span className={styles.eventType}>{EVENT_LABELS[event.type] || event.type}</span>
+                      <span>{event.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <h3 className={styles.detailTitle}>Alerts</h3>
+                <ul className={styles.alerts}>
+                  {detail.alerts.map((alert) => (
+                    <li key={alert.id} className={clsx(alert.resolved_at && styles.resolvedAlert)}>
+                      <span>{getAlertLabel(alert)}</span>
+                      <span className={styles.meta}>
+                        {alert.resolved_at ? 'Resolved' : alert.is_acknowledged ? 'Acknowledged' : 'Open'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
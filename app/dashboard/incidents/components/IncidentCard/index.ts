@@ -0,0 +1 @@
+export { IncidentCard } from './IncidentCard.component'
@@ -0,0 +1,18 @@
+import type { SelectOption } from '@/components/fields/Select'
+
+export const STATUS_OPTIONS: SelectOption[] = [
+  { label: 'All', value: 'all' },
+  { label: 'Open', value: 'OPEN' },
+  { label: 'Acknowledged', value: 'ACKNOWLEDGED' },
+  { label: 'Resolved', value: 'RESOLVED' },
+]
+
+export const EVENT_LABELS: Record<string, string> = {
+  OPENED: 'Opened',
+  ALERT_ADDED: 'Alert added',
+  SEVERITY_RAISED: 'Severity raised',
+  ACKNOWLEDGED: 'Acknowledged',
+  REOPENED: 'Reopened',
+  ALERT_RESOLVED: 'Alert resolved',
+  RESOLVED: 'Resolved',
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { useAlerts } from "@/lib/contexts/AlertsContext";
+import { Select } from "@/components/fields/Select";
+import type { Incident, IncidentStatus } from "@/lib/generated/prisma";
+import { IncidentCard } from "./components/IncidentCard";
+import { STATUS_OPTIONS } from "./data";
+import styles from "./page.module.css";
+
+/**
+ * Incidents Page
+ *
+ * Related alerts grouped per lamela (see lib/utils/incidents.ts) - one entry
+ * and one acknowledge for a whole substation failure
+ */
+export default function IncidentsPage() {
+  const { alerts, refetch } = useAlerts();
+
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<IncidentStatus | "all">(
+    "OPEN",
+  );
+
+  const fetchIncidents = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ limit: "100" });
+      if (filterStatus !== "all") params.set("status", filterStatus);
+
+      const res = await fetch(`/api/incidents?${params}`);
+
+      if (!res.ok) {
+        console.error("Failed to fetch incidents:", res.statusText);
+        return;
+      }
+
+      const data = await res.json();
+      setIncidents(data.incidents || []);
+    } catch (error) {
+      console.error("Error fetching incidents:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filterStatus]);
+
+  // COMMENT: Re-read whenever the alert list changes (alert stream) - new
+  // alerts may have joined or resolved an incident
+  useEffect(() => {
+    fetchIncidents();
+  }, [fetchIncidents, alerts]);
+
+  const handleAcknowledge = async (incidentId: string) => {
+    try {
+      const res = await fetch(`/api/incidents/${incidentId}/acknowledge`, {
+        method: "POST",
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || "Failed to acknowledge incident");
+      }
+
+      toast.success("Incident acknowledged");
+      await Promise.all([fetchIncidents(), refetch()]);
+    } catch (error: any) {
+      console.error("Error acknowledging incident:", error);
+      toast.error(
+        error.message || "An error occurred while acknowledging the incident",
+      );
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <h1 className={styles.title}>Incidents</h1>
+        <Link href="/dashboard/notifications" className={styles.link}>
+          All alerts
+        </Link>
+      </div>
+
+      <div className={styles.filters}>
+        <Select
+          label="Status"
+          options={STATUS_OPTIONS}
+          value={filterStatus}
+          onChange={(v) => setFilterStatus(v as IncidentStatus | "all")}
+        />
+      </div>
+
+      {isLoading ? (
+        <p className={styles.loading}>Loading incidents...</p>
+      ) : (
+        <div className={styles.incidentsList}>
+          {incidents.length === 0 ? (
+            <div className={styles.emptyState}>
+              <p>No incidents match the current filter</p>
+            </div>
+          ) : (
+            incidents.map((incident) => (
+              <IncidentCard
+                key={incident.id}
+                incident={incident}
+                onAcknowledge={handleAcknowledge}
+              />
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { useAlerts } from "@/lib/contexts/AlertsContext";
+import type { Alert, AlertAssignment } from "@/lib/generated/prisma";
+import { matchesMute } from "@/lib/utils/alertMutes";
+import { AlertCard } from "../components/AlertCard";
+import { AlertAssignmentForm } from "../components/AlertAssignmentForm";
+import { AlertComments } from "../components/AlertComments";
+import { AlertActivityLog } from "../components/AlertActivityLog";
+import styles from "./page.module.css";
+
+type AlertDetail = Alert & { assignment: AlertAssignment | null };
+
+/**
+ * Alert Detail Page
+ *
+ * One alert with its work log: assignment, comments / resolution notes and
+ * the activity history. Also open to the colleague the alert is assigned to.
+ */
+export default function AlertDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { refetch, mutes, snoozeAlert } = useAlerts();
+
+  const [alert, setAlert] = useState<AlertDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  // COMMENT: Bumped after every change so the activity log reloads
+  const [activityVersion, setActivityVersion] = useState(0);
+
+  const fetchAlert = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/alerts/${id}`);
+
+      if (!res.ok) {
+        setNotFound(true);
+        return;
+      }
+
+      setAlert(await res.json());
+    } catch (error) {
+      console.error("Error fetching alert:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchAlert();
+  }, [fetchAlert]);
+
+  const handleChange = () => {
+    fetchAlert();
+    setActivityVersion((v) => v + 1);
+  };
+
+  const handleAcknowledge = async (alertId: string) => {
+    try {
+      const res = await fetch(`/api/alerts/${alertId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_acknowledged: true, is_read: true }),
+      });
+
+      if (res.ok) {
+        handleChange();
+        refetch();
+      }
+    } catch (error) {
+      console.error("Error acknowledging alert:", error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className={styles.container}>
+        <p className={styles.loading}>Loading alert...</p>
+      </div>
+    );
+  }
+
+  if (notFound || !alert) {
+    return (
+      <div className={styles.container}>
+        <Link href="/dashboard/notifications" className={styles.backLink}>
+          <ArrowLeft size={16} />
+          <span>Notifications</span>
+        </Link>
+        <div className={styles.emptyState}>
+          <p>Alert not found</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container}>
+      <Link href="/dashboard/notifications" className={styles.backLink}>
+        <ArrowLeft size={16} />
+        <span>Notifications</span>
+      </Link>
+
+      <AlertCard
+        alert={alert}
+        isSelected={false}
+        onSelect={() => {}}
+        onAcknowledge={handleAcknowledge}
+        onSnooze={snoozeAlert}
+        isMuted={mutes.some((mute) => matchesMute(mute, alert))}
+        isSelectable={false}
+        showDetailsLink={false}
+      />
+
+      <div className={styles.columns}>
+        <div className={styles.column}>
+          <AlertAssignmentForm
+            alertId={alert.id}
+            assignment={alert.assignment}
+            onChange={handleChange}
+          />
+          <AlertComments alertId={alert.id} onChange={handleChange} />
+        </div>
+        <div className={styles.column}>
+          <AlertActivityLog
+            alertId={alert.id}
+            createdAt={alert.created_at}
+            version={activityVersion}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client'
+
+/**
+ * Acknowledge All Matching
+ *
+ * WORKFLOW:
+ * 1. Dry run against POST /api/alerts/bulk to count the unacknowledged
+ *    alerts matching the current filters - including older ones the list
+ *    hasn't loaded
+ * 2. User confirms the count
+ * 3. Same request without dry_run acknowledges them
+ */
+
+import React, { useState } from 'react'
+import clsx from 'clsx'
+import toast from 'react-hot-toast'
+import styles from './AcknowledgeMatching.module.css'
+
+type AcknowledgeMatchingProps = {
+  filters: Record<string, string>
+  onAcknowledged: () => Promise<void>
+}
+
+async function runBulkAcknowledge(filters: Record<string, string>, dryRun: boolean) {
+  const res = await fetch('/api/alerts/bulk', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'acknowledge', filters, dry_run: dryRun }),
+  })
+
+  if (!res.ok) {
+    const error = await res.json()
+    throw new Error(error.error || 'Bulk acknowledge failed')
+  }
+
+  return res.json() as Promise<{ matched_count: number; updated_count: number }>
+}
+
+export const AcknowledgeMatching: React.FC<AcknowledgeMatchingProps> = ({ filters, onAcknowledged }) => {
+  const [matchedCount, setMatchedCount] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleCount = async () => {
+    setIsLoading(true)
+    try {
+      const { matched_count } = await runBulkAcknowledge(filters, true)
+      if (matched_count === 0) {
+        toast.success('No unacknowledged alerts match the current filters')
+      } else {
+        setMatchedCount(matched_count)
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'An error occurred while counting alerts')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleConfirm = async () => {
+    setIsLoading(true)
+    try {
+      const { updated_count } = await runBulkAcknowledge(filters, false)
+      toast.success(`Acknowledged ${updated_count.toLocaleString()} alerts`)
+      setMatchedCount(null)
+      await onAcknowledged()
+    } catch (error: any) {
+      toast.error(error.message || 'An error occurred while acknowledging alerts')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (matchedCount === null) {
+    return (
+      <button className={styles.button} onClick={handleCount} disabled={isLoading}>
+        Acknowledge All Matching
+      </button>
+    )
+  }
+
+  return (
+    <div className={styles.container}>
+      <span className={styles.prompt}>
+        {matchedCount.toLocaleString()} unacknowledged {matchedCount === 1 ? 'alert matches' : 'alerts match'}
+      </span>
+      <button className={clsx(styles.button, styles.confirm)} onClick={handleConfirm} disabled={isLoading}>
+        Acknowledge {matchedCount.toLocaleString()}
+      </button>
+      <button className={styles.cancelButton} onClick={() => setMatchedCount(null)} disabled={isLoading}>
+        Cancel
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { AcknowledgeMatching } from './AcknowledgeMatching.component'
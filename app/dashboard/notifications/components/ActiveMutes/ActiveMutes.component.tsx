@@ -0,0 +1,56 @@
+'use client'
+
+import React from 'react'
+import { BellOff } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import type { AlertMute } from '@/lib/generated/prisma'
+import styles from './ActiveMutes.module.css'
+
+type ActiveMutesProps = {
+  mutes: AlertMute[]
+  onUnmute: (muteId: string) => void
+}
+
+/**
+ * "L8_53_12 · Temp high" / "All devices · Frost"
+ */
+function getMuteTitle(mute: AlertMute): string {
+  const target = mute.label || mute.device_id || mute.location || 'All devices'
+  const type = mute.alert_type
+    ? mute.alert_type.charAt(0) + mute.alert_type.slice(1).toLowerCase().replace(/_/g, ' ')
+    : 'All alerts'
+  return `${target} · ${type}`
+}
+
+function getMuteExpiry(mute: AlertMute): string {
+  if (!mute.muted_until) return 'Muted until unmuted'
+  const until = new Date(mute.muted_until)
+  return `Snoozed until ${until.toLocaleString()} (${formatDistanceToNow(until, { addSuffix: true })})`
+}
+
+export const ActiveMutes: React.FC<ActiveMutesProps> = ({ mutes, onUnmute }) => {
+  if (mutes.length === 0) return null
+
+  return (
+    <div className={styles.section}>
+      <h2 className={styles.title}>
+        <BellOff size={16} />
+        <span>Muted alerts ({mutes.length})</span>
+      </h2>
+
+      <div className={styles.list}>
+        {mutes.map((mute) => (
+          <div key={mute.id} className={styles.row}>
+            <div className={styles.info}>
+              <span className={styles.rowTitle}>{getMuteTitle(mute)}</span>
+              <span className={styles.expiry}>{getMuteExpiry(mute)}</span>
+            </div>
+            <button className={styles.unmuteButton} onClick={() => onUnmute(mute.id)}>
+              Unmute
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { ActiveMutes } from './ActiveMutes.component'
@@ -0,0 +1,75 @@
+/**
+ * AlertActivityLog Component - Client Component
+ *
+ * Chronological work log of an alert (assignments, comments, acknowledgements,
+ * escalations, resolution). Reloads whenever `version` changes.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { AlertActivity, AlertActivityType } from '@/lib/generated/prisma'
+import styles from './AlertActivityLog.module.css'
+
+const ACTIVITY_LABELS: Record<AlertActivityType, string> = {
+  ASSIGNED: 'Assigned',
+  UNASSIGNED: 'Unassigned',
+  COMMENTED: 'Comment',
+  RESOLUTION_NOTE: 'Resolution note',
+  ACKNOWLEDGED: 'Acknowledged',
+  UNACKNOWLEDGED: 'Acknowledgement withdrawn',
+  ESCALATED: 'Escalated',
+  RESOLVED: 'Resolved',
+}
+
+type AlertActivityLogProps = {
+  alertId: string
+  createdAt: Date | string
+  version: number
+}
+
+export const AlertActivityLog: React.FC<AlertActivityLogProps> = ({ alertId, createdAt, version }) => {
+  const [activities, setActivities] = useState<AlertActivity[] | null>(null)
+
+  useEffect(() => {
+    const fetchActivities = async () => {
+      try {
+        const res = await fetch(`/api/alerts/${alertId}/activity`)
+        const data = await res.json()
+        if (data.activities) {
+          setActivities(data.activities)
+        }
+      } catch (error) {
+        console.error('Failed to fetch activity log:', error)
+      }
+    }
+    fetchActivities()
+  }, [alertId, version])
+
+  return (
+    <div className={styles.section}>
+      <h2 className={styles.title}>Activity</h2>
+
+      <ul className={styles.list}>
+        <li>
+          <span className={styles.time}>{new Date(createdAt).toLocaleString()}</span>
+          <span className={styles.type}>Raised</span>
+        </li>
+        {activities === null ? (
+          <li className={styles.time}>Loading activity...</li>
+        ) : (
+          activities.map((activity) => (
+            <li key={activity.id}>
+              <span className={styles.time}>{new Date(activity.created_at).toLocaleString()}</span>
+              <span className={styles.type}>{ACTIVITY_LABELS[activity.type]}</span>
+              {activity.message !== ACTIVITY_LABELS[activity.type] && (
+                <span className={styles.message}>{activity.message}</span>
+              )}
+              {activity.user_email && <span className={styles.user}>by {activity.user_email}</span>}
+            </li>
+          ))
+        )}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { AlertActivityLog } from './AlertActivityLog.component'
@@ -0,0 +1,120 @@
+/**
+ * AlertAssignmentForm Component - Client Component
+ *
+ * Current assignee of an alert, with a form to (re)assign it to a colleague
+ * by login email, or remove the assignment
+ */
+
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import toast from 'react-hot-toast'
+import { UserCheck } from 'lucide-react'
+import { Input } from '@/components/fields/Input'
+import { Button } from '@/components/atoms/Button'
+import type { AlertAssignment } from '@/lib/generated/prisma'
+import styles from './AlertAssignmentForm.module.css'
+
+const assignmentSchema = z.object({
+  email: z.string().trim().email('Enter a valid email address'),
+})
+
+type AssignmentFormData = z.infer<typeof assignmentSchema>
+
+type AlertAssignmentFormProps = {
+  alertId: string
+  assignment: AlertAssignment | null
+  onChange: () => void
+}
+
+export const AlertAssignmentForm: React.FC<AlertAssignmentFormProps> = ({
+  alertId,
+  assignment,
+  onChange,
+}) => {
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<AssignmentFormData>({
+    resolver: zodResolver(assignmentSchema),
+    defaultValues: { email: '' },
+  })
+
+  const onSubmit = async (data: AssignmentFormData) => {
+    try {
+      const res = await fetch(`/api/alerts/${alertId}/assignment`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to assign alert')
+      }
+
+      toast.success(`Assigned to ${data.email}`)
+      reset({ email: '' })
+      onChange()
+    } catch (error: any) {
+      console.error('Error assigning alert:', error)
+      toast.error(error.message || 'An error occurred while assigning the alert')
+    }
+  }
+
+  const handleUnassign = async () => {
+    try {
+      const res = await fetch(`/api/alerts/${alertId}/assignment`, {
+        method: 'DELETE',
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.error || 'Failed to remove assignment')
+      }
+
+      toast.success('Assignment removed')
+      onChange()
+    } catch (error: any) {
+      console.error('Error removing assignment:', error)
+      toast.error(error.message || 'An error occurred while removing the assignment')
+    }
+  }
+
+  return (
+    <div className={styles.section}>
+      <h2 className={styles.title}>Assignment</h2>
+
+      {assignment ? (
+        <div className={styles.current}>
+          <UserCheck size={16} />
+          <span>
+            {assignment.assignee_email} · since {new Date(assignment.assigned_at).toLocaleString()}
+          </span>
+          <button type="button" className={styles.unassignButton} onClick={handleUnassign}>
+            Unassign
+          </button>
+        </div>
+      ) : (
+        <p className={styles.empty}>Not assigned</p>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
+        <Input
+          label={assignment ? 'Reassign to' : 'Assign to'}
+          type="email"
+          placeholder="colleague@example.com"
+          error={errors.email?.message}
+          {...register('email')}
+        />
+        <Button type="submit" loading={isSubmitting}>
+          Assign
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { AlertAssignmentForm } from './AlertAssignmentForm.component'
@@ -1,6 +1,6 @@
 'use client'
 
-import React from 'react'
+import React, { useState } from 'react'
 import {
   Thermometer,
   Droplets,
@@ -13,19 +13,35 @@ import {
   Zap,
   Server,
   Cloud,
+  CircleCheck,
+  WifiOff,
+  Snowflake,
+  CloudRain,
+  Flame,
+  BellOff,
+  ChevronsUp,
+  MessageSquare,
   LucideIcon
 } from 'lucide-react'
-import { formatDistanceToNow } from 'date-fns'
+import Link from 'next/link'
+import { formatDistanceToNow, formatDistanceStrict } from 'date-fns'
 import clsx from 'clsx'
-import type { Alert, AlertSource, AlertSeverity } from '@/lib/generated/prisma'
+import type { Alert, AlertEscalation, AlertSource, AlertSeverity } from '@/lib/generated/prisma'
+import { SnoozeMenu } from '@/components/atoms/SnoozeMenu'
+import { getAlertText } from '@/lib/utils/alertText'
 import styles from './AlertCard.module.css'
 
 type AlertCardProps = {
   alert: Alert
   isSelected: boolean
   onSelect: (alertId: string) => void
-  onClick: (alert: Alert) => void
+  onClick?: (alert: Alert) => void
   onAcknowledge: (alertId: string) => void
+  onSnooze: (alert: Alert, hours: number | null) => void | Promise<void>
+  isMuted?: boolean
+  // COMMENT: Off on the alert detail page - no bulk selection, already there
+  isSelectable?: boolean
+  showDetailsLink?: boolean
   className?: string
 }
 
@@ -34,6 +50,13 @@ const METRIC_ICONS: Record<string, LucideIcon> = {
   HUMIDITY: Droplets,
   CO2: Wind,
   PRESSURE: Gauge,
+  STALE: WifiOff,
+  FROST: Snowflake,
+  WIND_GUST: Wind,
+  RAIN_RATE: CloudRain,
+  BAROMETRIC: Gauge,
+  SUPPLY: Flame,
+  DELTA_T: Flame,
 }
 
 const SOURCE_ICONS: Record<AlertSource, LucideIcon> = {
@@ -55,21 +78,29 @@ function getMetricIcon(alertType: string): LucideIcon {
   return Info
 }
 
-function getAlertText(alert: Alert): string {
-  const location = alert.apartment_name || alert.location || 'Unknown'
-
-  let metric = ''
-  if (alert.alert_type.includes('TEMP')) metric = 'Temperature'
-  else if (alert.alert_type.includes('PRESSURE')) metric = 'Pressure'
-  else if (alert.alert_type.includes('HUMIDITY')) metric = 'Humidity'
-  else if (alert.alert_type.includes('CO2')) metric = 'CO2'
-
-  const direction = alert.alert_type.includes('HIGH') ? 'too high' : 'too low'
-  const comparison = alert.alert_type.includes('HIGH') ? '>' : '<'
-  const measuredValue = `${alert.measured_value.toFixed(1)}${alert.unit}`
-  const thresholdValue = `${alert.threshold_value.toFixed(1)}${alert.unit}`
+/**
+ * "14:05 · Supervisor step · MEDIUM → HIGH · re-notified · notified a@x.com"
+ */
+function getEscalationText(escalation: AlertEscalation): string {
+  const parts = [
+    new Date(escalation.escalated_at).toLocaleString(),
+    escalation.policy_name,
+    escalation.previous_severity === escalation.new_severity
+      ? escalation.new_severity
+      : `${escalation.previous_severity} → ${escalation.new_severity}`,
+  ]
+  if (escalation.renotified) parts.push('re-notified')
+  if (escalation.notified_emails.length > 0) parts.push(`notified ${escalation.notified_emails.join(', ')}`)
+  return parts.join(' · ')
+}
 
-  return `${location}: ${metric} ${direction} (${measuredValue} ${comparison} ${thresholdValue})`
+/**
+ * How long the violation lasted - from alert creation until the value
+ * returned to range (resolved_at)
+ */
+function getResolvedDuration(alert: Alert): string | null {
+  if (!alert.resolved_at) return null
+  return formatDistanceStrict(new Date(alert.created_at), new Date(alert.resolved_at))
 }
 
 export const AlertCard: React.FC<AlertCardProps> = ({
@@ -78,16 +109,25 @@ export const AlertCard: React.FC<AlertCardProps> = ({
   onSelect,
   onClick,
   onAcknowledge,
+  onSnooze,
+  isMuted = false,
+  isSelectable = true,
+  showDetailsLink = true,
   className,
 }) => {
   const MetricIcon = getMetricIcon(alert.alert_type)
   const SourceIcon = SOURCE_ICONS[alert.source] || Info
   const SeverityIcon = SEVERITY_ICONS[alert.severity] || Info
+  const resolvedDuration = getResolvedDuration(alert)
+  const [escalations, setEscalations] = useState<AlertEscalation[] | null>(null)
+  const [showEscalations, setShowEscalations] = useState(false)
 
   const cardClasses = clsx(
     styles.card,
     !alert.is_read && styles.unread,
     styles[alert.severity.toLowerCase()],
+    alert.resolved_at && styles.resolved,
+    !onClick && styles.static,
     className
   )
 
@@ -95,15 +135,33 @@ export const AlertCard: React.FC<AlertCardProps> = ({
     e.stopPropagation()
   }
 
+  // Escalation history is loaded on first expand
+  const handleEscalationsClick = async (e: React.MouseEvent) => {
+    e.stopPropagation()
+    setShowEscalations(!showEscalations)
+
+    if (escalations === null) {
+      try {
+        const res = await fetch(`/api/alerts/${alert.id}`)
+        if (res.ok) {
+          const data = await res.json()
+          setEscalations(data.escalations || [])
+        }
+      } catch (error) {
+        console.error('Failed to fetch escalation history:', error)
+      }
+    }
+  }
+
   const handleAcknowledgeClick = (e: React.MouseEvent) => {
     e.stopPropagation()
     onAcknowledge(alert.id)
   }
 
   return (
-    <div className={cardClasses} onClick={() => onClick(alert)}>
+    <div className={cardClasses} onClick={() => onClick?.(alert)}>
       {/* Checkbox - only show for unacknowledged alerts */}
-      {!alert.is_acknowledged && (
+      {isSelectable && !alert.is_acknowledged && (
         <div className={styles.checkbox}>
           <input
             type="checkbox"
@@ -137,6 +195,29 @@ export const AlertCard: React.FC<AlertCardProps> = ({
                 <span>Acknowledged</span>
               </span>
             )}
+            {alert.resolved_at && (
+              <span className={styles.resolvedBadge}>
+                <CircleCheck size={14} />
+                <span>Resolved</span>
+              </span>
+            )}
+            {alert.escalation_level > 0 && (
+              <button
+                type="button"
+                className={styles.escalatedBadge}
+                onClick={handleEscalationsClick}
+                aria-expanded={showEscalations}
+              >
+                <ChevronsUp size={14} />
+                <span>Escalated{alert.escalation_level > 1 ? ` ×${alert.escalation_level}` : ''}</span>
+              </button>
+            )}
+            {isMuted && (
+              <span className={styles.mutedBadge}>
+                <BellOff size={14} />
+                <span>Muted</span>
+              </span>
+            )}
           </div>
           <span className={styles.timestamp}>
             {formatDistanceToNow(new Date(alert.created_at), { addSuffix: true })}
@@ -146,17 +227,48 @@ export const AlertCard: React.FC<AlertCardProps> = ({
         <p className={styles.text}>{getAlertText(alert)}</p>
 
         <span className={styles.measurementTime}>
-          Measured: {new Date(alert.measurement_time).toLocaleString()}
+          {alert.alert_type === 'DATA_STALE' ? 'Last data' : 'Measured'}: {new Date(alert.measurement_time).toLocaleString()}
         </span>
+
+        {alert.resolved_at && (
+          <span className={styles.resolvedTime}>
+            Back in range: {new Date(alert.resolved_at).toLocaleString()} (lasted {resolvedDuration})
+          </span>
+        )}
+
+        {showEscalations && (
+          <ul className={styles.escalations}>
+            {escalations === null ? (
+              <li>Loading escalation history...</li>
+            ) : (
+              escalations.map((escalation) => (
+                <li key={escalation.id}>{getEscalationText(escalation)}</li>
+              ))
+            )}
+          </ul>
+        )}
       </div>
 
       {/* Actions */}
-      {!alert.is_acknowledged && (
-        <button className={styles.acknowledgeButton} onClick={handleAcknowledgeClick}>
-          <CheckCircle2 size={14} />
-          <span>Acknowledge</span>
-        </button>
-      )}
+      <div className={styles.actions}>
+        {!alert.is_acknowledged && (
+          <button className={styles.acknowledgeButton} onClick={handleAcknowledgeClick}>
+            <CheckCircle2 size={14} />
+            <span>Acknowledge</span>
+          </button>
+        )}
+        {!isMuted && <SnoozeMenu onSnooze={(hours) => onSnooze(alert, hours)} />}
+        {showDetailsLink && (
+          <Link
+            href={`/dashboard/notifications/${alert.id}`}
+            className={styles.detailsLink}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <MessageSquare size={14} />
+            <span>Details</span>
+          </Link>
+        )}
+      </div>
     </div>
   )
 }
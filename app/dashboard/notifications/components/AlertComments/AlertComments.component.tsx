@@ -0,0 +1,173 @@
+/**
+ * AlertComments Component - Client Component
+ *
+ * Comment thread of an alert:
+ * - Comments and resolution notes, oldest first (resolution notes highlighted)
+ * - Form to post a comment, optionally marked as resolution note
+ * - Delete your own comments
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import toast from 'react-hot-toast'
+import clsx from 'clsx'
+import { formatDistanceToNow } from 'date-fns'
+import { Wrench } from 'lucide-react'
+import { Button } from '@/components/atoms/Button'
+import type { AlertComment } from '@/lib/generated/prisma'
+import styles from './AlertComments.module.css'
+
+const commentSchema = z.object({
+  body: z.string().trim().min(1, 'Write something first').max(5000, 'At most 5000 characters'),
+  is_resolution_note: z.boolean(),
+})
+
+type CommentFormData = z.infer<typeof commentSchema>
+
+type AlertCommentsProps = {
+  alertId: string
+  onChange: () => void
+}
+
+export const AlertComments: React.FC<AlertCommentsProps> = ({ alertId, onChange }) => {
+  const [comments, setComments] = useState<AlertComment[]>([])
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<CommentFormData>({
+    resolver: zodResolver(commentSchema),
+    defaultValues: { body: '', is_resolution_note: false },
+  })
+
+  const fetchComments = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/alerts/${alertId}/comments`)
+      const data = await res.json()
+      if (data.comments) {
+        setComments(data.comments)
+        setCurrentUserId(data.current_user_id)
+      }
+    } catch (error) {
+      console.error('Failed to fetch comments:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [alertId])
+
+  useEffect(() => {
+    fetchComments()
+  }, [fetchComments])
+
+  const onSubmit = async (data: CommentFormData) => {
+    try {
+      const res = await fetch(`/api/alerts/${alertId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to post comment')
+      }
+
+      reset({ body: '', is_resolution_note: false })
+      await fetchComments()
+      onChange()
+    } catch (error: any) {
+      console.error('Error posting comment:', error)
+      toast.error(error.message || 'An error occurred while posting the comment')
+    }
+  }
+
+  const handleDelete = async (comment: AlertComment) => {
+    try {
+      const res = await fetch(`/api/alerts/${alertId}/comments/${comment.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.error || 'Failed to delete comment')
+      }
+
+      setComments((prev) => prev.filter((c) => c.id !== comment.id))
+    } catch (error: any) {
+      console.error('Error deleting comment:', error)
+      toast.error(error.message || 'An error occurred while deleting the comment')
+    }
+  }
+
+  return (
+    <div className={styles.section}>
+      <h2 className={styles.title}>Comments</h2>
+
+      {isLoading ? (
+        <p className={styles.empty}>Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className={styles.empty}>No comments yet</p>
+      ) : (
+        <ul className={styles.list}>
+          {comments.map((comment) => (
+            <li
+              key={comment.id}
+              className={clsx(styles.comment, comment.is_resolution_note && styles.resolutionNote)}
+            >
+              <div className={styles.commentHeader}>
+                <span className={styles.author}>{comment.user_email || 'Unknown user'}</span>
+                {comment.is_resolution_note && (
+                  <span className={styles.resolutionBadge}>
+                    <Wrench size={12} />
+                    <span>Resolution note</span>
+                  </span>
+                )}
+                <span className={styles.time}>
+                  {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                </span>
+                {comment.user_id === currentUserId && (
+                  <button
+                    type="button"
+                    className={styles.deleteButton}
+                    onClick={() => handleDelete(comment)}
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+              <p className={styles.body}>{comment.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
+        <textarea
+          className={styles.textarea}
+          rows={3}
+          placeholder="Add a comment, e.g. what you checked on site"
+          {...register('body')}
+        />
+        {errors.body && <p className={styles.errorText}>{errors.body.message}</p>}
+
+        <div className={styles.formActions}>
+          <label className={styles.checkboxLabel}>
+            <input type="checkbox" {...register('is_resolution_note')} />
+            Resolution note (what fixed it)
+          </label>
+          <Button type="submit" loading={isSubmitting}>
+            Post
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
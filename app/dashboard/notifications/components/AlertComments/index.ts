@@ -0,0 +1 @@
+export { AlertComments } from './AlertComments.component'
@@ -4,12 +4,15 @@ export const STATUS_OPTIONS: SelectOption[] = [
   { label: 'All', value: 'all' },
   { label: 'Unread', value: 'unread' },
   { label: 'Unacknowledged', value: 'unacknowledged' },
+  { label: 'Active', value: 'active' },
+  { label: 'Resolved', value: 'resolved' },
 ]
 
 export const SOURCE_OPTIONS: SelectOption[] = [
   { label: 'All', value: 'all' },
   { label: 'Thermionix', value: 'THERMIONIX' },
   { label: 'SCADA', value: 'SCADA' },
+  { label: 'WeatherLink', value: 'WEATHERLINK' },
 ]
 
 export const SEVERITY_OPTIONS: SelectOption[] = [
@@ -1,15 +1,20 @@
 "use client";
 
 import React, { useState, useMemo } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useAlerts } from "@/lib/contexts/AlertsContext";
 import { Select } from "@/components/fields/Select";
 import type { Alert, AlertSource, AlertSeverity } from "@/lib/generated/prisma";
 import { AlertCard } from "./components/AlertCard";
+import { ActiveMutes } from "./components/ActiveMutes";
+import { AcknowledgeMatching } from "./components/AcknowledgeMatching";
+import { matchesMute } from "@/lib/utils/alertMutes";
+import { DASHBOARD_ROUTES } from "@/lib/constants/routes";
 import { STATUS_OPTIONS, SOURCE_OPTIONS, SEVERITY_OPTIONS } from "./data";
 import styles from "./page.module.css";
 
-type FilterStatus = "all" | "unread" | "unacknowledged";
+type FilterStatus = "all" | "unread" | "unacknowledged" | "active" | "resolved";
 
 function getAlertLink(alert: Alert): string {
   const measurementTime = new Date(alert.measurement_time);
@@ -44,10 +49,38 @@ function getAlertLink(alert: Alert): string {
   }
 }
 
+/**
+ * Page filters as POST /api/alerts/bulk filters ("unacknowledged" is implied
+ * by the acknowledge action)
+ */
+function getBulkFilters(
+  status: FilterStatus,
+  source: AlertSource | "all",
+  severity: AlertSeverity | "all",
+): Record<string, string> {
+  const filters: Record<string, string> = {};
+
+  if (status === "unread") filters.is_read = "false";
+  if (status === "active") filters.is_resolved = "false";
+  if (status === "resolved") filters.is_resolved = "true";
+  if (source !== "all") filters.source = source;
+  if (severity !== "all") filters.severity = severity;
+
+  return filters;
+}
+
 export default function NotificationsPage() {
   const router = useRouter();
-  const { alerts, isLoading, markAsRead, acknowledgeAlert, refetch } =
-    useAlerts();
+  const {
+    alerts,
+    isLoading,
+    markAsRead,
+    acknowledgeAlert,
+    refetch,
+    mutes,
+    snoozeAlert,
+    removeMute,
+  } = useAlerts();
 
   const [filterStatus, setFilterStatus] = useState<FilterStatus>("all");
   const [filterSource, setFilterSource] = useState<AlertSource | "all">("all");
@@ -62,6 +95,8 @@ export default function NotificationsPage() {
         if (filterStatus === "unread" && alert.is_read) return false;
         if (filterStatus === "unacknowledged" && alert.is_acknowledged)
           return false;
+        if (filterStatus === "active" && alert.resolved_at) return false;
+        if (filterStatus === "resolved" && !alert.resolved_at) return false;
         if (filterSource !== "all" && alert.source !== filterSource) return false;
         if (filterSeverity !== "all" && alert.severity !== filterSeverity)
           return false;
@@ -73,6 +108,11 @@ export default function NotificationsPage() {
       );
   }, [alerts, filterStatus, filterSource, filterSeverity]);
 
+  const bulkFilters = useMemo(
+    () => getBulkFilters(filterStatus, filterSource, filterSeverity),
+    [filterStatus, filterSource, filterSeverity],
+  );
+
   // Only unacknowledged alerts can be selected for bulk acknowledge
   const selectableAlerts = useMemo(() => {
     return filteredAlerts.filter((alert) => !alert.is_acknowledged);
@@ -136,31 +176,43 @@ export default function NotificationsPage() {
     <div className={styles.container}>
       <div className={styles.header}>
         <h1 className={styles.title}>Notifications</h1>
-        {selectableAlerts.length > 0 && (
-          <div className={styles.headerActions}>
-            <label className={styles.checkboxLabel}>
-              <input
-                type="checkbox"
-                checked={
-                  selectedAlerts.size === selectableAlerts.length &&
-                  selectableAlerts.length > 0
-                }
-                onChange={handleSelectAll}
-              />
-              Select All
-            </label>
-
-            <button
-              onClick={handleBulkAcknowledge}
-              className={styles.acknowledgeButton}
-              disabled={selectedAlerts.size === 0}
-            >
-              Acknowledge Selected ({selectedAlerts.size})
-            </button>
-          </div>
-        )}
+        <div className={styles.headerActions}>
+          <Link href={DASHBOARD_ROUTES.INCIDENTS} className={styles.link}>
+            Grouped by incident
+          </Link>
+          <AcknowledgeMatching
+            key={JSON.stringify(bulkFilters)}
+            filters={bulkFilters}
+            onAcknowledged={refetch}
+          />
+          {selectableAlerts.length > 0 && (
+            <>
+              <label className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={
+                    selectedAlerts.size === selectableAlerts.length &&
+                    selectableAlerts.length > 0
+                  }
+                  onChange={handleSelectAll}
+                />
+                Select All
+              </label>
+
+              <button
+                onClick={handleBulkAcknowledge}
+                className={styles.acknowledgeButton}
+                disabled={selectedAlerts.size === 0}
+              >
+                Acknowledge Selected ({selectedAlerts.size})
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
+      <ActiveMutes mutes={mutes} onUnmute={removeMute} />
+
       <div className={styles.filters}>
         <Select
           label="Status"
@@ -196,6 +248,8 @@ export default function NotificationsPage() {
               onSelect={handleSelectAlert}
               onClick={handleAlertClick}
               onAcknowledge={acknowledgeAlert}
+              onSnooze={snoozeAlert}
+              isMuted={mutes.some((mute) => matchesMute(mute, alert))}
             />
           ))
         )}
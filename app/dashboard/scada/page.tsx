@@ -27,6 +27,8 @@ import { ChartSkeleton } from "@/components/skeletons/ChartSkeleton";
 import { ConnectionBadge } from "@/components/realtime/ConnectionBadge";
 import { useSCADARealtime } from "@/lib/hooks/useSCADARealtime";
 import type { SCADAMeasurement as RealtimeSCADAMeasurement } from "@/lib/hooks/useSCADARealtime";
+import { resolveThresholds, ThresholdOverrideLike } from "@/lib/utils/thresholdOverrides";
+import { getMaintenanceRegions, MaintenanceWindowLike } from "@/lib/utils/maintenanceWindows";
 
 type ScadaMeasurement = {
   datetime: string;
@@ -85,35 +87,59 @@ export default function ScadaPage() {
   const [measurements, setMeasurements] = useState<ScadaMeasurement[]>([]);
   const [isLoadingLamelas, setIsLoadingLamelas] = useState(true);
   const [isLoadingMeasurements, setIsLoadingMeasurements] = useState(false);
-  const [expectedTempMin, setExpectedTempMin] = useState<number>(18);
-  const [expectedTempMax, setExpectedTempMax] = useState<number>(24);
-  const [expectedPressureMin, setExpectedPressureMin] = useState<number>(0);
-  const [expectedPressureMax, setExpectedPressureMax] = useState<number>(5);
+  const [globalTempMin, setGlobalTempMin] = useState<number>(18);
+  const [globalTempMax, setGlobalTempMax] = useState<number>(24);
+  const [globalPressureMin, setGlobalPressureMin] = useState<number>(0);
+  const [globalPressureMax, setGlobalPressureMax] = useState<number>(5);
+  const [thresholdOverrides, setThresholdOverrides] = useState<ThresholdOverrideLike[]>([]);
+  const [maintenanceWindows, setMaintenanceWindows] = useState<MaintenanceWindowLike[]>([]);
+
+  // Expected ranges for the selected lamela: lamela overrides win over global settings
+  const thresholds = useMemo(
+    () =>
+      resolveThresholds(
+        {
+          expected_temp_min: globalTempMin,
+          expected_temp_max: globalTempMax,
+          expected_pressure_min: globalPressureMin,
+          expected_pressure_max: globalPressureMax,
+        },
+        thresholdOverrides,
+        { location: selectedLamela }
+      ),
+    [globalTempMin, globalTempMax, globalPressureMin, globalPressureMax, thresholdOverrides, selectedLamela]
+  );
+  const expectedTempMin = thresholds.expected_temp_min;
+  const expectedTempMax = thresholds.expected_temp_max;
+  const expectedPressureMin = thresholds.expected_pressure_min;
+  const expectedPressureMax = thresholds.expected_pressure_max;
+
+  // Planned maintenance of the selected lamela, shaded on the charts
+  const maintenanceRegions = useMemo(
+    () =>
+      getMaintenanceRegions(
+        maintenanceWindows,
+        { location: selectedLamela },
+        new Date(dateRange.from),
+        new Date(dateRange.to)
+      ),
+    [maintenanceWindows, selectedLamela, dateRange]
+  );
 
   useEffect(() => {
     const fetchLamelas = async () => {
       try {
-        const res = await fetch("/api/scada?limit=1000");
+        // COMMENT: Lamelas with a substation in the location hierarchy
+        // (already in numeric order)
+        const res = await fetch("/api/hierarchy");
         const data = await res.json();
 
-        if (data.measurements) {
-          const lamelaIdentifiers = data.measurements
-            .map((m: ScadaMeasurement) => {
-              const match = m.location.match(/L\d+/);
-              return match ? match[0] : null;
-            })
-            .filter((lamela: string | null) => lamela !== null);
-
-          const uniqueLamelas = Array.from(
-            new Set(lamelaIdentifiers)
-          ) as string[];
-          uniqueLamelas.sort((a, b) => {
-            const numA = parseInt(a.substring(1));
-            const numB = parseInt(b.substring(1));
-            return numA - numB;
-          });
-
-          setLamelas(uniqueLamelas);
+        if (data.lamelas) {
+          setLamelas(
+            data.lamelas
+              .filter((lamela: { scada_location: string | null }) => lamela.scada_location)
+              .map((lamela: { code: string }) => lamela.code)
+          );
         }
       } catch (error) {
         console.error("Failed to fetch lamelas:", error);
@@ -132,10 +158,10 @@ export default function ScadaPage() {
         const data = await res.json();
 
         if (data && data.expected_temp_min !== undefined) {
-          setExpectedTempMin(data.expected_temp_min ?? 18);
-          setExpectedTempMax(data.expected_temp_max ?? 24);
-          setExpectedPressureMin(data.expected_pressure_min ?? 0);
-          setExpectedPressureMax(data.expected_pressure_max ?? 5);
+          setGlobalTempMin(data.expected_temp_min ?? 18);
+          setGlobalTempMax(data.expected_temp_max ?? 24);
+          setGlobalPressureMin(data.expected_pressure_min ?? 0);
+          setGlobalPressureMax(data.expected_pressure_max ?? 5);
         }
       } catch (error) {
         console.error("Failed to fetch settings:", error);
@@ -145,6 +171,39 @@ export default function ScadaPage() {
     fetchSettings();
   }, []);
 
+  // Fetch per-lamela threshold overrides
+  useEffect(() => {
+    const fetchOverrides = async () => {
+      try {
+        const res = await fetch("/api/user/threshold-overrides");
+        const data = await res.json();
+        if (data && data.overrides) {
+          setThresholdOverrides(data.overrides);
+        }
+      } catch (error) {
+        console.error("Failed to fetch threshold overrides:", error);
+      }
+    };
+
+    fetchOverrides();
+  }, []);
+
+  useEffect(() => {
+    const fetchMaintenanceWindows = async () => {
+      try {
+        const res = await fetch("/api/user/maintenance-windows");
+        const data = await res.json();
+        if (data && data.windows) {
+          setMaintenanceWindows(data.windows);
+        }
+      } catch (error) {
+        console.error("Failed to fetch maintenance windows:", error);
+      }
+    };
+
+    fetchMaintenanceWindows();
+  }, []);
+
   useEffect(() => {
     if (!selectedLamela) return;
 
@@ -238,6 +297,26 @@ export default function ScadaPage() {
   const currentTSupSec = lastMeasurement?.t_sup_sec ?? null;
   const currentTRetSec = lastMeasurement?.t_ret_sec ?? null;
 
+  // Helper function to get color and status based on expected range
+  const getValueStatus = (
+    value: number | null,
+    min: number,
+    max: number
+  ): { color: string; text: string } => {
+    if (value === null) return { color: "inherit", text: "" };
+
+    if (value < min) {
+      return { color: "#3b82f6", text: "Below Expected" }; // Blue
+    } else if (value > max) {
+      return { color: "#ef4444", text: "Above Expected" }; // Red
+    } else {
+      return { color: "#10b981", text: "" }; // Green - within range, no text needed
+    }
+  };
+
+  const tempStatus = getValueStatus(currentTemp, expectedTempMin, expectedTempMax);
+  const pressureStatus = getValueStatus(currentPressure, expectedPressureMin, expectedPressureMax);
+
   // Calculate temperature statistics
   const tempStats = useMemo(() => {
     const temps = measurements
@@ -330,7 +409,7 @@ export default function ScadaPage() {
               <div className="card-container">
                 <h3 style={{ marginTop: 0 }}>Temperature</h3>
                 <div style={{ marginBottom: "1rem" }}>
-                  <div style={{ fontSize: "2rem", fontWeight: "bold" }}>
+                  <div style={{ fontSize: "2rem", fontWeight: "bold", color: tempStatus.color }}>
                     {currentTemp !== null ? `${currentTemp.toFixed(1)}°C` : "—"}
                   </div>
                   <div
@@ -339,8 +418,13 @@ export default function ScadaPage() {
                       color: "var(--text-secondary)",
                     }}
                   >
-                    Current
+                    Current · Expected {expectedTempMin}°C - {expectedTempMax}°C
                   </div>
+                  {tempStatus.text && (
+                    <div style={{ fontSize: "0.75rem", color: tempStatus.color, marginTop: "0.25rem" }}>
+                      {tempStatus.text}
+                    </div>
+                  )}
                 </div>
                 <div
                     style={{
@@ -388,7 +472,7 @@ export default function ScadaPage() {
               <div className="card-container">
                 <h3 style={{ marginTop: 0 }}>Pressure</h3>
                 <div style={{ marginBottom: "1rem" }}>
-                  <div style={{ fontSize: "2rem", fontWeight: "bold" }}>
+                  <div style={{ fontSize: "2rem", fontWeight: "bold", color: pressureStatus.color }}>
                     {currentPressure !== null
                       ? `${currentPressure.toFixed(1)} bar`
                       : "—"}
@@ -399,8 +483,13 @@ export default function ScadaPage() {
                       color: "var(--text-secondary)",
                     }}
                   >
-                    Current
+                    Current · Expected {expectedPressureMin} - {expectedPressureMax} bar
                   </div>
+                  {pressureStatus.text && (
+                    <div style={{ fontSize: "0.75rem", color: pressureStatus.color, marginTop: "0.25rem" }}>
+                      {pressureStatus.text}
+                    </div>
+                  )}
                 </div>
                 <div
                     style={{
@@ -536,6 +625,7 @@ export default function ScadaPage() {
                 data={tempChartData}
                 title="Ambient Temperature Over Time"
                 yAxisLabel="Temperature (°C)"
+                shadedRegions={maintenanceRegions}
               />
             )}
           </div>
@@ -549,6 +639,7 @@ export default function ScadaPage() {
                 title="Pressure Over Time"
                 yAxisLabel="Pressure (bar)"
                 yAxisDomain={[18660, 18670]}
+                shadedRegions={maintenanceRegions}
               />
             )}
           </div>
@@ -6,6 +6,14 @@
  * - Humidity (used by Thermionix)
  * - Pressure (used by SCADA)
  * - CO2 (used by Thermionix)
+ * - Alert conditions (hysteresis, minimum duration / consecutive samples)
+ * - Rapid temperature drop (°C/hour over a look-back window)
+ * - Heating circuit (SCADA supply vs. reference, primary delta-T)
+ * - Weather station (frost, wind gusts, rain rate, barometric drop)
+ *
+ * Followed by the "Overrides" section for per-device/building/lamela ranges
+ * and the "Maintenance" section for planned maintenance windows.
+ * Both live outside the <form> because they submit independently.
  */
 
 'use client'
@@ -17,6 +25,10 @@ import toast from 'react-hot-toast'
 import { useAuth } from '@/lib/contexts/AuthContext'
 import { Input } from '@/components/fields/Input'
 import { Button } from '@/components/atoms/Button'
+import { ThresholdOverrides } from '../ThresholdOverrides'
+import { MaintenanceWindows } from '../MaintenanceWindows'
+import { EscalationPolicies } from '../EscalationPolicies'
+import { Webhooks } from '../Webhooks'
 import styles from './AppSettingsForm.module.css'
 import type { UserSettings } from '@/lib/generated/prisma'
 
@@ -57,6 +69,69 @@ const appSettingsSchema = z.object({
     .number({ message: 'Must be a number' })
     .min(0, 'Must be at least 0 ppm')
     .max(5000, 'Must be at most 5000 ppm'),
+  // Alert conditions
+  hysteresis_temp: z
+    .number({ message: 'Must be a number' })
+    .min(0, 'Must be at least 0°C')
+    .max(20, 'Must be at most 20°C'),
+  hysteresis_humidity: z
+    .number({ message: 'Must be a number' })
+    .min(0, 'Must be at least 0%')
+    .max(50, 'Must be at most 50%'),
+  hysteresis_pressure: z
+    .number({ message: 'Must be a number' })
+    .min(0, 'Must be at least 0 bar')
+    .max(5, 'Must be at most 5 bar'),
+  hysteresis_co2: z
+    .number({ message: 'Must be a number' })
+    .min(0, 'Must be at least 0 ppm')
+    .max(2500, 'Must be at most 2500 ppm'),
+  alert_min_duration_minutes: z
+    .number({ message: 'Must be a number' })
+    .int('Must be a whole number')
+    .min(0, 'Must be at least 0 minutes')
+    .max(1440, 'Must be at most 1440 minutes'),
+  alert_min_consecutive_samples: z
+    .number({ message: 'Must be a number' })
+    .int('Must be a whole number')
+    .min(1, 'Must be at least 1 sample')
+    .max(100, 'Must be at most 100 samples'),
+  // Rate of change
+  temp_drop_rate_max: z
+    .number({ message: 'Must be a number' })
+    .positive('Must be greater than 0°C/h')
+    .max(20, 'Must be at most 20°C/h'),
+  temp_drop_window_minutes: z
+    .number({ message: 'Must be a number' })
+    .int('Must be a whole number')
+    .min(10, 'Must be at least 10 minutes')
+    .max(360, 'Must be at most 360 minutes'),
+  // Heating circuit
+  supply_ref_tolerance: z
+    .number({ message: 'Must be a number' })
+    .positive('Must be greater than 0°C')
+    .max(50, 'Must be at most 50°C'),
+  primary_delta_t_min: z
+    .number({ message: 'Must be a number' })
+    .min(0, 'Must be at least 0°C')
+    .max(80, 'Must be at most 80°C'),
+  // Weather station
+  frost_temp_threshold: z
+    .number({ message: 'Must be a number' })
+    .min(-30, 'Must be at least -30°C')
+    .max(10, 'Must be at most 10°C'),
+  wind_gust_max: z
+    .number({ message: 'Must be a number' })
+    .positive('Must be greater than 0 km/h')
+    .max(300, 'Must be at most 300 km/h'),
+  rain_rate_max: z
+    .number({ message: 'Must be a number' })
+    .positive('Must be greater than 0 mm/h')
+    .max(500, 'Must be at most 500 mm/h'),
+  barometric_drop_max: z
+    .number({ message: 'Must be a number' })
+    .positive('Must be greater than 0 inHg')
+    .max(1, 'Must be at most 1 inHg'),
 }).refine(data => data.expected_temp_min < data.expected_temp_max, {
   message: 'Min must be less than max',
   path: ['expected_temp_max'],
@@ -95,6 +170,20 @@ export const AppSettingsForm: React.FC<AppSettingsFormProps> = ({ currentSetting
       expected_pressure_max: currentSettings.expected_pressure_max,
       expected_co2_min: currentSettings.expected_co2_min,
       expected_co2_max: currentSettings.expected_co2_max,
+      hysteresis_temp: currentSettings.hysteresis_temp,
+      hysteresis_humidity: currentSettings.hysteresis_humidity,
+      hysteresis_pressure: currentSettings.hysteresis_pressure,
+      hysteresis_co2: currentSettings.hysteresis_co2,
+      alert_min_duration_minutes: currentSettings.alert_min_duration_minutes,
+      alert_min_consecutive_samples: currentSettings.alert_min_consecutive_samples,
+      temp_drop_rate_max: currentSettings.temp_drop_rate_max,
+      temp_drop_window_minutes: currentSettings.temp_drop_window_minutes,
+      supply_ref_tolerance: currentSettings.supply_ref_tolerance,
+      primary_delta_t_min: currentSettings.primary_delta_t_min,
+      frost_temp_threshold: currentSettings.frost_temp_threshold,
+      wind_gust_max: currentSettings.wind_gust_max,
+      rain_rate_max: currentSettings.rain_rate_max,
+      barometric_drop_max: currentSettings.barometric_drop_max,
     },
   })
 
@@ -120,126 +209,314 @@ export const AppSettingsForm: React.FC<AppSettingsFormProps> = ({ currentSetting
   }
 
   return (
-    <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
-      {/* Temperature Settings */}
-      <div className={styles.section}>
-        <h4 className={styles.sectionTitle}>Temperature (°C)</h4>
-        <p className={styles.sectionDescription}>
-          Thermionix apartment sensors and SCADA system
-        </p>
-
-        <div className={styles.fieldRow}>
-          <Input
-            label="Minimum"
-            type="number"
-            step="0.1"
-            disabled={isSubmitting}
-            error={errors.expected_temp_min?.message}
-            {...register('expected_temp_min', { valueAsNumber: true })}
-          />
-
-          <Input
-            label="Maximum"
-            type="number"
-            step="0.1"
-            disabled={isSubmitting}
-            error={errors.expected_temp_max?.message}
-            {...register('expected_temp_max', { valueAsNumber: true })}
-          />
+    <>
+      <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
+        {/* Temperature Settings */}
+        <div className={styles.section}>
+          <h4 className={styles.sectionTitle}>Temperature (°C)</h4>
+          <p className={styles.sectionDescription}>
+            Thermionix apartment sensors and SCADA system
+          </p>
+
+          <div className={styles.fieldRow}>
+            <Input
+              label="Minimum"
+              type="number"
+              step="0.1"
+              disabled={isSubmitting}
+              error={errors.expected_temp_min?.message}
+              {...register('expected_temp_min', { valueAsNumber: true })}
+            />
+
+            <Input
+              label="Maximum"
+              type="number"
+              step="0.1"
+              disabled={isSubmitting}
+              error={errors.expected_temp_max?.message}
+              {...register('expected_temp_max', { valueAsNumber: true })}
+            />
+          </div>
+        </div>
+
+        {/* Humidity Settings */}
+        <div className={styles.section}>
+          <h4 className={styles.sectionTitle}>Humidity (%)</h4>
+          <p className={styles.sectionDescription}>
+            Thermionix apartment sensors
+          </p>
+
+          <div className={styles.fieldRow}>
+            <Input
+              label="Minimum"
+              type="number"
+              step="1"
+              disabled={isSubmitting}
+              error={errors.expected_humidity_min?.message}
+              {...register('expected_humidity_min', { valueAsNumber: true })}
+            />
+
+            <Input
+              label="Maximum"
+              type="number"
+              step="1"
+              disabled={isSubmitting}
+              error={errors.expected_humidity_max?.message}
+              {...register('expected_humidity_max', { valueAsNumber: true })}
+            />
+          </div>
+        </div>
+
+        {/* Pressure Settings */}
+        <div className={styles.section}>
+          <h4 className={styles.sectionTitle}>Pressure (bar)</h4>
+          <p className={styles.sectionDescription}>
+            SCADA system
+          </p>
+
+          <div className={styles.fieldRow}>
+            <Input
+              label="Minimum"
+              type="number"
+              step="0.1"
+              disabled={isSubmitting}
+              error={errors.expected_pressure_min?.message}
+              {...register('expected_pressure_min', { valueAsNumber: true })}
+            />
+
+            <Input
+              label="Maximum"
+              type="number"
+              step="0.1"
+              disabled={isSubmitting}
+              error={errors.expected_pressure_max?.message}
+              {...register('expected_pressure_max', { valueAsNumber: true })}
+            />
+          </div>
         </div>
-      </div>
-
-      {/* Humidity Settings */}
-      <div className={styles.section}>
-        <h4 className={styles.sectionTitle}>Humidity (%)</h4>
-        <p className={styles.sectionDescription}>
-          Thermionix apartment sensors
-        </p>
-
-        <div className={styles.fieldRow}>
-          <Input
-            label="Minimum"
-            type="number"
-            step="1"
-            disabled={isSubmitting}
-            error={errors.expected_humidity_min?.message}
-            {...register('expected_humidity_min', { valueAsNumber: true })}
-          />
-
-          <Input
-            label="Maximum"
-            type="number"
-            step="1"
-            disabled={isSubmitting}
-            error={errors.expected_humidity_max?.message}
-            {...register('expected_humidity_max', { valueAsNumber: true })}
-          />
+
+        {/* CO2 Settings */}
+        <div className={styles.section}>
+          <h4 className={styles.sectionTitle}>CO2 (ppm)</h4>
+          <p className={styles.sectionDescription}>
+            Thermionix apartment sensors
+          </p>
+
+          <div className={styles.fieldRow}>
+            <Input
+              label="Minimum"
+              type="number"
+              step="10"
+              disabled={isSubmitting}
+              error={errors.expected_co2_min?.message}
+              {...register('expected_co2_min', { valueAsNumber: true })}
+            />
+
+            <Input
+              label="Maximum"
+              type="number"
+              step="10"
+              disabled={isSubmitting}
+              error={errors.expected_co2_max?.message}
+              {...register('expected_co2_max', { valueAsNumber: true })}
+            />
+          </div>
+        </div>
+
+        {/* Alert Conditions */}
+        <div className={styles.section}>
+          <h4 className={styles.sectionTitle}>Alert Conditions</h4>
+          <p className={styles.sectionDescription}>
+            How long a value must stay out of range before an alert is raised, and how far
+            it must move back before a new alert can start (hysteresis)
+          </p>
+
+          <div className={styles.fieldRow}>
+            <Input
+              label="Minimum duration (minutes)"
+              type="number"
+              step="1"
+              disabled={isSubmitting}
+              error={errors.alert_min_duration_minutes?.message}
+              {...register('alert_min_duration_minutes', { valueAsNumber: true })}
+            />
+
+            <Input
+              label="Consecutive samples"
+              type="number"
+              step="1"
+              disabled={isSubmitting}
+              error={errors.alert_min_consecutive_samples?.message}
+              {...register('alert_min_consecutive_samples', { valueAsNumber: true })}
+            />
+          </div>
+
+          <div className={styles.fieldRow}>
+            <Input
+              label="Temperature band (°C)"
+              type="number"
+              step="0.1"
+              disabled={isSubmitting}
+              error={errors.hysteresis_temp?.message}
+              {...register('hysteresis_temp', { valueAsNumber: true })}
+            />
+
+            <Input
+              label="Humidity band (%)"
+              type="number"
+              step="0.5"
+              disabled={isSubmitting}
+              error={errors.hysteresis_humidity?.message}
+              {...register('hysteresis_humidity', { valueAsNumber: true })}
+            />
+          </div>
+
+          <div className={styles.fieldRow}>
+            <Input
+              label="Pressure band (bar)"
+              type="number"
+              step="0.05"
+              disabled={isSubmitting}
+              error={errors.hysteresis_pressure?.message}
+              {...register('hysteresis_pressure', { valueAsNumber: true })}
+            />
+
+            <Input
+              label="CO2 band (ppm)"
+              type="number"
+              step="10"
+              disabled={isSubmitting}
+              error={errors.hysteresis_co2?.message}
+              {...register('hysteresis_co2', { valueAsNumber: true })}
+            />
+          </div>
+        </div>
+
+        {/* Rapid Temperature Drop */}
+        <div className={styles.section}>
+          <h4 className={styles.sectionTitle}>Rapid Temperature Drop</h4>
+          <p className={styles.sectionDescription}>
+            Thermionix apartment sensors - alert when a flat cools faster than this,
+            even while still inside the temperature range (open window, radiator failure)
+          </p>
+
+          <div className={styles.fieldRow}>
+            <Input
+              label="Max drop (°C/hour)"
+              type="number"
+              step="0.1"
+              disabled={isSubmitting}
+              error={errors.temp_drop_rate_max?.message}
+              {...register('temp_drop_rate_max', { valueAsNumber: true })}
+            />
+
+            <Input
+              label="Look-back window (minutes)"
+              type="number"
+              step="5"
+              disabled={isSubmitting}
+              error={errors.temp_drop_window_minutes?.message}
+              {...register('temp_drop_window_minutes', { valueAsNumber: true })}
+            />
+          </div>
         </div>
-      </div>
-
-      {/* Pressure Settings */}
-      <div className={styles.section}>
-        <h4 className={styles.sectionTitle}>Pressure (bar)</h4>
-        <p className={styles.sectionDescription}>
-          SCADA system
-        </p>
-
-        <div className={styles.fieldRow}>
-          <Input
-            label="Minimum"
-            type="number"
-            step="0.1"
-            disabled={isSubmitting}
-            error={errors.expected_pressure_min?.message}
-            {...register('expected_pressure_min', { valueAsNumber: true })}
-          />
-
-          <Input
-            label="Maximum"
-            type="number"
-            step="0.1"
-            disabled={isSubmitting}
-            error={errors.expected_pressure_max?.message}
-            {...register('expected_pressure_max', { valueAsNumber: true })}
-          />
+
+        {/* Heating Circuit Settings */}
+        <div className={styles.section}>
+          <h4 className={styles.sectionTitle}>Heating Circuit (°C)</h4>
+          <p className={styles.sectionDescription}>
+            SCADA system - return warmer than supply always raises an alert
+          </p>
+
+          <div className={styles.fieldRow}>
+            <Input
+              label="Supply vs. reference tolerance"
+              type="number"
+              step="0.5"
+              disabled={isSubmitting}
+              error={errors.supply_ref_tolerance?.message}
+              {...register('supply_ref_tolerance', { valueAsNumber: true })}
+            />
+
+            <Input
+              label="Minimum primary delta-T"
+              type="number"
+              step="0.5"
+              disabled={isSubmitting}
+              error={errors.primary_delta_t_min?.message}
+              {...register('primary_delta_t_min', { valueAsNumber: true })}
+            />
+          </div>
         </div>
-      </div>
-
-      {/* CO2 Settings */}
-      <div className={styles.section}>
-        <h4 className={styles.sectionTitle}>CO2 (ppm)</h4>
-        <p className={styles.sectionDescription}>
-          Thermionix apartment sensors
-        </p>
-
-        <div className={styles.fieldRow}>
-          <Input
-            label="Minimum"
-            type="number"
-            step="10"
-            disabled={isSubmitting}
-            error={errors.expected_co2_min?.message}
-            {...register('expected_co2_min', { valueAsNumber: true })}
-          />
-
-          <Input
-            label="Maximum"
-            type="number"
-            step="10"
-            disabled={isSubmitting}
-            error={errors.expected_co2_max?.message}
-            {...register('expected_co2_max', { valueAsNumber: true })}
-          />
+
+        {/* Weather Station Settings */}
+        <div className={styles.section}>
+          <h4 className={styles.sectionTitle}>Weather Station</h4>
+          <p className={styles.sectionDescription}>
+            WeatherLink - frost, storm gusts, heavy rain and a fast-falling barometer
+          </p>
+
+          <div className={styles.fieldRow}>
+            <Input
+              label="Frost below (°C)"
+              type="number"
+              step="0.5"
+              disabled={isSubmitting}
+              error={errors.frost_temp_threshold?.message}
+              {...register('frost_temp_threshold', { valueAsNumber: true })}
+            />
+
+            <Input
+              label="Wind gusts above (km/h)"
+              type="number"
+              step="1"
+              disabled={isSubmitting}
+              error={errors.wind_gust_max?.message}
+              {...register('wind_gust_max', { valueAsNumber: true })}
+            />
+          </div>
+
+          <div className={styles.fieldRow}>
+            <Input
+              label="Rain rate above (mm/h)"
+              type="number"
+              step="0.5"
+              disabled={isSubmitting}
+              error={errors.rain_rate_max?.message}
+              {...register('rain_rate_max', { valueAsNumber: true })}
+            />
+
+            <Input
+              label="Pressure drop above (inHg / 3h)"
+              type="number"
+              step="0.01"
+              disabled={isSubmitting}
+              error={errors.barometric_drop_max?.message}
+              {...register('barometric_drop_max', { valueAsNumber: true })}
+            />
+          </div>
         </div>
-      </div>
-
-      <Button
-        type="submit"
-        loading={isSubmitting}
-        fullWidth
-      >
-        Save Settings
-      </Button>
-    </form>
+
+        <Button
+          type="submit"
+          loading={isSubmitting}
+          fullWidth
+        >
+          Save Settings
+        </Button>
+      </form>
+
+      {/* Overrides Section */}
+      <ThresholdOverrides />
+
+      {/* Maintenance Section */}
+      <MaintenanceWindows />
+
+      {/* Escalation Section */}
+      <EscalationPolicies />
+
+      {/* Webhooks Section */}
+      <Webhooks />
+    </>
   )
 }
@@ -0,0 +1,298 @@
+/**
+ * EscalationPolicies Component - Client Component
+ *
+ * "Escalation" section of the App Settings page:
+ * - Lists the user's escalation steps (shortest delay first)
+ * - Create / edit form
+ * - Delete individual steps
+ *
+ * Alerts still unacknowledged after a step's delay get their severity raised,
+ * are re-notified and/or emailed to further addresses.
+ */
+
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useForm, Controller } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import toast from 'react-hot-toast'
+import { Input } from '@/components/fields/Input'
+import { Select, SelectOption } from '@/components/fields/Select'
+import { Button } from '@/components/atoms/Button'
+import type { EscalationPolicy } from '@/lib/generated/prisma'
+import styles from './EscalationPolicies.module.css'
+
+const SEVERITY_OPTIONS: SelectOption[] = [
+  { label: 'High only', value: 'HIGH' },
+  { label: 'Medium and high', value: 'MEDIUM' },
+  { label: 'All severities', value: 'LOW' },
+]
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// COMMENT: Emails are typed as one comma-separated field
+const parseEmails = (value: string): string[] =>
+  value.split(',').map((email) => email.trim()).filter((email) => email !== '')
+
+const policySchema = z.object({
+  name: z.string().trim().min(1, 'Required'),
+  after_minutes: z.number({ message: 'Must be a number' })
+    .int('Whole minutes only')
+    .min(1, 'At least 1 minute')
+    .max(10080, 'At most one week (10080 minutes)'),
+  min_severity: z.enum(['LOW', 'MEDIUM', 'HIGH']),
+  raise_severity: z.boolean(),
+  renotify: z.boolean(),
+  notify_emails: z.string().refine(
+    (value) => parseEmails(value).every((email) => EMAIL_PATTERN.test(email)),
+    'Enter email addresses separated by commas'
+  ),
+  enabled: z.boolean(),
+}).refine(data => data.raise_severity || data.renotify || parseEmails(data.notify_emails).length > 0, {
+  message: 'Choose at least one action',
+  path: ['notify_emails'],
+})
+
+type PolicyFormData = z.infer<typeof policySchema>
+
+const EMPTY_FORM: PolicyFormData = {
+  name: '',
+  after_minutes: 60,
+  min_severity: 'HIGH',
+  raise_severity: true,
+  renotify: true,
+  notify_emails: '',
+  enabled: true,
+}
+
+const SEVERITY_LABELS: Record<EscalationPolicy['min_severity'], string> = {
+  HIGH: 'High alerts',
+  MEDIUM: 'Medium and high alerts',
+  LOW: 'All alerts',
+}
+
+function getPolicySummary(policy: EscalationPolicy): string {
+  const actions = [
+    policy.raise_severity && 'raise severity',
+    policy.renotify && 're-notify',
+    policy.notify_emails.length > 0 && `email ${policy.notify_emails.join(', ')}`,
+  ].filter(Boolean)
+
+  return `${SEVERITY_LABELS[policy.min_severity]} unacknowledged for ${policy.after_minutes} min → ${actions.join(', ')}`
+}
+
+export const EscalationPolicies: React.FC = () => {
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<PolicyFormData>({
+    resolver: zodResolver(policySchema),
+    defaultValues: EMPTY_FORM,
+  })
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const res = await fetch('/api/user/escalation-policies')
+      const data = await res.json()
+      if (data.policies) {
+        setPolicies(data.policies)
+      }
+    } catch (error) {
+      console.error('Failed to fetch escalation policies:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPolicies()
+  }, [fetchPolicies])
+
+  const handleEdit = (policy: EscalationPolicy) => {
+    setEditingId(policy.id)
+    reset({
+      name: policy.name,
+      after_minutes: policy.after_minutes,
+      min_severity: policy.min_severity,
+      raise_severity: policy.raise_severity,
+      renotify: policy.renotify,
+      notify_emails: policy.notify_emails.join(', '),
+      enabled: policy.enabled,
+    })
+  }
+
+  const handleCancelEdit = () => {
+    setEditingId(null)
+    reset(EMPTY_FORM)
+  }
+
+  const handleDelete = async (policy: EscalationPolicy) => {
+    try {
+      const res = await fetch(`/api/user/escalation-policies/${policy.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.error || 'Failed to delete escalation step')
+      }
+
+      if (editingId === policy.id) {
+        handleCancelEdit()
+      }
+      await fetchPolicies()
+      toast.success('Escalation step removed')
+    } catch (err: any) {
+      console.error('Error deleting escalation policy:', err)
+      toast.error(err.message || 'An error occurred while deleting the escalation step')
+    }
+  }
+
+  const onSubmit = async (data: PolicyFormData) => {
+    try {
+      const url = editingId
+        ? `/api/user/escalation-policies/${editingId}`
+        : '/api/user/escalation-policies'
+
+      const response = await fetch(url, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...data,
+          notify_emails: parseEmails(data.notify_emails),
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to save escalation step')
+      }
+
+      await fetchPolicies()
+      setEditingId(null)
+      reset(EMPTY_FORM)
+      toast.success(editingId ? 'Escalation step updated!' : 'Escalation step added!')
+    } catch (err: any) {
+      console.error('Error saving escalation policy:', err)
+      toast.error(err.message || 'An error occurred while saving the escalation step')
+    }
+  }
+
+  return (
+    <div className={styles.section}>
+      <h4 className={styles.sectionTitle}>Escalation</h4>
+      <p className={styles.sectionDescription}>
+        Make alerts louder when nobody acknowledges them. Each step applies once per alert.
+      </p>
+
+      {isLoading ? (
+        <p className={styles.emptyText}>Loading escalation steps...</p>
+      ) : policies.length === 0 ? (
+        <p className={styles.emptyText}>No escalation steps - unacknowledged alerts stay as they are.</p>
+      ) : (
+        <div className={styles.list}>
+          {policies.map((policy) => (
+            <div key={policy.id} className={styles.row}>
+              <div className={styles.rowInfo}>
+                <span className={styles.rowTitle}>
+                  {policy.name}
+                  {!policy.enabled && <span className={styles.disabledBadge}>Disabled</span>}
+                </span>
+                <span className={styles.rowSummary}>{getPolicySummary(policy)}</span>
+              </div>
+              <div className={styles.rowActions}>
+                <Button type="button" variant="secondary" size="small" onClick={() => handleEdit(policy)}>
+                  Edit
+                </Button>
+                <Button type="button" variant="danger" size="small" onClick={() => handleDelete(policy)}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
+        <h5 className={styles.formTitle}>{editingId ? 'Edit escalation step' : 'Add escalation step'}</h5>
+
+        <div className={styles.fieldRow}>
+          <Input
+            label="Name"
+            placeholder="e.g. Notify supervisors"
+            disabled={isSubmitting}
+            error={errors.name?.message}
+            {...register('name')}
+          />
+
+          <Input
+            label="Unacknowledged for (minutes)"
+            type="number"
+            step="1"
+            disabled={isSubmitting}
+            error={errors.after_minutes?.message}
+            {...register('after_minutes', { valueAsNumber: true })}
+          />
+        </div>
+
+        <Controller
+          name="min_severity"
+          control={control}
+          render={({ field }) => (
+            <Select
+              label="Applies to"
+              options={SEVERITY_OPTIONS}
+              value={field.value}
+              onChange={(value) => field.onChange(value)}
+              disabled={isSubmitting}
+              fullWidth
+            />
+          )}
+        />
+
+        <div className={styles.checkboxes}>
+          <label className={styles.checkboxLabel}>
+            <input type="checkbox" disabled={isSubmitting} {...register('raise_severity')} />
+            Raise severity one level
+          </label>
+          <label className={styles.checkboxLabel}>
+            <input type="checkbox" disabled={isSubmitting} {...register('renotify')} />
+            Notify me again
+          </label>
+          <label className={styles.checkboxLabel}>
+            <input type="checkbox" disabled={isSubmitting} {...register('enabled')} />
+            Enabled
+          </label>
+        </div>
+
+        <Input
+          label="Also email (comma-separated)"
+          placeholder="supervisor@example.com, oncall@example.com"
+          disabled={isSubmitting}
+          error={errors.notify_emails?.message}
+          helperText="They get an email with the alert - nothing is added to their account"
+          {...register('notify_emails')}
+        />
+
+        <div className={styles.formActions}>
+          <Button type="submit" loading={isSubmitting}>
+            {editingId ? 'Update Step' : 'Add Step'}
+          </Button>
+          {editingId && (
+            <Button type="button" variant="ghost" onClick={handleCancelEdit} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  )
+}
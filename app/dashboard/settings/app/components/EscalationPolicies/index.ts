@@ -0,0 +1 @@
+export { EscalationPolicies } from './EscalationPolicies.component'
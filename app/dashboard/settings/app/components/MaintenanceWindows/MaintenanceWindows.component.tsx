@@ -0,0 +1,394 @@
+/**
+ * MaintenanceWindows Component - Client Component
+ *
+ * "Maintenance" section of the App Settings page:
+ * - Lists the user's planned maintenance per device, building or lamela
+ * - Create / edit form for one-off and recurring (daily/weekly) windows
+ * - Delete individual windows
+ *
+ * Alerts inside a window are recorded without notifying anyone, and the
+ * window is shaded on the SCADA and Thermionix charts.
+ */
+
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useForm, Controller } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { format } from 'date-fns'
+import clsx from 'clsx'
+import toast from 'react-hot-toast'
+import { Input } from '@/components/fields/Input'
+import { Select, SelectOption } from '@/components/fields/Select'
+import { Button } from '@/components/atoms/Button'
+import { isMaintenanceActive, RECURRENCE_OPTIONS } from '@/lib/utils/maintenanceWindows'
+import type { MaintenanceWindow } from '@/lib/generated/prisma'
+import styles from './MaintenanceWindows.module.css'
+
+const SCOPE_OPTIONS: SelectOption[] = [
+  { label: 'Device', value: 'DEVICE' },
+  { label: 'Building', value: 'BUILDING' },
+  { label: 'Lamela', value: 'LAMELA' },
+]
+
+const SCOPE_LABELS: Record<MaintenanceWindow['scope'], string> = {
+  DEVICE: 'Device',
+  BUILDING: 'Building',
+  LAMELA: 'Lamela',
+}
+
+type Device = {
+  device_id: string
+  name: string | null
+}
+
+// COMMENT: datetime-local inputs work in local time without a zone -
+// "2026-10-20T08:00" ↔ ISO string for the API
+const toLocalInput = (value: Date | string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm")
+const toIso = (value: string) => new Date(value).toISOString()
+
+// COMMENT: The zone the times were entered in - repeats keep that local time
+const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+const windowSchema = z.object({
+  scope: z.enum(['DEVICE', 'BUILDING', 'LAMELA']),
+  scope_value: z.string().trim().min(1, 'Required'),
+  title: z.string().trim().min(1, 'Required'),
+  starts_at: z.string().min(1, 'Required'),
+  ends_at: z.string().min(1, 'Required'),
+  recurrence: z.enum(['NONE', 'DAILY', 'WEEKLY']),
+  recurrence_until: z.string().optional(),
+}).refine(data => data.scope !== 'LAMELA' || /^L\d+$/.test(data.scope_value), {
+  message: 'Use the lamela identifier, e.g. L8',
+  path: ['scope_value'],
+}).refine(data => data.scope !== 'BUILDING' || /^L\d+_\d+$/.test(data.scope_value), {
+  message: 'Use lamela and building, e.g. L8_53',
+  path: ['scope_value'],
+}).refine(data => !data.starts_at || !data.ends_at || new Date(data.ends_at) > new Date(data.starts_at), {
+  message: 'End must be after start',
+  path: ['ends_at'],
+})
+
+type WindowFormData = z.infer<typeof windowSchema>
+
+const EMPTY_FORM: WindowFormData = {
+  scope: 'LAMELA',
+  scope_value: '',
+  title: '',
+  starts_at: '',
+  ends_at: '',
+  recurrence: 'NONE',
+  recurrence_until: '',
+}
+
+function hasEnded(maintenance: MaintenanceWindow, now: Date): boolean {
+  if (maintenance.recurrence === 'NONE') return new Date(maintenance.ends_at) <= now
+  return maintenance.recurrence_until !== null && new Date(maintenance.recurrence_until) <= now
+}
+
+function getScheduleSummary(maintenance: MaintenanceWindow): string {
+  const start = new Date(maintenance.starts_at)
+  const end = new Date(maintenance.ends_at)
+
+  if (maintenance.recurrence === 'NONE') {
+    return `${format(start, 'MMM d, HH:mm')} – ${format(end, 'MMM d, HH:mm')}`
+  }
+
+  const times = `${format(start, 'HH:mm')} – ${format(end, 'HH:mm')}`
+  const repeat = maintenance.recurrence === 'DAILY' ? 'Every day' : `Every ${format(start, 'EEEE')}`
+  const until = maintenance.recurrence_until
+    ? `until ${format(new Date(maintenance.recurrence_until), 'MMM d, yyyy')}`
+    : 'no end date'
+
+  return `${repeat}, ${times} (${maintenance.timezone}) · from ${format(start, 'MMM d, yyyy')}, ${until}`
+}
+
+export const MaintenanceWindows: React.FC = () => {
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([])
+  const [devices, setDevices] = useState<Device[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<WindowFormData>({
+    resolver: zodResolver(windowSchema),
+    defaultValues: EMPTY_FORM,
+  })
+
+  const scope = watch('scope')
+  const recurrence = watch('recurrence')
+
+  const fetchWindows = useCallback(async () => {
+    try {
+      const res = await fetch('/api/user/maintenance-windows')
+      const data = await res.json()
+      if (data.windows) {
+        setWindows(data.windows)
+      }
+    } catch (error) {
+      console.error('Failed to fetch maintenance windows:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchWindows()
+  }, [fetchWindows])
+
+  // Devices for the DEVICE scope dropdown
+  useEffect(() => {
+    const fetchDevices = async () => {
+      try {
+        const res = await fetch('/api/devices')
+        const data = await res.json()
+        setDevices(Array.isArray(data) ? data : [])
+      } catch (error) {
+        console.error('Failed to fetch devices:', error)
+      }
+    }
+
+    fetchDevices()
+  }, [])
+
+  const deviceOptions: SelectOption[] = devices
+    .map((device) => ({
+      label: device.name ? `${device.name} (${device.device_id})` : device.device_id,
+      value: device.device_id,
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label))
+
+  const handleEdit = (maintenance: MaintenanceWindow) => {
+    setEditingId(maintenance.id)
+    reset({
+      scope: maintenance.scope,
+      scope_value: maintenance.scope_value,
+      title: maintenance.title,
+      starts_at: toLocalInput(maintenance.starts_at),
+      ends_at: toLocalInput(maintenance.ends_at),
+      recurrence: maintenance.recurrence,
+      recurrence_until: maintenance.recurrence_until ? format(new Date(maintenance.recurrence_until), 'yyyy-MM-dd') : '',
+    })
+  }
+
+  const handleCancelEdit = () => {
+    setEditingId(null)
+    reset(EMPTY_FORM)
+  }
+
+  const handleDelete = async (maintenance: MaintenanceWindow) => {
+    try {
+      const res = await fetch(`/api/user/maintenance-windows/${maintenance.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.error || 'Failed to delete maintenance window')
+      }
+
+      if (editingId === maintenance.id) {
+        handleCancelEdit()
+      }
+      await fetchWindows()
+      toast.success('Maintenance window removed')
+    } catch (err: any) {
+      console.error('Error deleting maintenance window:', err)
+      toast.error(err.message || 'An error occurred while deleting the maintenance window')
+    }
+  }
+
+  const onSubmit = async (data: WindowFormData) => {
+    try {
+      const url = editingId
+        ? `/api/user/maintenance-windows/${editingId}`
+        : '/api/user/maintenance-windows'
+
+      const response = await fetch(url, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...data,
+          starts_at: toIso(data.starts_at),
+          ends_at: toIso(data.ends_at),
+          timezone: getBrowserTimezone(),
+          // COMMENT: "Repeat until" is a day - include all of it
+          recurrence_until: data.recurrence !== 'NONE' && data.recurrence_until
+            ? toIso(`${data.recurrence_until}T23:59:59`)
+            : null,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to save maintenance window')
+      }
+
+      await fetchWindows()
+      setEditingId(null)
+      reset(EMPTY_FORM)
+      toast.success(editingId ? 'Maintenance window updated!' : 'Maintenance window scheduled!')
+    } catch (err: any) {
+      console.error('Error saving maintenance window:', err)
+      toast.error(err.message || 'An error occurred while saving the maintenance window')
+    }
+  }
+
+  const now = new Date()
+
+  return (
+    <div className={styles.section}>
+      <h4 className={styles.sectionTitle}>Maintenance</h4>
+      <p className={styles.sectionDescription}>
+        Planned work during which values may go out of range. Alerts are still recorded,
+        but nobody is notified, and the window is shaded on the charts.
+      </p>
+
+      {isLoading ? (
+        <p className={styles.emptyText}>Loading maintenance windows...</p>
+      ) : windows.length === 0 ? (
+        <p className={styles.emptyText}>No maintenance scheduled.</p>
+      ) : (
+        <div className={styles.list}>
+          {windows.map((maintenance) => (
+            <div key={maintenance.id} className={clsx(styles.row, { [styles.ended]: hasEnded(maintenance, now) })}>
+              <div className={styles.rowInfo}>
+                <span className={styles.rowTitle}>
+                  <span className={styles.scopeBadge}>{SCOPE_LABELS[maintenance.scope]}</span>
+                  {maintenance.scope_value} - {maintenance.title}
+                  {isMaintenanceActive(maintenance, now) && <span className={styles.activeBadge}>In progress</span>}
+                </span>
+                <span className={styles.rowSummary}>{getScheduleSummary(maintenance)}</span>
+              </div>
+              <div className={styles.rowActions}>
+                <Button type="button" variant="secondary" size="small" onClick={() => handleEdit(maintenance)}>
+                  Edit
+                </Button>
+                <Button type="button" variant="danger" size="small" onClick={() => handleDelete(maintenance)}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
+        <h5 className={styles.formTitle}>{editingId ? 'Edit maintenance window' : 'Schedule maintenance'}</h5>
+
+        <div className={styles.fieldRow}>
+          <Controller
+            name="scope"
+            control={control}
+            render={({ field }) => (
+              <Select
+                label="Applies to"
+                options={SCOPE_OPTIONS}
+                value={field.value}
+                onChange={(value) => field.onChange(value)}
+                disabled={isSubmitting}
+                fullWidth
+              />
+            )}
+          />
+
+          {scope === 'DEVICE' ? (
+            <Controller
+              name="scope_value"
+              control={control}
+              render={({ field }) => (
+                <Select
+                  label="Device"
+                  options={deviceOptions}
+                  value={field.value}
+                  onChange={(value) => field.onChange(String(value))}
+                  placeholder="Choose a device"
+                  disabled={isSubmitting}
+                  error={errors.scope_value?.message}
+                  fullWidth
+                />
+              )}
+            />
+          ) : (
+            <Input
+              label={scope === 'BUILDING' ? 'Building' : 'Lamela'}
+              placeholder={scope === 'BUILDING' ? 'L8_53' : 'L8'}
+              disabled={isSubmitting}
+              error={errors.scope_value?.message}
+              {...register('scope_value')}
+            />
+          )}
+        </div>
+
+        <Input
+          label="Title"
+          placeholder="e.g. Substation service"
+          disabled={isSubmitting}
+          error={errors.title?.message}
+          {...register('title')}
+        />
+
+        <div className={styles.fieldRow}>
+          <Input
+            label="Start"
+            type="datetime-local"
+            disabled={isSubmitting}
+            error={errors.starts_at?.message}
+            {...register('starts_at')}
+          />
+          <Input
+            label="End"
+            type="datetime-local"
+            disabled={isSubmitting}
+            error={errors.ends_at?.message}
+            {...register('ends_at')}
+          />
+        </div>
+
+        <div className={styles.fieldRow}>
+          <Controller
+            name="recurrence"
+            control={control}
+            render={({ field }) => (
+              <Select
+                label="Repeat"
+                options={RECURRENCE_OPTIONS}
+                value={field.value}
+                onChange={(value) => field.onChange(value)}
+                disabled={isSubmitting}
+                fullWidth
+              />
+            )}
+          />
+
+          {recurrence !== 'NONE' && (
+            <Input
+              label="Repeat until (optional)"
+              type="date"
+              disabled={isSubmitting}
+              {...register('recurrence_until')}
+            />
+          )}
+        </div>
+
+        <div className={styles.formActions}>
+          <Button type="submit" loading={isSubmitting}>
+            {editingId ? 'Update Window' : 'Schedule Window'}
+          </Button>
+          {editingId && (
+            <Button type="button" variant="ghost" onClick={handleCancelEdit} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  )
+}
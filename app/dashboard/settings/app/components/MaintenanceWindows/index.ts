@@ -0,0 +1 @@
+export { MaintenanceWindows } from './MaintenanceWindows.component'
@@ -0,0 +1,369 @@
+/**
+ * ThresholdOverrides Component - Client Component
+ *
+ * "Overrides" section of the App Settings page:
+ * - Lists the user's per-device, per-building and per-lamela overrides
+ * - Create / edit form (only the filled-in fields override the global range)
+ * - Delete individual overrides
+ *
+ * Most specific override wins: Device > Building > Lamela > global settings.
+ */
+
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useForm, Controller } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import toast from 'react-hot-toast'
+import { Input } from '@/components/fields/Input'
+import { Select, SelectOption } from '@/components/fields/Select'
+import { Button } from '@/components/atoms/Button'
+import { THRESHOLD_FIELDS } from '@/lib/utils/thresholdOverrides'
+import type { ThresholdOverride } from '@/lib/generated/prisma'
+import styles from './ThresholdOverrides.module.css'
+
+const SCOPE_OPTIONS: SelectOption[] = [
+  { label: 'Device', value: 'DEVICE' },
+  { label: 'Building', value: 'BUILDING' },
+  { label: 'Lamela', value: 'LAMELA' },
+]
+
+const SCOPE_LABELS: Record<ThresholdOverride['scope'], string> = {
+  DEVICE: 'Device',
+  BUILDING: 'Building',
+  LAMELA: 'Lamela',
+}
+
+type Device = {
+  device_id: string
+  name: string | null
+}
+
+// COMMENT: Empty inputs mean "inherit", so they become undefined instead of NaN
+const toOptionalNumber = (value: unknown) =>
+  value === '' || value === null || value === undefined ? undefined : Number(value)
+
+const optionalNumber = z.number({ message: 'Must be a number' }).optional()
+
+const overrideSchema = z.object({
+  scope: z.enum(['DEVICE', 'BUILDING', 'LAMELA']),
+  scope_value: z.string().trim().min(1, 'Required'),
+  label: z.string().optional(),
+  expected_temp_min: optionalNumber,
+  expected_temp_max: optionalNumber,
+  expected_humidity_min: optionalNumber,
+  expected_humidity_max: optionalNumber,
+  expected_pressure_min: optionalNumber,
+  expected_pressure_max: optionalNumber,
+  expected_co2_min: optionalNumber,
+  expected_co2_max: optionalNumber,
+}).refine(data => data.scope !== 'LAMELA' || /^L\d+$/.test(data.scope_value), {
+  message: 'Use the lamela identifier, e.g. L8',
+  path: ['scope_value'],
+}).refine(data => data.scope !== 'BUILDING' || /^L\d+_\d+$/.test(data.scope_value), {
+  message: 'Use lamela and building, e.g. L8_53',
+  path: ['scope_value'],
+}).refine(data => THRESHOLD_FIELDS.some((field) => data[field] !== undefined), {
+  message: 'Set at least one threshold',
+  path: ['scope_value'],
+}).refine(data => data.expected_temp_min === undefined || data.expected_temp_max === undefined || data.expected_temp_min < data.expected_temp_max, {
+  message: 'Min must be less than max',
+  path: ['expected_temp_max'],
+}).refine(data => data.expected_humidity_min === undefined || data.expected_humidity_max === undefined || data.expected_humidity_min < data.expected_humidity_max, {
+  message: 'Min must be less than max',
+  path: ['expected_humidity_max'],
+}).refine(data => data.expected_pressure_min === undefined || data.expected_pressure_max === undefined || data.expected_pressure_min < data.expected_pressure_max, {
+  message: 'Min must be less than max',
+  path: ['expected_pressure_max'],
+}).refine(data => data.expected_co2_min === undefined || data.expected_co2_max === undefined || data.expected_co2_min < data.expected_co2_max, {
+  message: 'Min must be less than max',
+  path: ['expected_co2_max'],
+})
+
+type OverrideFormData = z.infer<typeof overrideSchema>
+
+const EMPTY_FORM: OverrideFormData = {
+  scope: 'DEVICE',
+  scope_value: '',
+  label: '',
+}
+
+function formatRange(min: number | null, max: number | null, unit: string): string | null {
+  if (min === null && max === null) return null
+  return `${min ?? '…'}–${max ?? '…'}${unit}`
+}
+
+function getOverrideSummary(override: ThresholdOverride): string {
+  const parts = [
+    ['Temp', formatRange(override.expected_temp_min, override.expected_temp_max, '°C')],
+    ['Humidity', formatRange(override.expected_humidity_min, override.expected_humidity_max, '%')],
+    ['Pressure', formatRange(override.expected_pressure_min, override.expected_pressure_max, ' bar')],
+    ['CO2', formatRange(override.expected_co2_min, override.expected_co2_max, ' ppm')],
+  ]
+    .filter(([, range]) => range !== null)
+    .map(([label, range]) => `${label} ${range}`)
+
+  return parts.join(' · ')
+}
+
+export const ThresholdOverrides: React.FC = () => {
+  const [overrides, setOverrides] = useState<ThresholdOverride[]>([])
+  const [devices, setDevices] = useState<Device[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<OverrideFormData>({
+    resolver: zodResolver(overrideSchema),
+    defaultValues: EMPTY_FORM,
+  })
+
+  const scope = watch('scope')
+
+  const fetchOverrides = useCallback(async () => {
+    try {
+      const res = await fetch('/api/user/threshold-overrides')
+      const data = await res.json()
+      if (data.overrides) {
+        setOverrides(data.overrides)
+      }
+    } catch (error) {
+      console.error('Failed to fetch threshold overrides:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchOverrides()
+  }, [fetchOverrides])
+
+  // Devices for the DEVICE scope dropdown
+  useEffect(() => {
+    const fetchDevices = async () => {
+      try {
+        const res = await fetch('/api/devices')
+        const data = await res.json()
+        setDevices(Array.isArray(data) ? data : [])
+      } catch (error) {
+        console.error('Failed to fetch devices:', error)
+      }
+    }
+
+    fetchDevices()
+  }, [])
+
+  const deviceOptions: SelectOption[] = devices
+    .map((device) => ({
+      label: device.name ? `${device.name} (${device.device_id})` : device.device_id,
+      value: device.device_id,
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label))
+
+  const handleEdit = (override: ThresholdOverride) => {
+    setEditingId(override.id)
+    reset({
+      scope: override.scope,
+      scope_value: override.scope_value,
+      label: override.label ?? '',
+      ...Object.fromEntries(
+        THRESHOLD_FIELDS.map((field) => [field, override[field] ?? undefined])
+      ),
+    })
+  }
+
+  const handleCancelEdit = () => {
+    setEditingId(null)
+    reset(EMPTY_FORM)
+  }
+
+  const handleDelete = async (override: ThresholdOverride) => {
+    try {
+      const res = await fetch(`/api/user/threshold-overrides/${override.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.error || 'Failed to delete override')
+      }
+
+      if (editingId === override.id) {
+        handleCancelEdit()
+      }
+      await fetchOverrides()
+      toast.success('Override removed')
+    } catch (err: any) {
+      console.error('Error deleting override:', err)
+      toast.error(err.message || 'An error occurred while deleting the override')
+    }
+  }
+
+  const onSubmit = async (data: OverrideFormData) => {
+    try {
+      const url = editingId
+        ? `/api/user/threshold-overrides/${editingId}`
+        : '/api/user/threshold-overrides'
+
+      const response = await fetch(url, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to save override')
+      }
+
+      await fetchOverrides()
+      setEditingId(null)
+      reset(EMPTY_FORM)
+      toast.success(editingId ? 'Override updated!' : 'Override added!')
+    } catch (err: any) {
+      console.error('Error saving override:', err)
+      toast.error(err.message || 'An error occurred while saving the override')
+    }
+  }
+
+  const numberField = (field: typeof THRESHOLD_FIELDS[number], label: string, step: string) => (
+    <Input
+      label={label}
+      type="number"
+      step={step}
+      placeholder="Inherit"
+      disabled={isSubmitting}
+      error={errors[field]?.message}
+      {...register(field, { setValueAs: toOptionalNumber })}
+    />
+  )
+
+  return (
+    <div className={styles.section}>
+      <h4 className={styles.sectionTitle}>Overrides</h4>
+      <p className={styles.sectionDescription}>
+        Different ranges for specific devices, buildings or lamelas. The most specific
+        override wins; empty fields inherit the ranges above.
+      </p>
+
+      {isLoading ? (
+        <p className={styles.emptyText}>Loading overrides...</p>
+      ) : overrides.length === 0 ? (
+        <p className={styles.emptyText}>No overrides yet - all devices use the ranges above.</p>
+      ) : (
+        <div className={styles.list}>
+          {overrides.map((override) => (
+            <div key={override.id} className={styles.row}>
+              <div className={styles.rowInfo}>
+                <span className={styles.rowTitle}>
+                  <span className={styles.scopeBadge}>{SCOPE_LABELS[override.scope]}</span>
+                  {override.scope_value}
+                  {override.label ? ` - ${override.label}` : ''}
+                </span>
+                <span className={styles.rowSummary}>{getOverrideSummary(override)}</span>
+              </div>
+              <div className={styles.rowActions}>
+                <Button type="button" variant="secondary" size="small" onClick={() => handleEdit(override)}>
+                  Edit
+                </Button>
+                <Button type="button" variant="danger" size="small" onClick={() => handleDelete(override)}>
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
+        <h5 className={styles.formTitle}>{editingId ? 'Edit override' : 'Add override'}</h5>
+
+        <div className={styles.fieldRow}>
+          <Controller
+            name="scope"
+            control={control}
+            render={({ field }) => (
+              <Select
+                label="Applies to"
+                options={SCOPE_OPTIONS}
+                value={field.value}
+                onChange={(value) => field.onChange(value)}
+                disabled={isSubmitting}
+                fullWidth
+              />
+            )}
+          />
+
+          {scope === 'DEVICE' ? (
+            <Controller
+              name="scope_value"
+              control={control}
+              render={({ field }) => (
+                <Select
+                  label="Device"
+                  options={deviceOptions}
+                  value={field.value}
+                  onChange={(value) => field.onChange(String(value))}
+                  placeholder="Choose a device"
+                  disabled={isSubmitting}
+                  error={errors.scope_value?.message}
+                  fullWidth
+                />
+              )}
+            />
+          ) : (
+            <Input
+              label={scope === 'BUILDING' ? 'Building' : 'Lamela'}
+              placeholder={scope === 'BUILDING' ? 'L8_53' : 'L8'}
+              disabled={isSubmitting}
+              error={errors.scope_value?.message}
+              {...register('scope_value')}
+            />
+          )}
+        </div>
+
+        <Input
+          label="Note (optional)"
+          placeholder="e.g. Stairwell probe"
+          disabled={isSubmitting}
+          {...register('label')}
+        />
+
+        <div className={styles.fieldRow}>
+          {numberField('expected_temp_min', 'Temperature min (°C)', '0.1')}
+          {numberField('expected_temp_max', 'Temperature max (°C)', '0.1')}
+        </div>
+        <div className={styles.fieldRow}>
+          {numberField('expected_humidity_min', 'Humidity min (%)', '1')}
+          {numberField('expected_humidity_max', 'Humidity max (%)', '1')}
+        </div>
+        <div className={styles.fieldRow}>
+          {numberField('expected_pressure_min', 'Pressure min (bar)', '0.1')}
+          {numberField('expected_pressure_max', 'Pressure max (bar)', '0.1')}
+        </div>
+        <div className={styles.fieldRow}>
+          {numberField('expected_co2_min', 'CO2 min (ppm)', '10')}
+          {numberField('expected_co2_max', 'CO2 max (ppm)', '10')}
+        </div>
+
+        <div className={styles.formActions}>
+          <Button type="submit" loading={isSubmitting}>
+            {editingId ? 'Update Override' : 'Add Override'}
+          </Button>
+          {editingId && (
+            <Button type="button" variant="ghost" onClick={handleCancelEdit} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { ThresholdOverrides } from './ThresholdOverrides.component'
@@ -0,0 +1,416 @@
+/**
+ * Webhooks Component - Client Component
+ *
+ * "Webhooks" section of the App Settings page:
+ * - Lists the user's webhook endpoints with their signing secret
+ * - Create / edit form (name, URL, events)
+ * - Send a test ping, view the delivery log, delete
+ *
+ * Alert events are POSTed as signed JSON and retried with backoff
+ * (see lib/utils/webhooks.ts).
+ */
+
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import toast from 'react-hot-toast'
+import { formatDistanceToNow } from 'date-fns'
+import clsx from 'clsx'
+import { Input } from '@/components/fields/Input'
+import { Button } from '@/components/atoms/Button'
+import type { WebhookDelivery, WebhookEndpoint } from '@/lib/generated/prisma'
+import styles from './Webhooks.module.css'
+
+// COMMENT: Same values as WEBHOOK_EVENTS in lib/utils/webhooks.ts (server-only module)
+const EVENT_OPTIONS = [
+  { value: 'new_alert', label: 'New alert' },
+  { value: 'alert_resolved', label: 'Alert resolved' },
+  { value: 'alert_escalated', label: 'Alert escalated' },
+] as const
+
+type WebhookEventValue = typeof EVENT_OPTIONS[number]['value']
+
+const webhookSchema = z.object({
+  name: z.string().trim().min(1, 'Required'),
+  url: z.string().trim().url('Enter a valid URL').refine(
+    (value) => /^https?:\/\//i.test(value),
+    'Must start with http:// or https://'
+  ),
+  events: z.array(z.enum(['new_alert', 'alert_resolved', 'alert_escalated'])).min(1, 'Choose at least one event'),
+  enabled: z.boolean(),
+})
+
+type WebhookFormData = z.infer<typeof webhookSchema>
+
+const EMPTY_FORM: WebhookFormData = {
+  name: '',
+  url: '',
+  events: ['new_alert', 'alert_resolved', 'alert_escalated'],
+  enabled: true,
+}
+
+function getEventsSummary(endpoint: WebhookEndpoint): string {
+  return EVENT_OPTIONS
+    .filter((option) => endpoint.events.includes(option.value))
+    .map((option) => option.label)
+    .join(', ')
+}
+
+function getDeliveryResult(delivery: WebhookDelivery): string {
+  if (delivery.status === 'DELIVERED') return `HTTP ${delivery.last_status_code}`
+  const reason = delivery.last_status_code
+    ? `HTTP ${delivery.last_status_code}${delivery.last_error ? ` - ${delivery.last_error}` : ''}`
+    : delivery.last_error || 'Not sent yet'
+  if (delivery.status === 'PENDING' && delivery.next_attempt_at) {
+    return `${reason} · retry ${formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}`
+  }
+  return reason
+}
+
+export const Webhooks: React.FC = () => {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [revealedId, setRevealedId] = useState<string | null>(null)
+  const [testingId, setTestingId] = useState<string | null>(null)
+  const [logId, setLogId] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [isLogLoading, setIsLogLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<WebhookFormData>({
+    resolver: zodResolver(webhookSchema),
+    defaultValues: EMPTY_FORM,
+  })
+
+  const fetchEndpoints = useCallback(async () => {
+    try {
+      const res = await fetch('/api/user/webhooks')
+      const data = await res.json()
+      if (data.endpoints) {
+        setEndpoints(data.endpoints)
+      }
+    } catch (error) {
+      console.error('Failed to fetch webhooks:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const fetchDeliveries = useCallback(async (endpointId: string) => {
+    setIsLogLoading(true)
+    try {
+      const res = await fetch(`/api/user/webhooks/${endpointId}/deliveries`)
+      const data = await res.json()
+      setDeliveries(data.deliveries || [])
+    } catch (error) {
+      console.error('Failed to fetch webhook deliveries:', error)
+    } finally {
+      setIsLogLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchEndpoints()
+  }, [fetchEndpoints])
+
+  const handleEdit = (endpoint: WebhookEndpoint) => {
+    setEditingId(endpoint.id)
+    reset({
+      name: endpoint.name,
+      url: endpoint.url,
+      events: endpoint.events.filter((event): event is WebhookEventValue =>
+        EVENT_OPTIONS.some((option) => option.value === event)
+      ),
+      enabled: endpoint.enabled,
+    })
+  }
+
+  const handleCancelEdit = () => {
+    setEditingId(null)
+    reset(EMPTY_FORM)
+  }
+
+  const handleToggleLog = async (endpoint: WebhookEndpoint) => {
+    if (logId === endpoint.id) {
+      setLogId(null)
+      return
+    }
+    setLogId(endpoint.id)
+    setDeliveries([])
+    await fetchDeliveries(endpoint.id)
+  }
+
+  const handleCopySecret = async (endpoint: WebhookEndpoint) => {
+    try {
+      await navigator.clipboard.writeText(endpoint.secret)
+      toast.success('Secret copied')
+    } catch {
+      toast.error('Could not copy - reveal the secret and copy it manually')
+    }
+  }
+
+  const handleTest = async (endpoint: WebhookEndpoint) => {
+    setTestingId(endpoint.id)
+    try {
+      const res = await fetch(`/api/user/webhooks/${endpoint.id}/test`, { method: 'POST' })
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to send test')
+      }
+
+      if (data.status === 'DELIVERED') {
+        toast.success(`Test delivered (HTTP ${data.last_status_code})`)
+      } else {
+        toast.error(`Test failed: ${getDeliveryResult(data)}`)
+      }
+
+      if (logId === endpoint.id) {
+        await fetchDeliveries(endpoint.id)
+      }
+    } catch (err: any) {
+      console.error('Error testing webhook:', err)
+      toast.error(err.message || 'An error occurred while sending the test')
+    } finally {
+      setTestingId(null)
+    }
+  }
+
+  const handleRotateSecret = async (endpoint: WebhookEndpoint) => {
+    try {
+      const res = await fetch(`/api/user/webhooks/${endpoint.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: endpoint.name,
+          url: endpoint.url,
+          events: endpoint.events,
+          enabled: endpoint.enabled,
+          rotate_secret: true,
+        }),
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to rotate secret')
+      }
+
+      await fetchEndpoints()
+      setRevealedId(endpoint.id)
+      toast.success('New secret generated - update your receiver')
+    } catch (err: any) {
+      console.error('Error rotating webhook secret:', err)
+      toast.error(err.message || 'An error occurred while rotating the secret')
+    }
+  }
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    try {
+      const res = await fetch(`/api/user/webhooks/${endpoint.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.error || 'Failed to delete webhook')
+      }
+
+      if (editingId === endpoint.id) {
+        handleCancelEdit()
+      }
+      if (logId === endpoint.id) {
+        setLogId(null)
+      }
+      await fetchEndpoints()
+      toast.success('Webhook removed')
+    } catch (err: any) {
+      console.error('Error deleting webhook:', err)
+      toast.error(err.message || 'An error occurred while deleting the webhook')
+    }
+  }
+
+  const onSubmit = async (data: WebhookFormData) => {
+    try {
+      const url = editingId
+        ? `/api/user/webhooks/${editingId}`
+        : '/api/user/webhooks'
+
+      const response = await fetch(url, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to save webhook')
+      }
+
+      const saved: WebhookEndpoint = await response.json()
+
+      await fetchEndpoints()
+      if (!editingId) {
+        // COMMENT: Show the new secret right away - it's needed to set up the receiver
+        setRevealedId(saved.id)
+      }
+      setEditingId(null)
+      reset(EMPTY_FORM)
+      toast.success(editingId ? 'Webhook updated!' : 'Webhook added!')
+    } catch (err: any) {
+      console.error('Error saving webhook:', err)
+      toast.error(err.message || 'An error occurred while saving the webhook')
+    }
+  }
+
+  return (
+    <div className={styles.section}>
+      <h4 className={styles.sectionTitle}>Webhooks</h4>
+      <p className={styles.sectionDescription}>
+        Send alerts to your own systems. Each request is signed with the endpoint&apos;s secret
+        (HMAC-SHA256 in the X-Xai4heat-Signature header) and retried if it fails.
+      </p>
+
+      {isLoading ? (
+        <p className={styles.emptyText}>Loading webhooks...</p>
+      ) : endpoints.length === 0 ? (
+        <p className={styles.emptyText}>No webhooks - alerts are only shown in the app.</p>
+      ) : (
+        <div className={styles.list}>
+          {endpoints.map((endpoint) => (
+            <div key={endpoint.id} className={styles.item}>
+              <div className={styles.row}>
+                <div className={styles.rowInfo}>
+                  <span className={styles.rowTitle}>
+                    {endpoint.name}
+                    {!endpoint.enabled && <span className={styles.disabledBadge}>Disabled</span>}
+                  </span>
+                  <span className={styles.rowUrl}>{endpoint.url}</span>
+                  <span className={styles.rowSummary}>{getEventsSummary(endpoint)}</span>
+                  <span className={styles.secret}>
+                    <code>{revealedId === endpoint.id ? endpoint.secret : 'whsec_••••••••••••'}</code>
+                    <button
+                      type="button"
+                      className={styles.linkButton}
+                      onClick={() => setRevealedId(revealedId === endpoint.id ? null : endpoint.id)}
+                    >
+                      {revealedId === endpoint.id ? 'Hide' : 'Reveal'}
+                    </button>
+                    <button type="button" className={styles.linkButton} onClick={() => handleCopySecret(endpoint)}>
+                      Copy
+                    </button>
+                    <button type="button" className={styles.linkButton} onClick={() => handleRotateSecret(endpoint)}>
+                      Rotate
+                    </button>
+                  </span>
+                </div>
+                <div className={styles.rowActions}>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="small"
+                    loading={testingId === endpoint.id}
+                    onClick={() => handleTest(endpoint)}
+                  >
+                    Test
+                  </Button>
+                  <Button type="button" variant="secondary" size="small" onClick={() => handleToggleLog(endpoint)}>
+                    {logId === endpoint.id ? 'Hide Log' : 'Log'}
+                  </Button>
+                  <Button type="button" variant="secondary" size="small" onClick={() => handleEdit(endpoint)}>
+                    Edit
+                  </Button>
+                  <Button type="button" variant="danger" size="small" onClick={() => handleDelete(endpoint)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+
+              {logId === endpoint.id && (
+                <div className={styles.log}>
+                  {isLogLoading ? (
+                    <p className={styles.emptyText}>Loading deliveries...</p>
+                  ) : deliveries.length === 0 ? (
+                    <p className={styles.emptyText}>No deliveries yet.</p>
+                  ) : (
+                    <ul className={styles.deliveries}>
+                      {deliveries.map((delivery) => (
+                        <li key={delivery.id} className={styles.delivery}>
+                          <span className={clsx(styles.status, styles[delivery.status.toLowerCase()])}>
+                            {delivery.status}
+                          </span>
+                          <span className={styles.deliveryEvent}>{delivery.event}</span>
+                          <span className={styles.deliveryResult}>
+                            {getDeliveryResult(delivery)}
+                            {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+                          </span>
+                          <span className={styles.deliveryTime}>
+                            {formatDistanceToNow(new Date(delivery.created_at), { addSuffix: true })}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
+        <h5 className={styles.formTitle}>{editingId ? 'Edit webhook' : 'Add webhook'}</h5>
+
+        <div className={styles.fieldRow}>
+          <Input
+            label="Name"
+            placeholder="e.g. Maintenance contractor"
+            disabled={isSubmitting}
+            error={errors.name?.message}
+            {...register('name')}
+          />
+
+          <Input
+            label="URL"
+            placeholder="https://example.com/hooks/xai4heat"
+            disabled={isSubmitting}
+            error={errors.url?.message}
+            {...register('url')}
+          />
+        </div>
+
+        <div className={styles.checkboxes}>
+          {EVENT_OPTIONS.map((option) => (
+            <label key={option.value} className={styles.checkboxLabel}>
+              <input type="checkbox" value={option.value} disabled={isSubmitting} {...register('events')} />
+              {option.label}
+            </label>
+          ))}
+          <label className={styles.checkboxLabel}>
+            <input type="checkbox" disabled={isSubmitting} {...register('enabled')} />
+            Enabled
+          </label>
+        </div>
+        {errors.events?.message && <p className={styles.errorText}>{errors.events.message}</p>}
+
+        <div className={styles.formActions}>
+          <Button type="submit" loading={isSubmitting}>
+            {editingId ? 'Update Webhook' : 'Add Webhook'}
+          </Button>
+          {editingId && (
+            <Button type="button" variant="ghost" onClick={handleCancelEdit} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  )
+}
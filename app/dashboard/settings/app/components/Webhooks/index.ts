@@ -0,0 +1 @@
+export { Webhooks } from './Webhooks.component'
@@ -7,6 +7,9 @@
  * - CO2 (used by Thermionix)
  *
  * Values outside these ranges will trigger alerts.
+ * Ranges can be overridden per device, building or lamela (Overrides section).
+ * Planned maintenance suppresses notifications (Maintenance section).
+ * Unacknowledged alerts can be escalated (Escalation section).
  */
 
 import { getCurrentUser, getUserSettings } from '@/lib/supabase/server'
@@ -23,4 +23,8 @@ export const SETTINGS_TABS: SettingsTab[] = [
     label: 'App Settings',
     href: DASHBOARD_ROUTES.SETTINGS_APP,
   },
+  {
+    label: 'Notifications',
+    href: DASHBOARD_ROUTES.SETTINGS_NOTIFICATIONS,
+  },
 ]
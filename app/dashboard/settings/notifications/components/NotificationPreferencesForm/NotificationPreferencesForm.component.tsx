@@ -0,0 +1,358 @@
+/**
+ * NotificationPreferencesForm Component - Client Component
+ *
+ * Form for the user's notification preferences:
+ * - Which alerts: sources and severities
+ * - Channels: in-app pop-ups, email, webhooks
+ * - Quiet hours (only HIGH alerts interrupt) and the timezone they're in
+ * - Email address (defaults to the login email), immediate email for HIGH alerts
+ * - Digest frequency (none / hourly / daily) and, for daily, the hour
+ * - "Send test email" with the digest of the last 24 hours
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useForm, Controller } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import toast from 'react-hot-toast'
+import { Input } from '@/components/fields/Input'
+import { Select, SelectOption } from '@/components/fields/Select'
+import { Button } from '@/components/atoms/Button'
+import { useAlerts } from '@/lib/contexts/AlertsContext'
+import type { NotificationPreferences } from '@/lib/generated/prisma'
+import styles from './NotificationPreferencesForm.module.css'
+
+const DIGEST_OPTIONS: SelectOption[] = [
+  { label: 'No digest', value: 'NONE' },
+  { label: 'Hourly', value: 'HOURLY' },
+  { label: 'Daily', value: 'DAILY' },
+]
+
+const SOURCE_OPTIONS = [
+  { value: 'THERMIONIX', label: 'Thermionix (apartments)' },
+  { value: 'SCADA', label: 'SCADA (substations)' },
+  { value: 'WEATHERLINK', label: 'WeatherLink (weather station)' },
+] as const
+
+const SEVERITY_OPTIONS = [
+  { value: 'HIGH', label: 'High' },
+  { value: 'MEDIUM', label: 'Medium' },
+  { value: 'LOW', label: 'Low' },
+] as const
+
+const HOUR_OPTIONS: SelectOption[] = Array.from({ length: 24 }, (_, hour) => ({
+  label: `${hour.toString().padStart(2, '0')}:00`,
+  value: hour,
+}))
+
+const isValidTimezone = (value: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const preferencesSchema = z.object({
+  sources: z.array(z.enum(['THERMIONIX', 'SCADA', 'WEATHERLINK'])).min(1, 'Choose at least one source'),
+  severities: z.array(z.enum(['LOW', 'MEDIUM', 'HIGH'])).min(1, 'Choose at least one severity'),
+  channel_toast: z.boolean(),
+  channel_webhook: z.boolean(),
+  quiet_hours_enabled: z.boolean(),
+  quiet_hours_start: z.number().int().min(0).max(23),
+  quiet_hours_end: z.number().int().min(0).max(23),
+  email_enabled: z.boolean(),
+  email_address: z.union([z.literal(''), z.string().trim().email('Enter a valid email address')]),
+  email_immediate: z.boolean(),
+  email_digest: z.enum(['NONE', 'HOURLY', 'DAILY']),
+  digest_hour: z.number().int().min(0).max(23),
+  timezone: z.string().trim().refine(isValidTimezone, 'Unknown timezone (e.g. Europe/Belgrade)'),
+})
+
+type PreferencesFormData = z.infer<typeof preferencesSchema>
+
+type NotificationPreferencesFormProps = {
+  currentPreferences: NotificationPreferences
+  loginEmail: string
+  emailConfigured: boolean
+}
+
+export const NotificationPreferencesForm: React.FC<NotificationPreferencesFormProps> = ({
+  currentPreferences,
+  loginEmail,
+  emailConfigured,
+}) => {
+  const { refreshPreferences } = useAlerts()
+  const [isSendingTest, setIsSendingTest] = useState(false)
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<PreferencesFormData>({
+    resolver: zodResolver(preferencesSchema),
+    defaultValues: {
+      sources: currentPreferences.sources,
+      severities: currentPreferences.severities,
+      channel_toast: currentPreferences.channel_toast,
+      channel_webhook: currentPreferences.channel_webhook,
+      quiet_hours_enabled: currentPreferences.quiet_hours_enabled,
+      quiet_hours_start: currentPreferences.quiet_hours_start,
+      quiet_hours_end: currentPreferences.quiet_hours_end,
+      email_enabled: currentPreferences.email_enabled,
+      email_address: currentPreferences.email_address || '',
+      email_immediate: currentPreferences.email_immediate,
+      email_digest: currentPreferences.email_digest,
+      digest_hour: currentPreferences.digest_hour,
+      timezone: currentPreferences.timezone,
+    },
+  })
+
+  const emailEnabled = watch('email_enabled')
+  const emailDigest = watch('email_digest')
+  const quietHoursEnabled = watch('quiet_hours_enabled')
+
+  const onSubmit = async (data: PreferencesFormData) => {
+    try {
+      const response = await fetch('/api/user/notification-preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to update preferences')
+      }
+
+      await refreshPreferences()
+      toast.success('Notification preferences saved!')
+    } catch (err: any) {
+      console.error('Error updating notification preferences:', err)
+      toast.error(err.message || 'An error occurred while saving preferences')
+    }
+  }
+
+  const handleSendTest = async () => {
+    setIsSendingTest(true)
+    try {
+      const response = await fetch('/api/user/notification-preferences/test', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send test email')
+      }
+
+      toast.success(`Test email sent to ${data.to}`)
+    } catch (err: any) {
+      console.error('Error sending test email:', err)
+      toast.error(err.message || 'An error occurred while sending the test email')
+    } finally {
+      setIsSendingTest(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className={styles.form}>
+      {!emailConfigured && (
+        <div className={styles.warningBanner}>
+          Email is not configured on this server (SMTP settings), so no emails will be sent yet.
+        </div>
+      )}
+
+      {/* Which alerts */}
+      <div className={styles.section}>
+        <h4 className={styles.sectionTitle}>Alerts</h4>
+        <p className={styles.sectionDescription}>
+          Only these alerts notify you - the others are still listed on the notifications page
+        </p>
+
+        <div className={styles.checkboxes}>
+          {SOURCE_OPTIONS.map((option) => (
+            <label key={option.value} className={styles.checkboxLabel}>
+              <input type="checkbox" value={option.value} disabled={isSubmitting} {...register('sources')} />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        {errors.sources?.message && <p className={styles.errorText}>{errors.sources.message}</p>}
+
+        <div className={styles.checkboxes}>
+          {SEVERITY_OPTIONS.map((option) => (
+            <label key={option.value} className={styles.checkboxLabel}>
+              <input type="checkbox" value={option.value} disabled={isSubmitting} {...register('severities')} />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        {errors.severities?.message && <p className={styles.errorText}>{errors.severities.message}</p>}
+      </div>
+
+      {/* Channels */}
+      <div className={styles.section}>
+        <h4 className={styles.sectionTitle}>Channels</h4>
+        <p className={styles.sectionDescription}>
+          Webhook endpoints are managed under App Settings
+        </p>
+
+        <div className={styles.checkboxes}>
+          <label className={styles.checkboxLabel}>
+            <input type="checkbox" disabled={isSubmitting} {...register('channel_toast')} />
+            In-app pop-ups
+          </label>
+          <label className={styles.checkboxLabel}>
+            <input type="checkbox" disabled={isSubmitting} {...register('email_enabled')} />
+            Email
+          </label>
+          <label className={styles.checkboxLabel}>
+            <input type="checkbox" disabled={isSubmitting} {...register('channel_webhook')} />
+            Webhooks
+          </label>
+        </div>
+      </div>
+
+      {/* Quiet hours */}
+      <div className={styles.section}>
+        <h4 className={styles.sectionTitle}>Quiet hours</h4>
+        <p className={styles.sectionDescription}>
+          Only HIGH alerts pop up or are emailed during these hours; hourly digests wait until they end
+        </p>
+
+        <div className={styles.checkboxes}>
+          <label className={styles.checkboxLabel}>
+            <input type="checkbox" disabled={isSubmitting} {...register('quiet_hours_enabled')} />
+            Enable quiet hours
+          </label>
+        </div>
+
+        <div className={styles.fieldRow}>
+          <Controller
+            name="quiet_hours_start"
+            control={control}
+            render={({ field }) => (
+              <Select
+                label="From"
+                options={HOUR_OPTIONS}
+                value={field.value}
+                onChange={(value) => field.onChange(Number(value))}
+                disabled={isSubmitting || !quietHoursEnabled}
+                fullWidth
+              />
+            )}
+          />
+
+          <Controller
+            name="quiet_hours_end"
+            control={control}
+            render={({ field }) => (
+              <Select
+                label="Until"
+                options={HOUR_OPTIONS}
+                value={field.value}
+                onChange={(value) => field.onChange(Number(value))}
+                disabled={isSubmitting || !quietHoursEnabled}
+                fullWidth
+              />
+            )}
+          />
+        </div>
+
+        <Input
+          label="Timezone"
+          placeholder="Europe/Belgrade"
+          disabled={isSubmitting}
+          error={errors.timezone?.message}
+          helperText="Used for quiet hours and the daily digest"
+          {...register('timezone')}
+        />
+      </div>
+
+      {/* Email */}
+      <div className={styles.section}>
+        <h4 className={styles.sectionTitle}>Email</h4>
+        <p className={styles.sectionDescription}>
+          HIGH alerts right away, everything else in a digest
+        </p>
+
+        <Input
+          label="Email address"
+          type="email"
+          placeholder={loginEmail}
+          disabled={isSubmitting || !emailEnabled}
+          error={errors.email_address?.message}
+          helperText="Leave empty to use your login email"
+          {...register('email_address')}
+        />
+
+        <div className={styles.checkboxes}>
+          <label className={styles.checkboxLabel}>
+            <input type="checkbox" disabled={isSubmitting || !emailEnabled} {...register('email_immediate')} />
+            Email HIGH alerts immediately
+          </label>
+        </div>
+      </div>
+
+      {/* Digest */}
+      <div className={styles.section}>
+        <h4 className={styles.sectionTitle}>Digest</h4>
+        <p className={styles.sectionDescription}>
+          Alert counts per source, apartments with the most alerts and everything still unresolved
+        </p>
+
+        <div className={styles.fieldRow}>
+          <Controller
+            name="email_digest"
+            control={control}
+            render={({ field }) => (
+              <Select
+                label="Frequency"
+                options={DIGEST_OPTIONS}
+                value={field.value}
+                onChange={(value) => field.onChange(value)}
+                disabled={isSubmitting || !emailEnabled}
+                fullWidth
+              />
+            )}
+          />
+
+          {emailDigest === 'DAILY' && (
+            <Controller
+              name="digest_hour"
+              control={control}
+              render={({ field }) => (
+                <Select
+                  label="Send at"
+                  options={HOUR_OPTIONS}
+                  value={field.value}
+                  onChange={(value) => field.onChange(Number(value))}
+                  disabled={isSubmitting || !emailEnabled}
+                  fullWidth
+                />
+              )}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className={styles.formActions}>
+        <Button type="submit" loading={isSubmitting}>
+          Save Preferences
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          loading={isSendingTest}
+          disabled={!emailConfigured || isSubmitting}
+          onClick={handleSendTest}
+        >
+          Send Test Email
+        </Button>
+      </div>
+    </form>
+  )
+}
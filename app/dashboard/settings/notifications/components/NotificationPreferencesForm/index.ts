@@ -0,0 +1 @@
+export { NotificationPreferencesForm } from './NotificationPreferencesForm.component'
@@ -0,0 +1,42 @@
+/**
+ * Notification Settings Page - Server Component
+ *
+ * Allows users to choose which alerts notify them and how:
+ * - Sources and severities
+ * - Channels (in-app pop-ups, email, webhooks) and quiet hours
+ * - Email for HIGH alerts as they happen
+ * - Hourly or daily email digest of everything else
+ */
+
+import { getCurrentUser, getNotificationPreferences } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { isEmailConfigured } from '@/lib/utils/email'
+import { NotificationPreferencesForm } from './components/NotificationPreferencesForm'
+import styles from './NotificationSettings.module.css'
+
+const NotificationSettingsPage: React.FC = async () => {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    redirect('/auth/login')
+  }
+
+  const preferences = await getNotificationPreferences(user.id)
+
+  return (
+    <div className={styles.container}>
+      <h2 className={styles.title}>Notifications</h2>
+      <p className={styles.description}>
+        Choose which alerts notify you, through which channels and when.
+      </p>
+
+      <NotificationPreferencesForm
+        currentPreferences={preferences}
+        loginEmail={user.email || ''}
+        emailConfigured={isEmailConfigured()}
+      />
+    </div>
+  )
+}
+
+export default NotificationSettingsPage
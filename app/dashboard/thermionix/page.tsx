@@ -27,13 +27,28 @@ import { ConnectionBadge } from "@/components/realtime/ConnectionBadge";
 import { ExportButton } from "@/components/atoms/ExportButton";
 import { useThermionixRealtime } from "@/lib/hooks/useThermionixRealtime";
 import { exportThermionixData } from "@/lib/exports/thermionixExport";
+import { resolveThresholds, ThresholdOverrideLike } from "@/lib/utils/thresholdOverrides";
+import { getMaintenanceRegions, MaintenanceWindowLike } from "@/lib/utils/maintenanceWindows";
+import { calibrateReading, CalibrationLike } from "@/lib/utils/calibration";
 import type { ThermionixMeasurement as RealtimeThermionixMeasurement } from "@/lib/hooks/useThermionixRealtime";
 import styles from "./page.module.css";
 
-type Device = {
-  device_id: string;
+// From GET /api/apartments (device registry)
+type ApartmentProbe = {
+  id: number;
+  hub_id: number | null;
+  device_id: string | null;
+  has_temperature: boolean;
+  has_humidity: boolean;
+  has_co2: boolean;
+};
+
+type Apartment = {
+  id: string;
   name: string;
-  location: string;
+  number: number;
+  building: { code: string; number: number; lamela: { code: string } } | null;
+  probes: ApartmentProbe[];
 };
 
 type ThermionixMeasurement = {
@@ -86,45 +101,112 @@ export default function ThermionixPage() {
   }, [searchParams]);
 
   // State
-  const [devices, setDevices] = useState<Device[]>([]);
+  const [apartments, setApartments] = useState<Apartment[]>([]);
   const [measurements, setMeasurements] = useState<ThermionixMeasurement[]>([]);
   const [co2Measurements, setCo2Measurements] = useState<ThermionixMeasurement[]>([]);
+  // Calibrations the API applied to the selected probe - realtime rows arrive raw
+  const [calibrations, setCalibrations] = useState<CalibrationLike[]>([]);
   const [isLoadingDevices, setIsLoadingDevices] = useState(true);
   const [isLoadingMeasurements, setIsLoadingMeasurements] = useState(false);
-  const [expectedTempMin, setExpectedTempMin] = useState<number>(18);
-  const [expectedTempMax, setExpectedTempMax] = useState<number>(26);
-  const [expectedHumidityMin, setExpectedHumidityMin] = useState<number>(30);
-  const [expectedHumidityMax, setExpectedHumidityMax] = useState<number>(70);
-  const [expectedCO2Min, setExpectedCO2Min] = useState<number>(400);
-  const [expectedCO2Max, setExpectedCO2Max] = useState<number>(1000);
-
-  // Get selected device name for export
-  const selectedDevice = devices.find((d) => d.device_id === selectedDeviceId);
-  const selectedDeviceName = selectedDevice?.name || selectedDeviceId;
-
-  // Find the paired CO2 device (e.g. L8_53_13 → L8_53_13_CO2)
+  const [globalTempMin, setGlobalTempMin] = useState<number>(18);
+  const [globalTempMax, setGlobalTempMax] = useState<number>(26);
+  const [globalHumidityMin, setGlobalHumidityMin] = useState<number>(30);
+  const [globalHumidityMax, setGlobalHumidityMax] = useState<number>(70);
+  const [globalCO2Min, setGlobalCO2Min] = useState<number>(400);
+  const [globalCO2Max, setGlobalCO2Max] = useState<number>(1000);
+  const [thresholdOverrides, setThresholdOverrides] = useState<ThresholdOverrideLike[]>([]);
+  const [maintenanceWindows, setMaintenanceWindows] = useState<MaintenanceWindowLike[]>([]);
+
+  // The URL holds the probe ID - find the apartment it belongs to
+  const selectedApartment = apartments.find((a) =>
+    a.probes.some((p) => p.id.toString() === selectedDeviceId)
+  );
+  const selectedDeviceName = selectedApartment?.name || selectedDeviceId;
+
+  // The apartment's CO2 probe, if it has one
   const co2DeviceId = useMemo(() => {
-    if (!selectedDevice) return null;
-    const co2Device = devices.find((d) => d.name === `${selectedDevice.name}_CO2`);
-    return co2Device?.device_id || null;
-  }, [selectedDevice, devices]);
+    const co2Probe = selectedApartment?.probes.find((p) => p.has_co2);
+    return co2Probe ? co2Probe.id.toString() : null;
+  }, [selectedApartment]);
+
+  // Expected ranges for the selected apartment: device/building/lamela overrides win over global settings
+  const globalThresholds = useMemo(
+    () => ({
+      expected_temp_min: globalTempMin,
+      expected_temp_max: globalTempMax,
+      expected_humidity_min: globalHumidityMin,
+      expected_humidity_max: globalHumidityMax,
+      expected_co2_min: globalCO2Min,
+      expected_co2_max: globalCO2Max,
+    }),
+    [globalTempMin, globalTempMax, globalHumidityMin, globalHumidityMax, globalCO2Min, globalCO2Max]
+  );
+  const thresholds = useMemo(
+    () =>
+      resolveThresholds(
+        globalThresholds,
+        thresholdOverrides,
+        { device_id: selectedDeviceId, device_name: selectedApartment?.name }
+      ),
+    [globalThresholds, thresholdOverrides, selectedDeviceId, selectedApartment?.name]
+  );
+  // COMMENT: The CO2 probe is a device of its own - alert detection resolves
+  // its DEVICE overrides by the CO2 probe's ID, so the colours must too
+  const co2Thresholds = useMemo(
+    () =>
+      resolveThresholds(
+        globalThresholds,
+        thresholdOverrides,
+        { device_id: co2DeviceId ?? selectedDeviceId, device_name: selectedApartment?.name }
+      ),
+    [globalThresholds, thresholdOverrides, co2DeviceId, selectedDeviceId, selectedApartment?.name]
+  );
+  const expectedTempMin = thresholds.expected_temp_min;
+  const expectedTempMax = thresholds.expected_temp_max;
+  const expectedHumidityMin = thresholds.expected_humidity_min;
+  const expectedHumidityMax = thresholds.expected_humidity_max;
+  const expectedCO2Min = co2Thresholds.expected_co2_min;
+  const expectedCO2Max = co2Thresholds.expected_co2_max;
+
+  // Planned maintenance of the apartment (or its building/lamela), shaded on the charts
+  // COMMENT: The CO2 probe is a device of its own - DEVICE windows differ per chart
+  const maintenanceRegions = useMemo(
+    () =>
+      getMaintenanceRegions(
+        maintenanceWindows,
+        { device_id: selectedDeviceId, device_name: selectedApartment?.name },
+        new Date(dateRange.from),
+        new Date(dateRange.to)
+      ),
+    [maintenanceWindows, selectedDeviceId, selectedApartment?.name, dateRange]
+  );
+  const co2MaintenanceRegions = useMemo(
+    () =>
+      getMaintenanceRegions(
+        maintenanceWindows,
+        { device_id: co2DeviceId, device_name: selectedApartment?.name },
+        new Date(dateRange.from),
+        new Date(dateRange.to)
+      ),
+    [maintenanceWindows, co2DeviceId, selectedApartment?.name, dateRange]
+  );
 
-  // Fetch devices on mount
+  // Fetch apartments with their probes on mount
   useEffect(() => {
-    const fetchDevices = async () => {
+    const fetchApartments = async () => {
       try {
-        const res = await fetch("/api/devices");
+        const res = await fetch("/api/apartments");
         const data = await res.json();
 
-        setDevices(data || []);
+        setApartments(data.apartments || []);
       } catch (error) {
-        console.error("Failed to fetch devices:", error);
+        console.error("Failed to fetch apartments:", error);
       } finally {
         setIsLoadingDevices(false);
       }
     };
 
-    fetchDevices();
+    fetchApartments();
   }, []);
 
   // Fetch user settings for expected ranges
@@ -136,12 +218,12 @@ export default function ThermionixPage() {
         // API returns settings directly, not nested under data.settings
         // Values are always present in DB (Prisma schema defaults ensure this)
         if (data && !data.error) {
-          setExpectedTempMin(data.expected_temp_min);
-          setExpectedTempMax(data.expected_temp_max);
-          setExpectedHumidityMin(data.expected_humidity_min);
-          setExpectedHumidityMax(data.expected_humidity_max);
-          setExpectedCO2Min(data.expected_co2_min);
-          setExpectedCO2Max(data.expected_co2_max);
+          setGlobalTempMin(data.expected_temp_min);
+          setGlobalTempMax(data.expected_temp_max);
+          setGlobalHumidityMin(data.expected_humidity_min);
+          setGlobalHumidityMax(data.expected_humidity_max);
+          setGlobalCO2Min(data.expected_co2_min);
+          setGlobalCO2Max(data.expected_co2_max);
         }
       } catch (error) {
         console.error("Failed to fetch settings:", error);
@@ -151,6 +233,39 @@ export default function ThermionixPage() {
     fetchSettings();
   }, []);
 
+  // Fetch per-device/building/lamela threshold overrides
+  useEffect(() => {
+    const fetchOverrides = async () => {
+      try {
+        const res = await fetch("/api/user/threshold-overrides");
+        const data = await res.json();
+        if (data && data.overrides) {
+          setThresholdOverrides(data.overrides);
+        }
+      } catch (error) {
+        console.error("Failed to fetch threshold overrides:", error);
+      }
+    };
+
+    fetchOverrides();
+  }, []);
+
+  useEffect(() => {
+    const fetchMaintenanceWindows = async () => {
+      try {
+        const res = await fetch("/api/user/maintenance-windows");
+        const data = await res.json();
+        if (data && data.windows) {
+          setMaintenanceWindows(data.windows);
+        }
+      } catch (error) {
+        console.error("Failed to fetch maintenance windows:", error);
+      }
+    };
+
+    fetchMaintenanceWindows();
+  }, []);
+
   // Fetch measurements when device or date range changes
   useEffect(() => {
     if (!selectedDeviceId) return;
@@ -168,6 +283,7 @@ export default function ThermionixPage() {
         const res = await fetch(`/api/thermionix?${params}`);
         const data = await res.json();
         setMeasurements(data.measurements || []);
+        setCalibrations(data.calibrations || []);
       } catch (error) {
         console.error("Failed to fetch measurements:", error);
       } finally {
@@ -208,14 +324,14 @@ export default function ThermionixPage() {
   const handleNewMeasurement = useCallback(
     (newMeasurement: RealtimeThermionixMeasurement) => {
       setMeasurements((prev) => {
-        // Prepend new measurement
-        const updated = [newMeasurement, ...prev];
+        // Prepend new measurement, calibrated like the fetched ones
+        const updated = [calibrateReading(newMeasurement, calibrations), ...prev];
 
         // Limit array size to prevent memory issues (keep last 500)
         return updated.slice(0, 500);
       });
     },
-    []
+    [calibrations]
   );
 
   // Subscribe to realtime updates
@@ -257,56 +373,20 @@ export default function ThermionixPage() {
     router.push(newURL);
   };
 
-  // Prepare device options for select
-  const deviceOptions: SelectOption[] = devices
-    .filter((device) => !device.name.includes("CO2")) // Filter out CO2 devices
-    .sort((a, b) => {
-      // Sort by lamela, then building, then apartment
-      const partsA = a.name.split("_");
-      const partsB = b.name.split("_");
-
-      if (partsA.length >= 3 && partsB.length >= 3) {
-        // Extract and convert to numbers for proper sorting
-        const lamelaA = parseInt(partsA[0].replace("L", "")) || 0;
-        const lamelaB = parseInt(partsB[0].replace("L", "")) || 0;
-        const buildingA = parseInt(partsA[1]) || 0;
-        const buildingB = parseInt(partsB[1]) || 0;
-        const apartmentA = parseInt(partsA[2]) || 0;
-        const apartmentB = parseInt(partsB[2]) || 0;
-
-        // Compare lamela first
-        if (lamelaA !== lamelaB) return lamelaA - lamelaB;
-        // Then building
-        if (buildingA !== buildingB) return buildingA - buildingB;
-        // Finally apartment
-        return apartmentA - apartmentB;
-      }
-
-      // Fallback to string comparison
-      return a.name.localeCompare(b.name);
-    })
-    .map((device) => {
-      // Extract lamela, building, and apartment numbers from device name
-      // Example: "L8_33_67" -> lamela: "8", building: "33", apartment: "67"
-      const parts = device.name.split("_");
-
-      if (parts.length >= 3) {
-        const lamela = parts[0].replace("L", ""); // Remove 'L' prefix from lamela
-        const building = parts[1];
-        const apartment = parts[2];
-
-        return {
-          label: `Apartment: ${lamela}/${building}/${apartment}`,
-          value: device.device_id,
-        };
-      }
-
-      // Fallback if format doesn't match expected pattern
-      return {
-        label: `Apartment: ${device.name}`,
-        value: device.device_id,
-      };
-    });
+  // Prepare apartment options for select (API returns them sorted)
+  // COMMENT: The value is the apartment's climate probe - CO2 probes are
+  // reached through their apartment, not listed on their own
+  const deviceOptions: SelectOption[] = apartments.flatMap((apartment) => {
+    const climateProbe = apartment.probes.find((p) => p.has_temperature || p.has_humidity);
+    if (!climateProbe) return [];
+
+    return [{
+      label: apartment.building
+        ? `Apartment: ${apartment.building.lamela.code.replace("L", "")}/${apartment.building.number}/${apartment.number}`
+        : `Apartment: ${apartment.name}`,
+      value: climateProbe.id.toString(),
+    }];
+  });
 
   // Get current values (most recent = last element, data is in ASC order)
   const lastMeasurement = measurements.length > 0 ? measurements[measurements.length - 1] : null;
@@ -416,9 +496,10 @@ export default function ThermionixPage() {
         temperature: tempStats,
         humidity: humidityStats,
         co2: co2Stats,
-      }
+      },
+      calibrations.length > 0
     );
-  }, [measurements, co2Measurements, selectedDeviceName, dateRange, tempStats, humidityStats, co2Stats]);
+  }, [measurements, co2Measurements, selectedDeviceName, dateRange, tempStats, humidityStats, co2Stats, calibrations]);
 
   // Prepare chart data (API now returns data in ASC order already)
   const tempChartData: TimeSeriesDataPoint[] = measurements
@@ -564,6 +645,7 @@ export default function ThermionixPage() {
                 data={tempChartData}
                 title="Temperature Over Time"
                 yAxisLabel="Temperature (°C)"
+                shadedRegions={maintenanceRegions}
               />
             )}
           </div>
@@ -635,6 +717,7 @@ export default function ThermionixPage() {
                 data={humidityChartData}
                 title="Relative Humidity Over Time"
                 yAxisLabel="Humidity (%)"
+                shadedRegions={maintenanceRegions}
               />
             )}
           </div>
@@ -706,6 +789,7 @@ export default function ThermionixPage() {
                 data={co2ChartData}
                 title="CO2 Levels Over Time"
                 yAxisLabel="CO2 (ppm)"
+                shadedRegions={co2MaintenanceRegions}
               />
             )}
           </div>
@@ -0,0 +1,115 @@
+/**
+ * SnoozeMenu Component - Snooze/mute button with a small options menu
+ *
+ * PURPOSE:
+ * - Lets the user silence an alert for a while or indefinitely
+ * - Used on AlertCard (notifications page) and in AlertsDropdown
+ *
+ * USAGE:
+ * ```tsx
+ * <SnoozeMenu onSnooze={(hours) => snoozeAlert(alert, hours)} />
+ * ```
+ *
+ * NOTE: Clicks don't propagate, so the menu can sit inside clickable rows.
+ */
+
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { BellOff } from 'lucide-react'
+import clsx from 'clsx'
+import { SNOOZE_OPTIONS } from '@/lib/utils/alertMutes'
+import styles from './SnoozeMenu.module.css'
+
+type SnoozeMenuProps = {
+  /** Called with the snooze length in hours, null = mute until unmuted */
+  onSnooze: (hours: number | null) => void | Promise<void>
+  /** Button label (default: "Snooze") */
+  label?: string
+  /** Icon-only button for tight spaces */
+  compact?: boolean
+  /** Additional CSS classes */
+  className?: string
+}
+
+export const SnoozeMenu: React.FC<SnoozeMenuProps> = ({
+  onSnooze,
+  label = 'Snooze',
+  compact = false,
+  className,
+}) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  const handleToggle = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    setIsOpen(!isOpen)
+  }
+
+  const handleOptionClick = async (e: React.MouseEvent, hours: number | null) => {
+    e.stopPropagation()
+    setIsSaving(true)
+    try {
+      await onSnooze(hours)
+      setIsOpen(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div
+      className={clsx(styles.container, className)}
+      ref={menuRef}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <button
+        type="button"
+        className={clsx(styles.trigger, compact && styles.compact)}
+        onClick={handleToggle}
+        disabled={isSaving}
+        aria-label={label}
+        aria-expanded={isOpen}
+        title={label}
+      >
+        <BellOff size={14} />
+        {!compact && <span>{label}</span>}
+      </button>
+
+      {isOpen && (
+        <div className={styles.menu} role="menu">
+          {SNOOZE_OPTIONS.map((option) => (
+            <button
+              key={option.label}
+              type="button"
+              role="menuitem"
+              className={styles.option}
+              onClick={(e) => handleOptionClick(e, option.hours)}
+              disabled={isSaving}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { SnoozeMenu } from './SnoozeMenu.component'
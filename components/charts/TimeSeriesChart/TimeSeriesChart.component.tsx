@@ -2,6 +2,7 @@
  * TimeSeriesChart Component
  *
  * Line chart for displaying time-series data (temperature, pressure, etc.)
+ * Optional shaded regions mark periods such as maintenance windows
  */
 
 'use client'
@@ -16,6 +17,7 @@ import {
   Tooltip,
   ResponsiveContainer,
   Legend,
+  ReferenceArea,
 } from 'recharts'
 import styles from './TimeSeriesChart.module.css'
 
@@ -24,6 +26,20 @@ export type TimeSeriesDataPoint = {
   value: number
 }
 
+export type ShadedRegion = {
+  from: string // ISO
+  to: string // ISO
+  label?: string
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
 type TimeSeriesChartProps = {
   data: TimeSeriesDataPoint[]
   title: string
@@ -31,6 +47,7 @@ type TimeSeriesChartProps = {
   isLoading?: boolean
   className?: string
   yAxisDomain?: [number, number] // Optional fixed Y-axis range [min, max]
+  shadedRegions?: ShadedRegion[]
 }
 
 export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({
@@ -40,6 +57,7 @@ export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({
   isLoading = false,
   className,
   yAxisDomain,
+  shadedRegions = [],
 }) => {
   // Responsive chart sizing based on viewport
   const [isMobile, setIsMobile] = React.useState(false)
@@ -57,16 +75,23 @@ export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({
   const labelFontSize = isMobile ? 12 : 14
 
   // Format data for recharts
+  // COMMENT: Time is a number (ms) on a numeric X axis, so readings are spaced
+  // by their real time and regions are drawn even where there are no readings
   const chartData = data.map((point) => ({
-    time: new Date(point.timestamp).toLocaleString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    }),
+    time: new Date(point.timestamp).getTime(),
     value: point.value,
   }))
 
+  const regionAreas = shadedRegions.map((region) => ({
+    x1: new Date(region.from).getTime(),
+    x2: new Date(region.to).getTime(),
+    label: region.label,
+  }))
+
+  // COMMENT: Readings and shaded regions both fit on the axis
+  const times = [...chartData.map((point) => point.time), ...regionAreas.flatMap((area) => [area.x1, area.x2])]
+  const xAxisDomain: [number, number] = [Math.min(...times), Math.max(...times)]
+
   const cardClasses = ['card-container', styles.card, className].filter(Boolean).join(' ')
 
   if (isLoading) {
@@ -80,7 +105,7 @@ export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({
     )
   }
 
-  if (data.length === 0) {
+  if (data.length === 0 && regionAreas.length === 0) {
     return (
       <div className={cardClasses}>
         <h3 className={styles.title}>{title}</h3>
@@ -99,6 +124,10 @@ export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({
           <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
           <XAxis
             dataKey="time"
+            type="number"
+            scale="time"
+            domain={xAxisDomain}
+            tickFormatter={formatTime}
             stroke="#737373"
             tick={{ fill: '#737373', fontSize }}
             angle={isMobile ? -45 : 0}
@@ -118,6 +147,7 @@ export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({
             domain={yAxisDomain || ['auto', 'auto']}
           />
           <Tooltip
+            labelFormatter={(time) => formatTime(Number(time))}
             contentStyle={{
               backgroundColor: '#ffffff',
               border: '1px solid #e5e5e5',
@@ -131,6 +161,16 @@ export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({
               paddingTop: isMobile ? '20px' : '10px'
             }}
           />
+          {regionAreas.map((area, index) => (
+            <ReferenceArea
+              key={`${area.x1}-${index}`}
+              x1={area.x1}
+              x2={area.x2}
+              fill="#f59e0b"
+              fillOpacity={0.15}
+              label={area.label ? { value: area.label, position: 'insideTop', fill: '#b45309', fontSize } : undefined}
+            />
+          ))}
           <Line
             type="monotone"
             dataKey="value"
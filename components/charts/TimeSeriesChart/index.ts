@@ -1,2 +1,2 @@
 export { TimeSeriesChart } from './TimeSeriesChart.component'
-export type { TimeSeriesDataPoint } from './TimeSeriesChart.component'
+export type { TimeSeriesDataPoint, ShadedRegion } from './TimeSeriesChart.component'
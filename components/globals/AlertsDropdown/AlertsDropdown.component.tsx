@@ -12,6 +12,8 @@
  * - Auto-mark alert as read on click
  * - "Mark all read" functionality
  * - Click outside to close
+ * - Resolved alerts (value back in range) show how long the violation lasted
+ * - Snooze/mute further alerts like one directly from the list
  *
  * DEEP-LINKING:
  * - THERMIONIX: /dashboard/thermionix?device={id}&from={time}&to={now}
@@ -24,8 +26,10 @@
 import { useState, useRef, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { Bell } from 'lucide-react'
-import { formatDistanceToNow } from 'date-fns'
+import { formatDistanceToNow, formatDistanceStrict } from 'date-fns'
 import { useAlerts } from '@/lib/contexts/AlertsContext'
+import { SnoozeMenu } from '@/components/atoms/SnoozeMenu'
+import { getAlertText } from '@/lib/utils/alertText'
 import type { Alert } from '@/lib/generated/prisma'
 import styles from './AlertsDropdown.module.css'
 
@@ -70,40 +74,21 @@ function getAlertLink(alert: Alert): string {
 }
 
 /**
- * Generate Human-Readable Alert Text
+ * Generate Resolved Label
  *
  * FORMAT:
- * - "{location/apartment}: {metric} too {high/low} ({value} {comparison} {threshold})"
- *
- * EXAMPLES:
- * - "L8_33_67: Temperature too high (28.5°C > 26.0°C)"
- * - "L8: Pressure too low (1.2bar < 1.5bar)"
+ * - "Resolved · lasted 42 minutes" (created_at → resolved_at)
+ * - null while the alert is still open
  */
-function getAlertText(alert: Alert): string {
-  // Determine location/device display name
-  const location = alert.apartment_name || alert.location || 'Unknown'
-
-  // Determine metric name
-  let metric = ''
-  if (alert.alert_type.includes('TEMP')) metric = 'Temperature'
-  else if (alert.alert_type.includes('PRESSURE')) metric = 'Pressure'
-  else if (alert.alert_type.includes('HUMIDITY')) metric = 'Humidity'
-  else if (alert.alert_type.includes('CO2')) metric = 'CO2'
-
-  // Determine direction
-  const direction = alert.alert_type.includes('HIGH') ? 'too high' : 'too low'
-  const comparison = alert.alert_type.includes('HIGH') ? '>' : '<'
-
-  // Format values with unit
-  const measuredValue = `${alert.measured_value.toFixed(1)}${alert.unit}`
-  const thresholdValue = `${alert.threshold_value.toFixed(1)}${alert.unit}`
-
-  return `${location}: ${metric} ${direction} (${measuredValue} ${comparison} ${thresholdValue})`
+function getResolvedText(alert: Alert): string | null {
+  if (!alert.resolved_at) return null
+  const duration = formatDistanceStrict(new Date(alert.created_at), new Date(alert.resolved_at))
+  return `Resolved · lasted ${duration}`
 }
 
 export const AlertsDropdown: React.FC = () => {
   const router = useRouter()
-  const { alerts, unreadCount, markAsRead, markAllAsRead } = useAlerts()
+  const { alerts, unreadCount, markAsRead, markAllAsRead, snoozeAlert } = useAlerts()
   const [isOpen, setIsOpen] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
 
@@ -198,27 +183,34 @@ export const AlertsDropdown: React.FC = () => {
             ) : (
               // Alert Items
               recentUnreadAlerts.map((alert) => {
+                const resolvedText = getResolvedText(alert)
                 const severityClass =
+                  resolvedText ? styles.resolved :
                   alert.severity === 'HIGH' ? styles.severityHigh :
                   alert.severity === 'MEDIUM' ? styles.severityMedium :
                   styles.severityLow
 
                 return (
-                  <button
-                    key={alert.id}
-                    className={styles.alertItem}
-                    onClick={() => handleAlertClick(alert)}
-                  >
-                    <div className={`${styles.alertDot} ${severityClass}`} />
-                    <div className={styles.alertContent}>
-                      <p className={styles.alertText}>
-                        {getAlertText(alert)}
-                      </p>
-                      <span className={styles.alertTime}>
-                        {formatDistanceToNow(new Date(alert.created_at), { addSuffix: true })}
-                      </span>
-                    </div>
-                  </button>
+                  <div key={alert.id} className={styles.alertItem}>
+                    <button
+                      className={styles.alertMain}
+                      onClick={() => handleAlertClick(alert)}
+                    >
+                      <div className={`${styles.alertDot} ${severityClass}`} />
+                      <div className={styles.alertContent}>
+                        <p className={styles.alertText}>
+                          {getAlertText(alert)}
+                        </p>
+                        <span className={styles.alertTime}>
+                          {formatDistanceToNow(new Date(alert.created_at), { addSuffix: true })}
+                        </span>
+                        {resolvedText && (
+                          <span className={styles.alertResolved}>{resolvedText}</span>
+                        )}
+                      </div>
+                    </button>
+                    <SnoozeMenu compact onSnooze={(hours) => snoozeAlert(alert, hours)} />
+                  </div>
                 )
               })
             )}
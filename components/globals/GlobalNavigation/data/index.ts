@@ -15,6 +15,8 @@
  * - Thermionix: Thermometer for temperature monitoring
  * - SCADA: Activity (line graph) for system monitoring
  * - WeatherLink: Cloud for weather data
+ * - Analytics: Bar chart for alert response metrics
+ * - Devices: Chip for device management
  * - Settings: Settings gear icon
  *
  * ROUTES STRUCTURE:
@@ -26,6 +28,8 @@ import {
   Thermometer,
   Activity,
   Cloud,
+  BarChart3,
+  Cpu,
   Settings,
 } from 'lucide-react'
 
@@ -37,5 +41,7 @@ export const ROUTES = [
   { label: "Thermionix", href: "/dashboard/thermionix", icon: Thermometer },
   { label: "SCADA", href: "/dashboard/scada", icon: Activity },
   { label: "WeatherLink", href: "/dashboard/weatherlink", icon: Cloud },
+  { label: "Analytics", href: "/dashboard/analytics", icon: BarChart3 },
+  { label: "Devices", href: "/dashboard/devices", icon: Cpu },
   { label: "Settings", href: "/dashboard/settings", icon: Settings },
 ];
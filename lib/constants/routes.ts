@@ -22,9 +22,14 @@ export const DASHBOARD_ROUTES = {
   THERMIONIX: '/dashboard/thermionix',
   SCADA: '/dashboard/scada',
   WEATHERLINK: '/dashboard/weatherlink',
+  INCIDENTS: '/dashboard/incidents',
+  ANALYTICS: '/dashboard/analytics',
+  DEVICES: '/dashboard/devices',
+  DEVICE_HEALTH: '/dashboard/devices/health',
   SETTINGS: '/dashboard/settings',
   SETTINGS_USER: '/dashboard/settings/user',
   SETTINGS_APP: '/dashboard/settings/app',
+  SETTINGS_NOTIFICATIONS: '/dashboard/settings/notifications',
 } as const
 
 // All Routes Combined
@@ -2,8 +2,11 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react'
 import toast from 'react-hot-toast'
-import type { Alert } from '@/lib/generated/prisma'
-import { createClient } from '@/lib/supabase/client'
+import type { Alert, AlertMute } from '@/lib/generated/prisma'
+import { matchesMute } from '@/lib/utils/alertMutes'
+import { getAlertText } from '@/lib/utils/alertText'
+import { findActiveMaintenanceWindow, type MaintenanceWindowLike } from '@/lib/utils/maintenanceWindows'
+import { shouldNotify, type NotificationPreferencesLike } from '@/lib/utils/notificationPreferences'
 
 function getAlertLink(alert: Alert): string {
   const measurementTime = new Date(alert.measurement_time)
@@ -21,18 +24,16 @@ function getAlertLink(alert: Alert): string {
   }
 }
 
-function getAlertText(alert: Alert): string {
-  const location = alert.apartment_name || alert.location || 'Unknown'
-  const metric = alert.alert_type.includes('TEMP') ? 'Temperature'
-    : alert.alert_type.includes('PRESSURE') ? 'Pressure'
-    : alert.alert_type.includes('HUMIDITY') ? 'Humidity'
-    : 'CO2'
-  const direction = alert.alert_type.includes('HIGH') ? 'too high' : 'too low'
-  const cmp = alert.alert_type.includes('HIGH') ? '>' : '<'
-  return `${location}: ${metric} ${direction} (${alert.measured_value.toFixed(1)}${alert.unit} ${cmp} ${alert.threshold_value.toFixed(1)}${alert.unit})`
-}
+// COMMENT: Pop-ups follow the user's notification preferences (sources,
+// severities, in-app channel, quiet hours) - the alert list itself is unfiltered
+function showAlertToast(
+  alert: Alert,
+  markAsRead: (id: string) => Promise<void>,
+  preferences: NotificationPreferencesLike | null,
+  title = 'New Alert'
+) {
+  if (!shouldNotify(preferences, alert, 'toast')) return
 
-function showAlertToast(alert: Alert, markAsRead: (id: string) => Promise<void>) {
   const link = getAlertLink(alert)
   const text = getAlertText(alert)
   toast.custom(
@@ -53,7 +54,7 @@ function showAlertToast(alert: Alert, markAsRead: (id: string) => Promise<void>)
           lineHeight: '1.4',
         }}
       >
-        <div style={{ fontWeight: 600, marginBottom: 2 }}>New Alert</div>
+        <div style={{ fontWeight: 600, marginBottom: 2 }}>{title}</div>
         <div>{text}</div>
         <div style={{ fontSize: '11px', opacity: 0.8, marginTop: 4 }}>Click to view</div>
       </div>
@@ -70,11 +71,15 @@ type AlertsContextType = {
   markAsRead: (alertId: string) => Promise<void>
   markAllAsRead: () => Promise<void>
   acknowledgeAlert: (alertId: string) => Promise<void>
+  mutes: AlertMute[]
+  snoozeAlert: (alert: Alert, hours: number | null) => Promise<void>
+  removeMute: (muteId: string) => Promise<void>
+  refreshPreferences: () => Promise<void>
 }
 
 const AlertsContext = createContext<AlertsContextType | undefined>(undefined)
 
-const POLL_INTERVAL_MS = 10000 // Poll every 10 seconds
+const POLL_INTERVAL_MS = 10000 // Fallback polling every 10 seconds when the stream is down
 const MAX_ALERTS_TO_FETCH = 50 // Fetch max 50 recent alerts
 
 export function AlertsProvider({ children }: { children: React.ReactNode }) {
@@ -84,6 +89,10 @@ export function AlertsProvider({ children }: { children: React.ReactNode }) {
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const knownAlertIdsRef = useRef<Set<string>>(new Set())
   const isInitialFetchRef = useRef(true)
+  const [mutes, setMutes] = useState<AlertMute[]>([])
+  const mutesRef = useRef<AlertMute[]>([])
+  const preferencesRef = useRef<NotificationPreferencesLike | null>(null)
+  const maintenanceWindowsRef = useRef<MaintenanceWindowLike[]>([])
 
   // Fetch alerts from API
   const fetchAlerts = useCallback(async () => {
@@ -105,10 +114,14 @@ export function AlertsProvider({ children }: { children: React.ReactNode }) {
       if (data.alerts) {
         // Show toast for new unread alerts (skip on first load — those are pre-existing)
         if (!isInitialFetchRef.current) {
+          // COMMENT: Alerts raised before a snooze/mute was set stay silent too
           const newUnread = (data.alerts as Alert[]).filter(
-            (a) => !a.is_read && !knownAlertIdsRef.current.has(a.id)
+            (a) =>
+              !a.is_read &&
+              !knownAlertIdsRef.current.has(a.id) &&
+              !mutesRef.current.some((m) => matchesMute(m, a))
           )
-          newUnread.forEach((a) => showAlertToast(a, markAsRead))
+          newUnread.forEach((a) => showAlertToast(a, markAsRead, preferencesRef.current))
         }
 
         // Update known IDs and state
@@ -125,23 +138,90 @@ export function AlertsProvider({ children }: { children: React.ReactNode }) {
     }
   }, [])
 
+  // Fetch active snoozes/mutes from API
+  const fetchMutes = useCallback(async () => {
+    try {
+      const res = await fetch('/api/user/alert-mutes')
+
+      if (!res.ok) {
+        console.error('[AlertsContext] Failed to fetch alert mutes:', res.statusText)
+        return
+      }
+
+      const data = await res.json()
+
+      if (data.mutes) {
+        mutesRef.current = data.mutes
+        setMutes(data.mutes)
+      }
+    } catch (error) {
+      console.error('[AlertsContext] Error fetching alert mutes:', error)
+    }
+  }, [])
+
+  // Fetch maintenance windows (escalations inside one aren't popped up)
+  const fetchMaintenanceWindows = useCallback(async () => {
+    try {
+      const res = await fetch('/api/user/maintenance-windows')
+
+      if (!res.ok) {
+        console.error('[AlertsContext] Failed to fetch maintenance windows:', res.statusText)
+        return
+      }
+
+      const data = await res.json()
+
+      if (data.windows) {
+        maintenanceWindowsRef.current = data.windows
+      }
+    } catch (error) {
+      console.error('[AlertsContext] Error fetching maintenance windows:', error)
+    }
+  }, [])
+
+  // Fetch notification preferences (which alerts may pop up, quiet hours)
+  const fetchPreferences = useCallback(async () => {
+    try {
+      const res = await fetch('/api/user/notification-preferences')
+
+      if (!res.ok) {
+        console.error('[AlertsContext] Failed to fetch notification preferences:', res.statusText)
+        return
+      }
+
+      const data = await res.json()
+
+      if (data.preferences) {
+        preferencesRef.current = data.preferences
+      }
+    } catch (error) {
+      console.error('[AlertsContext] Error fetching notification preferences:', error)
+    }
+  }, [])
+
   // Initial fetch
   useEffect(() => {
+    fetchPreferences()
+    fetchMutes()
+    fetchMaintenanceWindows()
     fetchAlerts()
-  }, [fetchAlerts])
+  }, [fetchAlerts, fetchMutes, fetchMaintenanceWindows, fetchPreferences])
 
-  // Set up polling
-  useEffect(() => {
+  // Fallback polling - only runs while the alert stream is unavailable
+  const startPolling = useCallback(() => {
+    if (pollIntervalRef.current) return
+    console.log('[AlertsContext] Alert stream unavailable, polling every', POLL_INTERVAL_MS, 'ms')
     pollIntervalRef.current = setInterval(() => {
       fetchAlerts()
     }, POLL_INTERVAL_MS)
+  }, [fetchAlerts])
 
-    return () => {
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current)
-      }
+  const stopPolling = useCallback(() => {
+    if (pollIntervalRef.current) {
+      clearInterval(pollIntervalRef.current)
+      pollIntervalRef.current = null
     }
-  }, [fetchAlerts])
+  }, [])
 
   // Refetch when user switches back to this tab
   useEffect(() => {
@@ -154,41 +234,87 @@ export function AlertsProvider({ children }: { children: React.ReactNode }) {
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
   }, [fetchAlerts])
 
-  // Set up Supabase Realtime subscription for new alerts
+  // Subscribe to the alert stream (GET /api/alerts/stream, Server-Sent Events)
+  // COMMENT: EventSource reconnects by itself and resumes via Last-Event-ID;
+  // polling only covers the time the stream is down
   useEffect(() => {
-    const supabase = createClient()
+    if (typeof EventSource === 'undefined') {
+      startPolling()
+      return stopPolling
+    }
+
+    const source = new EventSource('/api/alerts/stream')
 
-    // Get current user to subscribe to user-specific channel
-    supabase.auth.getUser().then(({ data: { user } }) => {
-      if (!user) {
-        console.log('[AlertsContext] No user, skipping realtime subscription')
+    source.onopen = () => {
+      console.log('[AlertsContext] Alert stream connected')
+      stopPolling()
+    }
+
+    source.onerror = () => {
+      console.warn('[AlertsContext] Alert stream error, state:', source.readyState)
+      startPolling()
+    }
+
+    source.addEventListener('new_alert', (event) => {
+      const newAlert = JSON.parse((event as MessageEvent).data) as Alert
+      // COMMENT: An alert can come again after a reconnect - replace it
+      // instead of adding a second entry
+      if (knownAlertIdsRef.current.has(newAlert.id)) {
+        setAlerts((prev) =>
+          prev.map((a) => (a.id === newAlert.id ? newAlert : a))
+        )
         return
       }
+      if (!mutesRef.current.some((m) => matchesMute(m, newAlert))) {
+        showAlertToast(newAlert, markAsRead, preferencesRef.current)
+      }
+      knownAlertIdsRef.current.add(newAlert.id)
+      setAlerts((prev) => [newAlert, ...prev].slice(0, MAX_ALERTS_TO_FETCH))
+    })
 
-      const channelName = `alerts:${user.id}`
-      console.log('[AlertsContext] Subscribing to channel:', channelName)
-
-      const channel = supabase
-        .channel(channelName)
-        .on('broadcast', { event: 'new_alert' }, (payload) => {
-          console.log('[AlertsContext] Received new alert broadcast:', payload)
-          const newAlert = payload.payload as Alert
-          showAlertToast(newAlert, markAsRead)
-          knownAlertIdsRef.current.add(newAlert.id)
-          setAlerts((prev) => [newAlert, ...prev].slice(0, MAX_ALERTS_TO_FETCH))
-          setUnreadCount((prev) => prev + 1)
-        })
-        .subscribe((status) => {
-          console.log('[AlertsContext] Subscription status:', status)
-        })
-
-      // Cleanup on unmount
-      return () => {
-        console.log('[AlertsContext] Unsubscribing from channel:', channelName)
-        supabase.removeChannel(channel)
+    source.addEventListener('alert_escalated', (event) => {
+      const escalatedAlert = JSON.parse((event as MessageEvent).data) as Alert
+      // COMMENT: Escalation brings the alert back as unread, so it's toasted
+      // again even though we already know it - unless it's muted or in
+      // maintenance (the server then doesn't re-notify and leaves it read)
+      const inMaintenance = findActiveMaintenanceWindow(maintenanceWindowsRef.current, {
+        device_id: escalatedAlert.device_id,
+        device_name: escalatedAlert.apartment_name,
+        location: escalatedAlert.location,
+      }) !== null
+      if (
+        !escalatedAlert.is_read &&
+        !inMaintenance &&
+        !mutesRef.current.some((m) => matchesMute(m, escalatedAlert))
+      ) {
+        showAlertToast(escalatedAlert, markAsRead, preferencesRef.current, 'Escalated Alert')
       }
+      knownAlertIdsRef.current.add(escalatedAlert.id)
+      // COMMENT: Refetch for the new order (known IDs aren't toasted again)
+      fetchAlerts()
     })
-  }, [])
+
+    // COMMENT: Only update alerts we already have - the list shows the latest
+    // MAX_ALERTS_TO_FETCH and older ones stay out of it
+    const handleAlertChanged = (event: Event) => {
+      const changedAlert = JSON.parse((event as MessageEvent).data) as Alert
+      setAlerts((prev) =>
+        prev.map((a) => (a.id === changedAlert.id ? changedAlert : a))
+      )
+    }
+    source.addEventListener('alert_updated', handleAlertChanged)
+    source.addEventListener('alert_resolved', handleAlertChanged)
+
+    source.addEventListener('unread_count', (event) => {
+      const { count } = JSON.parse((event as MessageEvent).data) as { count: number }
+      setUnreadCount(count)
+    })
+
+    return () => {
+      source.close()
+      stopPolling()
+    }
+  }, [fetchAlerts, startPolling, stopPolling])
 
   // Mark single alert as read
   const markAsRead = useCallback(async (alertId: string) => {
@@ -267,6 +393,63 @@ export function AlertsProvider({ children }: { children: React.ReactNode }) {
     }
   }, [])
 
+  // Snooze (hours) or mute (null) further alerts like this one
+  // COMMENT: Same device/location and alert type; the alert itself is marked read
+  const snoozeAlert = useCallback(async (alert: Alert, hours: number | null) => {
+    try {
+      const res = await fetch('/api/user/alert-mutes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          device_id: alert.device_id,
+          location: alert.location,
+          alert_type: alert.alert_type,
+          label: alert.apartment_name || alert.location || alert.device_id,
+          muted_until: hours === null ? null : new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+        }),
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to snooze alert')
+      }
+
+      const mute = await res.json()
+      mutesRef.current = [...mutesRef.current, mute]
+      setMutes(mutesRef.current)
+
+      if (!alert.is_read) {
+        await markAsRead(alert.id)
+      }
+
+      toast.success(hours === null ? 'Muted until you unmute it' : 'Snoozed')
+    } catch (error: any) {
+      console.error('[AlertsContext] Error snoozing alert:', error)
+      toast.error(error.message || 'An error occurred while snoozing the alert')
+    }
+  }, [markAsRead])
+
+  // Unmute / end a snooze early
+  const removeMute = useCallback(async (muteId: string) => {
+    try {
+      const res = await fetch(`/api/user/alert-mutes/${muteId}`, {
+        method: 'DELETE',
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.error || 'Failed to remove mute')
+      }
+
+      mutesRef.current = mutesRef.current.filter((m) => m.id !== muteId)
+      setMutes(mutesRef.current)
+      toast.success('Alerts unmuted')
+    } catch (error: any) {
+      console.error('[AlertsContext] Error removing mute:', error)
+      toast.error(error.message || 'An error occurred while unmuting')
+    }
+  }, [])
+
   const value: AlertsContextType = {
     alerts,
     unreadCount,
@@ -275,6 +458,10 @@ export function AlertsProvider({ children }: { children: React.ReactNode }) {
     markAsRead,
     markAllAsRead,
     acknowledgeAlert,
+    mutes,
+    snoozeAlert,
+    removeMute,
+    refreshPreferences: fetchPreferences,
   }
 
   return <AlertsContext.Provider value={value}>{children}</AlertsContext.Provider>
@@ -141,12 +141,14 @@ export function formatDateRangeForFilename(dateRange: DateRange): string {
  * @param apartmentName - Device name (e.g., "L8_33_67")
  * @param dateRange - Date range for the export
  * @param stats - Optional statistics for summary section
+ * @param calibrated - Values had a sensor calibration applied (noted in the header)
  */
 export function exportThermionixData(
   measurements: ThermionixMeasurement[],
   apartmentName: string,
   dateRange: DateRange,
-  stats?: ThermionixStats
+  stats?: ThermionixStats,
+  calibrated = false
 ): void {
   // Build header info
   const headerInfo: HeaderInfo[] = [
@@ -156,6 +158,10 @@ export function exportThermionixData(
     { label: 'Exported At', value: formatDateForExport(new Date()) },
   ]
 
+  if (calibrated) {
+    headerInfo.push({ label: 'Calibration', value: 'Sensor calibration applied' })
+  }
+
   // Build summary rows if stats provided
   const summaryRows: { label: string; values: (string | number)[] }[] = []
 
@@ -2,12 +2,13 @@
  * useThermionixRealtime Hook
  *
  * Subscribes to real-time Thermionix measurement inserts from Supabase.
- * Automatically filters by device_id to only receive relevant updates.
+ * Automatically filters by probe_id to only receive relevant updates
+ * (deviceId is the probe ID - thermionyx_measurements.device_id is the hub).
  *
  * USAGE:
  * ```typescript
  * const { isConnected } = useThermionixRealtime({
- *   deviceId: 'L8_53_67',
+ *   deviceId: '10315',
  *   onNewMeasurement: (measurement) => {
  *     setMeasurements(prev => [measurement, ...prev])
  *   },
@@ -75,7 +76,7 @@ export function useThermionixRealtime({
           event: 'INSERT',
           schema: 'public',
           table: 'thermionyx_measurements',
-          filter: `device_id=eq.${deviceId}`
+          filter: `probe_id=eq.${deviceId}`
         },
         handleNewMeasurement
       )
@@ -137,3 +137,19 @@ export async function getUserSettings(userId: string) {
   return settings
 }
 
+
+/**
+ * Helper to get notification preferences from database
+ *
+ * COMMENT: Same lazy initialization as getUserSettings - every user always
+ * has preferences, the defaults are defined in the Prisma schema
+ */
+export async function getNotificationPreferences(userId: string) {
+  const { prisma } = await import('@/lib/prisma')
+
+  return prisma.notificationPreferences.upsert({
+    where: { user_id: userId },
+    update: {},
+    create: { user_id: userId },
+  })
+}
@@ -0,0 +1,131 @@
+/**
+ * Alert Activity Utilities
+ *
+ * PURPOSE:
+ * - Work log of an alert: assignments, comments, resolution notes,
+ *   acknowledgements, escalations and resolution in one chronological list
+ * - Access rule shared by the alert routes: the owner or the current assignee
+ *
+ * WHO WRITES WHAT:
+ * - /api/alerts/[id]/assignment, /comments: ASSIGNED, UNASSIGNED, COMMENTED, RESOLUTION_NOTE
+ * - /api/alerts/[id] PATCH, acknowledge-multiple, incidents: ACKNOWLEDGED, UNACKNOWLEDGED
+ * - alertEscalation.ts: ESCALATED
+ * - resolveAndBroadcastAlerts(): RESOLVED
+ *
+ * ERROR HANDLING:
+ * - logAlertActivity() logs and continues - a lost log entry must not fail
+ *   the action it describes
+ */
+
+import { prisma } from '@/lib/prisma'
+import { escapeHtml, isEmailConfigured, sendEmail } from '@/lib/utils/email'
+import type { Alert, AlertActivityType, AlertAssignment } from '@/lib/generated/prisma'
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000'
+
+export const MAX_COMMENT_LENGTH = 5000
+
+export type ActivityActor = {
+  id: string
+  email?: string | null
+}
+
+/**
+ * Add an Entry to the Work Log of One or More Alerts
+ *
+ * @param actor - Null for system events (escalation, resolution)
+ */
+export async function logAlertActivity(
+  alertIds: string | string[],
+  type: AlertActivityType,
+  message: string,
+  actor: ActivityActor | null = null
+): Promise<void> {
+  const ids = Array.isArray(alertIds) ? alertIds : [alertIds]
+  if (ids.length === 0) return
+
+  try {
+    await prisma.alertActivity.createMany({
+      data: ids.map((alert_id) => ({
+        alert_id,
+        type,
+        message,
+        user_id: actor?.id ?? null,
+        user_email: actor?.email ?? null,
+      })),
+    })
+  } catch (error) {
+    console.error('[AlertActivity] Failed to log activity:', error)
+  }
+}
+
+/**
+ * Alert the User May Work On - Owner or Current Assignee
+ *
+ * @returns The alert with its assignment, or null (not found / no access)
+ */
+export async function getAccessibleAlert(
+  alertId: string,
+  userId: string
+): Promise<(Alert & { assignment: AlertAssignment | null }) | null> {
+  return prisma.alert.findFirst({
+    where: {
+      id: alertId,
+      OR: [{ user_id: userId }, { assignment: { assignee_id: userId } }],
+    },
+    include: { assignment: true },
+  })
+}
+
+/**
+ * validateAlertComment - Server-side validation for API input
+ *
+ * RULES:
+ * - body: non-empty string, at most MAX_COMMENT_LENGTH characters
+ * - is_resolution_note: optional boolean
+ *
+ * @returns Array of error messages (empty when valid)
+ */
+export function validateAlertComment(input: Record<string, unknown>): string[] {
+  const errors: string[] = []
+  const { body, is_resolution_note } = input
+
+  if (typeof body !== 'string' || body.trim() === '') {
+    errors.push('body is required')
+  } else if (body.length > MAX_COMMENT_LENGTH) {
+    errors.push(`body must be at most ${MAX_COMMENT_LENGTH} characters`)
+  }
+
+  if (is_resolution_note !== undefined && typeof is_resolution_note !== 'boolean') {
+    errors.push('is_resolution_note must be a boolean')
+  }
+
+  return errors
+}
+
+/**
+ * Tell the New Assignee by Email
+ *
+ * COMMENT: Best effort - without SMTP the assignee finds it via the link
+ * the assigner shares; failures are logged by sendEmail()
+ */
+export async function sendAssignmentEmail(
+  alert: Alert,
+  assigneeEmail: string,
+  assignedBy: string | null | undefined
+): Promise<void> {
+  if (!isEmailConfigured()) return
+
+  const location = alert.apartment_name || alert.location || 'Unknown'
+  const link = `${APP_URL}/dashboard/notifications/${alert.id}`
+  const by = assignedBy || 'A colleague'
+
+  await sendEmail({
+    to: assigneeEmail,
+    subject: `[xai4heat] Assigned to you: ${alert.alert_type} at ${location}`,
+    text: `${by} assigned an alert to you.\n\n${alert.severity} ${alert.alert_type} at ${location}\n\n${link}`,
+    html: `<p>${escapeHtml(by)} assigned an alert to you.</p>` +
+      `<p><strong>${alert.severity}</strong> ${alert.alert_type} at ${escapeHtml(location)}</p>` +
+      `<p><a href="${link}">Open the alert</a></p>`,
+  })
+}
@@ -0,0 +1,250 @@
+/**
+ * Alert Analytics
+ *
+ * PURPOSE:
+ * - How well do we respond? Aggregates over the Alert table for the
+ *   analytics page (GET /api/alerts/analytics)
+ *
+ * METRICS (alerts created in [from, to], without the ones suppressed by maintenance windows):
+ * - MTTA: Mean time to acknowledge - created_at → acknowledged_at
+ * - MTTR: Mean time to resolve - created_at → resolved_at (value back in range)
+ *   Both also as median, since one forgotten alert skews the mean
+ * - Volume: Alerts per time bucket, split by source and severity
+ * - Totals per source, alert type and severity
+ * - Top offenders: Apartments and lamelas by alert minutes - how long their
+ *   alerts were open, still-open ones counted until `to`
+ *
+ * BUCKETS:
+ * - Up to 2 days: hour, up to 120 days: day, longer: week (UTC, empty buckets included)
+ */
+
+import { prisma } from '@/lib/prisma'
+import { getIncidentGroup } from '@/lib/utils/incidents'
+import type { AlertSeverity, AlertSource, AlertType } from '@/lib/generated/prisma'
+
+const TOP_OFFENDERS = 10
+
+export type AnalyticsBucketSize = 'hour' | 'day' | 'week'
+
+export type AlertVolumeBucket = {
+  bucket: string // ISO start of the bucket
+  total: number
+} & Record<AlertSource | AlertSeverity, number>
+
+export type AlertOffender = {
+  name: string // "L8_33_67" or "L8"
+  count: number
+  alert_minutes: number
+}
+
+export type AlertAnalytics = {
+  from: string
+  to: string
+  bucket_size: AnalyticsBucketSize
+  summary: {
+    total: number
+    acknowledged: number
+    resolved: number
+    mtta_minutes: number | null
+    mtta_median_minutes: number | null
+    mttr_minutes: number | null
+    mttr_median_minutes: number | null
+  }
+  by_source: Record<AlertSource, number>
+  by_severity: Record<AlertSeverity, number>
+  by_type: { alert_type: AlertType; count: number }[]
+  volume: AlertVolumeBucket[]
+  top_apartments: AlertOffender[]
+  top_lamelas: AlertOffender[]
+}
+
+export function getBucketSize(from: Date, to: Date): AnalyticsBucketSize {
+  const days = (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000)
+  if (days <= 2) return 'hour'
+  if (days <= 120) return 'day'
+  return 'week'
+}
+
+/**
+ * Start of the bucket containing `date` - same as Postgres date_trunc on UTC timestamps
+ */
+function truncateDate(date: Date, size: AnalyticsBucketSize): Date {
+  const d = new Date(date)
+  d.setUTCMinutes(0, 0, 0)
+  if (size === 'hour') return d
+  d.setUTCHours(0)
+  if (size === 'week') {
+    // COMMENT: ISO weeks start on Monday (getUTCDay: Sunday = 0)
+    d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7))
+  }
+  return d
+}
+
+function nextBucket(date: Date, size: AnalyticsBucketSize): Date {
+  const d = new Date(date)
+  if (size === 'hour') d.setUTCHours(d.getUTCHours() + 1)
+  else d.setUTCDate(d.getUTCDate() + (size === 'week' ? 7 : 1))
+  return d
+}
+
+function emptyBucket(bucket: Date): AlertVolumeBucket {
+  return {
+    bucket: bucket.toISOString(),
+    total: 0,
+    THERMIONIX: 0,
+    SCADA: 0,
+    WEATHERLINK: 0,
+    LOW: 0,
+    MEDIUM: 0,
+    HIGH: 0,
+  }
+}
+
+function topOffenders(totals: Map<string, { count: number; minutes: number }>): AlertOffender[] {
+  return Array.from(totals.entries())
+    .map(([name, { count, minutes }]) => ({ name, count, alert_minutes: Math.round(minutes) }))
+    .sort((a, b) => b.alert_minutes - a.alert_minutes)
+    .slice(0, TOP_OFFENDERS)
+}
+
+const toMinutes = (seconds: number | null) =>
+  seconds === null ? null : Math.round((Number(seconds) / 60) * 10) / 10
+
+/**
+ * Compute All Analytics for a User and Date Range
+ */
+export async function getAlertAnalytics(userId: string, from: Date, to: Date): Promise<AlertAnalytics> {
+  const where = { user_id: userId, is_suppressed: false, created_at: { gte: from, lte: to } }
+  const bucketSize = getBucketSize(from, to)
+
+  const [
+    bySourceRows,
+    bySeverityRows,
+    byTypeRows,
+    [responseTimes],
+    volumeRows,
+    offenderRows,
+  ] = await Promise.all([
+    prisma.alert.groupBy({ by: ['source'], where, _count: { _all: true } }),
+    prisma.alert.groupBy({ by: ['severity'], where, _count: { _all: true } }),
+    prisma.alert.groupBy({
+      by: ['alert_type'],
+      where,
+      _count: { _all: true },
+      orderBy: { _count: { alert_type: 'desc' } },
+    }),
+    prisma.$queryRaw<{
+      total: number
+      acknowledged: number
+      resolved: number
+      mtta: number | null
+      mtta_median: number | null
+      mttr: number | null
+      mttr_median: number | null
+    }[]>`
+      SELECT
+        COUNT(*)::int AS total,
+        COUNT(acknowledged_at)::int AS acknowledged,
+        COUNT(resolved_at)::int AS resolved,
+        AVG(EXTRACT(EPOCH FROM (acknowledged_at - created_at)))::float AS mtta,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (acknowledged_at - created_at)))::float AS mtta_median,
+        AVG(EXTRACT(EPOCH FROM (resolved_at - created_at)))::float AS mttr,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (resolved_at - created_at)))::float AS mttr_median
+      FROM "xai4heat_db"."alerts"
+      WHERE user_id = ${userId}::uuid AND NOT is_suppressed AND created_at >= ${from} AND created_at <= ${to}
+    `,
+    prisma.$queryRaw<{ bucket: Date; source: AlertSource; severity: AlertSeverity; count: number }[]>`
+      SELECT date_trunc(${bucketSize}, created_at) AS bucket, source::text AS source, severity::text AS severity, COUNT(*)::int AS count
+      FROM "xai4heat_db"."alerts"
+      WHERE user_id = ${userId}::uuid AND NOT is_suppressed AND created_at >= ${from} AND created_at <= ${to}
+      GROUP BY 1, 2, 3
+    `,
+    // COMMENT: One row per device/location with its hierarchy references -
+    // lamelas are summed up from these below
+    prisma.$queryRaw<{
+      source: AlertSource
+      apartment_name: string | null
+      location: string | null
+      apartment_code: string | null
+      lamela_code: string | null
+      count: number
+      minutes: number
+    }[]>`
+      SELECT
+        a.source::text AS source,
+        a.apartment_name,
+        a.location,
+        ap.name AS apartment_code,
+        l.code AS lamela_code,
+        COUNT(*)::int AS count,
+        (SUM(EXTRACT(EPOCH FROM (LEAST(COALESCE(a.resolved_at, ${to}), ${to}) - a.created_at))) / 60)::float AS minutes
+      FROM "xai4heat_db"."alerts" a
+      LEFT JOIN "xai4heat_db"."apartments" ap ON ap.id = a.apartment_id
+      LEFT JOIN "xai4heat_db"."lamelas" l ON l.id = a.lamela_id
+      WHERE a.user_id = ${userId}::uuid AND NOT a.is_suppressed AND a.created_at >= ${from} AND a.created_at <= ${to}
+      GROUP BY 1, 2, 3, 4, 5
+    `,
+  ])
+
+  const bySource: Record<AlertSource, number> = { THERMIONIX: 0, SCADA: 0, WEATHERLINK: 0 }
+  bySourceRows.forEach((row) => { bySource[row.source] = row._count._all })
+
+  const bySeverity: Record<AlertSeverity, number> = { LOW: 0, MEDIUM: 0, HIGH: 0 }
+  bySeverityRows.forEach((row) => { bySeverity[row.severity] = row._count._all })
+
+  // STEP: Volume - every bucket of the range, including empty ones
+  const buckets = new Map<number, AlertVolumeBucket>()
+  for (let b = truncateDate(from, bucketSize); b <= to; b = nextBucket(b, bucketSize)) {
+    buckets.set(b.getTime(), emptyBucket(b))
+  }
+  for (const row of volumeRows) {
+    const key = new Date(row.bucket).getTime()
+    const bucket = buckets.get(key) || emptyBucket(new Date(row.bucket))
+    bucket[row.source] += row.count
+    bucket[row.severity] += row.count
+    bucket.total += row.count
+    buckets.set(key, bucket)
+  }
+
+  // STEP: Top offenders by alert minutes
+  const apartments = new Map<string, { count: number; minutes: number }>()
+  const lamelas = new Map<string, { count: number; minutes: number }>()
+  const add = (totals: typeof apartments, name: string, row: { count: number; minutes: number }) => {
+    const current = totals.get(name) || { count: 0, minutes: 0 }
+    totals.set(name, { count: current.count + row.count, minutes: current.minutes + Number(row.minutes) })
+  }
+
+  // COMMENT: Alerts from before the location hierarchy have no references -
+  // those fall back to their apartment_name / location strings
+  for (const row of offenderRows) {
+    const apartment = row.apartment_code ?? (row.source === 'THERMIONIX' ? row.apartment_name : null)
+    if (apartment) {
+      add(apartments, apartment, row)
+    }
+    const lamela = row.lamela_code ?? getIncidentGroup(row)?.lamela
+    if (lamela) {
+      add(lamelas, lamela, row)
+    }
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    bucket_size: bucketSize,
+    summary: {
+      total: responseTimes.total,
+      acknowledged: responseTimes.acknowledged,
+      resolved: responseTimes.resolved,
+      mtta_minutes: toMinutes(responseTimes.mtta),
+      mtta_median_minutes: toMinutes(responseTimes.mtta_median),
+      mttr_minutes: toMinutes(responseTimes.mttr),
+      mttr_median_minutes: toMinutes(responseTimes.mttr_median),
+    },
+    by_source: bySource,
+    by_severity: bySeverity,
+    by_type: byTypeRows.map((row) => ({ alert_type: row.alert_type, count: row._count._all })),
+    volume: Array.from(buckets.values()).sort((a, b) => a.bucket.localeCompare(b.bucket)),
+    top_apartments: topOffenders(apartments),
+    top_lamelas: topOffenders(lamelas),
+  }
+}
@@ -5,25 +5,86 @@
  * - Detect when measurements violate user-defined thresholds
  * - Create alerts in database with duplicate prevention
  * - Broadcast alerts to users via Supabase Realtime
+ * - Send them to the user's webhook endpoints and inbox (publishAlertEvent)
  *
  * WORKFLOW:
  * 1. Background worker fetches new measurement
- * 2. Calls checkThermionixMeasurement() or checkScadaMeasurement()
+ * 2. Calls checkThermionixMeasurement(), checkScadaMeasurement() or
+ *    checkWeatherlinkMeasurement()
  * 3. Function checks if value violates thresholds
  * 4. If violation, calls createAndBroadcastAlert()
  * 5. Alert saved to DB and broadcast to user's channel
  * 6. User's frontend receives alert via Supabase subscription
+ * 7. Once the value is back in range, open alerts are resolved and an
+ *    'alert_resolved' event is broadcast on the same channel
+ *
+ * RULES:
+ * - Which column maps to which setting, alert type, unit and severity cutoffs
+ *   are defined once in alertRules.ts
+ *
+ * ENTRY POINTS:
+ * - evaluate*Measurement(row, settings) - what API routes and workers call
+ * - check*Measurement(measurement, ..., thresholds) - lower level, explicit thresholds
+ *
+ * THRESHOLD OVERRIDES:
+ * - Global UserSettings ranges can be overridden per device, building or lamela
+ * - Resolved most-specific-first before any comparison (see thresholdOverrides.ts)
  *
  * DUPLICATE PREVENTION:
  * - Checks for existing alerts within 30-minute window
  * - Same alert_type + source + device_id/location + user_id
  * - If duplicate exists, updates it instead of creating new
  * - Prevents alert spam for persistent violations
+ *
+ * INCIDENTS:
+ * - Alerts of the same lamela close together in time are grouped into one
+ *   incident (see incidents.ts)
+ *
+ * MAINTENANCE WINDOWS:
+ * - Alerts during planned maintenance are stored as suppressed - no broadcast,
+ *   webhook, email or incident (see maintenanceWindows.ts)
+ *
+ * SENSOR CALIBRATION:
+ * - Thermionix values (the checked reading and its history) are calibrated
+ *   before any comparison, so alerts show the same values as the charts
+ *   (see calibration.ts)
  */
 
 import { createClient } from '@supabase/supabase-js'
 import { prisma } from '@/lib/prisma'
-import type { Alert, AlertType, AlertSource, AlertSeverity } from '@/lib/generated/prisma'
+import { resolveThresholds } from '@/lib/utils/thresholdOverrides'
+import {
+  AbsoluteSeverityCutoffs,
+  calculateSeverity,
+  DUPLICATE_WINDOW_MINUTES,
+  maxSeverity,
+  RETURN_ABOVE_SUPPLY_SEVERITY,
+  SCADA_RANGE_RULES,
+  THERMIONIX_RANGE_RULES,
+} from '@/lib/utils/alertRules'
+import { matchesMute } from '@/lib/utils/alertMutes'
+import { calibrateReading, CalibrationLike } from '@/lib/utils/calibration'
+import { findActiveMaintenanceWindow } from '@/lib/utils/maintenanceWindows'
+import { resolveAlertLocation } from '@/lib/utils/locationHierarchy'
+import { queueWebhookDeliveries } from '@/lib/utils/webhooks'
+import { sendImmediateAlertEmail } from '@/lib/utils/alertEmails'
+import { recordIncidentAlertResolved, syncAlertIncident } from '@/lib/utils/incidents'
+import { logAlertActivity } from '@/lib/utils/alertActivity'
+import type {
+  Alert,
+  AlertType,
+  AlertSource,
+  AlertSeverity,
+  MaintenanceWindow,
+  ThresholdOverride,
+  UserSettings,
+  scada_measurements,
+  thermionyx_measurements,
+  weatherlink_measurements,
+} from '@/lib/generated/prisma'
+
+// COMMENT: Severity grading lives with the rest of the rule definitions
+export { calculateSeverity }
 
 /**
  * Create Supabase server client for broadcasting
@@ -41,40 +102,6 @@ if (!supabaseUrl || !supabaseServiceKey) {
 
 const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
 
-/**
- * Calculate Alert Severity Based on Deviation Percentage
- *
- * LOGIC:
- * - Measures how far the value is from the threshold
- * - Larger deviation = higher severity
- * - Helps prioritize which alerts need immediate attention
- *
- * CALCULATION:
- * deviation = |measured_value - threshold_value| / threshold_value * 100
- *
- * SEVERITY LEVELS:
- * - HIGH: deviation > 15% (critical, needs immediate action)
- * - MEDIUM: deviation > 8% (notable, should be reviewed)
- * - LOW: deviation <= 8% (minor, informational)
- *
- * EXAMPLES:
- * - Temp: 30°C, threshold: 24°C → deviation = 25% → HIGH
- * - Temp: 26°C, threshold: 24°C → deviation = 8.3% → MEDIUM
- */
-export function calculateSeverity(
-  measuredValue: number,
-  thresholdValue: number
-): AlertSeverity {
-  // Avoid division by zero
-  if (thresholdValue === 0) return 'MEDIUM'
-
-  const deviation = Math.abs(measuredValue - thresholdValue) / Math.abs(thresholdValue) * 100
-
-  if (deviation > 15) return 'HIGH'
-  if (deviation > 8) return 'MEDIUM'
-  return 'LOW'
-}
-
 /**
  * Broadcast Alert via Supabase Realtime
  *
@@ -82,8 +109,10 @@ export function calculateSeverity(
  * - alerts:${userId} - User-specific channel
  * - Frontend subscribes to this channel to receive notifications
  *
- * EVENT:
+ * EVENTS:
  * - 'new_alert' - Triggers notification badge update
+ * - 'alert_resolved' - Value back in range, frontend marks the alert resolved
+ * - 'alert_escalated' - Still unacknowledged, escalation policy re-notifies
  *
  * PAYLOAD:
  * - Full alert object with all fields
@@ -91,27 +120,33 @@ export function calculateSeverity(
  *
  * ERROR HANDLING:
  * - Logs errors but doesn't throw
- * - Alert is already saved to DB, broadcast failure is non-critical
+ * - Returns false on failure/timeout - the alert is already saved to DB,
+ *   trackBroadcast() flags it so the alert worker can retry
  */
-async function broadcastAlert(alert: Alert): Promise<void> {
-  return new Promise<void>((resolve) => {
+export type AlertBroadcastEvent = 'new_alert' | 'alert_resolved' | 'alert_escalated'
+
+async function broadcastAlert(alert: Alert, event: AlertBroadcastEvent = 'new_alert'): Promise<boolean> {
+  return new Promise<boolean>((resolve) => {
     const channel = supabaseAdmin.channel(`alerts:${alert.user_id}`)
 
     const timeout = setTimeout(() => {
       supabaseAdmin.removeChannel(channel)
       console.warn('[Alert] Broadcast timed out for channel alerts:' + alert.user_id)
-      resolve()
+      resolve(false)
     }, 5000)
 
     channel.subscribe(async (status) => {
       if (status === 'SUBSCRIBED') {
+        let sent = false
         try {
-          await channel.send({
+          const result = await channel.send({
             type: 'broadcast',
-            event: 'new_alert',
+            event,
             payload: alert,
           })
+          sent = result === 'ok'
           console.log(`[Alert] Broadcast to channel alerts:${alert.user_id}:`, {
+            event,
             type: alert.alert_type,
             source: alert.source,
             severity: alert.severity,
@@ -121,13 +156,195 @@ async function broadcastAlert(alert: Alert): Promise<void> {
         } finally {
           clearTimeout(timeout)
           await supabaseAdmin.removeChannel(channel)
-          resolve()
+          resolve(sent)
         }
       }
     })
   })
 }
 
+/**
+ * Broadcast and Record Delivery
+ *
+ * - Failed: broadcast_pending = true, broadcast_attempts + 1
+ * - Succeeded after earlier failures: broadcast_pending = false
+ *
+ * The alert worker picks up pending alerts via retryPendingBroadcasts().
+ * Also used by escalation (lib/utils/alertEscalation.ts) to re-notify.
+ */
+export async function trackBroadcast(alert: Alert, event: AlertBroadcastEvent): Promise<boolean> {
+  const sent = await broadcastAlert(alert, event)
+
+  if (!sent) {
+    await prisma.alert.update({
+      where: { id: alert.id },
+      data: {
+        broadcast_pending: true,
+        broadcast_attempts: { increment: 1 },
+      },
+    })
+  } else if (alert.broadcast_pending) {
+    await prisma.alert.update({
+      where: { id: alert.id },
+      data: { broadcast_pending: false },
+    })
+  }
+
+  return sent
+}
+
+/**
+ * Publish an Alert Event - Realtime Broadcast + Webhooks + Email
+ *
+ * WHEN: Wherever an alert is created, resolved or escalated
+ *
+ * EXTERNAL CHANNELS:
+ * - Webhooks: queued to the user's endpoints subscribed to the event (lib/utils/webhooks.ts)
+ * - Email: HIGH alerts right away, if the user wants that (lib/utils/alertEmails.ts)
+ * - options.notify = false skips both, e.g. for updates of an alert that
+ *   was already published - the Realtime UI wants those, inboxes don't
+ * - Not part of retryPendingBroadcasts(), webhook deliveries have their own retries
+ */
+export async function publishAlertEvent(
+  alert: Alert,
+  event: AlertBroadcastEvent,
+  options: { notify?: boolean } = {}
+): Promise<boolean> {
+  const sent = await trackBroadcast(alert, event)
+
+  if (options.notify !== false) {
+    await queueWebhookDeliveries(alert, event)
+    await sendImmediateAlertEmail(alert, event)
+  }
+
+  return sent
+}
+
+/**
+ * Give up on a broadcast after this many failed attempts - by then the
+ * alert is long visible through the regular alerts API anyway
+ */
+export const MAX_BROADCAST_ATTEMPTS = 5
+
+/**
+ * Retry Failed Broadcasts
+ *
+ * WHEN: Called by the alert worker on every cycle
+ *
+ * - Re-sends alerts flagged broadcast_pending, oldest first
+ * - Resolved alerts go out as 'alert_resolved', open ones as 'new_alert'
+ *
+ * @returns How many were delivered and how many are still pending
+ */
+export async function retryPendingBroadcasts(
+  limit: number = 50
+): Promise<{ delivered: number; failed: number }> {
+  const pending = await prisma.alert.findMany({
+    where: {
+      broadcast_pending: true,
+      broadcast_attempts: { lt: MAX_BROADCAST_ATTEMPTS },
+    },
+    orderBy: { updated_at: 'asc' },
+    take: limit,
+  })
+
+  let delivered = 0
+  for (const alert of pending) {
+    const event: AlertBroadcastEvent = alert.resolved_at ? 'alert_resolved' : 'new_alert'
+    if (await trackBroadcast(alert, event)) delivered++
+  }
+
+  return { delivered, failed: pending.length - delivered }
+}
+
+/**
+ * Is the Alert Silenced by One of the User's Snoozes/Mutes?
+ *
+ * ERROR HANDLING:
+ * - Returns false on failure - better a superfluous alert than a lost one
+ */
+async function isAlertMuted(params: {
+  alert_type: AlertType
+  device_id?: string
+  location?: string
+  user_id: string
+}): Promise<boolean> {
+  try {
+    const mutes = await prisma.alertMute.findMany({
+      where: {
+        user_id: params.user_id,
+        OR: [{ muted_until: null }, { muted_until: { gt: new Date() } }],
+      },
+    })
+    return mutes.some((mute) => matchesMute(mute, params))
+  } catch (error) {
+    console.error('[Alert] Failed to load alert mutes:', error)
+    return false
+  }
+}
+
+/**
+ * The User's Maintenance Window Covering the Alert, if Any
+ *
+ * - Matched at measurement_time, so late-arriving measurements from inside a
+ *   window are still suppressed
+ *
+ * ERROR HANDLING:
+ * - Returns null on failure - better a superfluous alert than a lost one
+ */
+async function getActiveMaintenanceWindow(params: {
+  device_id?: string
+  location?: string
+  apartment_name?: string
+  measurement_time: Date
+  user_id: string
+}): Promise<MaintenanceWindow | null> {
+  try {
+    const windows = await prisma.maintenanceWindow.findMany({
+      where: {
+        user_id: params.user_id,
+        starts_at: { lte: params.measurement_time },
+        OR: [
+          { recurrence: 'NONE', ends_at: { gt: params.measurement_time } },
+          { recurrence: { not: 'NONE' }, recurrence_until: null },
+          { recurrence: { not: 'NONE' }, recurrence_until: { gte: params.measurement_time } },
+        ],
+      },
+    })
+
+    return findActiveMaintenanceWindow(
+      windows,
+      { device_id: params.device_id, device_name: params.apartment_name, location: params.location },
+      params.measurement_time
+    )
+  } catch (error) {
+    console.error('[Alert] Failed to load maintenance windows:', error)
+    return null
+  }
+}
+
+/**
+ * Would the User Be Told About This Alert Right Now?
+ *
+ * WHEN: Before re-notifying an existing alert (escalation) - new alerts go
+ * through createAndBroadcastAlert(), which checks the same two things
+ *
+ * - Silenced while one of the user's snoozes/mutes matches it, or while a
+ *   maintenance window covers its device/location at `at`
+ */
+export async function isAlertSilenced(alert: Alert, at: Date = new Date()): Promise<boolean> {
+  const target = {
+    alert_type: alert.alert_type,
+    device_id: alert.device_id || undefined,
+    location: alert.location || undefined,
+    apartment_name: alert.apartment_name || undefined,
+    user_id: alert.user_id,
+  }
+
+  if (await isAlertMuted(target)) return true
+  return (await getActiveMaintenanceWindow({ ...target, measurement_time: at })) !== null
+}
+
 /**
  * Create Alert and Broadcast via Realtime
  *
@@ -141,9 +358,22 @@ async function broadcastAlert(alert: Alert): Promise<void> {
  * - Balance between spam prevention and alerting responsiveness
  * - Persistent violations update existing alert
  * - New violations after 30min create separate alert
+ * - Unless continue_open_alert is set (value never cleared the hysteresis
+ *   band), then any unresolved alert for the same key is updated instead
+ *
+ * MUTES:
+ * - Skipped entirely (returns null) while a snooze/mute rule of the user
+ *   matches the device/location and alert type
+ *
+ * MAINTENANCE WINDOWS:
+ * - Inside a window the alert is stored with is_suppressed = true (and marked
+ *   read), but not grouped, broadcast or sent anywhere
+ * - If the violation outlasts the window, the next measurement lifts the
+ *   suppression and notifies as for a new alert
  *
  * BROADCASTING:
- * - Always broadcasts after create/update
+ * - Always broadcasts after create/update (failures are retried by the worker)
+ * - Webhooks and email only for new alerts (and lifted suppressions), not for every update
  * - Frontend receives real-time notification
  * - User sees badge count update immediately
  */
@@ -159,10 +389,26 @@ export async function createAndBroadcastAlert(params: {
   unit: string
   severity: AlertSeverity
   user_id: string
+  continue_open_alert?: boolean
 }): Promise<Alert | null> {
   try {
+    // STEP 0: Snoozed or muted by the user - nothing to store or broadcast
+    if (await isAlertMuted(params)) {
+      console.log('[Alert] Muted by user, skipping:', {
+        type: params.alert_type,
+        device: params.device_id || params.location,
+      })
+      return null
+    }
+
+    // COMMENT: Inside a maintenance window the alert is still stored below,
+    // it just stops before grouping and broadcasting
+    const maintenanceWindow = await getActiveMaintenanceWindow(params)
+
     // STEP 1: Check for duplicate alerts within 30-minute window
-    const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000)
+    // COMMENT: continue_open_alert drops the window - the value never left the
+    // hysteresis band, so this is still the same violation episode
+    const thirtyMinutesAgo = new Date(Date.now() - DUPLICATE_WINDOW_MINUTES * 60 * 1000)
 
     const existingAlert = await prisma.alert.findFirst({
       where: {
@@ -171,9 +417,11 @@ export async function createAndBroadcastAlert(params: {
         device_id: params.device_id || null,
         location: params.location || null,
         user_id: params.user_id,
-        created_at: {
-          gte: thirtyMinutesAgo,
-        },
+        ...(params.continue_open_alert ? {} : {
+          created_at: {
+            gte: thirtyMinutesAgo,
+          },
+        }),
         resolved_at: null, // Only consider unresolved alerts
       },
       orderBy: {
@@ -183,18 +431,26 @@ export async function createAndBroadcastAlert(params: {
 
     let alert: Alert
 
+    // COMMENT: Recorded during maintenance, but the violation is still there afterwards
+    const liftSuppression = !!existingAlert?.is_suppressed && !maintenanceWindow
+
     if (existingAlert) {
       // STEP 2a: Update existing alert (persistent violation)
       console.log('[Alert] Updating existing alert:', existingAlert.id)
 
+      // COMMENT: An escalated alert keeps its raised severity while the violation lasts
       alert = await prisma.alert.update({
         where: { id: existingAlert.id },
         data: {
           measured_value: params.measured_value,
           threshold_value: params.threshold_value,
           measurement_time: params.measurement_time,
-          severity: params.severity,
+          severity: existingAlert.escalation_level > 0
+            ? maxSeverity(existingAlert.severity, params.severity)
+            : params.severity,
           updated_at: new Date(),
+          // COMMENT: maintenance_window_id stays - the alert started during that window
+          ...(liftSuppression ? { is_suppressed: false, is_read: false } : {}),
         },
       })
     } else {
@@ -205,6 +461,9 @@ export async function createAndBroadcastAlert(params: {
         device: params.device_id || params.location,
       })
 
+      // COMMENT: Lamela / apartment references for aggregation and navigation
+      const alertLocation = await resolveAlertLocation(params)
+
       alert = await prisma.alert.create({
         data: {
           alert_type: params.alert_type,
@@ -212,20 +471,39 @@ export async function createAndBroadcastAlert(params: {
           device_id: params.device_id,
           location: params.location,
           apartment_name: params.apartment_name,
+          lamela_id: alertLocation.lamela_id,
+          apartment_id: alertLocation.apartment_id,
           measured_value: params.measured_value,
           threshold_value: params.threshold_value,
           measurement_time: params.measurement_time,
           unit: params.unit,
           severity: params.severity,
           user_id: params.user_id,
-          is_read: false,
+          is_read: !!maintenanceWindow,
           is_acknowledged: false,
+          is_suppressed: !!maintenanceWindow,
+          maintenance_window_id: maintenanceWindow?.id,
         },
       })
     }
 
-    // STEP 3: Broadcast alert via Supabase Realtime
-    await broadcastAlert(alert)
+    // COMMENT: Planned maintenance - on record, but nobody is told
+    if (maintenanceWindow) {
+      console.log('[Alert] Suppressed by maintenance window:', {
+        alert_id: alert.id,
+        window: maintenanceWindow.title,
+      })
+      return alert
+    }
+
+    // STEP 3: Group into the lamela's incident (before broadcasting, so the
+    // published alert carries its incident_id)
+    alert = await syncAlertIncident(alert)
+
+    // STEP 4: Broadcast alert via Supabase Realtime (+ webhooks/email, once per alert)
+    await publishAlertEvent(alert, 'new_alert', {
+      notify: !existingAlert || liftSuppression,
+    })
 
     return alert
   } catch (error) {
@@ -235,13 +513,623 @@ export async function createAndBroadcastAlert(params: {
   }
 }
 
+/**
+ * Resolve Open Alerts and Broadcast via Realtime
+ *
+ * WHEN: The metric is back in range (past the hysteresis band) for the same
+ * device/location that has unresolved alerts of the given types.
+ *
+ * WHAT:
+ * - Sets resolved_at to the time of the in-range measurement
+ * - Broadcasts each resolved alert as 'alert_resolved'
+ *
+ * ERROR HANDLING:
+ * - Same as createAndBroadcastAlert - logs and returns an empty list
+ */
+export async function resolveAndBroadcastAlerts(params: {
+  alert_types: AlertType[]
+  source: AlertSource
+  device_id?: string
+  location?: string
+  user_id: string
+  resolved_at: Date
+}): Promise<Alert[]> {
+  try {
+    const openAlerts = await prisma.alert.findMany({
+      where: {
+        alert_type: { in: params.alert_types },
+        source: params.source,
+        device_id: params.device_id || null,
+        location: params.location || null,
+        user_id: params.user_id,
+        resolved_at: null,
+      },
+      select: { id: true },
+    })
+
+    if (openAlerts.length === 0) return []
+
+    console.log('[Alert] Resolving alerts:', {
+      types: params.alert_types,
+      device: params.device_id || params.location,
+      count: openAlerts.length,
+    })
+
+    const ids = openAlerts.map((a) => a.id)
+
+    // COMMENT: resolved_at: null in the update too, in case a parallel request got there first
+    await prisma.alert.updateMany({
+      where: { id: { in: ids }, resolved_at: null },
+      data: { resolved_at: params.resolved_at },
+    })
+
+    const resolvedAlerts = await prisma.alert.findMany({
+      where: { id: { in: ids }, resolved_at: params.resolved_at },
+    })
+
+    await logAlertActivity(resolvedAlerts.map((a) => a.id), 'RESOLVED', 'Back in range')
+
+    for (const alert of resolvedAlerts) {
+      // COMMENT: Suppressed alerts were never published - resolving them isn't news either
+      if (alert.is_suppressed) continue
+      await recordIncidentAlertResolved(alert)
+      await publishAlertEvent(alert, 'alert_resolved')
+    }
+
+    return resolvedAlerts
+  } catch (error) {
+    console.error('[Alert] Failed to resolve/broadcast alerts:', error)
+    return []
+  }
+}
+
+/**
+ * Load User's Threshold Overrides
+ *
+ * ERROR HANDLING:
+ * - Returns an empty list on failure so detection falls back to global ranges
+ */
+async function getThresholdOverrides(userId: string): Promise<ThresholdOverride[]> {
+  try {
+    return await prisma.thresholdOverride.findMany({
+      where: { user_id: userId },
+    })
+  } catch (error) {
+    console.error('[Alert] Failed to load threshold overrides:', error)
+    return []
+  }
+}
+
+/**
+ * Load a Device's Sensor Calibrations
+ *
+ * ERROR HANDLING:
+ * - Returns an empty list on failure so detection falls back to raw values
+ */
+async function getSensorCalibrations(deviceId: string): Promise<CalibrationLike[]> {
+  try {
+    return await prisma.sensorCalibration.findMany({
+      where: { device_id: deviceId },
+    })
+  } catch (error) {
+    console.error('[Alert] Failed to load sensor calibrations:', error)
+    return []
+  }
+}
+
+
+/**
+ * Alert Conditions
+ *
+ * PURPOSE:
+ * - Stop a single noisy sample from raising an alert
+ * - Stop a value oscillating around a threshold from raising alert after alert
+ *
+ * SETTINGS (stored per user in UserSettings):
+ * - hysteresis: Band (metric unit) the value must clear before the violation
+ *   counts as over. While inside the band an earlier violation "holds".
+ * - min_duration_minutes: Violation must have lasted at least this long
+ * - min_consecutive_samples: Violation must be seen in this many samples in a row
+ *
+ * EXAMPLE (expected_temp_max = 26°C, hysteresis = 0.5°C, 3 samples):
+ * - 26.2, 25.8, 26.1 → sustained (25.8 is still inside the 25.5-26 band)
+ * - 26.2, 25.3, 26.1 → not sustained (25.3 cleared the band, streak restarts)
+ */
+export type AlertConditions = {
+  hysteresis: number
+  min_duration_minutes: number
+  min_consecutive_samples: number
+}
+
+export type ViolationDirection = 'HIGH' | 'LOW'
+
+type MetricSample = {
+  datetime: Date
+  value: number | null
+}
+
+/**
+ * SCADA metrics derived from more than one column
+ * - supply_deviation: |t_sup_sec - t_ref| (secondary supply vs. its setpoint)
+ * - primary_delta_t: t_sup_prim - t_ret_prim (heat taken out by the exchanger)
+ * - return_excess: How far return is above supply, worst of primary/secondary
+ *   (positive = return warmer than supply)
+ */
+type ScadaCircuitTemps = Pick<scada_measurements, 't_ref' | 't_sup_prim' | 't_ret_prim' | 't_sup_sec' | 't_ret_sec'>
+
+const SCADA_DERIVED_METRICS = {
+  supply_deviation: (row: ScadaCircuitTemps) =>
+    row.t_sup_sec !== null && row.t_ref !== null ? Math.abs(row.t_sup_sec - row.t_ref) : null,
+  primary_delta_t: (row: ScadaCircuitTemps) =>
+    row.t_sup_prim !== null && row.t_ret_prim !== null ? row.t_sup_prim - row.t_ret_prim : null,
+  return_excess: (row: ScadaCircuitTemps) => {
+    const excesses = [
+      row.t_ret_prim !== null && row.t_sup_prim !== null ? row.t_ret_prim - row.t_sup_prim : null,
+      row.t_ret_sec !== null && row.t_sup_sec !== null ? row.t_ret_sec - row.t_sup_sec : null,
+    ].filter((v): v is number => v !== null)
+    return excesses.length > 0 ? Math.max(...excesses) : null
+  },
+}
+
+type ScadaDerivedMetric = keyof typeof SCADA_DERIVED_METRICS
+
+function getScadaValue(row: scada_measurements, field: 't_amb' | 'e' | ScadaDerivedMetric): number | null {
+  return field === 't_amb' || field === 'e' ? row[field] : SCADA_DERIVED_METRICS[field](row)
+}
+
+/**
+ * Sample source for history lookups
+ * - THERMIONIX: probe_id when known (one probe), otherwise the hub device_id
+ * - SCADA / WEATHERLINK: exact location string
+ */
+type SampleSource =
+  | {
+      source: 'THERMIONIX'
+      device_id: number
+      probe_id?: number
+      field: 'temperature' | 'relative_humidity' | 'co2'
+      calibrations?: CalibrationLike[]
+    }
+  | {
+      source: 'SCADA'
+      location: string
+      field: 't_amb' | 'e' | ScadaDerivedMetric
+    }
+  | {
+      source: 'WEATHERLINK'
+      location: string
+      field: 'temp_out' | 'wind_gust_10_min' | 'rain_rate_mm' | 'bar'
+    }
+
+const NO_CONDITIONS: AlertConditions = {
+  hysteresis: 0,
+  min_duration_minutes: 0,
+  min_consecutive_samples: 1,
+}
+
+/**
+ * Is a value outside the threshold?
+ *
+ * @param band - 0 for a fresh crossing; the hysteresis band while a violation is held
+ */
+export function isBeyondThreshold(
+  value: number,
+  direction: ViolationDirection,
+  threshold: number,
+  band = 0
+): boolean {
+  return direction === 'HIGH'
+    ? value > threshold - band
+    : value < threshold + band
+}
+
+/**
+ * Has the violation persisted long enough to raise an alert?
+ *
+ * @param samples - Newest first, samples[0] is the measurement being checked
+ *   and must strictly cross the threshold. Older samples only need to stay
+ *   inside the hysteresis band to keep the streak going.
+ * @param anchor - Latest sample at or before (now - min_duration_minutes),
+ *   proves the violation was already present at the start of the window
+ */
+export function isViolationSustained(
+  samples: MetricSample[],
+  anchor: MetricSample | null,
+  direction: ViolationDirection,
+  threshold: number,
+  conditions: AlertConditions
+): boolean {
+  const [current, ...older] = samples
+  if (!current || current.value === null) return false
+  if (!isBeyondThreshold(current.value, direction, threshold)) return false
+
+  // Count the streak of held violations, newest to oldest
+  let streak = 1
+  for (const sample of older) {
+    if (sample.value === null) continue // Missing readings don't break or extend a streak
+    if (!isBeyondThreshold(sample.value, direction, threshold, conditions.hysteresis)) break
+    streak++
+  }
+
+  if (streak < conditions.min_consecutive_samples) return false
+
+  if (conditions.min_duration_minutes > 0) {
+    // Every sample inside the window must hold, and the window start must already be in violation
+    const streakCoversWindow = streak === samples.filter((s) => s.value !== null).length
+    if (!streakCoversWindow || !anchor || anchor.value === null) return false
+    if (!isBeyondThreshold(anchor.value, direction, threshold, conditions.hysteresis)) return false
+  }
+
+  return true
+}
+
+/**
+ * Load Recent Samples for One Metric
+ *
+ * RETURNS: Samples with datetime <= until, newest first
+ * - since: Only samples after this time (null = no lower bound)
+ * - take: Maximum number of samples
+ */
+async function loadSamples(
+  sampleSource: SampleSource,
+  until: Date,
+  since: Date | null,
+  take: number
+): Promise<MetricSample[]> {
+  const datetime = since ? { lte: until, gt: since } : { lte: until }
+
+  if (sampleSource.source === 'THERMIONIX') {
+    const rows = await prisma.thermionyx_measurements.findMany({
+      where: sampleSource.probe_id !== undefined
+        ? { probe_id: sampleSource.probe_id, datetime }
+        : { device_id: sampleSource.device_id, datetime },
+      orderBy: { datetime: 'desc' },
+      take,
+    })
+    const calibrations = sampleSource.calibrations || []
+    return rows.map((row) => ({
+      datetime: row.datetime,
+      value: calibrateReading(row, calibrations)[sampleSource.field],
+    }))
+  }
+
+  if (sampleSource.source === 'WEATHERLINK') {
+    const rows = await prisma.weatherlink_measurements.findMany({
+      where: { location: sampleSource.location, datetime },
+      orderBy: { datetime: 'desc' },
+      take,
+    })
+    return rows.map((row) => ({ datetime: row.datetime, value: row[sampleSource.field] }))
+  }
+
+  const rows = await prisma.scada_measurements.findMany({
+    where: { location: sampleSource.location, datetime },
+    orderBy: { datetime: 'desc' },
+    take,
+  })
+  return rows.map((row) => ({ datetime: row.datetime, value: getScadaValue(row, sampleSource.field) }))
+}
+
+/**
+ * Has the metric cleared the hysteresis band since a given time?
+ *
+ * WHY: A new alert should only be raised once the previous violation is over.
+ * Without this, a value bouncing around the threshold raises a new alert every
+ * time the 30-minute duplicate window expires.
+ */
+async function hasClearedSince(
+  sampleSource: SampleSource,
+  since: Date,
+  until: Date,
+  direction: ViolationDirection,
+  threshold: number,
+  hysteresis: number
+): Promise<boolean> {
+  // COMMENT: "Cleared" = strictly past the band on the safe side
+  const cleared = direction === 'HIGH'
+    ? { lt: threshold - hysteresis }
+    : { gt: threshold + hysteresis }
+  const datetime = { gt: since, lte: until }
+
+  // COMMENT: Calibrated values can't be filtered in SQL - checked in code below
+  if (sampleSource.source === 'THERMIONIX' && !sampleSource.calibrations?.length) {
+    const match = await prisma.thermionyx_measurements.findFirst({
+      where: {
+        ...(sampleSource.probe_id !== undefined
+          ? { probe_id: sampleSource.probe_id }
+          : { device_id: sampleSource.device_id }),
+        datetime,
+        [sampleSource.field]: cleared,
+      },
+    })
+    return match !== null
+  }
+
+  if (sampleSource.source === 'WEATHERLINK') {
+    const match = await prisma.weatherlink_measurements.findFirst({
+      where: { location: sampleSource.location, datetime, [sampleSource.field]: cleared },
+    })
+    return match !== null
+  }
+
+  if (sampleSource.source === 'THERMIONIX' || (sampleSource.field !== 't_amb' && sampleSource.field !== 'e')) {
+    // COMMENT: Derived and calibrated metrics can't be filtered in SQL - check the samples in code
+    const samples = await loadSamples(sampleSource, until, since, 1000)
+    return samples.some((sample) => sample.value !== null && (
+      direction === 'HIGH' ? sample.value < threshold - hysteresis : sample.value > threshold + hysteresis
+    ))
+  }
+
+  const match = await prisma.scada_measurements.findFirst({
+    where: { location: sampleSource.location, datetime, [sampleSource.field]: cleared },
+  })
+  return match !== null
+}
+
+/**
+ * Check One Metric Against Its Min/Max and Raise Alerts
+ *
+ * ONE-SIDED METRICS:
+ * - Pass only max + highType (e.g. wind gusts) or only min + lowType (e.g. frost)
+ *
+ * ZERO THRESHOLDS:
+ * - Pass severityCutoffs (absolute excess) when the threshold can be 0,
+ *   otherwise every violation would be graded MEDIUM
+ *
+ * STEPS (per direction):
+ * 1. Value must cross the threshold - if it's back past the hysteresis band
+ *    instead, open alerts for this direction are resolved
+ * 2. Violation must be sustained (min samples / min duration, with hysteresis)
+ * 3. If an older unresolved alert exists and the value never cleared the
+ *    band since, the existing alert is updated instead of creating a new one
+ * 4. createAndBroadcastAlert() writes and broadcasts the alert
+ */
+async function checkMetric(params: {
+  value: number | null
+  min?: number
+  max?: number
+  highType?: AlertType
+  lowType?: AlertType
+  unit: string
+  severityCutoffs?: AbsoluteSeverityCutoffs
+  source: AlertSource
+  device_id?: string
+  location?: string
+  apartment_name?: string
+  sampleSource: SampleSource
+  measurementTime: Date
+  conditions: AlertConditions
+  user_id: string
+}): Promise<void> {
+  const { value, conditions } = params
+  if (value === null) return
+
+  const checks: { direction: ViolationDirection; threshold: number; alertType: AlertType }[] = []
+  if (params.max !== undefined && params.highType) {
+    checks.push({ direction: 'HIGH', threshold: params.max, alertType: params.highType })
+  }
+  if (params.min !== undefined && params.lowType) {
+    checks.push({ direction: 'LOW', threshold: params.min, alertType: params.lowType })
+  }
+
+  for (const { direction, threshold, alertType } of checks) {
+    // STEP 1: Back in range → resolve, inside the band → leave open alerts alone
+    if (!isBeyondThreshold(value, direction, threshold, conditions.hysteresis)) {
+      await resolveAndBroadcastAlerts({
+        alert_types: [alertType],
+        source: params.source,
+        device_id: params.device_id,
+        location: params.location,
+        user_id: params.user_id,
+        resolved_at: params.measurementTime,
+      })
+      continue
+    }
+    if (!isBeyondThreshold(value, direction, threshold)) continue
+
+    // STEP 2: Persistence conditions (skipped when alerting immediately)
+    const needsHistory = conditions.min_consecutive_samples > 1 || conditions.min_duration_minutes > 0
+
+    if (needsHistory) {
+      const windowStart = new Date(params.measurementTime.getTime() - conditions.min_duration_minutes * 60 * 1000)
+      const samples = conditions.min_duration_minutes > 0
+        ? await loadSamples(params.sampleSource, params.measurementTime, windowStart, 1000)
+        : await loadSamples(params.sampleSource, params.measurementTime, null, conditions.min_consecutive_samples)
+      const [anchor] = conditions.min_duration_minutes > 0
+        ? await loadSamples(params.sampleSource, windowStart, null, 1)
+        : [null]
+
+      // COMMENT: The checked measurement might not be stored yet (or stored with a
+      // different timestamp precision) - make sure it's first in the list
+      if (samples.length === 0 || samples[0].datetime.getTime() !== params.measurementTime.getTime()) {
+        samples.unshift({ datetime: params.measurementTime, value })
+      }
+
+      if (!isViolationSustained(samples, anchor ?? null, direction, threshold, conditions)) {
+        console.log('[Alert] Violation not sustained yet, skipping:', {
+          type: alertType,
+          device: params.device_id || params.location,
+        })
+        continue
+      }
+    }
+
+    // STEP 3: Same episode as an older open alert?
+    let continueOpenAlert = false
+
+    if (conditions.hysteresis > 0) {
+      const openAlert = await prisma.alert.findFirst({
+        where: {
+          alert_type: alertType,
+          source: params.source,
+          device_id: params.device_id || null,
+          location: params.location || null,
+          user_id: params.user_id,
+          resolved_at: null,
+        },
+        orderBy: { created_at: 'desc' },
+      })
+
+      if (openAlert) {
+        continueOpenAlert = !(await hasClearedSince(
+          params.sampleSource,
+          openAlert.measurement_time,
+          params.measurementTime,
+          direction,
+          threshold,
+          conditions.hysteresis
+        ))
+      }
+    }
+
+    // STEP 4: Write and broadcast
+    await createAndBroadcastAlert({
+      alert_type: alertType,
+      source: params.source,
+      device_id: params.device_id,
+      location: params.location,
+      apartment_name: params.apartment_name,
+      measured_value: value,
+      threshold_value: threshold,
+      measurement_time: params.measurementTime,
+      unit: params.unit,
+      severity: calculateSeverity(value, threshold, params.severityCutoffs),
+      user_id: params.user_id,
+      continue_open_alert: continueOpenAlert,
+    })
+  }
+}
+
+/**
+ * Least-Squares Slope of a Metric in Units per Hour
+ *
+ * WHY REGRESSION INSTEAD OF FIRST/LAST?
+ * - One noisy sample at either end of the window would swing a two-point
+ *   slope; fitting a line through every sample smooths that out
+ *
+ * @param samples - Any order, null values are ignored
+ * @returns Slope per hour (negative = falling), null with fewer than 2 usable samples
+ */
+export function calculateSlopePerHour(samples: MetricSample[]): number | null {
+  const points = samples
+    .filter((s): s is { datetime: Date; value: number } => s.value !== null)
+    .map((s) => ({ x: s.datetime.getTime() / (60 * 60 * 1000), y: s.value }))
+
+  if (points.length < 2) return null
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length
+
+  let numerator = 0
+  let denominator = 0
+  for (const p of points) {
+    numerator += (p.x - meanX) * (p.y - meanY)
+    denominator += (p.x - meanX) ** 2
+  }
+
+  if (denominator === 0) return null
+  return numerator / denominator
+}
+
+/**
+ * Check How Fast a Metric Is Falling
+ *
+ * RULE:
+ * - Slope of the metric over the last window_minutes
+ * - Falling faster than max_drop (per `per_hours` hours) → alert_type
+ * - Slope back within the limit → open alerts of that type are resolved
+ *
+ * USED FOR:
+ * - TEMP_RAPID_DROP: Thermionix temperature, °C per hour
+ * - BAROMETRIC_DROP: WeatherLink pressure, inHg per 3 hours
+ *
+ * GUARDS (avoid slopes from too little data):
+ * - At least 3 samples in the window
+ * - Samples must span at least half the window
+ *
+ * ALERT FIELDS:
+ * - measured_value: Drop over `per_hours` hours (positive number)
+ * - threshold_value: Allowed drop over `per_hours` hours
+ */
+async function checkRateOfDrop(params: {
+  alert_type: AlertType
+  source: AlertSource
+  device_id?: string
+  location?: string
+  apartment_name?: string
+  unit: string
+  value: number | null
+  max_drop: number
+  per_hours: number
+  window_minutes: number
+  sampleSource: SampleSource
+  measurementTime: Date
+  user_id: string
+}): Promise<void> {
+  if (params.value === null || params.window_minutes <= 0) return
+
+  const windowStart = new Date(params.measurementTime.getTime() - params.window_minutes * 60 * 1000)
+  const samples = await loadSamples(params.sampleSource, params.measurementTime, windowStart, 1000)
+
+  // COMMENT: Same as checkMetric - the checked measurement may not be stored yet
+  if (samples.length === 0 || samples[0].datetime.getTime() !== params.measurementTime.getTime()) {
+    samples.unshift({ datetime: params.measurementTime, value: params.value })
+  }
+
+  const usable = samples.filter((s) => s.value !== null)
+  if (usable.length < 3) return
+
+  const spanMinutes = (usable[0].datetime.getTime() - usable[usable.length - 1].datetime.getTime()) / (60 * 1000)
+  if (spanMinutes < params.window_minutes / 2) return
+
+  const slope = calculateSlopePerHour(usable)
+  if (slope === null) return
+
+  const drop = -slope * params.per_hours
+
+  if (drop <= params.max_drop) {
+    await resolveAndBroadcastAlerts({
+      alert_types: [params.alert_type],
+      source: params.source,
+      device_id: params.device_id,
+      location: params.location,
+      user_id: params.user_id,
+      resolved_at: params.measurementTime,
+    })
+    return
+  }
+
+  await createAndBroadcastAlert({
+    alert_type: params.alert_type,
+    source: params.source,
+    device_id: params.device_id,
+    location: params.location,
+    apartment_name: params.apartment_name,
+    measured_value: Math.round(drop * 100) / 100,
+    threshold_value: params.max_drop,
+    measurement_time: params.measurementTime,
+    unit: params.unit,
+    severity: calculateSeverity(drop, params.max_drop),
+    user_id: params.user_id,
+  })
+}
+
 /**
  * Check Thermionix Measurement for Threshold Violations
  *
+ * THRESHOLDS:
+ * - Global ranges from `thresholds`, overridden by any DEVICE/BUILDING/LAMELA
+ *   override matching this device (most specific wins)
+ *
+ * CONDITIONS:
+ * - Optional hysteresis / min duration / min samples from UserSettings
+ * - Omitted = alert on the first sample crossing the threshold
+ *
  * CHECKS:
  * 1. Temperature vs expected_temp_min/max
  * 2. Humidity vs expected_humidity_min/max
  * 3. CO2 vs expected_co2_min/max
+ * 4. Temperature slope vs temp_drop_rate_max (only when provided)
  *
  * CREATES ALERTS FOR:
  * - TEMP_HIGH: temperature > expected_temp_max
@@ -250,11 +1138,13 @@ export async function createAndBroadcastAlert(params: {
  * - HUMIDITY_LOW: humidity < expected_humidity_min
  * - CO2_HIGH: co2 > expected_co2_max
  * - CO2_LOW: co2 < expected_co2_min
+ * - TEMP_RAPID_DROP: temperature falling faster than temp_drop_rate_max °C/h
  */
 export async function checkThermionixMeasurement(
   measurement: {
     datetime: Date | string
     device_id: number
+    probe_id?: number
     temperature: number | null
     relative_humidity: number | null
     co2: number | null
@@ -271,127 +1161,76 @@ export async function checkThermionixMeasurement(
     expected_humidity_max: number
     expected_co2_min: number
     expected_co2_max: number
+    hysteresis_temp?: number
+    hysteresis_humidity?: number
+    hysteresis_co2?: number
+    alert_min_duration_minutes?: number
+    alert_min_consecutive_samples?: number
+    temp_drop_rate_max?: number
+    temp_drop_window_minutes?: number
   }
 ): Promise<void> {
   const measurementTime = typeof measurement.datetime === 'string'
     ? new Date(measurement.datetime)
     : measurement.datetime
 
-  // Check Temperature
-  if (measurement.temperature !== null) {
-    // Temperature too high
-    if (measurement.temperature > thresholds.expected_temp_max) {
-      const severity = calculateSeverity(measurement.temperature, thresholds.expected_temp_max)
-
-      await createAndBroadcastAlert({
-        alert_type: 'TEMP_HIGH',
-        source: 'THERMIONIX',
-        device_id: device.device_id,
-        apartment_name: device.name || undefined,
-        measured_value: measurement.temperature,
-        threshold_value: thresholds.expected_temp_max,
-        measurement_time: measurementTime,
-        unit: '°C',
-        severity,
-        user_id: thresholds.user_id,
-      })
-    }
-
-    // Temperature too low
-    if (measurement.temperature < thresholds.expected_temp_min) {
-      const severity = calculateSeverity(measurement.temperature, thresholds.expected_temp_min)
-
-      await createAndBroadcastAlert({
-        alert_type: 'TEMP_LOW',
-        source: 'THERMIONIX',
-        device_id: device.device_id,
-        apartment_name: device.name || undefined,
-        measured_value: measurement.temperature,
-        threshold_value: thresholds.expected_temp_min,
-        measurement_time: measurementTime,
-        unit: '°C',
-        severity,
-        user_id: thresholds.user_id,
-      })
-    }
-  }
+  // Apply device/building/lamela overrides on top of the global ranges
+  const overrides = await getThresholdOverrides(thresholds.user_id)
+  const limits = resolveThresholds(thresholds, overrides, {
+    device_id: device.device_id,
+    device_name: device.name,
+  })
 
-  // Check Humidity
-  if (measurement.relative_humidity !== null) {
-    // Humidity too high
-    if (measurement.relative_humidity > thresholds.expected_humidity_max) {
-      const severity = calculateSeverity(measurement.relative_humidity, thresholds.expected_humidity_max)
-
-      await createAndBroadcastAlert({
-        alert_type: 'HUMIDITY_HIGH',
-        source: 'THERMIONIX',
-        device_id: device.device_id,
-        apartment_name: device.name || undefined,
-        measured_value: measurement.relative_humidity,
-        threshold_value: thresholds.expected_humidity_max,
-        measurement_time: measurementTime,
-        unit: '%',
-        severity,
-        user_id: thresholds.user_id,
-      })
-    }
+  // Compare calibrated values - the reading and the samples loaded for it
+  const calibrations = await getSensorCalibrations(device.device_id)
+  const calibrated = calibrateReading({ ...measurement, datetime: measurementTime }, calibrations)
 
-    // Humidity too low
-    if (measurement.relative_humidity < thresholds.expected_humidity_min) {
-      const severity = calculateSeverity(measurement.relative_humidity, thresholds.expected_humidity_min)
-
-      await createAndBroadcastAlert({
-        alert_type: 'HUMIDITY_LOW',
-        source: 'THERMIONIX',
-        device_id: device.device_id,
-        apartment_name: device.name || undefined,
-        measured_value: measurement.relative_humidity,
-        threshold_value: thresholds.expected_humidity_min,
-        measurement_time: measurementTime,
-        unit: '%',
-        severity,
-        user_id: thresholds.user_id,
-      })
-    }
+  const shared = {
+    source: 'THERMIONIX' as const,
+    device_id: device.device_id,
+    apartment_name: device.name || undefined,
+    measurementTime,
+    user_id: thresholds.user_id,
+  }
+  const persistence = {
+    min_duration_minutes: thresholds.alert_min_duration_minutes ?? NO_CONDITIONS.min_duration_minutes,
+    min_consecutive_samples: thresholds.alert_min_consecutive_samples ?? NO_CONDITIONS.min_consecutive_samples,
   }
+  const sampleSource = (field: 'temperature' | 'relative_humidity' | 'co2'): SampleSource => ({
+    source: 'THERMIONIX',
+    device_id: measurement.device_id,
+    probe_id: measurement.probe_id,
+    field,
+    calibrations,
+  })
 
-  // Check CO2
-  if (measurement.co2 !== null) {
-    // CO2 too high
-    if (measurement.co2 > thresholds.expected_co2_max) {
-      const severity = calculateSeverity(measurement.co2, thresholds.expected_co2_max)
-
-      await createAndBroadcastAlert({
-        alert_type: 'CO2_HIGH',
-        source: 'THERMIONIX',
-        device_id: device.device_id,
-        apartment_name: device.name || undefined,
-        measured_value: measurement.co2,
-        threshold_value: thresholds.expected_co2_max,
-        measurement_time: measurementTime,
-        unit: 'ppm',
-        severity,
-        user_id: thresholds.user_id,
-      })
-    }
+  // Check Temperature, Humidity and CO2 ranges
+  for (const rule of THERMIONIX_RANGE_RULES) {
+    await checkMetric({
+      ...shared,
+      value: calibrated[rule.field],
+      min: limits[rule.minSetting],
+      max: limits[rule.maxSetting],
+      highType: rule.highType,
+      lowType: rule.lowType,
+      unit: rule.unit,
+      sampleSource: sampleSource(rule.field),
+      conditions: { ...persistence, hysteresis: thresholds[rule.hysteresisSetting] ?? NO_CONDITIONS.hysteresis },
+    })
+  }
 
-    // CO2 too low
-    if (measurement.co2 < thresholds.expected_co2_min) {
-      const severity = calculateSeverity(measurement.co2, thresholds.expected_co2_min)
-
-      await createAndBroadcastAlert({
-        alert_type: 'CO2_LOW',
-        source: 'THERMIONIX',
-        device_id: device.device_id,
-        apartment_name: device.name || undefined,
-        measured_value: measurement.co2,
-        threshold_value: thresholds.expected_co2_min,
-        measurement_time: measurementTime,
-        unit: 'ppm',
-        severity,
-        user_id: thresholds.user_id,
-      })
-    }
+  // Check Temperature Rate of Change
+  if (thresholds.temp_drop_rate_max !== undefined) {
+    await checkRateOfDrop({
+      ...shared,
+      alert_type: 'TEMP_RAPID_DROP',
+      unit: '°C/h',
+      value: calibrated.temperature,
+      max_drop: thresholds.temp_drop_rate_max,
+      per_hours: 1,
+      window_minutes: thresholds.temp_drop_window_minutes ?? 60,
+      sampleSource: sampleSource('temperature'),
+    })
   }
 }
 
@@ -401,16 +1240,22 @@ export async function checkThermionixMeasurement(
  * CHECKS:
  * 1. t_amb (ambient temperature) vs expected_temp_min/max
  * 2. e (pressure) vs expected_pressure_min/max
+ * 3. Heating circuit temperatures (only when supply_ref_tolerance /
+ *    primary_delta_t_min are provided)
  *
  * CREATES ALERTS FOR:
  * - TEMP_HIGH: t_amb > expected_temp_max
  * - TEMP_LOW: t_amb < expected_temp_min
  * - PRESSURE_HIGH: e > expected_pressure_max
  * - PRESSURE_LOW: e < expected_pressure_min
+ * - SUPPLY_DEVIATION: |t_sup_sec - t_ref| > supply_ref_tolerance
+ * - DELTA_T_LOW: t_sup_prim - t_ret_prim < primary_delta_t_min (bypass / poor heat exchange)
+ * - RETURN_ABOVE_SUPPLY: t_ret_prim > t_sup_prim or t_ret_sec > t_sup_sec
  *
  * PARAMETERS:
  * @param measurement - SCADA measurement with datetime, location, t_amb, e
- * @param thresholds - User settings with expected ranges
+ * @param thresholds - User settings with expected ranges (LAMELA overrides
+ *   matching measurement.location take precedence) and optional alert conditions
  */
 export async function checkScadaMeasurement(
   measurement: {
@@ -418,6 +1263,11 @@ export async function checkScadaMeasurement(
     location: string
     t_amb: number | null
     e: number | null
+    t_ref?: number | null
+    t_sup_prim?: number | null
+    t_ret_prim?: number | null
+    t_sup_sec?: number | null
+    t_ret_sec?: number | null
   },
   thresholds: {
     user_id: string
@@ -425,83 +1275,285 @@ export async function checkScadaMeasurement(
     expected_temp_max: number
     expected_pressure_min: number
     expected_pressure_max: number
+    hysteresis_temp?: number
+    hysteresis_pressure?: number
+    alert_min_duration_minutes?: number
+    alert_min_consecutive_samples?: number
+    supply_ref_tolerance?: number
+    primary_delta_t_min?: number
   }
 ): Promise<void> {
   const measurementTime = typeof measurement.datetime === 'string'
     ? new Date(measurement.datetime)
     : measurement.datetime
 
-  // Check Ambient Temperature
-  if (measurement.t_amb !== null) {
-    // Temperature too high
-    if (measurement.t_amb > thresholds.expected_temp_max) {
-      const severity = calculateSeverity(measurement.t_amb, thresholds.expected_temp_max)
-
-      await createAndBroadcastAlert({
-        alert_type: 'TEMP_HIGH',
-        source: 'SCADA',
-        location: measurement.location,
-        measured_value: measurement.t_amb,
-        threshold_value: thresholds.expected_temp_max,
-        measurement_time: measurementTime,
-        unit: '°C',
-        severity,
-        user_id: thresholds.user_id,
-      })
-    }
+  // Apply lamela overrides on top of the global ranges
+  const overrides = await getThresholdOverrides(thresholds.user_id)
+  const limits = resolveThresholds(thresholds, overrides, {
+    location: measurement.location,
+  })
 
-    // Temperature too low
-    if (measurement.t_amb < thresholds.expected_temp_min) {
-      const severity = calculateSeverity(measurement.t_amb, thresholds.expected_temp_min)
-
-      await createAndBroadcastAlert({
-        alert_type: 'TEMP_LOW',
-        source: 'SCADA',
-        location: measurement.location,
-        measured_value: measurement.t_amb,
-        threshold_value: thresholds.expected_temp_min,
-        measurement_time: measurementTime,
-        unit: '°C',
-        severity,
-        user_id: thresholds.user_id,
-      })
-    }
+  const shared = {
+    source: 'SCADA' as const,
+    location: measurement.location,
+    measurementTime,
+    user_id: thresholds.user_id,
+  }
+  const persistence = {
+    min_duration_minutes: thresholds.alert_min_duration_minutes ?? NO_CONDITIONS.min_duration_minutes,
+    min_consecutive_samples: thresholds.alert_min_consecutive_samples ?? NO_CONDITIONS.min_consecutive_samples,
   }
 
-  // Check Pressure
-  if (measurement.e !== null) {
-    // Pressure too high
-    if (measurement.e > thresholds.expected_pressure_max) {
-      const severity = calculateSeverity(measurement.e, thresholds.expected_pressure_max)
-
-      await createAndBroadcastAlert({
-        alert_type: 'PRESSURE_HIGH',
-        source: 'SCADA',
-        location: measurement.location,
-        measured_value: measurement.e,
-        threshold_value: thresholds.expected_pressure_max,
-        measurement_time: measurementTime,
-        unit: 'bar',
-        severity,
-        user_id: thresholds.user_id,
-      })
-    }
+  // Check Ambient Temperature and Pressure ranges
+  for (const rule of SCADA_RANGE_RULES) {
+    await checkMetric({
+      ...shared,
+      value: measurement[rule.field],
+      min: limits[rule.minSetting],
+      max: limits[rule.maxSetting],
+      highType: rule.highType,
+      lowType: rule.lowType,
+      unit: rule.unit,
+      sampleSource: { source: 'SCADA', location: measurement.location, field: rule.field },
+      conditions: { ...persistence, hysteresis: thresholds[rule.hysteresisSetting] ?? NO_CONDITIONS.hysteresis },
+    })
+  }
 
-    // Pressure too low
-    if (measurement.e < thresholds.expected_pressure_min) {
-      const severity = calculateSeverity(measurement.e, thresholds.expected_pressure_min)
-
-      await createAndBroadcastAlert({
-        alert_type: 'PRESSURE_LOW',
-        source: 'SCADA',
-        location: measurement.location,
-        measured_value: measurement.e,
-        threshold_value: thresholds.expected_pressure_min,
-        measurement_time: measurementTime,
-        unit: 'bar',
-        severity,
-        user_id: thresholds.user_id,
-      })
-    }
+  // Heating circuit checks - all temperatures, so they share the temperature hysteresis
+  const circuitConditions = { ...persistence, hysteresis: thresholds.hysteresis_temp ?? NO_CONDITIONS.hysteresis }
+  const row: ScadaCircuitTemps = {
+    t_ref: measurement.t_ref ?? null,
+    t_sup_prim: measurement.t_sup_prim ?? null,
+    t_ret_prim: measurement.t_ret_prim ?? null,
+    t_sup_sec: measurement.t_sup_sec ?? null,
+    t_ret_sec: measurement.t_ret_sec ?? null,
+  }
+
+  // Check Secondary Supply vs Reference
+  if (thresholds.supply_ref_tolerance !== undefined) {
+    await checkMetric({
+      ...shared,
+      value: SCADA_DERIVED_METRICS.supply_deviation(row),
+      max: thresholds.supply_ref_tolerance,
+      highType: 'SUPPLY_DEVIATION',
+      unit: '°C',
+      sampleSource: { source: 'SCADA', location: measurement.location, field: 'supply_deviation' },
+      conditions: circuitConditions,
+    })
+  }
+
+  // Check Primary Delta-T
+  if (thresholds.primary_delta_t_min !== undefined) {
+    await checkMetric({
+      ...shared,
+      value: SCADA_DERIVED_METRICS.primary_delta_t(row),
+      min: thresholds.primary_delta_t_min,
+      lowType: 'DELTA_T_LOW',
+      unit: '°C',
+      sampleSource: { source: 'SCADA', location: measurement.location, field: 'primary_delta_t' },
+      conditions: circuitConditions,
+    })
+  }
+
+  // Check Return Above Supply
+  // COMMENT: Always physically wrong (sensor swap, reversed flow), so no setting for it
+  await checkMetric({
+    ...shared,
+    value: SCADA_DERIVED_METRICS.return_excess(row),
+    max: 0,
+    highType: 'RETURN_ABOVE_SUPPLY',
+    unit: '°C',
+    severityCutoffs: RETURN_ABOVE_SUPPLY_SEVERITY,
+    sampleSource: { source: 'SCADA', location: measurement.location, field: 'return_excess' },
+    conditions: circuitConditions,
+  })
+}
+
+/**
+ * Check WeatherLink Measurement for Weather Alerts
+ *
+ * CHECKS:
+ * 1. temp_out vs frost_temp_threshold
+ * 2. wind_gust_10_min vs wind_gust_max
+ * 3. rain_rate_mm vs rain_rate_max
+ * 4. bar slope vs barometric_drop_max (inHg per 3 hours, over the last 3 hours)
+ *
+ * CREATES ALERTS FOR:
+ * - FROST: temp_out < frost_temp_threshold
+ * - WIND_GUST_HIGH: wind_gust_10_min > wind_gust_max
+ * - RAIN_RATE_HIGH: rain_rate_mm > rain_rate_max
+ * - BAROMETRIC_DROP: pressure falling faster than barometric_drop_max
+ *
+ * NOTE: Weather alerts are one-sided (no "too warm" / "too calm"), and
+ * only frost uses a hysteresis band (hysteresis_temp)
+ */
+export async function checkWeatherlinkMeasurement(
+  measurement: {
+    datetime: Date | string
+    location: string
+    temp_out: number | null
+    wind_gust_10_min: number | null
+    rain_rate_mm: number | null
+    bar: number | null
+  },
+  thresholds: {
+    user_id: string
+    frost_temp_threshold: number
+    wind_gust_max: number
+    rain_rate_max: number
+    barometric_drop_max: number
+    hysteresis_temp?: number
+    alert_min_duration_minutes?: number
+    alert_min_consecutive_samples?: number
+  }
+): Promise<void> {
+  const measurementTime = typeof measurement.datetime === 'string'
+    ? new Date(measurement.datetime)
+    : measurement.datetime
+
+  const shared = {
+    source: 'WEATHERLINK' as const,
+    location: measurement.location,
+    measurementTime,
+    user_id: thresholds.user_id,
+  }
+  const persistence = {
+    min_duration_minutes: thresholds.alert_min_duration_minutes ?? NO_CONDITIONS.min_duration_minutes,
+    min_consecutive_samples: thresholds.alert_min_consecutive_samples ?? NO_CONDITIONS.min_consecutive_samples,
+  }
+  const sampleSource = (field: 'temp_out' | 'wind_gust_10_min' | 'rain_rate_mm' | 'bar'): SampleSource => ({
+    source: 'WEATHERLINK',
+    location: measurement.location,
+    field,
+  })
+
+  // Check Frost
+  await checkMetric({
+    ...shared,
+    value: measurement.temp_out,
+    min: thresholds.frost_temp_threshold,
+    lowType: 'FROST',
+    unit: '°C',
+    sampleSource: sampleSource('temp_out'),
+    conditions: { ...persistence, hysteresis: thresholds.hysteresis_temp ?? NO_CONDITIONS.hysteresis },
+  })
+
+  // Check Wind Gusts
+  // COMMENT: Gusts are short by nature - alert on the first sample over the limit
+  await checkMetric({
+    ...shared,
+    value: measurement.wind_gust_10_min,
+    max: thresholds.wind_gust_max,
+    highType: 'WIND_GUST_HIGH',
+    unit: 'km/h',
+    sampleSource: sampleSource('wind_gust_10_min'),
+    conditions: NO_CONDITIONS,
+  })
+
+  // Check Rain Rate
+  await checkMetric({
+    ...shared,
+    value: measurement.rain_rate_mm,
+    max: thresholds.rain_rate_max,
+    highType: 'RAIN_RATE_HIGH',
+    unit: 'mm/h',
+    sampleSource: sampleSource('rain_rate_mm'),
+    conditions: NO_CONDITIONS,
+  })
+
+  // Check Barometric Drop
+  await checkRateOfDrop({
+    ...shared,
+    alert_type: 'BAROMETRIC_DROP',
+    unit: 'inHg/3h',
+    value: measurement.bar,
+    max_drop: thresholds.barometric_drop_max,
+    per_hours: 3,
+    window_minutes: 180,
+    sampleSource: sampleSource('bar'),
+  })
+}
+
+/**
+ * Evaluate a Stored Measurement Row for One User
+ *
+ * PURPOSE:
+ * - The one way a newly stored measurement is turned into alerts, whether it
+ *   arrived through an API POST or was inserted straight into the database
+ * - Maps UserSettings onto the check*Measurement() thresholds so callers
+ *   can't forget a setting
+ *
+ * THERMIONIX DEVICE MAPPING:
+ * - Device.device_id is the probe ID, so the device is looked up by probe_id
+ *   (thermionyx_measurements.device_id is the hub)
+ */
+export async function evaluateThermionixMeasurement(
+  measurement: thermionyx_measurements,
+  settings: UserSettings
+): Promise<void> {
+  const probeId = measurement.probe_id.toString()
+  const device = await prisma.device.findUnique({
+    where: { device_id: probeId },
+    select: { device_id: true, name: true },
+  })
+
+  if (!device) {
+    console.warn(`[Alert] Device ${probeId} not found in devices table`)
   }
+
+  await checkThermionixMeasurement(
+    measurement,
+    device || { device_id: probeId, name: null },
+    {
+      user_id: settings.user_id,
+      expected_temp_min: settings.expected_temp_min,
+      expected_temp_max: settings.expected_temp_max,
+      expected_humidity_min: settings.expected_humidity_min,
+      expected_humidity_max: settings.expected_humidity_max,
+      expected_co2_min: settings.expected_co2_min,
+      expected_co2_max: settings.expected_co2_max,
+      hysteresis_temp: settings.hysteresis_temp,
+      hysteresis_humidity: settings.hysteresis_humidity,
+      hysteresis_co2: settings.hysteresis_co2,
+      alert_min_duration_minutes: settings.alert_min_duration_minutes,
+      alert_min_consecutive_samples: settings.alert_min_consecutive_samples,
+      temp_drop_rate_max: settings.temp_drop_rate_max,
+      temp_drop_window_minutes: settings.temp_drop_window_minutes,
+    }
+  )
+}
+
+export async function evaluateScadaMeasurement(
+  measurement: scada_measurements,
+  settings: UserSettings
+): Promise<void> {
+  await checkScadaMeasurement(measurement, {
+    user_id: settings.user_id,
+    expected_temp_min: settings.expected_temp_min,
+    expected_temp_max: settings.expected_temp_max,
+    expected_pressure_min: settings.expected_pressure_min,
+    expected_pressure_max: settings.expected_pressure_max,
+    hysteresis_temp: settings.hysteresis_temp,
+    hysteresis_pressure: settings.hysteresis_pressure,
+    alert_min_duration_minutes: settings.alert_min_duration_minutes,
+    alert_min_consecutive_samples: settings.alert_min_consecutive_samples,
+    supply_ref_tolerance: settings.supply_ref_tolerance,
+    primary_delta_t_min: settings.primary_delta_t_min,
+  })
+}
+
+export async function evaluateWeatherlinkMeasurement(
+  measurement: weatherlink_measurements,
+  settings: UserSettings
+): Promise<void> {
+  await checkWeatherlinkMeasurement(measurement, {
+    user_id: settings.user_id,
+    frost_temp_threshold: settings.frost_temp_threshold,
+    wind_gust_max: settings.wind_gust_max,
+    rain_rate_max: settings.rain_rate_max,
+    barometric_drop_max: settings.barometric_drop_max,
+    hysteresis_temp: settings.hysteresis_temp,
+    alert_min_duration_minutes: settings.alert_min_duration_minutes,
+    alert_min_consecutive_samples: settings.alert_min_consecutive_samples,
+  })
 }
@@ -0,0 +1,392 @@
+/**
+ * Alert Emails Utility
+ *
+ * PURPOSE:
+ * - Reach users when the dashboard isn't open, per their NotificationPreferences
+ *
+ * CHANNELS:
+ * - Immediate: HIGH alerts, sent by publishAlertEvent() (lib/utils/alertDetection.ts)
+ *   when the alert is raised or escalated to HIGH
+ * - Escalation: An escalation policy's notify_emails, sent by
+ *   lib/utils/alertEscalation.ts (not subject to preferences - the policy
+ *   owner chose the addresses)
+ * - Digest: Hourly or daily summary, sent by the alert worker (runEmailDigests)
+ *   - Alert counts per source and severity
+ *   - Worst offenders by apartment_name
+ *   - Alerts still unresolved
+ *
+ * PREFERENCES:
+ * - Both respect the sources, severities and quiet hours of the user's
+ *   NotificationPreferences (see lib/utils/notificationPreferences.ts)
+ *
+ * DIGEST PERIOD:
+ * - From the end of the previous digest (last_digest_at) to now, so no alert
+ *   falls between two digests even if the worker was down for a while
+ * - First digest covers the last hour / day
+ * - Empty digests (nothing new, nothing unresolved) are not sent
+ */
+
+import { prisma } from '@/lib/prisma'
+import { escapeHtml, getUserEmails, sendEmail } from '@/lib/utils/email'
+import { getLocalTime, isInQuietHours, shouldNotify } from '@/lib/utils/notificationPreferences'
+import { getAlertText } from '@/lib/utils/alertText'
+import type { Alert, AlertSeverity, AlertSource, NotificationPreferences } from '@/lib/generated/prisma'
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000'
+
+/**
+ * Worst apartments and unresolved alerts listed per digest
+ */
+const DIGEST_TOP_APARTMENTS = 5
+const DIGEST_MAX_UNRESOLVED = 20
+
+const SOURCE_LABELS: Record<AlertSource, string> = {
+  THERMIONIX: 'Thermionix',
+  SCADA: 'SCADA',
+  WEATHERLINK: 'WeatherLink',
+}
+
+export type EmailDigestRunResult = {
+  sent: number
+  skipped: number
+  failed: number
+}
+
+type DigestData = {
+  since: Date
+  until: Date
+  total: number
+  bySource: Record<AlertSource, number>
+  bySeverity: Record<AlertSeverity, number>
+  worstApartments: { name: string; count: number }[]
+  unresolved: Alert[]
+  unresolvedTotal: number
+}
+
+function formatTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(date)
+}
+
+/**
+ * Where to Send - Preferred Address or the Login Email
+ */
+async function resolveRecipients(preferences: NotificationPreferences[]): Promise<Map<string, string>> {
+  const recipients = new Map<string, string>()
+  const missing: string[] = []
+
+  for (const prefs of preferences) {
+    if (prefs.email_address) recipients.set(prefs.user_id, prefs.email_address)
+    else missing.push(prefs.user_id)
+  }
+
+  const loginEmails = await getUserEmails(missing)
+  loginEmails.forEach((email, userId) => recipients.set(userId, email))
+
+  return recipients
+}
+
+/**
+ * Email a HIGH Alert Right Away
+ *
+ * WHEN: publishAlertEvent() for 'new_alert' / 'alert_escalated'
+ *
+ * ERROR HANDLING:
+ * - Logs and returns - email must never break alert detection
+ */
+export async function sendImmediateAlertEmail(alert: Alert, event: string): Promise<void> {
+  if (alert.severity !== 'HIGH' || (event !== 'new_alert' && event !== 'alert_escalated')) return
+
+  try {
+    const prefs = await prisma.notificationPreferences.findUnique({
+      where: { user_id: alert.user_id },
+    })
+    if (!prefs?.email_immediate || !shouldNotify(prefs, alert, 'email')) return
+
+    const to = (await resolveRecipients([prefs])).get(alert.user_id)
+    if (!to) return
+
+    const text = getAlertText(alert)
+    const title = event === 'alert_escalated' ? 'Escalated alert' : 'High severity alert'
+    const time = formatTime(alert.measurement_time, prefs.timezone)
+    const link = `${APP_URL}/dashboard/notifications`
+
+    await sendEmail({
+      to,
+      subject: `[xai4heat] ${title}: ${text}`,
+      text: `${title}\n\n${text}\nSource: ${SOURCE_LABELS[alert.source]}\nMeasured at: ${time}\n\nOpen notifications: ${link}\n`,
+      html: `
+        <h2 style="color:#dc2626;margin:0 0 8px">${title}</h2>
+        <p style="font-size:16px;margin:0 0 8px">${escapeHtml(text)}</p>
+        <p style="color:#525252;margin:0 0 16px">${SOURCE_LABELS[alert.source]} · measured at ${escapeHtml(time)}</p>
+        <p><a href="${link}">Open notifications</a></p>
+      `,
+    })
+  } catch (error) {
+    console.error('[Email] Failed to send alert email:', error)
+  }
+}
+
+/**
+ * Email an Escalated Alert to One of a Policy's notify_emails
+ *
+ * COMMENT: The recipient doesn't get the alert in their own account and may
+ * not be able to open the owner's alert, so the email carries the details
+ * and the owner to contact instead of a link
+ *
+ * @returns Whether the email went out
+ */
+export async function sendEscalationEmail(
+  alert: Alert,
+  to: string,
+  context: { policyName: string; ownerEmail?: string; timeZone: string }
+): Promise<boolean> {
+  const { policyName, timeZone } = context
+  const text = getAlertText(alert)
+  const owner = context.ownerEmail || 'the alert owner'
+  const time = formatTime(alert.measurement_time, timeZone)
+
+  return sendEmail({
+    to,
+    subject: `[xai4heat] Escalated alert: ${text}`,
+    text: `Escalated alert (${policyName})\n\n${text}\nSeverity: ${alert.severity}\nSource: ${SOURCE_LABELS[alert.source]}\nMeasured at: ${time}\n\nStill unacknowledged - contact ${owner}.\n`,
+    html: `
+      <h2 style="color:#dc2626;margin:0 0 8px">Escalated alert</h2>
+      <p style="font-size:16px;margin:0 0 8px">${escapeHtml(text)}</p>
+      <p style="color:#525252;margin:0 0 16px">${alert.severity} · ${SOURCE_LABELS[alert.source]} · measured at ${escapeHtml(time)} · ${escapeHtml(policyName)}</p>
+      <p>Still unacknowledged - contact ${escapeHtml(owner)}.</p>
+    `,
+  })
+}
+
+/**
+ * Collect What a Digest Reports
+ */
+async function buildDigest(prefs: NotificationPreferences, since: Date, until: Date): Promise<DigestData> {
+  // COMMENT: Only the sources and severities the user wants to hear about
+  const wanted = {
+    user_id: prefs.user_id,
+    is_suppressed: false,
+    source: { in: prefs.sources },
+    severity: { in: prefs.severities },
+  }
+  const period = { ...wanted, created_at: { gt: since, lte: until } }
+
+  const [bySourceRows, bySeverityRows, apartmentRows, unresolved, unresolvedTotal] = await Promise.all([
+    prisma.alert.groupBy({ by: ['source'], where: period, _count: { _all: true } }),
+    prisma.alert.groupBy({ by: ['severity'], where: period, _count: { _all: true } }),
+    prisma.alert.groupBy({
+      by: ['apartment_name'],
+      where: { ...period, apartment_name: { not: null } },
+      _count: { apartment_name: true },
+      orderBy: { _count: { apartment_name: 'desc' } },
+      take: DIGEST_TOP_APARTMENTS,
+    }),
+    prisma.alert.findMany({
+      where: { ...wanted, resolved_at: null },
+      orderBy: [{ severity: 'desc' }, { created_at: 'asc' }],
+      take: DIGEST_MAX_UNRESOLVED,
+    }),
+    prisma.alert.count({ where: { ...wanted, resolved_at: null } }),
+  ])
+
+  const bySource: Record<AlertSource, number> = { THERMIONIX: 0, SCADA: 0, WEATHERLINK: 0 }
+  bySourceRows.forEach((row) => { bySource[row.source] = row._count._all })
+
+  const bySeverity: Record<AlertSeverity, number> = { LOW: 0, MEDIUM: 0, HIGH: 0 }
+  bySeverityRows.forEach((row) => { bySeverity[row.severity] = row._count._all })
+
+  return {
+    since,
+    until,
+    total: bySourceRows.reduce((sum, row) => sum + row._count._all, 0),
+    bySource,
+    bySeverity,
+    worstApartments: apartmentRows.map((row) => ({
+      name: row.apartment_name as string,
+      count: row._count.apartment_name,
+    })),
+    unresolved,
+    unresolvedTotal,
+  }
+}
+
+function renderDigest(
+  data: DigestData,
+  prefs: NotificationPreferences
+): { subject: string; text: string; html: string } {
+  const period = `${formatTime(data.since, prefs.timezone)} – ${formatTime(data.until, prefs.timezone)}`
+  const frequency = prefs.email_digest === 'HOURLY' ? 'Hourly' : 'Daily'
+  const link = `${APP_URL}/dashboard/notifications`
+
+  const sources = (Object.keys(SOURCE_LABELS) as AlertSource[])
+    .map((source) => `${SOURCE_LABELS[source]}: ${data.bySource[source]}`)
+  const severities = `High ${data.bySeverity.HIGH} · Medium ${data.bySeverity.MEDIUM} · Low ${data.bySeverity.LOW}`
+  const moreUnresolved = data.unresolvedTotal - data.unresolved.length
+
+  const text = [
+    `${frequency} alert digest (${period})`,
+    '',
+    `${data.total} new alerts - ${severities}`,
+    ...sources.map((line) => `  ${line}`),
+    '',
+    ...(data.worstApartments.length > 0
+      ? ['Most alerts by apartment:', ...data.worstApartments.map((a) => `  ${a.name}: ${a.count}`), '']
+      : []),
+    `Unresolved (${data.unresolvedTotal}):`,
+    ...data.unresolved.map((alert) => `  [${alert.severity}] ${getAlertText(alert)}`),
+    ...(moreUnresolved > 0 ? [`  ...and ${moreUnresolved} more`] : []),
+    '',
+    `Open notifications: ${link}`,
+  ].join('\n')
+
+  const cell = 'style="padding:4px 12px 4px 0"'
+  const html = `
+    <h2 style="margin:0 0 4px">${frequency} alert digest</h2>
+    <p style="color:#525252;margin:0 0 16px">${escapeHtml(period)}</p>
+
+    <h3 style="margin:0 0 4px">${data.total} new alerts</h3>
+    <p style="margin:0 0 8px">${severities}</p>
+    <table>${sources.map((line) => {
+      const [label, count] = line.split(': ')
+      return `<tr><td ${cell}>${label}</td><td ${cell}><strong>${count}</strong></td></tr>`
+    }).join('')}</table>
+
+    ${data.worstApartments.length > 0 ? `
+      <h3 style="margin:16px 0 4px">Most alerts by apartment</h3>
+      <table>${data.worstApartments.map((a) =>
+        `<tr><td ${cell}>${escapeHtml(a.name)}</td><td ${cell}><strong>${a.count}</strong></td></tr>`
+      ).join('')}</table>
+    ` : ''}
+
+    <h3 style="margin:16px 0 4px">Unresolved (${data.unresolvedTotal})</h3>
+    ${data.unresolved.length > 0 ? `
+      <ul style="margin:0;padding-left:20px">${data.unresolved.map((alert) =>
+        `<li><strong>${alert.severity}</strong> ${escapeHtml(getAlertText(alert))}</li>`
+      ).join('')}</ul>
+      ${moreUnresolved > 0 ? `<p style="color:#525252">...and ${moreUnresolved} more</p>` : ''}
+    ` : '<p style="color:#525252;margin:0">Nothing open.</p>'}
+
+    <p style="margin-top:16px"><a href="${link}">Open notifications</a></p>
+  `
+
+  return {
+    subject: `[xai4heat] ${frequency} digest: ${data.total} new, ${data.unresolvedTotal} unresolved`,
+    text,
+    html,
+  }
+}
+
+/**
+ * Is a Digest Due for This User?
+ *
+ * - HOURLY: An hour since the last one, held back during quiet hours (the
+ *   first digest after them covers the whole night)
+ * - DAILY: Once per local calendar day, from digest_hour on
+ */
+export function isDigestDue(prefs: NotificationPreferences, now: Date = new Date()): boolean {
+  if (!prefs.email_enabled) return false
+
+  if (prefs.email_digest === 'HOURLY') {
+    if (isInQuietHours(prefs, now)) return false
+    return !prefs.last_digest_at || now.getTime() - prefs.last_digest_at.getTime() >= 60 * 60 * 1000
+  }
+
+  if (prefs.email_digest === 'DAILY') {
+    const local = getLocalTime(now, prefs.timezone)
+    if (local.hour < prefs.digest_hour) return false
+    return !prefs.last_digest_at || getLocalTime(prefs.last_digest_at, prefs.timezone).date !== local.date
+  }
+
+  return false
+}
+
+/**
+ * Send All Due Digests
+ *
+ * WHEN: Called by the alert worker on every cycle
+ *
+ * CLAIMING:
+ * - last_digest_at is moved to `now` (only if unchanged) before sending, so
+ *   overlapping runs can't send the same digest twice
+ * - Reverted when sending fails, so the next cycle retries the same period
+ *
+ * @returns Counts for logging by the caller
+ */
+export async function runEmailDigests(now: Date = new Date()): Promise<EmailDigestRunResult> {
+  const result: EmailDigestRunResult = { sent: 0, skipped: 0, failed: 0 }
+
+  const candidates = await prisma.notificationPreferences.findMany({
+    where: { email_enabled: true, email_digest: { not: 'NONE' } },
+  })
+  const due = candidates.filter((prefs) => isDigestDue(prefs, now))
+  if (due.length === 0) return result
+
+  const recipients = await resolveRecipients(due)
+
+  for (const prefs of due) {
+    const to = recipients.get(prefs.user_id)
+    if (!to) {
+      result.skipped++
+      continue
+    }
+
+    // STEP 1: Claim this period
+    const claimed = await prisma.notificationPreferences.updateMany({
+      where: { id: prefs.id, last_digest_at: prefs.last_digest_at },
+      data: { last_digest_at: now },
+    })
+    if (claimed.count === 0) continue
+
+    try {
+      // STEP 2: Build - nothing to report means nothing to send
+      const periodHours = prefs.email_digest === 'HOURLY' ? 1 : 24
+      const since = prefs.last_digest_at || new Date(now.getTime() - periodHours * 60 * 60 * 1000)
+      const data = await buildDigest(prefs, since, now)
+
+      if (data.total === 0 && data.unresolvedTotal === 0) {
+        result.skipped++
+        continue
+      }
+
+      // STEP 3: Send, or give the period back for the next cycle
+      if (await sendEmail({ to, ...renderDigest(data, prefs) })) {
+        result.sent++
+        continue
+      }
+    } catch (error) {
+      console.error('[Email] Failed to build digest for user:', prefs.user_id, error)
+    }
+
+    result.failed++
+    await prisma.notificationPreferences.updateMany({
+      where: { id: prefs.id, last_digest_at: now },
+      data: { last_digest_at: prefs.last_digest_at },
+    })
+  }
+
+  return result
+}
+
+/**
+ * Send a Test Email With the Current Digest Contents
+ *
+ * COMMENT: Uses the last 24 hours regardless of the schedule and doesn't
+ * touch last_digest_at
+ *
+ * @returns Recipient address, or null when nothing could be sent
+ */
+export async function sendTestDigestEmail(prefs: NotificationPreferences): Promise<string | null> {
+  const to = (await resolveRecipients([prefs])).get(prefs.user_id)
+  if (!to) return null
+
+  const now = new Date()
+  const data = await buildDigest(prefs, new Date(now.getTime() - 24 * 60 * 60 * 1000), now)
+  const rendered = renderDigest(data, { ...prefs, email_digest: 'DAILY' })
+
+  const sent = await sendEmail({ to, ...rendered, subject: `[Test] ${rendered.subject}` })
+  return sent ? to : null
+}
@@ -0,0 +1,282 @@
+/**
+ * Alert Escalation Utility
+ *
+ * PURPOSE:
+ * - Alerts nobody acknowledges get louder over time, per the user's
+ *   EscalationPolicy steps
+ *
+ * WORKFLOW:
+ * 1. Escalation job (scripts/run-escalations.ts) calls runEscalations() periodically
+ * 2. For every enabled policy (shortest delay first), find the owner's alerts that are
+ *    - unacknowledged (is_acknowledged = false) and unresolved
+ *    - at least min_severity
+ *    - older than after_minutes
+ *    - not yet escalated by this policy
+ * 3. For each: record an AlertEscalation, then
+ *    - raise_severity: LOW → MEDIUM → HIGH
+ *    - renotify: mark unread again and broadcast 'alert_escalated' to the owner
+ *      (and to their webhooks) - unless the owner muted it or it's inside a
+ *      maintenance window right now
+ *    - notify_emails: email the alert to each of those addresses - email
+ *      only, nothing is created in anyone else's account
+ *
+ * WHY RECORD FIRST?
+ * - AlertEscalation is unique per alert + policy, so two overlapping job runs
+ *   can't escalate the same alert twice
+ */
+
+import { prisma } from '@/lib/prisma'
+import { isAlertSilenced, publishAlertEvent } from '@/lib/utils/alertDetection'
+import { getSeveritiesAtLeast, raiseSeverity, SEVERITY_ORDER } from '@/lib/utils/alertRules'
+import { syncAlertIncident } from '@/lib/utils/incidents'
+import { logAlertActivity } from '@/lib/utils/alertActivity'
+import { sendEscalationEmail } from '@/lib/utils/alertEmails'
+import { getUserEmails } from '@/lib/utils/email'
+import { Prisma, type Alert, type EscalationPolicy } from '@/lib/generated/prisma'
+
+/**
+ * Alerts escalated per policy per run - keeps one run short after downtime;
+ * the rest are picked up by the next run
+ */
+const MAX_ALERTS_PER_POLICY = 200
+
+export type EscalationRunResult = {
+  policies: number
+  escalated: number
+  notified: number
+}
+
+/**
+ * Who the policy emails, and how the emails describe the owner
+ *
+ * COMMENT: The owner's own address is left out - they are re-notified in
+ * the app instead
+ */
+type EscalationRecipients = {
+  emails: string[]
+  ownerEmail?: string
+  timeZone: string
+}
+
+async function getEscalationRecipients(policy: EscalationPolicy): Promise<EscalationRecipients> {
+  const ownerEmail = (await getUserEmails([policy.user_id])).get(policy.user_id)
+  const prefs = await prisma.notificationPreferences.findUnique({
+    where: { user_id: policy.user_id },
+    select: { timezone: true },
+  })
+
+  return {
+    emails: policy.notify_emails.filter((email) => email.toLowerCase() !== ownerEmail?.toLowerCase()),
+    ownerEmail,
+    // COMMENT: Same default as NotificationPreferences.timezone
+    timeZone: prefs?.timezone ?? 'Europe/Belgrade',
+  }
+}
+
+/**
+ * Apply One Policy to One Alert
+ *
+ * @returns Addresses the escalation email went out to, or null when
+ * another run escalated it first
+ */
+async function escalateAlert(
+  alert: Alert,
+  policy: EscalationPolicy,
+  recipients: EscalationRecipients,
+  now: Date
+): Promise<string[] | null> {
+  const newSeverity = policy.raise_severity ? raiseSeverity(alert.severity) : alert.severity
+
+  // COMMENT: Severity is still raised while muted/in maintenance, only the re-notification is skipped
+  const renotify = policy.renotify && !(await isAlertSilenced(alert, now))
+
+  // STEP 1: Claim the escalation (unique per alert + policy)
+  let escalation
+  try {
+    escalation = await prisma.alertEscalation.create({
+      data: {
+        alert_id: alert.id,
+        policy_id: policy.id,
+        policy_name: policy.name,
+        previous_severity: alert.severity,
+        new_severity: newSeverity,
+        renotified: renotify,
+        escalated_at: now,
+      },
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return null
+    throw error
+  }
+
+  console.log('[Escalation] Escalating alert:', {
+    alert: alert.id,
+    policy: policy.name,
+    severity: `${alert.severity} → ${newSeverity}`,
+  })
+
+  // STEP 2: Raise severity / bring it back as unread
+  const escalated = await prisma.alert.update({
+    where: { id: alert.id },
+    data: {
+      severity: newSeverity,
+      escalation_level: { increment: 1 },
+      escalated_at: now,
+      ...(renotify ? { is_read: false } : {}),
+    },
+  })
+
+  // COMMENT: The incident follows the raised severity
+  await syncAlertIncident(escalated)
+  await logAlertActivity(
+    escalated.id,
+    'ESCALATED',
+    alert.severity === newSeverity ? policy.name : `${policy.name}: ${alert.severity} → ${newSeverity}`
+  )
+
+  // STEP 3: Re-notify the owner
+  if (renotify) {
+    await publishAlertEvent(escalated, 'alert_escalated')
+  }
+
+  // STEP 4: Email the policy's notify_emails
+  const notified: string[] = []
+  for (const email of recipients.emails) {
+    const sent = await sendEscalationEmail(escalated, email, {
+      policyName: policy.name,
+      ownerEmail: recipients.ownerEmail,
+      timeZone: recipients.timeZone,
+    })
+    if (sent) notified.push(email)
+  }
+
+  if (notified.length > 0) {
+    await prisma.alertEscalation.update({
+      where: { id: escalation.id },
+      data: { notified_emails: notified },
+    })
+  }
+
+  return notified
+}
+
+/**
+ * Run All Escalation Policies
+ *
+ * @param now - Reference time (defaults to current time)
+ * @returns Counts for logging by the caller
+ */
+export async function runEscalations(now: Date = new Date()): Promise<EscalationRunResult> {
+  const result: EscalationRunResult = { policies: 0, escalated: 0, notified: 0 }
+
+  // STEP 1: Shortest delay first, so steps of a chain are applied in order
+  const policies = await prisma.escalationPolicy.findMany({
+    where: { enabled: true },
+    orderBy: { after_minutes: 'asc' },
+  })
+  result.policies = policies.length
+
+  for (const policy of policies) {
+    // STEP 2: Alerts this policy hasn't escalated yet
+    const cutoff = new Date(now.getTime() - policy.after_minutes * 60 * 1000)
+
+    const alerts = await prisma.alert.findMany({
+      where: {
+        user_id: policy.user_id,
+        is_acknowledged: false,
+        is_suppressed: false,
+        resolved_at: null,
+        severity: { in: getSeveritiesAtLeast(policy.min_severity) },
+        created_at: { lte: cutoff },
+        escalations: { none: { policy_id: policy.id } },
+      },
+      orderBy: { created_at: 'asc' },
+      take: MAX_ALERTS_PER_POLICY,
+    })
+
+    if (alerts.length === 0) continue
+
+    const recipients = await getEscalationRecipients(policy)
+
+    // STEP 3: Escalate
+    for (const alert of alerts) {
+      try {
+        const notified = await escalateAlert(alert, policy, recipients, now)
+        if (notified === null) continue
+        result.escalated++
+        result.notified += notified.length
+      } catch (error) {
+        console.error('[Escalation] Failed to escalate alert:', alert.id, error)
+      }
+    }
+  }
+
+  return result
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * validateEscalationPolicy - Server-side validation for API input
+ *
+ * RULES:
+ * - name is required
+ * - after_minutes: whole number between 1 and 10080 (one week)
+ * - min_severity: LOW, MEDIUM or HIGH (optional, defaults to HIGH)
+ * - notify_emails: optional list of email addresses (emailed only)
+ * - The policy must do something: raise severity, re-notify or notify users
+ *
+ * @returns Array of error messages (empty when valid)
+ */
+export function validateEscalationPolicy(input: Record<string, unknown>): string[] {
+  const errors: string[] = []
+  const { name, after_minutes, min_severity, raise_severity, renotify, notify_emails } = input
+
+  if (typeof name !== 'string' || name.trim() === '') {
+    errors.push('name is required')
+  }
+
+  if (typeof after_minutes !== 'number' || !Number.isInteger(after_minutes) || after_minutes < 1 || after_minutes > 10080) {
+    errors.push('Invalid after_minutes (must be a whole number between 1 and 10080)')
+  }
+
+  if (min_severity !== undefined && !SEVERITY_ORDER.includes(min_severity as Alert['severity'])) {
+    errors.push('min_severity must be one of LOW, MEDIUM, HIGH')
+  }
+
+  for (const [field, value] of [['raise_severity', raise_severity], ['renotify', renotify], ['enabled', input.enabled]] as const) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      errors.push(`${field} must be a boolean`)
+    }
+  }
+
+  if (notify_emails !== undefined) {
+    if (!Array.isArray(notify_emails) || notify_emails.some((e) => typeof e !== 'string' || !EMAIL_PATTERN.test(e.trim()))) {
+      errors.push('notify_emails must be a list of email addresses')
+    }
+  }
+
+  const notifiesUsers = Array.isArray(notify_emails) && notify_emails.length > 0
+  if (raise_severity === false && renotify === false && !notifiesUsers) {
+    errors.push('Policy must raise severity, re-notify or notify users')
+  }
+
+  return errors
+}
+
+/**
+ * pickEscalationPolicyFields - Build Prisma create/update data from a validated body
+ */
+export function pickEscalationPolicyFields(input: Record<string, unknown>) {
+  return {
+    name: (input.name as string).trim(),
+    enabled: input.enabled !== false,
+    min_severity: (input.min_severity as Alert['severity'] | undefined) ?? 'HIGH',
+    after_minutes: input.after_minutes as number,
+    raise_severity: input.raise_severity !== false,
+    renotify: input.renotify !== false,
+    notify_emails: Array.isArray(input.notify_emails)
+      ? (input.notify_emails as string[]).map((e) => e.trim().toLowerCase())
+      : [],
+  }
+}
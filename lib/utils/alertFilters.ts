@@ -0,0 +1,103 @@
+/**
+ * Alert Filter Utilities
+ *
+ * PURPOSE:
+ * - Turn alert list filters into a Prisma WHERE clause
+ * - Shared by GET /api/alerts (query string) and POST /api/alerts/bulk
+ *   (JSON body) so "all matching" means the same alerts in both places
+ *
+ * FILTERS (all optional):
+ * - is_acknowledged, is_read, is_resolved: 'true' / 'false' (or booleans)
+ * - is_suppressed: maintenance alerts only on request (default false)
+ * - source, alert_type, severity: enum values
+ * - device_id, location: exact match
+ * - from, to: ISO dates on created_at
+ */
+
+import {
+  AlertSeverity,
+  AlertSource,
+  AlertType,
+  type Prisma,
+} from '@/lib/generated/prisma'
+
+export type AlertFilterInput = Record<string, unknown>
+
+const BOOLEAN_FILTERS = ['is_acknowledged', 'is_read', 'is_resolved', 'is_suppressed'] as const
+
+const ENUM_FILTERS = {
+  source: Object.values(AlertSource),
+  alert_type: Object.values(AlertType),
+  severity: Object.values(AlertSeverity),
+} as const
+
+/**
+ * buildAlertWhere - WHERE clause for the user's alerts matching the filters
+ *
+ * Unknown keys are ignored; empty values count as "not set".
+ *
+ * @returns where - Always scoped to userId
+ * @returns errors - Invalid filter values (those filters are left out of where)
+ */
+export function buildAlertWhere(
+  userId: string,
+  filters: AlertFilterInput
+): { where: Prisma.AlertWhereInput; errors: string[] } {
+  const errors: string[] = []
+  const where: Prisma.AlertWhereInput = {
+    user_id: userId, // Security: only user's alerts
+    is_suppressed: false, // Maintenance alerts only on request
+  }
+
+  const get = (key: string): string | null => {
+    const value = filters[key]
+    if (value === undefined || value === null || value === '') return null
+    return String(value)
+  }
+
+  for (const key of BOOLEAN_FILTERS) {
+    const value = get(key)
+    if (value === null) continue
+    if (value !== 'true' && value !== 'false') {
+      errors.push(`${key} must be true or false`)
+      continue
+    }
+
+    if (key === 'is_resolved') {
+      where.resolved_at = value === 'true' ? { not: null } : null
+    } else {
+      where[key] = value === 'true'
+    }
+  }
+
+  for (const [key, allowed] of Object.entries(ENUM_FILTERS)) {
+    const value = get(key)
+    if (value === null) continue
+    if (!(allowed as readonly string[]).includes(value)) {
+      errors.push(`${key} must be one of ${allowed.join(', ')}`)
+      continue
+    }
+    Object.assign(where, { [key]: value })
+  }
+
+  const deviceId = get('device_id')
+  if (deviceId) where.device_id = deviceId
+
+  const location = get('location')
+  if (location) where.location = location
+
+  const createdAt: Prisma.DateTimeFilter = {}
+  for (const [key, op] of [['from', 'gte'], ['to', 'lte']] as const) {
+    const value = get(key)
+    if (value === null) continue
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      errors.push(`Invalid ${key} (expected ISO date)`)
+      continue
+    }
+    createdAt[op] = date
+  }
+  if (createdAt.gte || createdAt.lte) where.created_at = createdAt
+
+  return { where, errors }
+}
@@ -0,0 +1,108 @@
+/**
+ * Alert Mute Utilities
+ *
+ * PURPOSE:
+ * - Decide whether a snooze/mute rule silences an alert
+ * - Shared by alert detection (server), the mutes API and the UI
+ *
+ * RULES:
+ * - Snooze: muted_until in the future
+ * - Mute: muted_until null (until removed)
+ * - device_id / location / alert_type left null match any value
+ *
+ * NOTE: This file must stay free of server-only imports (Prisma) so that
+ * client components can use it.
+ */
+
+import type { AlertType } from '@/lib/generated/prisma'
+
+/**
+ * Minimal shape of an AlertMute row (matches the Prisma model and the JSON
+ * returned by the API, where dates are strings)
+ */
+export type AlertMuteLike = {
+  device_id: string | null
+  location: string | null
+  alert_type: AlertType | null
+  muted_until: Date | string | null
+}
+
+/**
+ * What an alert is about - the fields mutes are matched on
+ */
+export type MuteTarget = {
+  device_id?: string | null
+  location?: string | null
+  alert_type: AlertType
+}
+
+/**
+ * Snooze choices offered by the UI (hours: null = mute indefinitely)
+ */
+export const SNOOZE_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: '1 hour', hours: 1 },
+  { label: '8 hours', hours: 8 },
+  { label: '24 hours', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: 'Mute until unmuted', hours: null },
+]
+
+export function isMuteActive(mute: AlertMuteLike, now: Date = new Date()): boolean {
+  return mute.muted_until === null || new Date(mute.muted_until).getTime() > now.getTime()
+}
+
+/**
+ * Does this mute silence the target?
+ */
+export function matchesMute(mute: AlertMuteLike, target: MuteTarget, now: Date = new Date()): boolean {
+  if (!isMuteActive(mute, now)) return false
+  if (mute.device_id !== null && mute.device_id !== (target.device_id ?? null)) return false
+  if (mute.location !== null && mute.location !== (target.location ?? null)) return false
+  if (mute.alert_type !== null && mute.alert_type !== target.alert_type) return false
+  return true
+}
+
+/**
+ * validateAlertMute - Server-side validation for API input
+ *
+ * RULES:
+ * - At least one of device_id, location, alert_type
+ * - alert_type must be a known AlertType
+ * - muted_until must be null/omitted (mute) or a future date (snooze)
+ *
+ * @param alertTypes - Valid AlertType values (the Prisma enum)
+ * @returns Array of error messages (empty when valid)
+ */
+export function validateAlertMute(
+  input: Record<string, unknown>,
+  alertTypes: readonly string[],
+  now: Date = new Date()
+): string[] {
+  const errors: string[] = []
+  const { device_id, location, alert_type, muted_until } = input
+
+  for (const [field, value] of [['device_id', device_id], ['location', location]] as const) {
+    if (value !== null && value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+      errors.push(`${field} must be a non-empty string`)
+    }
+  }
+
+  if (alert_type !== null && alert_type !== undefined && !alertTypes.includes(alert_type as string)) {
+    errors.push('Invalid alert_type')
+  }
+
+  if (!device_id && !location && !alert_type) {
+    errors.push('At least one of device_id, location or alert_type is required')
+  }
+
+  if (muted_until !== null && muted_until !== undefined) {
+    const until = new Date(muted_until as string)
+    if (typeof muted_until !== 'string' || isNaN(until.getTime())) {
+      errors.push('Invalid muted_until (expected ISO date)')
+    } else if (until.getTime() <= now.getTime()) {
+      errors.push('muted_until must be in the future')
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,222 @@
+/**
+ * Alert Rules - Single Source of Truth
+ *
+ * PURPOSE:
+ * - Define once which measurement column is compared against which setting,
+ *   which alert types it raises, its unit and how severity is graded
+ * - Used by alert detection (lib/utils/alertDetection.ts), which is the only
+ *   place alerts are evaluated - for API POSTs and for rows inserted directly
+ *   into the database alike
+ *
+ * HISTORY:
+ * - Alerts used to be evaluated a second time by a PL/pgSQL trigger
+ *   (scripts/create-alert-trigger.sql) with its own copy of these rules, which
+ *   drifted (20/10% severity cutoffs, pressure settings read as humidity).
+ *   The trigger is removed by scripts/drop-alert-trigger.sql.
+ *
+ * NOTE: Client-safe (type-only Prisma imports) so UI code can reuse the
+ * rule metadata, e.g. units and labels.
+ */
+
+import type { AlertType, AlertSeverity } from '@/lib/generated/prisma'
+import type { ThresholdField } from './thresholdOverrides'
+
+/**
+ * Severity cutoffs - deviation from the threshold in percent
+ * - deviation > HIGH → HIGH
+ * - deviation > MEDIUM → MEDIUM
+ * - otherwise → LOW
+ */
+export const SEVERITY_CUTOFFS = {
+  HIGH: 15,
+  MEDIUM: 8,
+} as const
+
+/**
+ * Severity cutoffs as an absolute excess over the threshold (in the rule's unit)
+ * - For rules whose threshold is 0, where a percentage means nothing
+ */
+export type AbsoluteSeverityCutoffs = {
+  HIGH: number
+  MEDIUM: number
+}
+
+/**
+ * Return above supply (threshold 0 °C) - graded by how many degrees the
+ * return is warmer than the supply
+ */
+export const RETURN_ABOVE_SUPPLY_SEVERITY: AbsoluteSeverityCutoffs = {
+  HIGH: 5,
+  MEDIUM: 2,
+}
+
+/**
+ * Alerts for the same type + device/location within this window update the
+ * existing alert instead of creating a new one
+ */
+export const DUPLICATE_WINDOW_MINUTES = 30
+
+/**
+ * Calculate Alert Severity Based on Deviation Percentage
+ *
+ * LOGIC:
+ * - Measures how far the value is from the threshold
+ * - Larger deviation = higher severity
+ * - Helps prioritize which alerts need immediate attention
+ *
+ * CALCULATION:
+ * deviation = |measured_value - threshold_value| / threshold_value * 100
+ *
+ * SEVERITY LEVELS:
+ * - HIGH: deviation > 15% (critical, needs immediate action)
+ * - MEDIUM: deviation > 8% (notable, should be reviewed)
+ * - LOW: deviation <= 8% (minor, informational)
+ *
+ * ABSOLUTE CUTOFFS:
+ * - Rules with a threshold of 0 (e.g. return above supply) pass
+ *   absoluteCutoffs and are graded by |measured_value - threshold_value|
+ *   in the rule's unit instead
+ *
+ * EXAMPLES:
+ * - Temp: 30°C, threshold: 24°C → deviation = 25% → HIGH
+ * - Temp: 26°C, threshold: 24°C → deviation = 8.3% → MEDIUM
+ * - Return excess: 6°C, threshold: 0°C, cutoffs 5/2 → HIGH
+ */
+export function calculateSeverity(
+  measuredValue: number,
+  thresholdValue: number,
+  absoluteCutoffs?: AbsoluteSeverityCutoffs
+): AlertSeverity {
+  if (absoluteCutoffs) {
+    const excess = Math.abs(measuredValue - thresholdValue)
+    if (excess > absoluteCutoffs.HIGH) return 'HIGH'
+    if (excess > absoluteCutoffs.MEDIUM) return 'MEDIUM'
+    return 'LOW'
+  }
+
+  // Avoid division by zero
+  if (thresholdValue === 0) return 'MEDIUM'
+
+  const deviation = Math.abs(measuredValue - thresholdValue) / Math.abs(thresholdValue) * 100
+
+  if (deviation > SEVERITY_CUTOFFS.HIGH) return 'HIGH'
+  if (deviation > SEVERITY_CUTOFFS.MEDIUM) return 'MEDIUM'
+  return 'LOW'
+}
+
+/**
+ * Severity order, lowest first
+ */
+export const SEVERITY_ORDER: AlertSeverity[] = ['LOW', 'MEDIUM', 'HIGH']
+
+/**
+ * Severities at or above the given one, e.g. MEDIUM → [MEDIUM, HIGH]
+ */
+export function getSeveritiesAtLeast(severity: AlertSeverity): AlertSeverity[] {
+  return SEVERITY_ORDER.slice(SEVERITY_ORDER.indexOf(severity))
+}
+
+/**
+ * One step up (LOW → MEDIUM → HIGH), HIGH stays HIGH
+ */
+export function raiseSeverity(severity: AlertSeverity): AlertSeverity {
+  return SEVERITY_ORDER[Math.min(SEVERITY_ORDER.indexOf(severity) + 1, SEVERITY_ORDER.length - 1)]
+}
+
+export function maxSeverity(a: AlertSeverity, b: AlertSeverity): AlertSeverity {
+  return SEVERITY_ORDER.indexOf(a) >= SEVERITY_ORDER.indexOf(b) ? a : b
+}
+
+export type HysteresisSetting = 'hysteresis_temp' | 'hysteresis_humidity' | 'hysteresis_pressure' | 'hysteresis_co2'
+
+/**
+ * Range Rule - one measurement column checked against a min/max pair
+ *
+ * - field: Column on the measurement table
+ * - minSetting / maxSetting: Threshold fields (UserSettings / overrides)
+ * - hysteresisSetting: UserSettings field holding the hysteresis band
+ */
+export type RangeRule<
+  Field extends string,
+  Setting extends ThresholdField = ThresholdField,
+  Hysteresis extends HysteresisSetting = HysteresisSetting,
+> = {
+  field: Field
+  label: string
+  unit: string
+  minSetting: Setting
+  maxSetting: Setting
+  hysteresisSetting: Hysteresis
+  highType: AlertType
+  lowType: AlertType
+}
+
+/**
+ * Thermionix apartment probes (thermionyx_measurements)
+ */
+export const THERMIONIX_RANGE_RULES: RangeRule<
+  'temperature' | 'relative_humidity' | 'co2',
+  Exclude<ThresholdField, 'expected_pressure_min' | 'expected_pressure_max'>,
+  Exclude<HysteresisSetting, 'hysteresis_pressure'>
+>[] = [
+  {
+    field: 'temperature',
+    label: 'Temperature',
+    unit: '°C',
+    minSetting: 'expected_temp_min',
+    maxSetting: 'expected_temp_max',
+    hysteresisSetting: 'hysteresis_temp',
+    highType: 'TEMP_HIGH',
+    lowType: 'TEMP_LOW',
+  },
+  {
+    field: 'relative_humidity',
+    label: 'Humidity',
+    unit: '%',
+    minSetting: 'expected_humidity_min',
+    maxSetting: 'expected_humidity_max',
+    hysteresisSetting: 'hysteresis_humidity',
+    highType: 'HUMIDITY_HIGH',
+    lowType: 'HUMIDITY_LOW',
+  },
+  {
+    field: 'co2',
+    label: 'CO2',
+    unit: 'ppm',
+    minSetting: 'expected_co2_min',
+    maxSetting: 'expected_co2_max',
+    hysteresisSetting: 'hysteresis_co2',
+    highType: 'CO2_HIGH',
+    lowType: 'CO2_LOW',
+  },
+]
+
+/**
+ * SCADA substations (scada_measurements)
+ */
+export const SCADA_RANGE_RULES: RangeRule<
+  't_amb' | 'e',
+  'expected_temp_min' | 'expected_temp_max' | 'expected_pressure_min' | 'expected_pressure_max',
+  'hysteresis_temp' | 'hysteresis_pressure'
+>[] = [
+  {
+    field: 't_amb',
+    label: 'Temperature',
+    unit: '°C',
+    minSetting: 'expected_temp_min',
+    maxSetting: 'expected_temp_max',
+    hysteresisSetting: 'hysteresis_temp',
+    highType: 'TEMP_HIGH',
+    lowType: 'TEMP_LOW',
+  },
+  {
+    field: 'e',
+    label: 'Pressure',
+    unit: 'bar',
+    minSetting: 'expected_pressure_min',
+    maxSetting: 'expected_pressure_max',
+    hysteresisSetting: 'hysteresis_pressure',
+    highType: 'PRESSURE_HIGH',
+    lowType: 'PRESSURE_LOW',
+  },
+]
@@ -0,0 +1,72 @@
+/**
+ * Alert Text
+ *
+ * PURPOSE:
+ * - One-line, human-readable description of an alert, shared by the alert
+ *   dropdown, the notifications page, toasts and alert emails
+ *
+ * NOTE: This file must stay free of server-only imports (Prisma) so that
+ * client components can use it.
+ */
+
+import type { Alert } from '@/lib/generated/prisma'
+
+export type AlertTextLike = Pick<
+  Alert,
+  'alert_type' | 'apartment_name' | 'location' | 'measured_value' | 'threshold_value' | 'unit'
+>
+
+/**
+ * Generate Human-Readable Alert Text
+ *
+ * FORMAT:
+ * - "{location/apartment}: {metric} too {high/low} ({value} {comparison} {threshold})"
+ *
+ * EXAMPLES:
+ * - "L8_33_67: Temperature too high (28.5°C > 26.0°C)"
+ * - "L8: Pressure too low (1.2bar < 1.5bar)"
+ * - "WeatherStation1: Wind gusts too high (72.0km/h > 60.0km/h)"
+ * - "L8_33_67: Temperature falling fast (4.2°C/h > 3.0°C/h)" (TEMP_RAPID_DROP / BAROMETRIC_DROP)
+ * - "L8_33_67: No data for over 60 min" (DATA_STALE)
+ */
+export function getAlertText(alert: AlertTextLike): string {
+  // Determine location/device display name
+  const location = alert.apartment_name || alert.location || 'Unknown'
+
+  // Stale data and rate alerts don't fit the "too high/low" template
+  if (alert.alert_type === 'DATA_STALE') {
+    return `${location}: No data for over ${alert.threshold_value.toFixed(0)} min`
+  }
+  if (alert.alert_type === 'SUPPLY_DEVIATION') {
+    return `${location}: Secondary supply off reference by ${alert.measured_value.toFixed(1)}${alert.unit} (tolerance ${alert.threshold_value.toFixed(1)}${alert.unit})`
+  }
+  if (alert.alert_type === 'RETURN_ABOVE_SUPPLY') {
+    return `${location}: Return warmer than supply (by ${alert.measured_value.toFixed(1)}${alert.unit})`
+  }
+  if (alert.alert_type === 'TEMP_RAPID_DROP' || alert.alert_type === 'BAROMETRIC_DROP') {
+    const isTemp = alert.alert_type === 'TEMP_RAPID_DROP'
+    const digits = isTemp ? 1 : 2
+    return `${location}: ${isTemp ? 'Temperature' : 'Barometric pressure'} falling fast (${alert.measured_value.toFixed(digits)}${alert.unit} > ${alert.threshold_value.toFixed(digits)}${alert.unit})`
+  }
+
+  // Determine metric name
+  let metric = ''
+  if (alert.alert_type.includes('TEMP')) metric = 'Temperature'
+  else if (alert.alert_type.includes('PRESSURE')) metric = 'Pressure'
+  else if (alert.alert_type.includes('HUMIDITY')) metric = 'Humidity'
+  else if (alert.alert_type.includes('CO2')) metric = 'CO2'
+  else if (alert.alert_type.includes('DELTA_T')) metric = 'Primary delta-T'
+  else if (alert.alert_type === 'FROST') metric = 'Outdoor temperature'
+  else if (alert.alert_type.includes('WIND_GUST')) metric = 'Wind gusts'
+  else if (alert.alert_type.includes('RAIN_RATE')) metric = 'Rain rate'
+
+  // Determine direction
+  const direction = alert.alert_type.includes('HIGH') ? 'too high' : 'too low'
+  const comparison = alert.alert_type.includes('HIGH') ? '>' : '<'
+
+  // Format values with unit
+  const measuredValue = `${alert.measured_value.toFixed(1)}${alert.unit}`
+  const thresholdValue = `${alert.threshold_value.toFixed(1)}${alert.unit}`
+
+  return `${location}: ${metric} ${direction} (${measuredValue} ${comparison} ${thresholdValue})`
+}
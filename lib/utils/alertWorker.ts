@@ -0,0 +1,235 @@
+/**
+ * Alert Worker Utility
+ *
+ * PURPOSE:
+ * - Evaluate every new measurement row against every user's thresholds,
+ *   no matter how the row got into the database (IoT pipelines insert
+ *   directly; the API POST routes only evaluate for the posting user)
+ * - Retry Realtime broadcasts and webhook deliveries that failed
+ * - Send due email digests
+ *
+ * WORKFLOW (one cycle, see runAlertWorkerCycle):
+ * 1. Load all UserSettings
+ * 2. Per measurement table: read rows inserted after the persisted cursor
+ *    (AlertWorkerCursor), in insertion order, in batches
+ * 3. Each row → registered where the table has a registry (Thermionix
+ *    hubs and probes, SCADA lamelas), then evaluate*Measurement(row,
+ *    settings) for every user
+ * 4. Cursor advances after every fully evaluated insertion time
+ * 5. retryPendingBroadcasts() and retryWebhookDeliveries()
+ * 6. runEmailDigests()
+ *
+ * CURSOR:
+ * - Keyed by the rows' inserted_at, not their measurement datetime - gateway
+ *   backfills and batched uploads with old datetimes are evaluated too
+ * - No cursor yet → starts WORKER_FIRST_RUN_LOOKBACK_MS back, so rows that
+ *   came in shortly before the worker first ran are evaluated; older
+ *   history is not re-alerted (scripts/backfill-inserted-at.sql dates rows
+ *   from before the column by their measurement time)
+ * - Rows sharing the batch's last inserted_at (one multi-row INSERT) are
+ *   always read together, so a batch boundary can't split them
+ *
+ * DUPLICATES:
+ * - Rows posted through the API are evaluated a second time here for the
+ *   posting user; createAndBroadcastAlert() updates the open alert instead
+ *   of creating another one
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+  evaluateScadaMeasurement,
+  evaluateThermionixMeasurement,
+  evaluateWeatherlinkMeasurement,
+  retryPendingBroadcasts,
+} from '@/lib/utils/alertDetection'
+import { registerMeasurementProbe } from '@/lib/utils/deviceRegistry'
+import { registerScadaLocation } from '@/lib/utils/locationHierarchy'
+import { retryWebhookDeliveries } from '@/lib/utils/webhooks'
+import { runEmailDigests, type EmailDigestRunResult } from '@/lib/utils/alertEmails'
+import type {
+  AlertSource,
+  UserSettings,
+  scada_measurements,
+  thermionyx_measurements,
+  weatherlink_measurements,
+} from '@/lib/generated/prisma'
+
+/**
+ * Rows read per table per query - large enough to catch up quickly after
+ * downtime, small enough to keep each cycle's memory use flat
+ */
+export const WORKER_BATCH_SIZE = 500
+
+/**
+ * How far back the first run of a table starts - about one reporting
+ * interval of the slowest source, plus slack for a late deploy
+ */
+export const WORKER_FIRST_RUN_LOOKBACK_MS = 60 * 60 * 1000
+
+export type AlertWorkerCycleResult = {
+  evaluated: Record<AlertSource, number>
+  broadcasts: { delivered: number; failed: number }
+  webhooks: { delivered: number; failed: number }
+  digests: EmailDigestRunResult
+}
+
+type InsertedAtFilter = { gt: Date } | Date
+
+type MeasurementRow = { inserted_at: Date }
+
+type MeasurementTable<Row extends MeasurementRow> = {
+  source: AlertSource
+  load: (insertedAt: InsertedAtFilter, take?: number) => Promise<Row[]>
+  register?: (row: Row) => Promise<void>
+  evaluate: (row: Row, settings: UserSettings) => Promise<void>
+}
+
+const THERMIONIX_TABLE: MeasurementTable<thermionyx_measurements> = {
+  source: 'THERMIONIX',
+  load: (inserted_at, take) =>
+    prisma.thermionyx_measurements.findMany({
+      where: { inserted_at },
+      orderBy: [{ inserted_at: 'asc' }, { datetime: 'asc' }],
+      take,
+    }),
+  register: registerMeasurementProbe,
+  evaluate: evaluateThermionixMeasurement,
+}
+
+const SCADA_TABLE: MeasurementTable<scada_measurements> = {
+  source: 'SCADA',
+  load: (inserted_at, take) =>
+    prisma.scada_measurements.findMany({
+      where: { inserted_at },
+      orderBy: [{ inserted_at: 'asc' }, { datetime: 'asc' }],
+      take,
+    }),
+  register: (row) => registerScadaLocation(row.location),
+  evaluate: evaluateScadaMeasurement,
+}
+
+const WEATHERLINK_TABLE: MeasurementTable<weatherlink_measurements> = {
+  source: 'WEATHERLINK',
+  load: (inserted_at, take) =>
+    prisma.weatherlink_measurements.findMany({
+      where: { inserted_at },
+      orderBy: [{ inserted_at: 'asc' }, { datetime: 'asc' }],
+      take,
+    }),
+  evaluate: evaluateWeatherlinkMeasurement,
+}
+
+/**
+ * Load Cursor for a Table, Creating It WORKER_FIRST_RUN_LOOKBACK_MS Before
+ * `now` on First Run
+ */
+async function getCursor(source: AlertSource, now: Date): Promise<Date> {
+  const cursor = await prisma.alertWorkerCursor.upsert({
+    where: { source },
+    update: {},
+    create: { source, last_inserted_at: new Date(now.getTime() - WORKER_FIRST_RUN_LOOKBACK_MS) },
+  })
+  return cursor.last_inserted_at
+}
+
+async function saveCursor(source: AlertSource, lastInsertedAt: Date): Promise<void> {
+  await prisma.alertWorkerCursor.update({
+    where: { source },
+    data: { last_inserted_at: lastInsertedAt },
+  })
+}
+
+/**
+ * Next Batch After the Cursor
+ *
+ * COMMENT: When the batch is full, its last inserted_at may continue beyond
+ * the take limit - those rows are dropped and re-read in full
+ */
+async function loadBatch<Row extends MeasurementRow>(
+  table: MeasurementTable<Row>,
+  after: Date
+): Promise<Row[]> {
+  const rows = await table.load({ gt: after }, WORKER_BATCH_SIZE)
+  if (rows.length < WORKER_BATCH_SIZE) return rows
+
+  const lastInsertedAt = rows[rows.length - 1].inserted_at
+  const sameInsert = await table.load(lastInsertedAt)
+
+  return [
+    ...rows.filter((row) => row.inserted_at.getTime() < lastInsertedAt.getTime()),
+    ...sameInsert,
+  ]
+}
+
+/**
+ * Evaluate All New Rows of One Table
+ *
+ * ERROR HANDLING:
+ * - The cursor is saved up to the last inserted_at whose rows were all
+ *   evaluated, then the error is rethrown - the next cycle resumes there
+ */
+async function processTable<Row extends MeasurementRow>(
+  table: MeasurementTable<Row>,
+  settings: UserSettings[],
+  now: Date
+): Promise<number> {
+  let cursor = await getCursor(table.source, now)
+  let evaluated = 0
+
+  while (true) {
+    const rows = await loadBatch(table, cursor)
+    if (rows.length === 0) break
+
+    let processedThrough = cursor
+    try {
+      for (let i = 0; i < rows.length; i++) {
+        // COMMENT: A new inserted_at means every row of the previous one is done
+        if (i > 0 && rows[i].inserted_at.getTime() > rows[i - 1].inserted_at.getTime()) {
+          processedThrough = rows[i - 1].inserted_at
+        }
+
+        await table.register?.(rows[i])
+        for (const userSettings of settings) {
+          await table.evaluate(rows[i], userSettings)
+        }
+        evaluated++
+      }
+      processedThrough = rows[rows.length - 1].inserted_at
+    } finally {
+      if (processedThrough.getTime() > cursor.getTime()) {
+        await saveCursor(table.source, processedThrough)
+      }
+    }
+
+    cursor = processedThrough
+  }
+
+  return evaluated
+}
+
+/**
+ * Run One Worker Cycle
+ *
+ * @param now - Reference time for first-run cursors and digest scheduling (defaults to current time)
+ * @returns Counts for logging by the caller
+ */
+export async function runAlertWorkerCycle(now: Date = new Date()): Promise<AlertWorkerCycleResult> {
+  // STEP 1: Every user's thresholds are evaluated
+  const settings = await prisma.userSettings.findMany()
+
+  // STEP 2: New rows per table
+  const evaluated: Record<AlertSource, number> = {
+    THERMIONIX: await processTable(THERMIONIX_TABLE, settings, now),
+    SCADA: await processTable(SCADA_TABLE, settings, now),
+    WEATHERLINK: await processTable(WEATHERLINK_TABLE, settings, now),
+  }
+
+  // STEP 3: Broadcasts and webhook deliveries that failed earlier
+  const broadcasts = await retryPendingBroadcasts()
+  const webhooks = await retryWebhookDeliveries()
+
+  // STEP 4: Hourly/daily email digests
+  const digests = await runEmailDigests(now)
+
+  return { evaluated, broadcasts, webhooks, digests }
+}
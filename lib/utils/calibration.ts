@@ -0,0 +1,95 @@
+/**
+ * Sensor Calibration Utilities
+ *
+ * PURPOSE:
+ * - Apply per-device linear calibrations (SensorCalibration) to Thermionix
+ *   readings at query time: calibrated = raw * gain + offset
+ * - Shared by /api/thermionix, dashboard stats, alert detection and the
+ *   Thermionix page (realtime rows arrive raw)
+ *
+ * VALIDITY:
+ * - A calibration covers readings in [valid_from, valid_to), valid_to null = open-ended
+ * - Several matching calibrations: the latest valid_from wins
+ *
+ * NOTE: This file must stay free of server-only imports (Prisma) so that
+ * client components can use it.
+ */
+
+import type { CalibrationMetric } from '@/lib/generated/prisma'
+
+export type CalibratedField = 'temperature' | 'relative_humidity' | 'co2'
+
+export const CALIBRATION_FIELDS: Record<CalibrationMetric, CalibratedField> = {
+  TEMPERATURE: 'temperature',
+  HUMIDITY: 'relative_humidity',
+  CO2: 'co2',
+}
+
+export const CALIBRATION_UNITS: Record<CalibrationMetric, string> = {
+  TEMPERATURE: '°C',
+  HUMIDITY: '%',
+  CO2: 'ppm',
+}
+
+/**
+ * Minimal shape of a SensorCalibration row (matches the Prisma model and the
+ * JSON returned by the API, where dates are strings)
+ */
+export type CalibrationLike = {
+  metric: CalibrationMetric
+  offset: number
+  gain: number
+  valid_from: Date | string
+  valid_to: Date | string | null
+}
+
+type CalibratableReading = {
+  datetime: Date | string
+} & Record<CalibratedField, number | null>
+
+const toTime = (value: Date | string) => new Date(value).getTime()
+
+/**
+ * The calibration of one metric that applies at a given time, or null
+ */
+export function findCalibration<T extends CalibrationLike>(
+  calibrations: T[],
+  metric: CalibrationMetric,
+  at: Date | string
+): T | null {
+  const time = toTime(at)
+  let match: T | null = null
+
+  for (const calibration of calibrations) {
+    if (calibration.metric !== metric) continue
+    if (toTime(calibration.valid_from) > time) continue
+    if (calibration.valid_to !== null && toTime(calibration.valid_to) <= time) continue
+    if (!match || toTime(calibration.valid_from) > toTime(match.valid_from)) {
+      match = calibration
+    }
+  }
+
+  return match
+}
+
+/**
+ * raw * gain + offset (null stays null)
+ */
+export function calibrateValue(value: number | null, calibration: CalibrationLike | null): number | null {
+  if (value === null || !calibration) return value
+  return value * calibration.gain + calibration.offset
+}
+
+/**
+ * Copy of a reading with temperature, humidity and CO2 calibrated for its datetime
+ */
+export function calibrateReading<T extends CalibratableReading>(reading: T, calibrations: CalibrationLike[]): T {
+  if (calibrations.length === 0) return reading
+
+  const calibrated = { ...reading }
+  for (const metric of Object.keys(CALIBRATION_FIELDS) as CalibrationMetric[]) {
+    const field = CALIBRATION_FIELDS[metric]
+    calibrated[field] = calibrateValue(reading[field], findCalibration(calibrations, metric, reading.datetime)) as T[CalibratedField]
+  }
+  return calibrated
+}
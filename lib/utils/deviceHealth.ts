@@ -0,0 +1,233 @@
+/**
+ * Device Health & Data Quality
+ *
+ * PURPOSE:
+ * - Which probes are healthy? Aggregates thermionyx_measurements per
+ *   probe_id for every Device (GET /api/devices/health, /dashboard/devices/health)
+ *
+ * METRICS (readings of the last 7 days unless noted):
+ * - Last reading: Latest measurement ever received
+ * - Reporting rate: Readings vs. expected readings (one per
+ *   EXPECTED_INTERVAL_MINUTES) over 24h and 7d, in percent
+ * - Gaps: Pauses between two readings longer than GAP_AFTER_MINUTES
+ * - Per sensor the probe has (temperature / humidity / CO2):
+ *   - % of readings where the value is null
+ *   - Readings outside the physically possible range (PHYSICAL_RANGES)
+ *   - Flatline: the same value for every reading of the last 24h
+ *
+ * STATUS:
+ * - offline: Nothing for longer than the stale data sweep allows
+ * - degraded: Low reporting rate, flatline, impossible values or many nulls
+ * - healthy: Everything else
+ *
+ * Decommissioned devices are expected to be silent and are left out.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { STALE_AFTER_MINUTES } from '@/lib/utils/staleDataDetection'
+
+export type HealthMetric = 'temperature' | 'relative_humidity' | 'co2'
+
+export type DeviceHealthStatus = 'healthy' | 'degraded' | 'offline'
+
+// COMMENT: Thermionix probes report every ~15 min
+export const EXPECTED_INTERVAL_MINUTES = 15
+
+// COMMENT: At least one reading missed, with some slack for upload jitter
+export const GAP_AFTER_MINUTES = 40
+
+// COMMENT: Flatline needs a few hours of readings - two identical values mean nothing
+export const FLATLINE_MIN_READINGS = 12
+
+/**
+ * Values a working sensor can't produce (sensor limits, not comfort ranges)
+ */
+export const PHYSICAL_RANGES: Record<HealthMetric, { min: number; max: number }> = {
+  temperature: { min: -40, max: 85 },
+  relative_humidity: { min: 0, max: 100 },
+  co2: { min: 250, max: 10000 },
+}
+
+// COMMENT: Below this reporting rate (24h) or above this null share a probe is degraded
+const DEGRADED_RATE_PERCENT = 80
+const DEGRADED_NULL_PERCENT = 10
+
+export type MetricQuality = {
+  null_percent: number | null // null without readings in the last 7 days
+  out_of_range: number
+  flatline: boolean
+}
+
+export type DeviceHealth = {
+  device_id: string
+  name: string | null
+  location: string | null
+  probe_id: number | null // null for devices that aren't probes
+  last_reading: string | null
+  readings_24h: number
+  readings_7d: number
+  reporting_rate_24h: number // percent of expected readings
+  reporting_rate_7d: number
+  gap_count: number
+  longest_gap_minutes: number | null
+  metrics: Partial<Record<HealthMetric, MetricQuality>> // only the probe's sensors
+  issues: string[]
+  status: DeviceHealthStatus
+}
+
+type ProbeQualityRow = {
+  probe_id: number
+  readings_24h: number
+  readings_7d: number
+  gap_count: number
+  longest_gap_minutes: number | null
+} & Record<`${HealthMetric}_nulls` | `${HealthMetric}_out_of_range` | `${HealthMetric}_count_24h`, number>
+  & Record<`${HealthMetric}_flat`, boolean | null>
+
+const METRIC_LABELS: Record<HealthMetric, string> = {
+  temperature: 'Temperature',
+  relative_humidity: 'Humidity',
+  co2: 'CO2',
+}
+
+const toPercent = (part: number, whole: number) =>
+  Math.round((part / whole) * 1000) / 10
+
+/**
+ * Health of every active Device
+ *
+ * @param now - Reference time (defaults to current time)
+ */
+export async function getDeviceHealth(now: Date = new Date()): Promise<DeviceHealth[]> {
+  const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000)
+  const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
+  const { temperature, relative_humidity, co2 } = PHYSICAL_RANGES
+
+  const [devices, lastReadings, qualityRows] = await Promise.all([
+    prisma.device.findMany({
+      where: { decommissioned_at: null },
+      select: {
+        device_id: true,
+        name: true,
+        location: true,
+        probe: { select: { has_temperature: true, has_humidity: true, has_co2: true } },
+      },
+    }),
+    prisma.thermionyx_measurements.groupBy({
+      by: ['probe_id'],
+      _max: { datetime: true },
+    }),
+    // COMMENT: gap_minutes is the pause before each reading (LAG over the
+    // probe's readings), null for the first one in the window
+    prisma.$queryRaw<ProbeQualityRow[]>`
+      WITH recent AS (
+        SELECT
+          probe_id, datetime, temperature, relative_humidity, co2,
+          EXTRACT(EPOCH FROM (datetime - LAG(datetime) OVER (PARTITION BY probe_id ORDER BY datetime))) / 60 AS gap_minutes
+        FROM "xai4heat_db"."thermionyx_measurements"
+        WHERE datetime >= ${weekAgo} AND datetime <= ${now}
+      )
+      SELECT
+        probe_id,
+        COUNT(*) FILTER (WHERE datetime >= ${dayAgo})::int AS readings_24h,
+        COUNT(*)::int AS readings_7d,
+        COUNT(*) FILTER (WHERE gap_minutes > ${GAP_AFTER_MINUTES})::int AS gap_count,
+        MAX(gap_minutes)::float AS longest_gap_minutes,
+
+        COUNT(*) FILTER (WHERE temperature IS NULL)::int AS temperature_nulls,
+        COUNT(*) FILTER (WHERE temperature < ${temperature.min} OR temperature > ${temperature.max})::int AS temperature_out_of_range,
+        COUNT(temperature) FILTER (WHERE datetime >= ${dayAgo})::int AS temperature_count_24h,
+        MIN(temperature) FILTER (WHERE datetime >= ${dayAgo}) = MAX(temperature) FILTER (WHERE datetime >= ${dayAgo}) AS temperature_flat,
+
+        COUNT(*) FILTER (WHERE relative_humidity IS NULL)::int AS relative_humidity_nulls,
+        COUNT(*) FILTER (WHERE relative_humidity < ${relative_humidity.min} OR relative_humidity > ${relative_humidity.max})::int AS relative_humidity_out_of_range,
+        COUNT(relative_humidity) FILTER (WHERE datetime >= ${dayAgo})::int AS relative_humidity_count_24h,
+        MIN(relative_humidity) FILTER (WHERE datetime >= ${dayAgo}) = MAX(relative_humidity) FILTER (WHERE datetime >= ${dayAgo}) AS relative_humidity_flat,
+
+        COUNT(*) FILTER (WHERE co2 IS NULL)::int AS co2_nulls,
+        COUNT(*) FILTER (WHERE co2 < ${co2.min} OR co2 > ${co2.max})::int AS co2_out_of_range,
+        COUNT(co2) FILTER (WHERE datetime >= ${dayAgo})::int AS co2_count_24h,
+        MIN(co2) FILTER (WHERE datetime >= ${dayAgo}) = MAX(co2) FILTER (WHERE datetime >= ${dayAgo}) AS co2_flat
+      FROM recent
+      GROUP BY probe_id
+    `,
+  ])
+
+  const lastByProbe = new Map(lastReadings.map((row) => [row.probe_id, row._max.datetime]))
+  const qualityByProbe = new Map(qualityRows.map((row) => [row.probe_id, row]))
+
+  const expected24h = (24 * 60) / EXPECTED_INTERVAL_MINUTES
+  const expected7d = 7 * expected24h
+
+  return devices
+    .map((device): DeviceHealth => {
+      // COMMENT: Device.device_id is the probe ID as a string
+      const probeId = /^\d+$/.test(device.device_id) ? parseInt(device.device_id, 10) : null
+      const lastReading = probeId !== null ? lastByProbe.get(probeId) ?? null : null
+      const quality = probeId !== null ? qualityByProbe.get(probeId) : undefined
+
+      // COMMENT: Probes without registry capabilities are checked for all sensors
+      const sensors: HealthMetric[] = device.probe
+        ? [
+            ...(device.probe.has_temperature ? ['temperature' as const] : []),
+            ...(device.probe.has_humidity ? ['relative_humidity' as const] : []),
+            ...(device.probe.has_co2 ? ['co2' as const] : []),
+          ]
+        : ['temperature', 'relative_humidity', 'co2']
+
+      const readings24h = quality?.readings_24h ?? 0
+      const readings7d = quality?.readings_7d ?? 0
+      const issues: string[] = []
+
+      const metrics: DeviceHealth['metrics'] = {}
+      for (const metric of sensors) {
+        const nullPercent = readings7d > 0 && quality ? toPercent(quality[`${metric}_nulls`], readings7d) : null
+        const outOfRange = quality?.[`${metric}_out_of_range`] ?? 0
+        const flatline = !!quality &&
+          quality[`${metric}_count_24h`] >= FLATLINE_MIN_READINGS &&
+          quality[`${metric}_flat`] === true
+
+        if (nullPercent !== null && nullPercent > DEGRADED_NULL_PERCENT) {
+          issues.push(`${METRIC_LABELS[metric]} missing in ${nullPercent}% of readings`)
+        }
+        if (outOfRange > 0) {
+          issues.push(`${METRIC_LABELS[metric]} out of physical range (${outOfRange}×)`)
+        }
+        if (flatline) {
+          issues.push(`${METRIC_LABELS[metric]} flatlined for 24h`)
+        }
+
+        metrics[metric] = { null_percent: nullPercent, out_of_range: outOfRange, flatline }
+      }
+
+      const reportingRate24h = Math.min(100, toPercent(readings24h, expected24h))
+      const minutesSilent = lastReading ? (now.getTime() - lastReading.getTime()) / (60 * 1000) : null
+      const isOffline = minutesSilent === null || minutesSilent > STALE_AFTER_MINUTES.THERMIONIX
+
+      if (isOffline) {
+        issues.unshift(lastReading ? 'No recent readings' : 'Never reported')
+      } else if (reportingRate24h < DEGRADED_RATE_PERCENT) {
+        issues.unshift(`Low reporting rate (${reportingRate24h}% in 24h)`)
+      }
+
+      return {
+        device_id: device.device_id,
+        name: device.name,
+        location: device.location,
+        probe_id: probeId,
+        last_reading: lastReading ? lastReading.toISOString() : null,
+        readings_24h: readings24h,
+        readings_7d: readings7d,
+        reporting_rate_24h: reportingRate24h,
+        reporting_rate_7d: Math.min(100, toPercent(readings7d, expected7d)),
+        gap_count: quality?.gap_count ?? 0,
+        longest_gap_minutes: quality?.longest_gap_minutes != null
+          ? Math.round(Number(quality.longest_gap_minutes))
+          : null,
+        metrics,
+        issues,
+        status: isOffline ? 'offline' : issues.length > 0 ? 'degraded' : 'healthy',
+      }
+    })
+    .sort((a, b) => (a.name || a.device_id).localeCompare(b.name || b.device_id, undefined, { numeric: true }))
+}
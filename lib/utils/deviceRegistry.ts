@@ -0,0 +1,237 @@
+/**
+ * Device Registry Utilities
+ *
+ * PURPOSE:
+ * - Resolve Thermionix measurements through Hub / Probe / Apartment
+ *   instead of naming conventions ("L8_53_12" + "L8_53_12_CO2")
+ * - Register hubs and probes as their measurements arrive
+ * - Backfill the registry from the existing devices and measurements
+ *
+ * IDS (see the Device Registry models in schema.prisma):
+ * - Hub.id = thermionyx_measurements.device_id
+ * - Probe.id = thermionyx_measurements.probe_id = Device.device_id (as number)
+ */
+
+import { prisma } from '@/lib/prisma'
+import { parseDeviceName } from './deviceParsing'
+import { upsertApartmentHierarchy } from './locationHierarchy'
+import type { Prisma, thermionyx_measurements } from '@/lib/generated/prisma'
+
+export type BackfillResult = {
+  hubs: number
+  probes: number
+  apartments: number
+  unparsed: string[] // Device names that don't look like "L8_53_12"
+}
+
+const apartmentWithProbes = {
+  include: {
+    building: {
+      select: { code: true, number: true, lamela: { select: { code: true } } },
+    },
+    probes: {
+      select: {
+        id: true,
+        hub_id: true,
+        device_id: true,
+        has_temperature: true,
+        has_humidity: true,
+        has_co2: true,
+      },
+      orderBy: { id: 'asc' },
+    },
+  },
+} satisfies Prisma.ApartmentDefaultArgs
+
+export type ApartmentWithProbes = Prisma.ApartmentGetPayload<typeof apartmentWithProbes>
+
+/**
+ * All apartments with their probes, ordered lamela → building → apartment
+ */
+export async function getApartmentsWithProbes(): Promise<ApartmentWithProbes[]> {
+  const apartments = await prisma.apartment.findMany(apartmentWithProbes)
+
+  // COMMENT: "L8_53_12" compared numerically is lamela → building → apartment
+  // order, and also covers apartments not yet linked to a building
+  return apartments.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+}
+
+/**
+ * WHERE clause for one probe's measurements
+ *
+ * COMMENT: With the hub known the query matches the full measurement key
+ * (device_id + probe_id); unregistered probes fall back to probe_id alone
+ */
+export async function getProbeMeasurementWhere(
+  probeId: number
+): Promise<{ where: Prisma.thermionyx_measurementsWhereInput; hubId: number | null }> {
+  const probe = await prisma.probe.findUnique({
+    where: { id: probeId },
+    select: { hub_id: true },
+  })
+
+  const hubId = probe?.hub_id ?? null
+
+  return {
+    where: hubId !== null ? { device_id: hubId, probe_id: probeId } : { probe_id: probeId },
+    hubId,
+  }
+}
+
+/**
+ * linkDeviceToRegistry - Probe (and apartment) for one Device row
+ *
+ * WHEN: Backfill, and whenever a device is created or renamed via /api/devices
+ *
+ * - Probe id = device_id (devices with non-numeric IDs aren't probes)
+ * - Apartment parsed from the name ("L8_53_12_CO2" → apartment "L8_53_12"),
+ *   with its lamela and building
+ * - Capabilities from the name only while the probe hasn't reported (no
+ *   hub yet) - the backfill sets them from the measurements
+ *
+ * @returns false when the device couldn't be linked (ID or name unexpected)
+ */
+export async function linkDeviceToRegistry(device: { device_id: string; name: string | null }): Promise<boolean> {
+  const probeId = parseInt(device.device_id, 10)
+  if (isNaN(probeId) || probeId.toString() !== device.device_id) return false
+
+  const existing = await prisma.probe.findUnique({
+    where: { id: probeId },
+    select: { hub_id: true },
+  })
+  const hasReported = existing?.hub_id != null
+
+  const isCo2 = !!device.name?.endsWith('_CO2')
+  const parsed = parseDeviceName(device.name?.replace(/_CO2$/, ''))
+  const apartmentId = parsed ? await upsertApartmentHierarchy(parsed) : null
+
+  const fallbackCapabilities = hasReported
+    ? {}
+    : { has_temperature: !isCo2, has_humidity: !isCo2, has_co2: isCo2 }
+
+  await prisma.probe.upsert({
+    where: { id: probeId },
+    create: { id: probeId, device_id: device.device_id, apartment_id: apartmentId, ...fallbackCapabilities },
+    update: { device_id: device.device_id, apartment_id: apartmentId, ...fallbackCapabilities },
+  })
+
+  return apartmentId !== null
+}
+
+/**
+ * Hub + probe + capabilities already registered by this process
+ * ("hub:probe:flags"), so steady ingestion doesn't query the registry for
+ * every row
+ */
+const registeredProbes = new Set<string>()
+
+/**
+ * registerMeasurementProbe - Hub and probe for an incoming measurement
+ *
+ * WHEN: Every Thermionix row, from POST /api/thermionix and the alert
+ * worker (rows inserted directly by the gateways)
+ *
+ * - Hub (id = device_id) and Probe (id = probe_id) are created on first sight
+ * - Capabilities are only ever switched on: a value in the row means the
+ *   probe measures it
+ * - A probe without an apartment is linked through its Device row, if one
+ *   exists (see linkDeviceToRegistry)
+ */
+export async function registerMeasurementProbe(
+  measurement: Pick<thermionyx_measurements, 'device_id' | 'probe_id' | 'temperature' | 'relative_humidity' | 'co2'>
+): Promise<void> {
+  const capabilities = {
+    ...(measurement.temperature !== null && { has_temperature: true }),
+    ...(measurement.relative_humidity !== null && { has_humidity: true }),
+    ...(measurement.co2 !== null && { has_co2: true }),
+  }
+
+  const key = `${measurement.device_id}:${measurement.probe_id}:${Object.keys(capabilities).join(',')}`
+  if (registeredProbes.has(key)) return
+
+  await prisma.hub.upsert({
+    where: { id: measurement.device_id },
+    create: { id: measurement.device_id },
+    update: {},
+  })
+
+  const probe = await prisma.probe.upsert({
+    where: { id: measurement.probe_id },
+    create: { id: measurement.probe_id, hub_id: measurement.device_id, ...capabilities },
+    update: { hub_id: measurement.device_id, ...capabilities },
+    select: { apartment_id: true },
+  })
+
+  if (!probe.apartment_id) {
+    const device = await prisma.device.findUnique({
+      where: { device_id: measurement.probe_id.toString() },
+      select: { device_id: true, name: true },
+    })
+    if (device) await linkDeviceToRegistry(device)
+  }
+
+  registeredProbes.add(key)
+}
+
+/**
+ * backfillDeviceRegistry - Create hubs, probes and apartments from existing data
+ *
+ * HOW IT WORKS:
+ * 1. Every (device_id, probe_id) pair in thermionyx_measurements → Hub + Probe,
+ *    capabilities from which values the probe has ever reported
+ * 2. Every Device → Probe (id = device_id) linked to the Apartment parsed from
+ *    its name ("L8_53_12_CO2" → apartment "L8_53_12"), creating its lamela
+ *    and building on the way (location hierarchy)
+ * 3. Probes without measurements get capabilities from the name (CO2 suffix)
+ *    (see linkDeviceToRegistry)
+ *
+ * Safe to run repeatedly - existing rows are updated, manual hub names and
+ * descriptions are kept.
+ */
+export async function backfillDeviceRegistry(): Promise<BackfillResult> {
+  const result: BackfillResult = { hubs: 0, probes: 0, apartments: 0, unparsed: [] }
+
+  // STEP 1: Hubs and probes seen in measurements
+  // COMMENT: _count of a column counts its non-null values
+  const reported = await prisma.thermionyx_measurements.groupBy({
+    by: ['device_id', 'probe_id'],
+    _count: { temperature: true, relative_humidity: true, co2: true },
+  })
+
+  const hubIds = [...new Set(reported.map((r) => r.device_id))]
+  for (const id of hubIds) {
+    await prisma.hub.upsert({ where: { id }, create: { id }, update: {} })
+  }
+  result.hubs = hubIds.length
+
+  for (const r of reported) {
+    const capabilities = {
+      hub_id: r.device_id,
+      has_temperature: r._count.temperature > 0,
+      has_humidity: r._count.relative_humidity > 0,
+      has_co2: r._count.co2 > 0,
+    }
+    await prisma.probe.upsert({
+      where: { id: r.probe_id },
+      create: { id: r.probe_id, ...capabilities },
+      update: capabilities,
+    })
+  }
+
+  // STEP 2: Devices → probes and apartments
+  const devices = await prisma.device.findMany({
+    select: { device_id: true, name: true },
+  })
+
+  for (const device of devices) {
+    const linked = await linkDeviceToRegistry(device)
+    if (!linked) {
+      result.unparsed.push(device.name || device.device_id)
+    }
+  }
+
+  result.apartments = await prisma.apartment.count()
+  result.probes = await prisma.probe.count()
+
+  return result
+}
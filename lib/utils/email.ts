@@ -0,0 +1,109 @@
+/**
+ * Email Utility
+ *
+ * PURPOSE:
+ * - Send email over SMTP (nodemailer)
+ * - Look up users' login emails and users by email (Supabase auth.users)
+ *
+ * CONFIGURATION (.env.local):
+ * - SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE ("true" for port 465)
+ * - SMTP_USER, SMTP_PASS (optional - local sinks usually need none)
+ * - EMAIL_FROM (default "xai4heat <alerts@localhost>")
+ *
+ * LOCAL TESTING:
+ * - Point SMTP_HOST/SMTP_PORT at a local SMTP sink, e.g. Mailpit
+ *   (`docker run -p 1025:1025 -p 8025:8025 axllent/mailpit`,
+ *   SMTP_HOST=localhost SMTP_PORT=1025) and read the mails at :8025
+ *
+ * Without SMTP_HOST nothing is sent - sendEmail() logs and returns false.
+ */
+
+import nodemailer, { type Transporter } from 'nodemailer'
+import { prisma } from '@/lib/prisma'
+
+let transporter: Transporter | null = null
+
+export function isEmailConfigured(): boolean {
+  return !!process.env.SMTP_HOST
+}
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    })
+  }
+  return transporter
+}
+
+/**
+ * Send One Email
+ *
+ * ERROR HANDLING:
+ * - Logs and returns false - callers decide whether to retry
+ */
+export async function sendEmail(message: {
+  to: string
+  subject: string
+  text: string
+  html: string
+}): Promise<boolean> {
+  if (!isEmailConfigured()) {
+    console.warn('[Email] SMTP_HOST not set, not sending:', message.subject)
+    return false
+  }
+
+  try {
+    await getTransporter().sendMail({
+      from: process.env.EMAIL_FROM || 'xai4heat <alerts@localhost>',
+      ...message,
+    })
+    console.log('[Email] Sent:', { to: message.to, subject: message.subject })
+    return true
+  } catch (error) {
+    console.error('[Email] Failed to send email:', error)
+    return false
+  }
+}
+
+/**
+ * Login Emails for a List of User IDs (Supabase auth.users)
+ */
+export async function getUserEmails(userIds: string[]): Promise<Map<string, string>> {
+  if (userIds.length === 0) return new Map()
+
+  const rows = await prisma.$queryRaw<{ id: string; email: string | null }[]>`
+    SELECT id::text AS id, email FROM auth.users WHERE id::text = ANY(${userIds})
+  `
+
+  return new Map(
+    rows.filter((row) => row.email).map((row) => [row.id, row.email as string])
+  )
+}
+
+/**
+ * App User for an Email Address (Supabase auth.users, case-insensitive)
+ */
+export async function findUserByEmail(email: string): Promise<{ id: string; email: string } | null> {
+  const rows = await prisma.$queryRaw<{ id: string; email: string }[]>`
+    SELECT id::text AS id, email FROM auth.users WHERE lower(email) = ${email.trim().toLowerCase()} LIMIT 1
+  `
+
+  return rows[0] || null
+}
+
+/**
+ * Escape text for use in HTML email bodies
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -0,0 +1,312 @@
+/**
+ * Incident Utilities
+ *
+ * PURPOSE:
+ * - Group related alerts into one incident, so a failed substation shows up
+ *   as one entry instead of an alert per apartment
+ * - Keep the incident timeline (IncidentEvent) up to date
+ *
+ * GROUPING:
+ * - Key: lamela - Thermionix alerts via parseDeviceName(apartment_name),
+ *   SCADA alerts via the lamela in their location ("L8")
+ * - A new alert joins the lamela's unresolved incident if one of its alerts
+ *   is still open, or it had an alert within INCIDENT_WINDOW_MINUTES -
+ *   otherwise it opens a new incident
+ * - WeatherLink alerts have no lamela and are never grouped
+ *
+ * WORKFLOW:
+ * 1. createAndBroadcastAlert() stores the alert, then calls syncAlertIncident()
+ * 2. resolveAndBroadcastAlerts() calls recordIncidentAlertResolved() - the
+ *    incident is resolved with its last alert
+ * 3. POST /api/incidents/[id]/acknowledge acknowledges the incident and all its
+ *    alerts; acknowledging the alerts one by one does the same via
+ *    syncIncidentAcknowledgement()
+ *
+ * ERROR HANDLING:
+ * - Logged, never thrown - grouping must not break alert detection
+ */
+
+import { prisma } from '@/lib/prisma'
+import { parseDeviceName } from '@/lib/utils/deviceParsing'
+import { maxSeverity } from '@/lib/utils/alertRules'
+import { logAlertActivity } from '@/lib/utils/alertActivity'
+import type { Alert, Incident, IncidentEventType } from '@/lib/generated/prisma'
+
+/**
+ * How long after its last alert an incident still takes new ones (while
+ * any of its alerts is open it takes them regardless)
+ */
+export const INCIDENT_WINDOW_MINUTES = 60
+
+export type IncidentGroup = {
+  lamela: string // "L8"
+  building: string | null // "L8_33" (Thermionix only)
+}
+
+/**
+ * Which Lamela (and Building) an Alert Belongs To
+ *
+ * EXAMPLES:
+ * - Thermionix { apartment_name: "L8_33_67" } → { lamela: "L8", building: "L8_33" }
+ * - Thermionix { apartment_name: "L8_33_67_CO2" } → CO2 probes count for their apartment
+ * - SCADA { location: "L8" } → { lamela: "L8", building: null }
+ * - WeatherLink → null
+ */
+export function getIncidentGroup(
+  alert: Pick<Alert, 'source' | 'apartment_name' | 'location'>
+): IncidentGroup | null {
+  if (alert.source === 'WEATHERLINK') return null
+
+  const parsed = parseDeviceName(alert.apartment_name?.replace(/_CO2$/, ''))
+  if (parsed) {
+    return { lamela: `L${parsed.lamela}`, building: `L${parsed.lamela}_${parsed.building}` }
+  }
+
+  // COMMENT: SCADA locations contain the lamela identifier somewhere in the string
+  const match = alert.location?.match(/L\d+/)
+  return match ? { lamela: match[0], building: null } : null
+}
+
+/**
+ * Timeline text for an alert, e.g. "L8_33_67 · TEMP_LOW · 16.2°C"
+ */
+function describeAlert(alert: Alert): string {
+  const location = alert.apartment_name || alert.location || 'Unknown'
+  return `${location} · ${alert.alert_type} · ${alert.measured_value.toFixed(1)}${alert.unit}`
+}
+
+function incidentEvent(type: IncidentEventType, alert: Alert | null, message: string) {
+  return { type, alert_id: alert?.id ?? null, message }
+}
+
+/**
+ * Attach an Alert to its Incident (or Raise the Incident's Severity)
+ *
+ * WHEN: After every create/update in createAndBroadcastAlert()
+ *
+ * - Alert already in an incident → only follows severity changes
+ * - Otherwise → joins the lamela's current incident or opens a new one
+ *
+ * @returns The alert with incident_id set (unchanged if it can't be grouped)
+ */
+export async function syncAlertIncident(alert: Alert): Promise<Alert> {
+  try {
+    if (alert.incident_id) {
+      const incident = await prisma.incident.findUnique({ where: { id: alert.incident_id } })
+      if (incident && !incident.resolved_at && maxSeverity(incident.severity, alert.severity) !== incident.severity) {
+        await prisma.incident.update({
+          where: { id: incident.id },
+          data: {
+            severity: alert.severity,
+            events: {
+              create: incidentEvent('SEVERITY_RAISED', alert, `${incident.severity} → ${alert.severity}: ${describeAlert(alert)}`),
+            },
+          },
+        })
+      }
+      return alert
+    }
+
+    if (alert.resolved_at) return alert
+
+    const group = getIncidentGroup(alert)
+    if (!group) return alert
+
+    const now = new Date()
+    const windowStart = new Date(now.getTime() - INCIDENT_WINDOW_MINUTES * 60 * 1000)
+
+    const current = await prisma.incident.findFirst({
+      where: {
+        user_id: alert.user_id,
+        lamela: group.lamela,
+        resolved_at: null,
+        // COMMENT: last_alert_at only moves when an alert joins - an outage
+        // outlasting the window is still the same incident
+        OR: [
+          { last_alert_at: { gte: windowStart } },
+          { alerts: { some: { resolved_at: null } } },
+        ],
+      },
+      orderBy: { last_alert_at: 'desc' },
+    })
+
+    let incident: Incident
+
+    if (!current) {
+      incident = await prisma.incident.create({
+        data: {
+          user_id: alert.user_id,
+          lamela: group.lamela,
+          buildings: group.building ? [group.building] : [],
+          sources: [alert.source],
+          severity: alert.severity,
+          alert_count: 1,
+          first_alert_at: now,
+          last_alert_at: now,
+          events: { create: incidentEvent('OPENED', alert, describeAlert(alert)) },
+        },
+      })
+
+      console.log('[Incident] Opened incident:', { id: incident.id, lamela: group.lamela })
+    } else {
+      const severity = maxSeverity(current.severity, alert.severity)
+      const events = [incidentEvent('ALERT_ADDED', alert, describeAlert(alert))]
+
+      if (severity !== current.severity) {
+        events.push(incidentEvent('SEVERITY_RAISED', alert, `${current.severity} → ${severity}`))
+      }
+      // COMMENT: Someone acknowledged it, but the problem is spreading - needs attention again
+      if (current.status === 'ACKNOWLEDGED') {
+        events.push(incidentEvent('REOPENED', alert, 'New alert after acknowledgement'))
+      }
+
+      incident = await prisma.incident.update({
+        where: { id: current.id },
+        data: {
+          alert_count: { increment: 1 },
+          last_alert_at: now,
+          severity,
+          status: 'OPEN',
+          buildings: group.building && !current.buildings.includes(group.building)
+            ? { push: group.building }
+            : undefined,
+          sources: !current.sources.includes(alert.source) ? { push: alert.source } : undefined,
+          events: { create: events },
+        },
+      })
+    }
+
+    return await prisma.alert.update({
+      where: { id: alert.id },
+      data: { incident_id: incident.id },
+    })
+  } catch (error) {
+    console.error('[Incident] Failed to group alert:', error)
+    return alert
+  }
+}
+
+/**
+ * Record a Resolved Alert on its Incident
+ *
+ * - Adds ALERT_RESOLVED to the timeline
+ * - Resolves the incident once none of its alerts is open any more
+ */
+export async function recordIncidentAlertResolved(alert: Alert): Promise<void> {
+  if (!alert.incident_id || !alert.resolved_at) return
+
+  try {
+    await prisma.incidentEvent.create({
+      data: { incident_id: alert.incident_id, ...incidentEvent('ALERT_RESOLVED', alert, describeAlert(alert)) },
+    })
+
+    const stillOpen = await prisma.alert.count({
+      where: { incident_id: alert.incident_id, resolved_at: null },
+    })
+    if (stillOpen > 0) return
+
+    // COMMENT: resolved_at: null in the where - two alerts resolving at once resolve it only once
+    const { count } = await prisma.incident.updateMany({
+      where: { id: alert.incident_id, resolved_at: null },
+      data: { status: 'RESOLVED', resolved_at: alert.resolved_at },
+    })
+
+    if (count > 0) {
+      await prisma.incidentEvent.create({
+        data: { incident_id: alert.incident_id, ...incidentEvent('RESOLVED', null, 'All alerts back in range') },
+      })
+      console.log('[Incident] Resolved incident:', alert.incident_id)
+    }
+  } catch (error) {
+    console.error('[Incident] Failed to record resolved alert:', error)
+  }
+}
+
+/**
+ * Acknowledge an Incident and All its Alerts
+ *
+ * @returns The updated incident, or null if it doesn't belong to the user
+ */
+export async function acknowledgeIncident(
+  incidentId: string,
+  user: { id: string; email?: string | null }
+): Promise<Incident | null> {
+  const userId = user.id
+  const incident = await prisma.incident.findFirst({
+    where: { id: incidentId, user_id: userId },
+  })
+  if (!incident) return null
+
+  const now = new Date()
+
+  const toAcknowledge = await prisma.alert.findMany({
+    where: { incident_id: incident.id, user_id: userId, is_acknowledged: false },
+    select: { id: true },
+  })
+
+  const { count } = await prisma.alert.updateMany({
+    where: { id: { in: toAcknowledge.map((a) => a.id) }, is_acknowledged: false },
+    data: {
+      is_acknowledged: true,
+      acknowledged_at: now,
+      acknowledged_by: userId,
+      is_read: true,
+    },
+  })
+
+  await logAlertActivity(toAcknowledge.map((a) => a.id), 'ACKNOWLEDGED', 'Acknowledged with its incident', user)
+
+  // COMMENT: A resolved incident stays RESOLVED - only its alerts get acknowledged
+  return await prisma.incident.update({
+    where: { id: incident.id },
+    data: {
+      status: incident.status === 'RESOLVED' ? 'RESOLVED' : 'ACKNOWLEDGED',
+      acknowledged_at: now,
+      acknowledged_by: userId,
+      events: {
+        create: {
+          type: 'ACKNOWLEDGED',
+          message: count === 1 ? '1 alert acknowledged' : `${count} alerts acknowledged`,
+          user_id: userId,
+        },
+      },
+    },
+  })
+}
+
+/**
+ * Mark the Incident ACKNOWLEDGED Once All its Alerts Are
+ *
+ * WHEN: After alerts were acknowledged one by one (PATCH /api/alerts/[id],
+ * acknowledge-multiple)
+ *
+ * @param ownerId - Owner of the incidents (the alerts' user_id)
+ * @param acknowledgedBy - Who acknowledged, e.g. the assignee (defaults to the owner)
+ */
+export async function syncIncidentAcknowledgement(
+  incidentIds: string[],
+  ownerId: string,
+  acknowledgedBy: string = ownerId
+): Promise<void> {
+  try {
+    for (const incidentId of new Set(incidentIds)) {
+      const unacknowledged = await prisma.alert.count({
+        where: { incident_id: incidentId, is_acknowledged: false },
+      })
+      if (unacknowledged > 0) continue
+
+      const { count } = await prisma.incident.updateMany({
+        where: { id: incidentId, user_id: ownerId, status: 'OPEN' },
+        data: { status: 'ACKNOWLEDGED', acknowledged_at: new Date(), acknowledged_by: acknowledgedBy },
+      })
+
+      if (count > 0) {
+        await prisma.incidentEvent.create({
+          data: { incident_id: incidentId, type: 'ACKNOWLEDGED', message: 'All alerts acknowledged', user_id: acknowledgedBy },
+        })
+      }
+    }
+  } catch (error) {
+    console.error('[Incident] Failed to sync acknowledgement:', error)
+  }
+}
@@ -14,3 +14,4 @@
 
 export * from './deviceParsing'
 export * from './apiClient'
+export * from './thresholdOverrides'
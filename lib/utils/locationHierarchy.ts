@@ -0,0 +1,245 @@
+/**
+ * Location Hierarchy Utilities
+ *
+ * PURPOSE:
+ * - Lamela → Building → Apartment lookups for the hierarchy API, SCADA
+ *   queries and alert creation, instead of parsing "L8_53_12" / "L8"
+ * - Register SCADA locations with their lamela as measurements arrive
+ * - Backfill lamelas, buildings and alert references from existing data
+ *
+ * See the Location Hierarchy models in schema.prisma
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { AlertSource, Prisma } from '@/lib/generated/prisma'
+import type { ParsedDeviceName } from './deviceParsing'
+
+const hierarchyInclude = {
+  buildings: {
+    orderBy: { number: 'asc' },
+    include: {
+      apartments: {
+        orderBy: { number: 'asc' },
+        include: {
+          probes: {
+            orderBy: { id: 'asc' },
+            select: { id: true, hub_id: true, device_id: true, has_temperature: true, has_humidity: true, has_co2: true },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.LamelaInclude
+
+export type LamelaWithHierarchy = Prisma.LamelaGetPayload<{ include: typeof hierarchyInclude }>
+
+export type AlertLocation = {
+  lamela_id: string | null
+  apartment_id: string | null
+}
+
+/**
+ * getLocationHierarchy - Lamelas with their buildings, apartments and probes
+ *
+ * @param lamelaCode - Only this lamela ("L8"), omit for all
+ */
+export async function getLocationHierarchy(lamelaCode?: string): Promise<LamelaWithHierarchy[]> {
+  const lamelas = await prisma.lamela.findMany({
+    where: lamelaCode ? { code: lamelaCode } : undefined,
+    include: hierarchyInclude,
+  })
+
+  // COMMENT: Numeric order, so L10 comes after L9
+  return lamelas.sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }))
+}
+
+/**
+ * The scada_measurements.location of a lamela ("L8" → "L8"), or null when
+ * the lamela isn't registered or has no substation
+ */
+export async function getScadaLocation(lamelaCode: string): Promise<string | null> {
+  const lamela = await prisma.lamela.findUnique({
+    where: { code: lamelaCode },
+    select: { scada_location: true },
+  })
+
+  return lamela?.scada_location ?? null
+}
+
+/**
+ * resolveAlertLocation - Lamela and apartment an alert belongs to
+ *
+ * - THERMIONIX: device_id is the probe → its apartment → building → lamela
+ *   (CO2 probes belong to their apartment like the climate probe)
+ * - SCADA: location is a lamela's scada_location
+ * - WEATHERLINK: none
+ */
+export async function resolveAlertLocation(params: {
+  source: AlertSource
+  device_id?: string
+  location?: string
+}): Promise<AlertLocation> {
+  const none: AlertLocation = { lamela_id: null, apartment_id: null }
+
+  if (params.source === 'THERMIONIX' && params.device_id) {
+    const probeId = parseInt(params.device_id, 10)
+    if (isNaN(probeId)) return none
+
+    const probe = await prisma.probe.findUnique({
+      where: { id: probeId },
+      select: { apartment: { select: { id: true, building: { select: { lamela_id: true } } } } },
+    })
+    if (!probe?.apartment) return none
+
+    return { lamela_id: probe.apartment.building?.lamela_id ?? null, apartment_id: probe.apartment.id }
+  }
+
+  if (params.source === 'SCADA' && params.location) {
+    const lamela = await prisma.lamela.findUnique({
+      where: { scada_location: params.location },
+      select: { id: true },
+    })
+    return { lamela_id: lamela?.id ?? null, apartment_id: null }
+  }
+
+  return none
+}
+
+/**
+ * upsertApartmentHierarchy - Lamela, building and apartment for a parsed name
+ *
+ * Existing rows (and their metadata) are kept as they are - apartments
+ * created before the hierarchy only get their building linked.
+ *
+ * @returns Apartment ID
+ */
+export async function upsertApartmentHierarchy(parsed: ParsedDeviceName): Promise<string> {
+  const lamelaCode = `L${parsed.lamela}`
+  const buildingCode = `${lamelaCode}_${parsed.building}`
+  const apartmentName = `${buildingCode}_${parsed.apartment}`
+
+  const lamela = await prisma.lamela.upsert({
+    where: { code: lamelaCode },
+    create: { code: lamelaCode },
+    update: {},
+  })
+
+  const building = await prisma.building.upsert({
+    where: { code: buildingCode },
+    create: { code: buildingCode, number: parsed.building, lamela_id: lamela.id },
+    update: {},
+  })
+
+  const apartment = await prisma.apartment.upsert({
+    where: { name: apartmentName },
+    create: { name: apartmentName, number: parsed.apartment, building_id: building.id },
+    update: { building_id: building.id },
+  })
+
+  return apartment.id
+}
+
+/**
+ * SCADA locations already registered by this process
+ */
+const registeredScadaLocations = new Set<string>()
+
+/**
+ * registerScadaLocation - Lamela for an incoming SCADA location
+ *
+ * WHEN: Every SCADA row, from POST /api/scada and the alert worker (rows
+ * inserted directly by the substations)
+ *
+ * - The lamela is read out of the location like backfillScadaLocations does
+ * - A lamela that already has a substation location keeps it
+ */
+export async function registerScadaLocation(location: string): Promise<void> {
+  if (registeredScadaLocations.has(location)) return
+
+  const code = location.match(/L\d+/)?.[0]
+  if (code) {
+    const lamela = await prisma.lamela.upsert({
+      where: { code },
+      create: { code, scada_location: location },
+      update: {},
+      select: { id: true, scada_location: true },
+    })
+
+    if (!lamela.scada_location) {
+      await prisma.lamela.update({
+        where: { id: lamela.id },
+        data: { scada_location: location },
+      })
+    }
+  }
+
+  registeredScadaLocations.add(location)
+}
+
+/**
+ * backfillScadaLocations - Link every SCADA location to its lamela
+ *
+ * COMMENT: This and registerScadaLocation are the only places that still
+ * read the lamela out of the location string ("L8" or "L8 substation" → L8)
+ * - afterwards SCADA queries and alerts use Lamela.scada_location
+ *
+ * @returns Number of linked locations
+ */
+export async function backfillScadaLocations(): Promise<number> {
+  const locations = await prisma.scada_measurements.groupBy({ by: ['location'] })
+  let linked = 0
+
+  for (const { location } of locations) {
+    const code = location.match(/L\d+/)?.[0]
+    if (!code) continue
+
+    await prisma.lamela.upsert({
+      where: { code },
+      create: { code, scada_location: location },
+      update: { scada_location: location },
+    })
+    linked++
+  }
+
+  return linked
+}
+
+/**
+ * backfillAlertLocations - Set lamela_id / apartment_id on existing alerts
+ *
+ * Runs per probe and per SCADA location rather than per alert.
+ *
+ * @returns Number of updated alerts
+ */
+export async function backfillAlertLocations(): Promise<number> {
+  let updated = 0
+
+  const probes = await prisma.probe.findMany({
+    where: { apartment_id: { not: null } },
+    select: { id: true, apartment: { select: { id: true, building: { select: { lamela_id: true } } } } },
+  })
+
+  for (const probe of probes) {
+    if (!probe.apartment) continue
+    const { count } = await prisma.alert.updateMany({
+      where: { source: 'THERMIONIX', device_id: probe.id.toString(), apartment_id: null },
+      data: { apartment_id: probe.apartment.id, lamela_id: probe.apartment.building?.lamela_id ?? null },
+    })
+    updated += count
+  }
+
+  const lamelas = await prisma.lamela.findMany({
+    where: { scada_location: { not: null } },
+    select: { id: true, scada_location: true },
+  })
+
+  for (const lamela of lamelas) {
+    const { count } = await prisma.alert.updateMany({
+      where: { source: 'SCADA', location: lamela.scada_location, lamela_id: null },
+      data: { lamela_id: lamela.id },
+    })
+    updated += count
+  }
+
+  return updated
+}
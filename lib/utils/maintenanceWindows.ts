@@ -0,0 +1,328 @@
+/**
+ * Maintenance Window Utilities
+ *
+ * PURPOSE:
+ * - Decide whether an alert falls into planned maintenance (alert detection)
+ * - Work out the maintenance periods to shade on the SCADA/Thermionix charts
+ *
+ * RULES:
+ * - Scope works like threshold overrides: DEVICE (device ID), BUILDING
+ *   ("L8_53") or LAMELA ("L8", also matches the SCADA substation)
+ * - One-off: active from starts_at until ends_at
+ * - Recurring (DAILY/WEEKLY): the starts_at → ends_at period repeats every
+ *   day/week until recurrence_until (or forever). Repeats keep the local
+ *   wall-clock time in the window's timezone, so a 02:00-04:00 window stays
+ *   02:00-04:00 across daylight saving changes.
+ * - Alerts inside a window are recorded as suppressed - no pop-up, email or
+ *   webhook, no incident, no escalation
+ *
+ * NOTE: This file must stay free of server-only imports (Prisma) so that
+ * client components can use it.
+ */
+
+import { getOverrideScopeKeys, ThresholdScope, ThresholdTarget } from './thresholdOverrides'
+import { isValidTimezone } from './notificationPreferences'
+
+export type MaintenanceRecurrence = 'NONE' | 'DAILY' | 'WEEKLY'
+
+/**
+ * Minimal shape of a MaintenanceWindow row (matches the Prisma model and the
+ * JSON returned by the API, where dates are strings)
+ */
+export type MaintenanceWindowLike = {
+  scope: ThresholdScope
+  scope_value: string
+  title: string
+  starts_at: Date | string
+  ends_at: Date | string
+  recurrence: MaintenanceRecurrence
+  recurrence_until: Date | string | null
+  timezone?: string
+}
+
+export type MaintenanceOccurrence = {
+  start: Date
+  end: Date
+}
+
+/**
+ * Shaded chart region - see TimeSeriesChart shadedRegions
+ */
+export type MaintenanceRegion = {
+  from: string
+  to: string
+  label: string
+}
+
+export const RECURRENCE_OPTIONS: { label: string; value: MaintenanceRecurrence }[] = [
+  { label: 'One-off', value: 'NONE' },
+  { label: 'Every day', value: 'DAILY' },
+  { label: 'Every week', value: 'WEEKLY' },
+]
+
+// COMMENT: Same default as notification preferences
+export const DEFAULT_MAINTENANCE_TIMEZONE = 'Europe/Belgrade'
+
+const RECURRENCE_DAYS: Record<Exclude<MaintenanceRecurrence, 'NONE'>, number> = {
+  DAILY: 1,
+  WEEKLY: 7,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RECURRENCE_PERIOD_MS: Record<Exclude<MaintenanceRecurrence, 'NONE'>, number> = {
+  DAILY: RECURRENCE_DAYS.DAILY * DAY_MS,
+  WEEKLY: RECURRENCE_DAYS.WEEKLY * DAY_MS,
+}
+
+type WallClock = {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+  millisecond: number
+}
+
+// COMMENT: Creating a formatter is slow compared to using one - one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+function toWallClock(time: number, timeZone: string): WallClock {
+  const parts = getFormatter(timeZone).formatToParts(new Date(time))
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find((part) => part.type === type)?.value || '0')
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+    millisecond: ((time % 1000) + 1000) % 1000,
+  }
+}
+
+const wallClockAsUtc = (clock: WallClock) =>
+  Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second, clock.millisecond)
+
+/**
+ * Instant of a wall-clock time in a timezone (day overflow is normalised)
+ *
+ * COMMENT: Tries the zone's offsets a day before and after - one of them
+ * applies unless the time falls into a daylight saving change:
+ * - Repeated hour (autumn): the earlier instant, so the window is longer
+ *   rather than shorter
+ * - Skipped hour (spring, 02:30): lands an hour later
+ */
+function fromWallClock(clock: WallClock, timeZone: string): number {
+  const asUtc = wallClockAsUtc(clock)
+  const offsetAt = (time: number) => wallClockAsUtc(toWallClock(time, timeZone)) - time
+
+  const candidates = [offsetAt(asUtc - DAY_MS), offsetAt(asUtc + DAY_MS)].map((offset) => asUtc - offset)
+  const matching = candidates.filter((time) => wallClockAsUtc(toWallClock(time, timeZone)) === asUtc)
+
+  return matching.length > 0 ? Math.min(...matching) : candidates[0]
+}
+
+/**
+ * Does the window cover this device / location?
+ */
+export function appliesToTarget(maintenance: MaintenanceWindowLike, target: ThresholdTarget): boolean {
+  const keys = getOverrideScopeKeys(target)
+  return keys[maintenance.scope] !== undefined && keys[maintenance.scope] === maintenance.scope_value
+}
+
+/**
+ * getMaintenanceOccurrences - Periods of the window overlapping [from, to]
+ *
+ * EXAMPLE: DAILY 02:00-04:00 from Monday, asked for Wednesday 00:00 → Thursday 00:00
+ * → [{ start: Wed 02:00, end: Wed 04:00 }]
+ */
+export function getMaintenanceOccurrences(
+  maintenance: MaintenanceWindowLike,
+  from: Date,
+  to: Date
+): MaintenanceOccurrence[] {
+  const start = new Date(maintenance.starts_at).getTime()
+  const duration = new Date(maintenance.ends_at).getTime() - start
+
+  if (maintenance.recurrence === 'NONE') {
+    const end = start + duration
+    return end > from.getTime() && start <= to.getTime()
+      ? [{ start: new Date(start), end: new Date(end) }]
+      : []
+  }
+
+  const timeZone = maintenance.timezone || DEFAULT_MAINTENANCE_TIMEZONE
+  const days = RECURRENCE_DAYS[maintenance.recurrence]
+  const period = RECURRENCE_PERIOD_MS[maintenance.recurrence]
+  const until = maintenance.recurrence_until ? new Date(maintenance.recurrence_until).getTime() : Infinity
+  const last = Math.min(to.getTime(), until)
+
+  const startClock = toWallClock(start, timeZone)
+  const endClock = toWallClock(start + duration, timeZone)
+  const occurrenceAt = (index: number): MaintenanceOccurrence => ({
+    start: new Date(fromWallClock({ ...startClock, day: startClock.day + index * days }, timeZone)),
+    end: new Date(fromWallClock({ ...endClock, day: endClock.day + index * days }, timeZone)),
+  })
+
+  // COMMENT: First repeat that can still reach into the range - skips the
+  // repeats before `from` without looping over them (one earlier, since
+  // daylight saving shifts repeats by up to an hour against fixed periods)
+  let index = Math.max(0, Math.floor((from.getTime() - start - duration) / period))
+  const occurrences: MaintenanceOccurrence[] = []
+
+  for (let occurrence = occurrenceAt(index); occurrence.start.getTime() <= last; occurrence = occurrenceAt(++index)) {
+    if (occurrence.end.getTime() > from.getTime()) occurrences.push(occurrence)
+  }
+
+  return occurrences
+}
+
+export function isMaintenanceActive(maintenance: MaintenanceWindowLike, at: Date = new Date()): boolean {
+  return getMaintenanceOccurrences(maintenance, at, at).some(
+    (occurrence) => occurrence.start.getTime() <= at.getTime() && occurrence.end.getTime() > at.getTime()
+  )
+}
+
+/**
+ * The first window that covers the target at the given time (null if none)
+ */
+export function findActiveMaintenanceWindow<T extends MaintenanceWindowLike>(
+  windows: T[],
+  target: ThresholdTarget,
+  at: Date = new Date()
+): T | null {
+  return windows.find((maintenance) => appliesToTarget(maintenance, target) && isMaintenanceActive(maintenance, at)) || null
+}
+
+/**
+ * getMaintenanceRegions - Chart regions for one device / lamela and date range
+ */
+export function getMaintenanceRegions(
+  windows: MaintenanceWindowLike[],
+  target: ThresholdTarget,
+  from: Date,
+  to: Date
+): MaintenanceRegion[] {
+  return windows
+    .filter((maintenance) => appliesToTarget(maintenance, target))
+    .flatMap((maintenance) =>
+      getMaintenanceOccurrences(maintenance, from, to).map((occurrence) => ({
+        from: occurrence.start.toISOString(),
+        to: occurrence.end.toISOString(),
+        label: maintenance.title,
+      }))
+    )
+}
+
+/**
+ * validateMaintenanceWindow - Server-side validation for API input
+ *
+ * RULES:
+ * - scope / scope_value as for threshold overrides
+ * - title required
+ * - starts_at before ends_at (ISO dates)
+ * - Recurring windows must be shorter than their period, recurrence_until
+ *   (optional) after starts_at
+ * - timezone (optional) an IANA name known to the runtime
+ *
+ * @returns Array of error messages (empty when valid)
+ */
+export function validateMaintenanceWindow(input: Record<string, unknown>): string[] {
+  const errors: string[] = []
+  const { scope, scope_value, title, starts_at, ends_at, recurrence, recurrence_until, timezone } = input
+
+  if (scope !== 'DEVICE' && scope !== 'BUILDING' && scope !== 'LAMELA') {
+    errors.push('scope must be one of DEVICE, BUILDING, LAMELA')
+  }
+
+  if (typeof scope_value !== 'string' || scope_value.trim() === '') {
+    errors.push('scope_value is required')
+  } else if (scope === 'LAMELA' && !/^L\d+$/.test(scope_value)) {
+    errors.push('LAMELA scope_value must look like "L8"')
+  } else if (scope === 'BUILDING' && !/^L\d+_\d+$/.test(scope_value)) {
+    errors.push('BUILDING scope_value must look like "L8_53"')
+  }
+
+  if (typeof title !== 'string' || title.trim() === '') {
+    errors.push('title is required')
+  }
+
+  if (recurrence !== undefined && recurrence !== 'NONE' && recurrence !== 'DAILY' && recurrence !== 'WEEKLY') {
+    errors.push('recurrence must be one of NONE, DAILY, WEEKLY')
+  }
+
+  if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+    errors.push('Invalid timezone')
+  }
+
+  const start = typeof starts_at === 'string' ? new Date(starts_at) : null
+  const end = typeof ends_at === 'string' ? new Date(ends_at) : null
+
+  if (!start || isNaN(start.getTime())) {
+    errors.push('Invalid starts_at (expected ISO date)')
+  }
+  if (!end || isNaN(end.getTime())) {
+    errors.push('Invalid ends_at (expected ISO date)')
+  }
+  if (errors.length > 0 || !start || !end) return errors
+
+  if (end.getTime() <= start.getTime()) {
+    errors.push('ends_at must be after starts_at')
+  } else if (
+    (recurrence === 'DAILY' || recurrence === 'WEEKLY') &&
+    end.getTime() - start.getTime() >= RECURRENCE_PERIOD_MS[recurrence]
+  ) {
+    errors.push(`A ${recurrence.toLowerCase()} window must be shorter than its period`)
+  }
+
+  if (recurrence_until !== null && recurrence_until !== undefined) {
+    const until = new Date(recurrence_until as string)
+    if (typeof recurrence_until !== 'string' || isNaN(until.getTime())) {
+      errors.push('Invalid recurrence_until (expected ISO date)')
+    } else if (until.getTime() <= start.getTime()) {
+      errors.push('recurrence_until must be after starts_at')
+    }
+  }
+
+  return errors
+}
+
+/**
+ * pickMaintenanceWindowFields - Prisma create/update data from a validated request body
+ */
+export function pickMaintenanceWindowFields(input: Record<string, unknown>) {
+  return {
+    scope: input.scope as ThresholdScope,
+    scope_value: (input.scope_value as string).trim(),
+    title: (input.title as string).trim(),
+    starts_at: new Date(input.starts_at as string),
+    ends_at: new Date(input.ends_at as string),
+    recurrence: (input.recurrence as MaintenanceRecurrence | undefined) || 'NONE',
+    recurrence_until: input.recurrence && input.recurrence !== 'NONE' && input.recurrence_until
+      ? new Date(input.recurrence_until as string)
+      : null,
+    timezone: (input.timezone as string | undefined) || DEFAULT_MAINTENANCE_TIMEZONE,
+  }
+}
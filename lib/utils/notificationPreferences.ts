@@ -0,0 +1,222 @@
+/**
+ * Notification Preferences Utilities
+ *
+ * PURPOSE:
+ * - Decide whether an alert may notify the user through a channel
+ *   (sources, severities, channel switches, quiet hours)
+ * - Shared by server-side dispatch (webhooks, email), the in-app toasts
+ *   (AlertsContext) and the preferences API
+ *
+ * RULES (shouldNotify):
+ * - Channel switched off → no
+ * - Alert source or severity not selected → no
+ * - Quiet hours → only HIGH alerts pop up or are emailed; webhooks feed
+ *   other systems, not people, so they ignore quiet hours
+ *
+ * NOTE: This file must stay free of server-only imports (Prisma) so that
+ * client components can use it. Loading the row is getNotificationPreferences()
+ * in lib/supabase/server.ts.
+ */
+
+import type {
+  AlertSeverity,
+  AlertSource,
+  EmailDigestFrequency,
+  NotificationPreferences,
+} from '@/lib/generated/prisma'
+
+export type NotificationChannel = 'toast' | 'email' | 'webhook'
+
+/**
+ * Fields shouldNotify() needs (matches the Prisma model and the API JSON)
+ */
+export type NotificationPreferencesLike = Pick<
+  NotificationPreferences,
+  | 'sources'
+  | 'severities'
+  | 'channel_toast'
+  | 'channel_webhook'
+  | 'email_enabled'
+  | 'quiet_hours_enabled'
+  | 'quiet_hours_start'
+  | 'quiet_hours_end'
+  | 'timezone'
+>
+
+export const ALERT_SOURCES: AlertSource[] = ['THERMIONIX', 'SCADA', 'WEATHERLINK']
+export const ALERT_SEVERITIES: AlertSeverity[] = ['LOW', 'MEDIUM', 'HIGH']
+const DIGEST_FREQUENCIES: EmailDigestFrequency[] = ['NONE', 'HOURLY', 'DAILY']
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Calendar Date and Hour of `date` in a Timezone
+ *
+ * @returns date as "YYYY-MM-DD" and hour 0-23
+ */
+export function getLocalTime(date: Date, timeZone: string): { date: string; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value || '00'
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    hour: parseInt(get('hour')),
+  }
+}
+
+/**
+ * Is `now` Within the User's Quiet Hours?
+ *
+ * COMMENT: start > end spans midnight (22 → 7 = 22:00-06:59);
+ * start === end means no quiet hours
+ */
+export function isInQuietHours(prefs: NotificationPreferencesLike, now: Date = new Date()): boolean {
+  if (!prefs.quiet_hours_enabled || prefs.quiet_hours_start === prefs.quiet_hours_end) return false
+
+  const { hour } = getLocalTime(now, prefs.timezone)
+
+  return prefs.quiet_hours_start < prefs.quiet_hours_end
+    ? hour >= prefs.quiet_hours_start && hour < prefs.quiet_hours_end
+    : hour >= prefs.quiet_hours_start || hour < prefs.quiet_hours_end
+}
+
+/**
+ * May This Alert Notify the User Through This Channel?
+ *
+ * @param prefs - null = no preferences stored yet, schema defaults apply
+ *   (pop-ups and webhooks on, email off)
+ */
+export function shouldNotify(
+  prefs: NotificationPreferencesLike | null,
+  alert: { source: AlertSource; severity: AlertSeverity },
+  channel: NotificationChannel,
+  now: Date = new Date()
+): boolean {
+  if (!prefs) return channel !== 'email'
+
+  const channelEnabled = channel === 'toast' ? prefs.channel_toast
+    : channel === 'email' ? prefs.email_enabled
+    : prefs.channel_webhook
+  if (!channelEnabled) return false
+
+  if (!prefs.sources.includes(alert.source)) return false
+  if (!prefs.severities.includes(alert.severity)) return false
+
+  if (channel !== 'webhook' && alert.severity !== 'HIGH' && isInQuietHours(prefs, now)) return false
+
+  return true
+}
+
+/**
+ * validateNotificationPreferences - Server-side validation for API input
+ *
+ * RULES:
+ * - All fields optional (partial update)
+ * - sources / severities: non-empty lists of known values
+ * - quiet_hours_start / quiet_hours_end / digest_hour: whole numbers 0-23
+ * - email_address: null/empty (use login email) or a valid address
+ * - email_digest: NONE, HOURLY or DAILY
+ * - timezone: IANA name known to the runtime, e.g. "Europe/Belgrade"
+ *
+ * @returns Array of error messages (empty when valid)
+ */
+export function validateNotificationPreferences(input: Record<string, unknown>): string[] {
+  const errors: string[] = []
+  const { sources, severities, email_address, email_digest, timezone } = input
+
+  for (const field of [
+    'channel_toast',
+    'channel_webhook',
+    'quiet_hours_enabled',
+    'email_enabled',
+    'email_immediate',
+  ] as const) {
+    if (input[field] !== undefined && typeof input[field] !== 'boolean') {
+      errors.push(`${field} must be a boolean`)
+    }
+  }
+
+  if (
+    sources !== undefined &&
+    (!Array.isArray(sources) || sources.length === 0 || sources.some((s) => !ALERT_SOURCES.includes(s)))
+  ) {
+    errors.push(`sources must be a non-empty list of: ${ALERT_SOURCES.join(', ')}`)
+  }
+
+  if (
+    severities !== undefined &&
+    (!Array.isArray(severities) || severities.length === 0 || severities.some((s) => !ALERT_SEVERITIES.includes(s)))
+  ) {
+    errors.push(`severities must be a non-empty list of: ${ALERT_SEVERITIES.join(', ')}`)
+  }
+
+  for (const field of ['quiet_hours_start', 'quiet_hours_end', 'digest_hour'] as const) {
+    const value = input[field]
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 23)) {
+      errors.push(`Invalid ${field} (must be a whole number between 0 and 23)`)
+    }
+  }
+
+  if (
+    email_address !== undefined &&
+    email_address !== null &&
+    email_address !== '' &&
+    (typeof email_address !== 'string' || !EMAIL_PATTERN.test(email_address.trim()))
+  ) {
+    errors.push('Invalid email_address')
+  }
+
+  if (email_digest !== undefined && !DIGEST_FREQUENCIES.includes(email_digest as EmailDigestFrequency)) {
+    errors.push('email_digest must be one of NONE, HOURLY, DAILY')
+  }
+
+  if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+    errors.push('Invalid timezone')
+  }
+
+  return errors
+}
+
+/**
+ * pickNotificationPreferenceFields - Build Prisma update data from a validated body
+ *
+ * COMMENT: Only fields present in the body are updated
+ */
+export function pickNotificationPreferenceFields(input: Record<string, unknown>) {
+  const present = (field: string) => input[field] !== undefined
+
+  return {
+    ...(present('sources') ? { sources: input.sources as AlertSource[] } : {}),
+    ...(present('severities') ? { severities: input.severities as AlertSeverity[] } : {}),
+    ...(present('channel_toast') ? { channel_toast: input.channel_toast as boolean } : {}),
+    ...(present('channel_webhook') ? { channel_webhook: input.channel_webhook as boolean } : {}),
+    ...(present('quiet_hours_enabled') ? { quiet_hours_enabled: input.quiet_hours_enabled as boolean } : {}),
+    ...(present('quiet_hours_start') ? { quiet_hours_start: input.quiet_hours_start as number } : {}),
+    ...(present('quiet_hours_end') ? { quiet_hours_end: input.quiet_hours_end as number } : {}),
+    ...(present('email_enabled') ? { email_enabled: input.email_enabled as boolean } : {}),
+    ...(present('email_address')
+      ? { email_address: typeof input.email_address === 'string' && input.email_address.trim() !== '' ? input.email_address.trim() : null }
+      : {}),
+    ...(present('email_immediate') ? { email_immediate: input.email_immediate as boolean } : {}),
+    ...(present('email_digest') ? { email_digest: input.email_digest as EmailDigestFrequency } : {}),
+    ...(present('digest_hour') ? { digest_hour: input.digest_hour as number } : {}),
+    ...(present('timezone') ? { timezone: input.timezone as string } : {}),
+  }
+}
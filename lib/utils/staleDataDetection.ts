@@ -0,0 +1,212 @@
+/**
+ * Stale Data Detection Utility
+ *
+ * PURPOSE:
+ * - Notice when a Thermionix probe, SCADA lamela or weather station stops reporting
+ * - Raise a DATA_STALE alert per device/location, resolve it once data arrives again
+ *
+ * WORKFLOW:
+ * 1. Sweep job (scripts/sweep-stale-data.ts) calls sweepStaleData() periodically
+ * 2. Latest measurement timestamp is loaded per probe / lamela / station
+ * 3. Gap since that timestamp is compared against STALE_AFTER_MINUTES for the source
+ * 4. For every user with settings:
+ *    - stale and no open DATA_STALE alert → createAndBroadcastAlert()
+ *    - fresh and an open DATA_STALE alert → resolveAndBroadcastAlerts()
+ *
+ * ALERT FIELDS:
+ * - measured_value: Minutes since the last sample (at the time of the sweep)
+ * - threshold_value: Allowed gap in minutes
+ * - measurement_time: Timestamp of the last sample received
+ * - unit: "min"
+ *
+ * Decommissioned devices are expected to be silent and are skipped.
+ *
+ * WHY SKIP EXISTING OPEN ALERTS?
+ * - The sweep runs every few minutes; re-broadcasting the same outage each
+ *   run would toast the user again and again for nothing new
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+  calculateSeverity,
+  createAndBroadcastAlert,
+  resolveAndBroadcastAlerts,
+} from '@/lib/utils/alertDetection'
+import type { AlertSource } from '@/lib/generated/prisma'
+
+/**
+ * Allowed gap between samples before a source counts as offline (minutes)
+ *
+ * COMMENT: Several times the normal reporting interval of each system,
+ * so a single delayed or dropped upload doesn't raise an alert
+ * - Thermionix probes report every ~15 min
+ * - SCADA substations and the weather station report every ~5-10 min
+ */
+export const STALE_AFTER_MINUTES: Record<AlertSource, number> = {
+  THERMIONIX: 60,
+  SCADA: 30,
+  WEATHERLINK: 30,
+}
+
+/**
+ * One reporting unit and when it was last heard from
+ * - THERMIONIX: device_id = probe ID (matches Device.device_id)
+ * - SCADA / WEATHERLINK: location
+ */
+export type ReportingTarget = {
+  source: AlertSource
+  device_id?: string
+  location?: string
+  apartment_name?: string
+  last_seen: Date
+}
+
+export type StaleSweepResult = {
+  checked: number
+  stale: number
+  created: number
+  resolved: number
+}
+
+/**
+ * Load Latest Measurement Time per Probe / Lamela / Station
+ */
+export async function getReportingTargets(): Promise<ReportingTarget[]> {
+  const [probes, lamelas, stations, devices] = await Promise.all([
+    prisma.thermionyx_measurements.groupBy({
+      by: ['probe_id'],
+      _max: { datetime: true },
+    }),
+    prisma.scada_measurements.groupBy({
+      by: ['location'],
+      _max: { datetime: true },
+    }),
+    prisma.weatherlink_measurements.groupBy({
+      by: ['location'],
+      _max: { datetime: true },
+    }),
+    prisma.device.findMany({
+      select: { device_id: true, name: true, decommissioned_at: true },
+    }),
+  ])
+
+  // COMMENT: Device.device_id is the probe ID as a string
+  const deviceNames = new Map(devices.map((d) => [d.device_id, d.name]))
+  const decommissioned = new Set(devices.filter((d) => d.decommissioned_at).map((d) => d.device_id))
+
+  const targets: ReportingTarget[] = []
+
+  for (const probe of probes) {
+    if (!probe._max.datetime) continue
+    const deviceId = probe.probe_id.toString()
+    if (decommissioned.has(deviceId)) continue
+    targets.push({
+      source: 'THERMIONIX',
+      device_id: deviceId,
+      apartment_name: deviceNames.get(deviceId) || undefined,
+      last_seen: probe._max.datetime,
+    })
+  }
+
+  for (const lamela of lamelas) {
+    if (!lamela._max.datetime) continue
+    targets.push({
+      source: 'SCADA',
+      location: lamela.location,
+      last_seen: lamela._max.datetime,
+    })
+  }
+
+  for (const station of stations) {
+    if (!station._max.datetime) continue
+    targets.push({
+      source: 'WEATHERLINK',
+      location: station.location,
+      last_seen: station._max.datetime,
+    })
+  }
+
+  return targets
+}
+
+/**
+ * Minutes since a target last reported
+ */
+export function getMinutesSilent(target: ReportingTarget, now: Date): number {
+  return Math.max(0, (now.getTime() - target.last_seen.getTime()) / (60 * 1000))
+}
+
+function getTargetKey(target: { source: AlertSource; device_id?: string | null; location?: string | null }): string {
+  return `${target.source}:${target.device_id || target.location}`
+}
+
+/**
+ * Sweep All Sources for Stale Data
+ *
+ * @param now - Reference time (defaults to current time)
+ * @returns Counts for logging by the caller
+ */
+export async function sweepStaleData(now: Date = new Date()): Promise<StaleSweepResult> {
+  const result: StaleSweepResult = { checked: 0, stale: 0, created: 0, resolved: 0 }
+
+  // STEP 1: What is currently reporting, and since when
+  const targets = await getReportingTargets()
+  result.checked = targets.length
+
+  const staleTargets = targets.filter(
+    (target) => getMinutesSilent(target, now) > STALE_AFTER_MINUTES[target.source]
+  )
+  result.stale = staleTargets.length
+
+  // STEP 2: Alerts are per user - every user with settings gets them
+  const users = await prisma.userSettings.findMany({
+    select: { user_id: true },
+  })
+
+  for (const { user_id } of users) {
+    const openAlerts = await prisma.alert.findMany({
+      where: { user_id, alert_type: 'DATA_STALE', resolved_at: null },
+    })
+    const openKeys = new Set(openAlerts.map(getTargetKey))
+
+    for (const target of targets) {
+      const key = getTargetKey(target)
+      const isStale = staleTargets.includes(target)
+
+      if (isStale && !openKeys.has(key)) {
+        // STEP 3a: Newly offline
+        const minutesSilent = getMinutesSilent(target, now)
+        const allowedGap = STALE_AFTER_MINUTES[target.source]
+
+        const alert = await createAndBroadcastAlert({
+          alert_type: 'DATA_STALE',
+          source: target.source,
+          device_id: target.device_id,
+          location: target.location,
+          apartment_name: target.apartment_name,
+          measured_value: Math.round(minutesSilent),
+          threshold_value: allowedGap,
+          measurement_time: target.last_seen,
+          unit: 'min',
+          severity: calculateSeverity(minutesSilent, allowedGap),
+          user_id,
+          continue_open_alert: true,
+        })
+        if (alert) result.created++
+      } else if (!isStale && openKeys.has(key)) {
+        // STEP 3b: Reporting again
+        const resolved = await resolveAndBroadcastAlerts({
+          alert_types: ['DATA_STALE'],
+          source: target.source,
+          device_id: target.device_id,
+          location: target.location,
+          user_id,
+          resolved_at: target.last_seen,
+        })
+        result.resolved += resolved.length
+      }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,237 @@
+/**
+ * Threshold Override Utilities
+ *
+ * PURPOSE:
+ * - Resolve the effective expected ranges for one device or SCADA location
+ * - Shared by alert detection (server) and the Thermionix/SCADA pages (client)
+ *
+ * RESOLUTION ORDER (most specific first):
+ * 1. DEVICE override  - scope_value = Device.device_id (e.g., "10315")
+ * 2. BUILDING override - scope_value = lamela + building (e.g., "L8_53")
+ * 3. LAMELA override  - scope_value = lamela (e.g., "L8")
+ * 4. Global UserSettings value
+ *
+ * Resolution is per metric: a DEVICE override that only sets the temperature
+ * range still inherits humidity/CO2 from the building, lamela or global level.
+ * Min and max of one metric are resolved as a pair, so the result always has
+ * min < max (see resolveThresholds).
+ *
+ * NOTE: This file must stay free of server-only imports (Prisma) so that
+ * client components can use it for status colouring.
+ */
+
+import { parseDeviceName } from './deviceParsing'
+
+export type ThresholdScope = 'DEVICE' | 'BUILDING' | 'LAMELA'
+
+/**
+ * All threshold fields shared by UserSettings and ThresholdOverride
+ */
+export const THRESHOLD_FIELDS = [
+  'expected_temp_min',
+  'expected_temp_max',
+  'expected_humidity_min',
+  'expected_humidity_max',
+  'expected_pressure_min',
+  'expected_pressure_max',
+  'expected_co2_min',
+  'expected_co2_max',
+] as const
+
+export type ThresholdField = typeof THRESHOLD_FIELDS[number]
+
+export type ThresholdValues = Record<ThresholdField, number>
+
+/**
+ * Minimal shape of a ThresholdOverride row needed for resolution
+ * (matches the Prisma model and the JSON returned by the API)
+ */
+export type ThresholdOverrideLike = {
+  scope: ThresholdScope
+  scope_value: string
+} & { [K in ThresholdField]?: number | null }
+
+/**
+ * What we know about the thing being measured
+ * - Thermionix: device_id + device name ("L8_53_12")
+ * - SCADA: location (contains the lamela, e.g. "L8")
+ */
+export type ThresholdTarget = {
+  device_id?: string | null
+  device_name?: string | null
+  location?: string | null
+}
+
+/**
+ * Allowed value ranges per metric - same limits as /api/user/settings
+ */
+const FIELD_LIMITS: Record<'temp' | 'humidity' | 'pressure' | 'co2', { min: number; max: number }> = {
+  temp: { min: -50, max: 100 },
+  humidity: { min: 0, max: 100 },
+  pressure: { min: 0, max: 10 },
+  co2: { min: 0, max: 5000 },
+}
+
+/**
+ * getOverrideScopeKeys - Work out which scope_value each level would match
+ *
+ * EXAMPLES:
+ * - { device_id: "10315", device_name: "L8_53_12" } → { DEVICE: "10315", BUILDING: "L8_53", LAMELA: "L8" }
+ * - { device_name: "L8_53_12_CO2" } → CO2 probes share their apartment's building and lamela
+ * - { location: "L8 substation" } → { LAMELA: "L8" }
+ */
+export function getOverrideScopeKeys(target: ThresholdTarget): Partial<Record<ThresholdScope, string>> {
+  const keys: Partial<Record<ThresholdScope, string>> = {}
+
+  if (target.device_id) {
+    keys.DEVICE = target.device_id
+  }
+
+  // COMMENT: CO2 probes are named "{apartment}_CO2" - strip the suffix before parsing
+  const parsed = parseDeviceName(target.device_name?.replace(/_CO2$/, ''))
+
+  if (parsed) {
+    keys.BUILDING = `L${parsed.lamela}_${parsed.building}`
+    keys.LAMELA = `L${parsed.lamela}`
+  } else if (target.location) {
+    // COMMENT: SCADA locations contain the lamela identifier somewhere in the string
+    const match = target.location.match(/L\d+/)
+    if (match) {
+      keys.LAMELA = match[0]
+    }
+  }
+
+  return keys
+}
+
+/**
+ * Min/max field pairs, one per metric
+ */
+const THRESHOLD_PAIRS = (['temp', 'humidity', 'pressure', 'co2'] as const).map((metric) => ({
+  min: `expected_${metric}_min` as ThresholdField,
+  max: `expected_${metric}_max` as ThresholdField,
+}))
+
+/**
+ * resolveThresholds - Merge overrides on top of the global ranges
+ *
+ * PAIRS:
+ * - An override that sets only one bound inherits the other from the less
+ *   specific levels
+ * - If that gives min >= max (e.g. LAMELA min 22 + DEVICE max 20), the other
+ *   bound comes from the global range instead
+ * - If even that is inverted, the override is skipped for this metric - an
+ *   inverted range would flag every value
+ *
+ * @param base - Global ranges (UserSettings or a subset of its fields)
+ * @param overrides - All overrides for the user (unrelated ones are ignored)
+ * @param target - Device / location being evaluated
+ * @returns Copy of base with every metric replaced by the most specific override
+ */
+export function resolveThresholds<T extends Partial<ThresholdValues>>(
+  base: T,
+  overrides: ThresholdOverrideLike[],
+  target: ThresholdTarget
+): T {
+  if (overrides.length === 0) return base
+
+  const keys = getOverrideScopeKeys(target)
+
+  // COMMENT: Least specific first, so more specific levels overwrite
+  const applicable = (['LAMELA', 'BUILDING', 'DEVICE'] as const)
+    .map((scope) => overrides.find((o) => o.scope === scope && keys[scope] !== undefined && o.scope_value === keys[scope]))
+    .filter((o): o is ThresholdOverrideLike => o !== undefined)
+
+  const resolved = { ...base } as Record<string, number>
+  const global = base as Record<string, number>
+
+  for (const override of applicable) {
+    for (const { min, max } of THRESHOLD_PAIRS) {
+      if (!(min in base) || !(max in base)) continue
+
+      const overrideMin = override[min] ?? null
+      const overrideMax = override[max] ?? null
+      if (overrideMin === null && overrideMax === null) continue
+
+      const candidates = [
+        [overrideMin ?? resolved[min], overrideMax ?? resolved[max]],
+        [overrideMin ?? global[min], overrideMax ?? global[max]],
+      ]
+      const pair = candidates.find(([low, high]) => low < high)
+
+      if (pair) {
+        resolved[min] = pair[0]
+        resolved[max] = pair[1]
+      }
+    }
+  }
+
+  return resolved as T
+}
+
+/**
+ * validateThresholdOverride - Server-side validation for API input
+ *
+ * RULES:
+ * - scope must be DEVICE, BUILDING or LAMELA
+ * - scope_value format must match the scope ("L8", "L8_53", any device ID)
+ * - Each provided value must be within the same limits as UserSettings
+ * - When both min and max are provided, min must be less than max
+ *
+ * @returns Array of error messages (empty when valid)
+ */
+export function validateThresholdOverride(input: Record<string, unknown>): string[] {
+  const errors: string[] = []
+  const { scope, scope_value } = input
+
+  if (scope !== 'DEVICE' && scope !== 'BUILDING' && scope !== 'LAMELA') {
+    errors.push('scope must be one of DEVICE, BUILDING, LAMELA')
+  }
+
+  if (typeof scope_value !== 'string' || scope_value.trim() === '') {
+    errors.push('scope_value is required')
+  } else if (scope === 'LAMELA' && !/^L\d+$/.test(scope_value)) {
+    errors.push('LAMELA scope_value must look like "L8"')
+  } else if (scope === 'BUILDING' && !/^L\d+_\d+$/.test(scope_value)) {
+    errors.push('BUILDING scope_value must look like "L8_53"')
+  }
+
+  for (const metric of Object.keys(FIELD_LIMITS) as (keyof typeof FIELD_LIMITS)[]) {
+    const { min, max } = FIELD_LIMITS[metric]
+    const minValue = input[`expected_${metric}_min`]
+    const maxValue = input[`expected_${metric}_max`]
+
+    for (const [field, value] of [[`expected_${metric}_min`, minValue], [`expected_${metric}_max`, maxValue]] as const) {
+      if (value === null || value === undefined) continue
+      if (typeof value !== 'number' || value < min || value > max) {
+        errors.push(`Invalid ${field} (must be between ${min} and ${max})`)
+      }
+    }
+
+    if (typeof minValue === 'number' && typeof maxValue === 'number' && minValue >= maxValue) {
+      errors.push(`expected_${metric}_min must be less than expected_${metric}_max`)
+    }
+  }
+
+  const hasAnyThreshold = THRESHOLD_FIELDS.some((field) => typeof input[field] === 'number')
+  if (!hasAnyThreshold) {
+    errors.push('At least one threshold value must be provided')
+  }
+
+  return errors
+}
+
+/**
+ * pickThresholdFields - Copy only threshold fields, normalising missing ones to null
+ *
+ * WHY: Used by the API to build Prisma create/update data from request bodies
+ * without passing through unrelated keys.
+ */
+export function pickThresholdFields(input: Record<string, unknown>): Record<ThresholdField, number | null> {
+  const result = {} as Record<ThresholdField, number | null>
+  for (const field of THRESHOLD_FIELDS) {
+    const value = input[field]
+    result[field] = typeof value === 'number' ? value : null
+  }
+  return result
+}
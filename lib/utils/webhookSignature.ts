@@ -0,0 +1,64 @@
+/**
+ * Webhook Signature Utilities
+ *
+ * PURPOSE:
+ * - Sign outgoing webhook requests (lib/utils/webhooks.ts)
+ * - Verify them on the receiving side (scripts/webhook-receiver.ts, or a
+ *   receiver reimplementing the same few lines)
+ *
+ * SCHEME:
+ * - X-Xai4heat-Timestamp: Unix seconds when the request was signed
+ * - X-Xai4heat-Signature: "sha256=" + hex HMAC-SHA256(secret, "{timestamp}.{raw body}")
+ *
+ * WHY THE TIMESTAMP?
+ * - Signed together with the body, so a captured request can't be replayed
+ *   later - receivers reject timestamps older than a few minutes
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+export const SIGNATURE_HEADER = 'X-Xai4heat-Signature'
+export const TIMESTAMP_HEADER = 'X-Xai4heat-Timestamp'
+export const EVENT_HEADER = 'X-Xai4heat-Event'
+export const DELIVERY_HEADER = 'X-Xai4heat-Delivery'
+
+/**
+ * Receivers should reject signatures older than this (seconds)
+ */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+/**
+ * New endpoint secret - 32 random bytes, prefixed so it's recognisable
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('hex')}`
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `sha256=${digest}`
+}
+
+/**
+ * Verify a received request
+ *
+ * @param now - Unix seconds (defaults to current time)
+ * @returns true when the signature matches and the timestamp is recent
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string | null,
+  body: string,
+  signature: string | null,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  if (!timestamp || !signature) return false
+
+  const signedAt = parseInt(timestamp)
+  if (isNaN(signedAt) || Math.abs(now - signedAt) > SIGNATURE_TOLERANCE_SECONDS) return false
+
+  const expected = Buffer.from(signWebhookPayload(secret, signedAt, body))
+  const received = Buffer.from(signature)
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
@@ -0,0 +1,335 @@
+/**
+ * Webhook Delivery Utility
+ *
+ * PURPOSE:
+ * - Push alert events to the user's webhook endpoints as signed JSON
+ * - Keep a delivery log and retry failed deliveries with backoff
+ *
+ * WORKFLOW:
+ * 1. publishAlertEvent() (lib/utils/alertDetection.ts) calls queueWebhookDeliveries()
+ *    next to the Realtime broadcast
+ * 2. One WebhookDelivery row per enabled endpoint subscribed to the event,
+ *    unless the user's notification preferences filter the alert out
+ * 3. Each delivery is attempted right away
+ * 4. Failures are retried by the alert worker (retryWebhookDeliveries) after
+ *    RETRY_BACKOFF_MINUTES, then marked FAILED
+ *
+ * PAYLOAD:
+ * { id: delivery ID, event, created_at, alert: Alert }
+ *
+ * CLAIMING:
+ * - An attempt first moves next_attempt_at forward (lease), so the worker and
+ *   an immediate attempt never send the same delivery at the same time
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signWebhookPayload,
+} from '@/lib/utils/webhookSignature'
+import { shouldNotify } from '@/lib/utils/notificationPreferences'
+import type { Alert, Prisma, WebhookDelivery, WebhookEndpoint } from '@/lib/generated/prisma'
+
+/**
+ * Events an endpoint can subscribe to - same names as the Realtime events
+ */
+export const WEBHOOK_EVENTS = ['new_alert', 'alert_resolved', 'alert_escalated'] as const
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number] | 'ping'
+
+/**
+ * Wait before retry N (minutes) - after the last one the delivery is FAILED
+ * COMMENT: 1 + 5 + 30 + 120 min covers a contractor's system restarting or a
+ * short outage without hammering it
+ */
+export const RETRY_BACKOFF_MINUTES = [1, 5, 30, 120]
+
+const REQUEST_TIMEOUT_MS = 10000
+const CLAIM_LEASE_MS = 60 * 1000
+
+/**
+ * Send One Request
+ *
+ * @returns HTTP status (null on network error/timeout) and an error excerpt
+ */
+async function sendWebhookRequest(
+  endpoint: Pick<WebhookEndpoint, 'url' | 'secret'>,
+  delivery: Pick<WebhookDelivery, 'id' | 'event' | 'payload'>
+): Promise<{ ok: boolean; status: number | null; error: string | null }> {
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+
+  try {
+    const res = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'xai4heat-webhooks/1.0',
+        [SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, body),
+        [TIMESTAMP_HEADER]: timestamp.toString(),
+        [EVENT_HEADER]: delivery.event,
+        [DELIVERY_HEADER]: delivery.id,
+      },
+      body,
+      signal: controller.signal,
+    })
+
+    if (res.ok) {
+      return { ok: true, status: res.status, error: null }
+    }
+
+    const text = await res.text().catch(() => '')
+    return { ok: false, status: res.status, error: text.slice(0, 500) || res.statusText }
+  } catch (error) {
+    const message = error instanceof Error
+      ? (error.name === 'AbortError' ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s` : error.message)
+      : String(error)
+    return { ok: false, status: null, error: message }
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+/**
+ * Attempt a Delivery Once
+ *
+ * - Claims it (skips if someone else did)
+ * - DELIVERED on 2xx, otherwise PENDING with the next backoff or FAILED
+ *
+ * @returns The updated delivery, or null if it wasn't ours to send
+ */
+export async function attemptWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+  const now = new Date()
+
+  // STEP 1: Claim
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      status: 'PENDING',
+      next_attempt_at: { lte: now },
+    },
+    data: { next_attempt_at: new Date(now.getTime() + CLAIM_LEASE_MS) },
+  })
+  if (claimed.count === 0) return null
+
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: true },
+  })
+  if (!delivery) return null
+
+  // STEP 2: Send
+  const result = await sendWebhookRequest(delivery.endpoint, delivery)
+  const attempts = delivery.attempts + 1
+
+  // STEP 3: Record the outcome
+  if (result.ok) {
+    return prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: 'DELIVERED',
+        attempts,
+        last_status_code: result.status,
+        last_error: null,
+        delivered_at: new Date(),
+        next_attempt_at: null,
+      },
+    })
+  }
+
+  const backoff = RETRY_BACKOFF_MINUTES[attempts - 1]
+  console.warn('[Webhook] Delivery failed:', {
+    delivery: deliveryId,
+    url: delivery.endpoint.url,
+    status: result.status,
+    error: result.error,
+    retry: backoff !== undefined ? `in ${backoff} min` : 'giving up',
+  })
+
+  return prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: backoff !== undefined ? 'PENDING' : 'FAILED',
+      attempts,
+      last_status_code: result.status,
+      last_error: result.error,
+      next_attempt_at: backoff !== undefined ? new Date(Date.now() + backoff * 60 * 1000) : null,
+    },
+  })
+}
+
+function buildPayload(deliveryId: string, event: WebhookEvent, alert: Alert | null): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify({
+    id: deliveryId,
+    event,
+    created_at: new Date().toISOString(),
+    alert,
+  }))
+}
+
+/**
+ * Queue and Send an Alert Event to the User's Endpoints
+ *
+ * ERROR HANDLING:
+ * - Logs and returns - webhooks must never break alert detection
+ */
+export async function queueWebhookDeliveries(alert: Alert, event: WebhookEvent): Promise<void> {
+  try {
+    const prefs = await prisma.notificationPreferences.findUnique({
+      where: { user_id: alert.user_id },
+    })
+    if (!shouldNotify(prefs, alert, 'webhook')) return
+
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: {
+        user_id: alert.user_id,
+        enabled: true,
+        events: { has: event },
+      },
+      select: { id: true },
+    })
+
+    for (const endpoint of endpoints) {
+      const id = crypto.randomUUID()
+      await prisma.webhookDelivery.create({
+        data: {
+          id,
+          endpoint_id: endpoint.id,
+          alert_id: alert.id,
+          event,
+          payload: buildPayload(id, event, alert),
+          next_attempt_at: new Date(),
+        },
+      })
+      await attemptWebhookDelivery(id)
+    }
+  } catch (error) {
+    console.error('[Webhook] Failed to queue webhook deliveries:', error)
+  }
+}
+
+/**
+ * Send a Test Ping to One Endpoint
+ *
+ * COMMENT: Logged like any delivery but not retried - the user is watching
+ * and can simply press the button again
+ */
+export async function sendWebhookPing(endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const id = crypto.randomUUID()
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      id,
+      endpoint_id: endpoint.id,
+      event: 'ping',
+      payload: buildPayload(id, 'ping', null),
+      next_attempt_at: new Date(),
+    },
+  })
+
+  const result = await sendWebhookRequest(endpoint, delivery)
+
+  return prisma.webhookDelivery.update({
+    where: { id },
+    data: {
+      status: result.ok ? 'DELIVERED' : 'FAILED',
+      attempts: 1,
+      last_status_code: result.status,
+      last_error: result.error,
+      delivered_at: result.ok ? new Date() : null,
+      next_attempt_at: null,
+    },
+  })
+}
+
+/**
+ * Retry Due Deliveries
+ *
+ * WHEN: Called by the alert worker on every cycle
+ *
+ * @returns How many were delivered and how many failed again
+ */
+export async function retryWebhookDeliveries(
+  limit: number = 50
+): Promise<{ delivered: number; failed: number }> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      status: 'PENDING',
+      next_attempt_at: { lte: new Date() },
+    },
+    orderBy: { next_attempt_at: 'asc' },
+    take: limit,
+    select: { id: true },
+  })
+
+  let delivered = 0
+  let failed = 0
+  for (const { id } of due) {
+    const result = await attemptWebhookDelivery(id)
+    if (!result) continue
+    if (result.status === 'DELIVERED') delivered++
+    else failed++
+  }
+
+  return { delivered, failed }
+}
+
+/**
+ * validateWebhookEndpoint - Server-side validation for API input
+ *
+ * RULES:
+ * - name is required
+ * - url must be http(s)
+ * - events: non-empty subset of WEBHOOK_EVENTS
+ *
+ * @returns Array of error messages (empty when valid)
+ */
+export function validateWebhookEndpoint(input: Record<string, unknown>): string[] {
+  const errors: string[] = []
+  const { name, url, events, enabled } = input
+
+  if (typeof name !== 'string' || name.trim() === '') {
+    errors.push('name is required')
+  }
+
+  let parsedUrl: URL | null = null
+  try {
+    parsedUrl = typeof url === 'string' ? new URL(url) : null
+  } catch {
+    parsedUrl = null
+  }
+  if (!parsedUrl || (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:')) {
+    errors.push('url must be a valid http(s) URL')
+  }
+
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    events.some((e) => !(WEBHOOK_EVENTS as readonly unknown[]).includes(e))
+  ) {
+    errors.push(`events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}`)
+  }
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    errors.push('enabled must be a boolean')
+  }
+
+  return errors
+}
+
+/**
+ * pickWebhookEndpointFields - Build Prisma create/update data from a validated body
+ */
+export function pickWebhookEndpointFields(input: Record<string, unknown>) {
+  return {
+    name: (input.name as string).trim(),
+    url: (input.url as string).trim(),
+    events: input.events as string[],
+    enabled: input.enabled !== false,
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Sensor Calibration Validation Schema
+ *
+ * Shared by the calibration form on /dashboard/devices/[id] and the
+ * /api/devices/[id]/calibrations routes.
+ *
+ * FIELDS:
+ * - metric: TEMPERATURE, HUMIDITY or CO2
+ * - offset / gain: calibrated = raw * gain + offset (gain must be positive)
+ * - valid_from: First reading the calibration applies to
+ * - valid_to: Optional end (exclusive), empty = still valid
+ */
+
+import { z } from 'zod'
+
+const dateString = z
+  .string()
+  .min(1, 'Required')
+  .refine((value) => !isNaN(new Date(value).getTime()), 'Invalid date')
+
+export const calibrationSchema = z
+  .object({
+    metric: z.enum(['TEMPERATURE', 'HUMIDITY', 'CO2']),
+    offset: z.number({ message: 'Must be a number' }),
+    gain: z.number({ message: 'Must be a number' }).positive('Gain must be greater than 0'),
+    valid_from: dateString,
+    valid_to: dateString.nullable().optional().or(z.literal('')),
+    note: z.string().trim().max(500, 'Note must be less than 500 characters').optional(),
+  })
+  .refine((data) => !data.valid_to || new Date(data.valid_to) > new Date(data.valid_from), {
+    message: 'End must be after start',
+    path: ['valid_to'],
+  })
+
+export type CalibrationFormData = z.infer<typeof calibrationSchema>
@@ -0,0 +1,84 @@
+/**
+ * Device Form Validation Schemas
+ *
+ * Shared by the device management forms (/dashboard/devices) and the
+ * /api/devices routes, so the client and the server accept the same input.
+ *
+ * NAMING:
+ * - name: "L8_53_12" (Lamela 8, Building 53, Apartment 12), CO2 probes
+ *   "L8_53_12_CO2" - the device registry links the probe to that apartment
+ * - location: the lamela ("L8"); derived from the name when left empty
+ */
+
+import { z } from 'zod'
+
+const DEVICE_NAME_PATTERN = /^L\d+_\d+_\d+(_CO2)?$/
+
+const deviceFields = z.object({
+  device_id: z
+    .string()
+    .trim()
+    .min(1, 'Device ID is required')
+    .max(64, 'Device ID is too long'),
+  name: z
+    .string()
+    .trim()
+    .regex(DEVICE_NAME_PATTERN, 'Use lamela, building and apartment, e.g. L8_53_12 (or L8_53_12_CO2)'),
+  location: z
+    .string()
+    .trim()
+    .regex(/^L\d+$/, 'Use the lamela identifier, e.g. L8')
+    .optional()
+    .or(z.literal('')),
+  description: z
+    .string()
+    .trim()
+    .max(500, 'Description must be less than 500 characters')
+    .optional(),
+})
+
+/**
+ * The location has to be the lamela the name starts with
+ *
+ * COMMENT: Exported for PATCH /api/devices/[id], which checks a location
+ * sent without a name against the stored name
+ */
+export const locationMatchesName = (data: { name?: string | null; location?: string }) =>
+  !data.name || !data.location || data.name.startsWith(`${data.location}_`)
+
+export const locationMismatch = {
+  message: 'Location must be the lamela of the name',
+  path: ['location'],
+}
+
+/**
+ * Device Create Schema (POST /api/devices, "Add device" form)
+ */
+export const deviceSchema = deviceFields.refine(locationMatchesName, locationMismatch)
+
+export type DeviceFormData = z.infer<typeof deviceSchema>
+
+/**
+ * Device Update Schema (PATCH /api/devices/[id], edit form)
+ *
+ * FIELDS:
+ * - All create fields except device_id (the primary key) are optional
+ * - location: "" clears it; omitted, it follows a new name's lamela
+ * - decommissioned: true retires the device, false puts it back in service
+ */
+export const deviceUpdateSchema = deviceFields
+  .omit({ device_id: true })
+  .partial()
+  .extend({
+    decommissioned: z.boolean().optional(),
+  })
+  .refine(locationMatchesName, locationMismatch)
+
+export type DeviceUpdateData = z.infer<typeof deviceUpdateSchema>
+
+/**
+ * "L8_53_12" → "L8"
+ */
+export function getLamelaFromDeviceName(name: string): string {
+  return name.split('_')[0]
+}
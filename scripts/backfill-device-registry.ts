@@ -0,0 +1,54 @@
+/**
+ * Device Registry Backfill Script
+ *
+ * This script:
+ * 1. Creates a Hub and Probe for every hub/probe pair in thermionyx_measurements
+ * 2. Links every Device to its Probe and to the Apartment parsed from its name
+ *    ("L8_53_12" and "L8_53_12_CO2" → apartment L8_53_12)
+ * 3. Sets the probes' temperature/humidity/CO2 capabilities
+ * 4. Creates the lamelas and buildings of those apartments, links every SCADA
+ *    location to its lamela and sets lamela/apartment on existing alerts
+ *
+ * Run it once after `npx prisma db push` added the registry and hierarchy
+ * tables, and again whenever devices were added by name. Safe to re-run.
+ *
+ * Usage: npx tsx scripts/backfill-device-registry.ts
+ */
+
+import * as dotenv from 'dotenv'
+dotenv.config({ path: '.env.local' })
+
+import { prisma } from '../lib/prisma'
+import { backfillDeviceRegistry } from '../lib/utils/deviceRegistry'
+import { backfillAlertLocations, backfillScadaLocations } from '../lib/utils/locationHierarchy'
+
+async function backfill() {
+  console.log('🗂️  Backfilling device registry...\n')
+
+  try {
+    const result = await backfillDeviceRegistry()
+
+    console.log(`   📡 Hubs: ${result.hubs}`)
+    console.log(`   🌡️  Probes: ${result.probes}`)
+    console.log(`   🏠 Apartments: ${result.apartments}`)
+
+    const scadaLocations = await backfillScadaLocations()
+    console.log(`   🏭 SCADA locations linked to lamelas: ${scadaLocations}`)
+
+    const alerts = await backfillAlertLocations()
+    console.log(`   🔔 Alerts linked to lamela/apartment: ${alerts}`)
+
+    if (result.unparsed.length > 0) {
+      console.log(`   ⚠️  Not linked to an apartment (unexpected name): ${result.unparsed.join(', ')}`)
+    }
+
+    console.log('\n✨ Done!')
+  } catch (error) {
+    console.error('❌ Error:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+backfill()
@@ -0,0 +1,15 @@
+-- Date measurement rows from before the inserted_at column
+--
+-- `prisma db push` adds inserted_at with the push time on every existing
+-- row. The alert worker reads the tables in inserted_at order and its first
+-- run starts an hour back (lib/utils/alertWorker.ts), so without this it
+-- would evaluate the whole history once.
+--
+-- Run once, right after the push that adds the column and before starting
+-- the alert worker: rows written since then carry their real insert time.
+
+UPDATE xai4heat_db.thermionyx_measurements SET inserted_at = datetime WHERE inserted_at > datetime;
+
+UPDATE xai4heat_db.scada_measurements SET inserted_at = datetime WHERE inserted_at > datetime;
+
+UPDATE xai4heat_db.weatherlink_measurements SET inserted_at = datetime WHERE inserted_at > datetime;
@@ -0,0 +1,149 @@
+/**
+ * Alert Parity Check
+ *
+ * Verifies that a measurement inserted directly into the database (as the IoT
+ * gateways do) ends up with the same alert as one posted to /api/thermionix:
+ *
+ * 1. Inserts a Thermionix row above the user's max temperature
+ * 2. Confirms no alert was created by a database trigger (the legacy
+ *    PL/pgSQL trigger must be gone - see scripts/drop-alert-trigger.sql)
+ * 3. Evaluates the row with evaluateThermionixMeasurement() - the function
+ *    both the POST route and the alert worker call
+ * 4. Compares the alert against THERMIONIX_RANGE_RULES / calculateSeverity
+ * 5. Removes the test row and alert again
+ *
+ * Without a database, tests/alertParity.test.ts runs the POST handler and
+ * the alert worker side by side (npm test).
+ *
+ * Usage: npx tsx scripts/check-alert-parity.ts [probe_id]
+ */
+
+import * as dotenv from 'dotenv'
+dotenv.config({ path: '.env.local' })
+
+import { prisma } from '../lib/prisma'
+import { evaluateThermionixMeasurement } from '../lib/utils/alertDetection'
+import { THERMIONIX_RANGE_RULES, calculateSeverity } from '../lib/utils/alertRules'
+
+const TRIGGER_WAIT_MS = 2000
+
+async function checkParity() {
+  console.log('🧪 Checking alert parity between direct inserts and API POSTs...\n')
+
+  const failures: string[] = []
+  const startedAt = new Date()
+  let inserted: { datetime: Date; device_id: number; probe_id: number } | null = null
+
+  try {
+    // STEP 1: User settings and a probe to test with
+    const settings = await prisma.userSettings.findFirst()
+    if (!settings) {
+      console.error('❌ No user settings found!')
+      process.exitCode = 1
+      return
+    }
+
+    const probeArg = process.argv[2] ? parseInt(process.argv[2]) : undefined
+    const latest = await prisma.thermionyx_measurements.findFirst({
+      where: probeArg ? { probe_id: probeArg } : undefined,
+      orderBy: { datetime: 'desc' },
+    })
+    if (!latest) {
+      console.error(`❌ No Thermionix measurements found${probeArg ? ` for probe ${probeArg}` : ''}`)
+      process.exitCode = 1
+      return
+    }
+
+    const rule = THERMIONIX_RANGE_RULES.find((r) => r.field === 'temperature')!
+    const threshold = settings[rule.maxSetting]
+    const temperature = threshold + 5
+
+    console.log(`   User: ${settings.user_id}`)
+    console.log(`   Probe: ${latest.probe_id} (hub ${latest.device_id})`)
+    console.log(`   Temperature: ${temperature}${rule.unit} (max: ${threshold}${rule.unit})\n`)
+
+    // STEP 2: Direct insert, like the IoT gateways
+    console.log('📝 Inserting measurement directly...')
+    const measurement = await prisma.thermionyx_measurements.create({
+      data: {
+        datetime: new Date(),
+        device_id: latest.device_id,
+        probe_id: latest.probe_id,
+        temperature,
+        relative_humidity: latest.relative_humidity,
+        co2: latest.co2,
+      },
+    })
+    inserted = measurement
+
+    await new Promise((resolve) => setTimeout(resolve, TRIGGER_WAIT_MS))
+
+    const alertWhere = {
+      user_id: settings.user_id,
+      alert_type: rule.highType,
+      device_id: measurement.probe_id.toString(),
+      measurement_time: measurement.datetime,
+    }
+
+    const triggerAlerts = await prisma.alert.count({ where: alertWhere })
+    if (triggerAlerts > 0) {
+      failures.push('An alert was created by a database trigger - run scripts/drop-alert-trigger.sql')
+    }
+
+    // STEP 3: Same evaluation as POST /api/thermionix
+    console.log('⚡ Evaluating measurement...')
+    await evaluateThermionixMeasurement(measurement, settings)
+
+    // STEP 4: Compare with the rules
+    const alert = await prisma.alert.findFirst({ where: alertWhere })
+    const expectedSeverity = calculateSeverity(temperature, threshold)
+
+    if (!alert) {
+      failures.push(`No ${rule.highType} alert created`)
+    } else {
+      if (alert.severity !== expectedSeverity) {
+        failures.push(`Severity ${alert.severity}, expected ${expectedSeverity}`)
+      }
+      if (alert.threshold_value !== threshold) {
+        failures.push(`Threshold ${alert.threshold_value}, expected ${threshold}`)
+      }
+      if (alert.unit !== rule.unit) {
+        failures.push(`Unit ${alert.unit}, expected ${rule.unit}`)
+      }
+    }
+
+    // COMMENT: Overrides, minimum duration or an already open alert can
+    // legitimately change the outcome for a real user - report, don't guess
+    if (failures.length === 0) {
+      console.log(`\n✅ Parity OK: ${rule.highType} / ${expectedSeverity}`)
+    } else {
+      console.log('\n❌ Parity check failed:')
+      failures.forEach((failure) => console.log(`   - ${failure}`))
+      console.log('   (Threshold overrides or alert_min_* settings for this probe also change the result)')
+      process.exitCode = 1
+    }
+  } catch (error) {
+    console.error('❌ Error:', error)
+    process.exitCode = 1
+  } finally {
+    // STEP 5: Clean up
+    // COMMENT: Only alerts created by this run - an already open alert that
+    // was merely updated with the test value is left alone
+    if (inserted) {
+      await prisma.alert.deleteMany({
+        where: {
+          device_id: inserted.probe_id.toString(),
+          measurement_time: inserted.datetime,
+          created_at: { gte: startedAt },
+        },
+      })
+      await prisma.thermionyx_measurements.delete({
+        where: { datetime_device_id_probe_id: inserted },
+      })
+      console.log('🧹 Test measurement and alerts removed')
+    }
+    await prisma.$disconnect()
+  }
+}
+
+checkParity()
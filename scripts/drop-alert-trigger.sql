@@ -0,0 +1,13 @@
+-- Remove the PL/pgSQL alert trigger on thermionyx_measurements
+--
+-- The trigger kept its own copy of the alert rules (20/10% severity cutoffs,
+-- pressure settings read into the humidity checks) and knew nothing about
+-- threshold overrides, hysteresis, minimum duration or auto-resolve.
+--
+-- Alert rules now live only in TypeScript (lib/utils/alertRules.ts) and are
+-- evaluated by lib/utils/alertDetection.ts - for API POSTs directly, and for
+-- rows inserted straight into the database by the alert worker.
+
+DROP TRIGGER IF EXISTS thermionix_alert_trigger ON xai4heat_db.thermionyx_measurements;
+
+DROP FUNCTION IF EXISTS xai4heat_db.check_thermionix_thresholds();
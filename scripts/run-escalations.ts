@@ -0,0 +1,40 @@
+/**
+ * Alert Escalation Script
+ *
+ * This script:
+ * 1. Loads every enabled escalation policy
+ * 2. Finds alerts that stayed unacknowledged longer than each policy allows
+ * 3. Raises their severity, re-notifies the owner and/or emails the
+ *    policy's notify_emails - once per alert and policy
+ *
+ * Run it on a schedule (e.g. cron every 5 minutes).
+ *
+ * Usage: npx tsx scripts/run-escalations.ts
+ */
+
+import * as dotenv from 'dotenv'
+dotenv.config({ path: '.env.local' })
+
+import { prisma } from '../lib/prisma'
+import { runEscalations } from '../lib/utils/alertEscalation'
+
+async function escalate() {
+  console.log('⏫ Running alert escalations...\n')
+
+  try {
+    const result = await runEscalations()
+
+    console.log(`   📋 Policies: ${result.policies}`)
+    console.log(`   ⚠️  Alerts escalated: ${result.escalated}`)
+    console.log(`   📧 Escalation emails sent: ${result.notified}\n`)
+
+    console.log('✨ Done!')
+  } catch (error) {
+    console.error('❌ Error:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+escalate()
@@ -2,7 +2,7 @@
  * Setup Script: Configure Alerts System
  *
  * This script:
- * 1. Executes the SQL trigger creation script
+ * 1. Drops the legacy SQL alert trigger (rules are evaluated in TypeScript)
  * 2. Enables Realtime on the alerts table via Supabase Management API
  */
 
@@ -33,23 +33,22 @@ async function setupAlerts() {
     process.exit(1)
   }
 
-  // STEP 1: Execute SQL trigger
-  console.log('📝 Step 1: Creating database trigger...')
+  // STEP 1: Drop legacy SQL trigger
+  console.log('📝 Step 1: Dropping legacy database trigger...')
   try {
     const sql = postgres(DATABASE_URL, {
       max: 1,
       ssl: 'require'
     })
 
-    const triggerSQL = readFileSync(join(process.cwd(), 'scripts/create-alert-trigger.sql'), 'utf-8')
+    const dropSQL = readFileSync(join(process.cwd(), 'scripts/drop-alert-trigger.sql'), 'utf-8')
 
-    await sql.unsafe(triggerSQL)
-    console.log('✅ Database trigger created successfully!\n')
+    await sql.unsafe(dropSQL)
+    console.log('✅ Legacy database trigger removed!\n')
 
     await sql.end()
   } catch (error: any) {
-    console.error('❌ Failed to create trigger:', error.message)
-    console.log('   (This might be OK if the trigger already exists)\n')
+    console.error('❌ Failed to drop trigger:', error.message, '\n')
   }
 
   // STEP 2: Enable Realtime on alerts table
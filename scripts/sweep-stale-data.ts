@@ -0,0 +1,41 @@
+/**
+ * Stale Data Sweep Script
+ *
+ * This script:
+ * 1. Finds the latest measurement per Thermionix probe, SCADA lamela and weather station
+ * 2. Raises a DATA_STALE alert for every one that has been silent too long
+ * 3. Resolves DATA_STALE alerts for the ones that are reporting again
+ *
+ * Run it on a schedule (e.g. cron every 5 minutes).
+ *
+ * Usage: npx tsx scripts/sweep-stale-data.ts
+ */
+
+import * as dotenv from 'dotenv'
+dotenv.config({ path: '.env.local' })
+
+import { prisma } from '../lib/prisma'
+import { STALE_AFTER_MINUTES, sweepStaleData } from '../lib/utils/staleDataDetection'
+
+async function sweep() {
+  console.log('🔍 Sweeping for stale data...')
+  console.log(`   Allowed gaps: Thermionix ${STALE_AFTER_MINUTES.THERMIONIX} min, SCADA ${STALE_AFTER_MINUTES.SCADA} min, WeatherLink ${STALE_AFTER_MINUTES.WEATHERLINK} min\n`)
+
+  try {
+    const result = await sweepStaleData()
+
+    console.log(`   📡 Checked: ${result.checked} devices/locations`)
+    console.log(`   ⚠️  Stale: ${result.stale}`)
+    console.log(`   🔔 Alerts created: ${result.created}`)
+    console.log(`   ✅ Alerts resolved: ${result.resolved}\n`)
+
+    console.log('✨ Done!')
+  } catch (error) {
+    console.error('❌ Error:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+sweep()
@@ -0,0 +1,89 @@
+/**
+ * Webhook Receiver (local stub)
+ *
+ * This script:
+ * 1. Listens for webhook POSTs on http://localhost:<port>/
+ * 2. Verifies each request's signature and timestamp with the endpoint secret
+ * 3. Prints the event and alert, answering 200 (valid) or 401 (invalid)
+ *
+ * Use it to try webhooks end to end: add an endpoint with URL
+ * http://localhost:4000/ in App Settings → Webhooks, copy its secret,
+ * start this script and press "Test".
+ *
+ * Options:
+ * - --fail: answer 500 to every request (to watch retries in the delivery log)
+ *
+ * Usage: npx tsx scripts/webhook-receiver.ts <secret> [port] [--fail]
+ */
+
+import { createServer } from 'http'
+import {
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from '../lib/utils/webhookSignature'
+
+const args = process.argv.slice(2).filter((arg) => !arg.startsWith('--'))
+const secret = args[0]
+const port = parseInt(args[1] || '4000')
+const fail = process.argv.includes('--fail')
+
+if (!secret) {
+  console.error('❌ Missing secret\n   Usage: npx tsx scripts/webhook-receiver.ts <secret> [port] [--fail]')
+  process.exit(1)
+}
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = []
+
+  req.on('data', (chunk: Buffer) => chunks.push(chunk))
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8')
+    // COMMENT: Node lower-cases incoming header names
+    const header = (name: string) => (req.headers[name.toLowerCase()] as string | undefined) ?? null
+
+    const valid = verifyWebhookSignature(secret, header(TIMESTAMP_HEADER), body, header(SIGNATURE_HEADER))
+
+    console.log(`\n📨 ${req.method} ${req.url} · ${header(EVENT_HEADER)} · delivery ${header(DELIVERY_HEADER)}`)
+
+    if (!valid) {
+      console.log('   ❌ Invalid signature or stale timestamp → 401')
+      res.writeHead(401).end('Invalid signature')
+      return
+    }
+
+    console.log('   ✅ Signature valid')
+
+    try {
+      const payload = JSON.parse(body)
+      if (payload.alert) {
+        const { alert_type, severity, device_id, location, measured_value, unit } = payload.alert
+        console.log(`   🔔 ${alert_type} (${severity}) · ${device_id || location} · ${measured_value} ${unit}`)
+      }
+    } catch {
+      console.log('   ⚠️  Body is not JSON')
+    }
+
+    if (fail) {
+      console.log('   💥 --fail set → 500')
+      res.writeHead(500).end('Simulated failure')
+      return
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ received: true }))
+  })
+})
+
+server.listen(port, () => {
+  console.log(`🪝 Webhook receiver listening on http://localhost:${port}/${fail ? ' (answering 500)' : ''}`)
+})
+
+function stop() {
+  console.log('\n🛑 Stopping receiver...')
+  server.close(() => process.exit(0))
+}
+
+process.on('SIGINT', stop)
+process.on('SIGTERM', stop)
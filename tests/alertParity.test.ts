@@ -0,0 +1,236 @@
+/**
+ * Alert Parity - POST /api/thermionix vs. Alert Worker
+ *
+ * The same Thermionix reading must end up as the same alert whether it is
+ * posted to the API or inserted straight into the table and picked up by
+ * the alert worker (lib/utils/alertWorker.ts):
+ * - Same type, severity, threshold, unit and device
+ * - Evaluated by both paths (the worker re-evaluates posted rows), the
+ *   duplicate check updates the open alert instead of creating a second one
+ *
+ * Runs against the in-memory Prisma fake (tests/helpers/prismaFake.ts);
+ * Supabase auth and Realtime are stubbed. scripts/check-alert-parity.ts
+ * does the same check against a real database.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Alert, thermionyx_measurements } from '@/lib/generated/prisma'
+import type { createPrismaFake } from './helpers/prismaFake'
+
+const USER_ID = '00000000-0000-4000-8000-000000000001'
+
+vi.mock('@/lib/prisma', async () => {
+  const { createPrismaFake } = await import('./helpers/prismaFake')
+  return { prisma: createPrismaFake() }
+})
+
+vi.mock('@/lib/supabase/server', () => ({
+  getCurrentUser: vi.fn(async () => ({ id: '00000000-0000-4000-8000-000000000001' })),
+}))
+
+// COMMENT: Realtime broadcasts always succeed
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    channel: () => {
+      const channel = {
+        subscribe: (callback: (status: string) => void) => {
+          callback('SUBSCRIBED')
+          return channel
+        },
+        send: async () => 'ok',
+      }
+      return channel
+    },
+    removeChannel: async () => 'ok',
+  }),
+}))
+
+// COMMENT: The POST route doesn't await alert detection - keep hold of every
+// evaluation so the test can wait for it
+const evaluations: Promise<void>[] = []
+
+vi.mock('@/lib/utils/alertDetection', async (importOriginal) => {
+  const original = await importOriginal<typeof import('@/lib/utils/alertDetection')>()
+  return {
+    ...original,
+    evaluateThermionixMeasurement: vi.fn((...args: Parameters<typeof original.evaluateThermionixMeasurement>) => {
+      const evaluation = original.evaluateThermionixMeasurement(...args)
+      evaluations.push(evaluation)
+      return evaluation
+    }),
+  }
+})
+
+const { prisma: prismaClient } = await import('@/lib/prisma')
+const { POST } = await import('@/app/api/thermionix/route')
+const { runAlertWorkerCycle } = await import('@/lib/utils/alertWorker')
+
+const prisma = prismaClient as unknown as ReturnType<typeof createPrismaFake>
+
+const HUB_ID = 7
+const PROBE_ID = 42
+
+// COMMENT: 31 °C against a max of 26 °C → 19% over → HIGH
+const TEMPERATURE = 31
+const TEMP_MAX = 26
+
+const PARITY_FIELDS = [
+  'alert_type',
+  'severity',
+  'threshold_value',
+  'measured_value',
+  'unit',
+  'source',
+  'device_id',
+  'apartment_name',
+  'measurement_time',
+  'is_suppressed',
+] as const
+
+function reading(minutesAgo: number): Omit<thermionyx_measurements, 'datetime' | 'inserted_at'> & { datetime: Date } {
+  return {
+    datetime: new Date(Date.now() - minutesAgo * 60 * 1000),
+    device_id: HUB_ID,
+    probe_id: PROBE_ID,
+    temperature: TEMPERATURE,
+    relative_humidity: 45,
+    co2: 600,
+  }
+}
+
+const alerts = () => (prisma.tables.alert ?? []) as unknown as Alert[]
+
+async function settle() {
+  while (evaluations.length > 0) {
+    await Promise.all(evaluations.splice(0))
+  }
+}
+
+async function postReading(measurement: ReturnType<typeof reading>) {
+  const response = await POST(new Request('http://localhost/api/thermionix', {
+    method: 'POST',
+    body: JSON.stringify({ measurements: [{ ...measurement, datetime: measurement.datetime.toISOString() }] }),
+  }))
+  expect(response.status).toBe(201)
+  await settle()
+}
+
+/**
+ * Direct insert (like the IoT gateways), then one worker cycle - on the first
+ * cycle the cursor starts an hour before `now`, which is set just before the
+ * reading
+ */
+async function insertAndRunWorker(measurement: ReturnType<typeof reading>) {
+  await prisma.thermionyx_measurements.create({ data: measurement })
+  await runWorkerFrom(measurement.datetime)
+}
+
+async function runWorkerFrom(datetime: Date) {
+  await runAlertWorkerCycle(new Date(datetime.getTime() - 60 * 1000))
+  await settle()
+}
+
+function parityView(alert: Alert) {
+  return Object.fromEntries(PARITY_FIELDS.map((field) => [field, alert[field]]))
+}
+
+describe('alert parity: POST /api/thermionix vs. alert worker', () => {
+  beforeEach(async () => {
+    prisma.reset()
+    evaluations.length = 0
+
+    await prisma.userSettings.create({
+      data: {
+        user_id: USER_ID,
+        expected_temp_min: 18,
+        expected_temp_max: TEMP_MAX,
+        expected_humidity_min: 30,
+        expected_humidity_max: 70,
+        expected_pressure_min: 1.5,
+        expected_pressure_max: 2.5,
+        expected_co2_min: 400,
+        expected_co2_max: 1000,
+        hysteresis_temp: 0.5,
+        hysteresis_humidity: 2,
+        hysteresis_pressure: 0.1,
+        hysteresis_co2: 50,
+        alert_min_duration_minutes: 0,
+        alert_min_consecutive_samples: 1,
+        temp_drop_rate_max: 3,
+        temp_drop_window_minutes: 60,
+        supply_ref_tolerance: 5,
+        primary_delta_t_min: 10,
+        frost_temp_threshold: 0,
+        wind_gust_max: 60,
+        rain_rate_max: 10,
+        barometric_drop_max: 0.06,
+      },
+    })
+    await prisma.device.create({ data: { device_id: PROBE_ID.toString(), name: 'L8_33_67' } })
+  })
+
+  it('raises the same alert for a posted and a directly inserted reading', async () => {
+    const measurement = reading(2)
+
+    await postReading(measurement)
+    expect(alerts()).toHaveLength(1)
+    const viaPost = parityView(alerts()[0])
+
+    prisma.tables.alert = []
+    prisma.tables.thermionyx_measurements = []
+    prisma.tables.alertWorkerCursor = []
+
+    await insertAndRunWorker(measurement)
+    expect(alerts()).toHaveLength(1)
+    const viaWorker = parityView(alerts()[0])
+
+    expect(viaWorker).toEqual(viaPost)
+    expect(viaPost).toMatchObject({
+      alert_type: 'TEMP_HIGH',
+      severity: 'HIGH',
+      threshold_value: TEMP_MAX,
+      measured_value: TEMPERATURE,
+      unit: '°C',
+      device_id: PROBE_ID.toString(),
+    })
+  })
+
+  it('updates the posted alert when the worker evaluates the same row again', async () => {
+    const measurement = reading(2)
+
+    await postReading(measurement)
+    const [posted] = alerts()
+
+    await runWorkerFrom(measurement.datetime)
+
+    expect(alerts()).toHaveLength(1)
+    expect(alerts()[0].id).toBe(posted.id)
+    expect(parityView(alerts()[0])).toEqual(parityView(posted))
+  })
+
+  it('evaluates a late upload whose measurement time is older than the cursor', async () => {
+    await runAlertWorkerCycle()
+    expect(alerts()).toHaveLength(0)
+
+    // COMMENT: A gateway catching up after an outage
+    const late = reading(3 * 60)
+    await prisma.thermionyx_measurements.create({ data: late })
+    await runAlertWorkerCycle()
+    await settle()
+
+    expect(alerts()).toHaveLength(1)
+    expect(alerts()[0].measurement_time).toEqual(late.datetime)
+  })
+
+  it('updates the worker alert when the next reading is posted', async () => {
+    await insertAndRunWorker(reading(5))
+    const [fromWorker] = alerts()
+
+    const next = reading(1)
+    await postReading(next)
+
+    expect(alerts()).toHaveLength(1)
+    expect(alerts()[0].id).toBe(fromWorker.id)
+    expect(alerts()[0].measurement_time).toEqual(next.datetime)
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * In-Memory Prisma Fake
+ *
+ * PURPOSE:
+ * - Lets tests run the real route handlers and alert utilities without a
+ *   database: vi.mock('@/lib/prisma') returns createPrismaFake()
+ * - Every model (prisma.alert, prisma.thermionyx_measurements, ...) is a
+ *   plain array in `tables`, created on first use
+ *
+ * SUPPORTED:
+ * - findMany / findFirst / findUnique / count / create / createMany /
+ *   update / updateMany / upsert / delete / deleteMany
+ * - where: equality, null, Date, OR / AND / NOT, gt / gte / lt / lte /
+ *   in / notIn / not / equals, compound unique keys
+ * - orderBy on one field, take
+ * - update data: plain values and { increment }
+ * - create fills id, created_at, updated_at and inserted_at (the
+ *   @default(now()) / @updatedAt columns)
+ * - $transaction with an array or a callback (no rollback)
+ *
+ * NOT SUPPORTED:
+ * - Relations (select / include are ignored, the whole row is returned),
+ *   raw SQL, groupBy - tests touching those need their own mocks
+ */
+
+type Row = Record<string, unknown>
+type Where = Record<string, unknown>
+
+const OPERATORS = new Set(['gt', 'gte', 'lt', 'lte', 'in', 'notIn', 'not', 'equals'])
+
+const comparable = (value: unknown) => (value instanceof Date ? value.getTime() : value)
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value)
+}
+
+function isOperatorObject(value: Record<string, unknown>): boolean {
+  const keys = Object.keys(value)
+  return keys.length > 0 && keys.every((key) => OPERATORS.has(key))
+}
+
+function matchesValue(actual: unknown, expected: unknown): boolean {
+  if (expected === undefined) return true
+  if (expected === null) return actual === null || actual === undefined
+  if (!isPlainObject(expected)) return comparable(actual) === comparable(expected)
+
+  const a = comparable(actual) as number
+  return Object.entries(expected).every(([op, raw]) => {
+    if (raw === undefined) return true
+    const b = comparable(raw) as number
+    switch (op) {
+      case 'gt': return actual != null && a > b
+      case 'gte': return actual != null && a >= b
+      case 'lt': return actual != null && a < b
+      case 'lte': return actual != null && a <= b
+      case 'in': return (raw as unknown[]).some((item) => comparable(item) === a)
+      case 'notIn': return !(raw as unknown[]).some((item) => comparable(item) === a)
+      case 'not': return !matchesValue(actual, raw)
+      case 'equals': return matchesValue(actual, raw)
+      default: return false
+    }
+  })
+}
+
+export function matchesWhere(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([key, expected]) => {
+    if (key === 'OR') return (expected as Where[]).some((clause) => matchesWhere(row, clause))
+    if (key === 'AND') {
+      const clauses = Array.isArray(expected) ? expected : [expected]
+      return clauses.every((clause) => matchesWhere(row, clause as Where))
+    }
+    if (key === 'NOT') {
+      const clauses = Array.isArray(expected) ? expected : [expected]
+      return !clauses.some((clause) => matchesWhere(row, clause as Where))
+    }
+
+    // COMMENT: Compound unique key, e.g. datetime_device_id_probe_id: { ... }
+    if (!(key in row) && isPlainObject(expected) && !isOperatorObject(expected)) {
+      return matchesWhere(row, expected)
+    }
+
+    return matchesValue(row[key], expected)
+  })
+}
+
+function applyData(row: Row, data: Row): Row {
+  const next = { ...row }
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue
+    if (isPlainObject(value) && 'increment' in value) {
+      next[key] = ((row[key] as number | undefined) ?? 0) + (value.increment as number)
+    } else {
+      next[key] = value
+    }
+  }
+  return next
+}
+
+function sortRows(rows: Row[], orderBy?: Record<string, 'asc' | 'desc'>): Row[] {
+  if (!orderBy) return rows
+  const [[field, direction]] = Object.entries(orderBy)
+  const factor = direction === 'desc' ? -1 : 1
+  return [...rows].sort((a, b) => {
+    const x = comparable(a[field]) as number
+    const y = comparable(b[field]) as number
+    return x === y ? 0 : x > y ? factor : -factor
+  })
+}
+
+type QueryArgs = {
+  where?: Where
+  orderBy?: Record<string, 'asc' | 'desc'>
+  take?: number
+  data?: Row
+}
+
+export function createPrismaFake() {
+  const tables: Record<string, Row[]> = {}
+  let nextId = 1
+
+  const table = (name: string) => (tables[name] ??= [])
+
+  const model = (name: string) => {
+    const findMany = async ({ where, orderBy, take }: QueryArgs = {}) => {
+      const rows = sortRows(table(name).filter((row) => matchesWhere(row, where)), orderBy)
+      return take !== undefined ? rows.slice(0, take) : rows
+    }
+
+    const create = async ({ data = {} }: QueryArgs) => {
+      const now = new Date()
+      const row = applyData({ id: `${name}-${nextId++}`, created_at: now, updated_at: now, inserted_at: now }, data)
+      table(name).push(row)
+      return row
+    }
+
+    const updateRows = (where: Where | undefined, data: Row) => {
+      const rows = table(name)
+      const updated: Row[] = []
+      rows.forEach((row, index) => {
+        if (!matchesWhere(row, where)) return
+        rows[index] = applyData(row, data)
+        updated.push(rows[index])
+      })
+      return updated
+    }
+
+    return {
+      findMany,
+      findFirst: async (args: QueryArgs = {}) => (await findMany({ ...args, take: 1 }))[0] ?? null,
+      findUnique: async (args: QueryArgs) => (await findMany({ ...args, take: 1 }))[0] ?? null,
+      count: async (args: QueryArgs = {}) => (await findMany(args)).length,
+      create,
+      createMany: async ({ data }: { data: Row[] }) => {
+        for (const row of data) await create({ data: row })
+        return { count: data.length }
+      },
+      update: async ({ where, data = {} }: QueryArgs) => {
+        const [row] = updateRows(where, data)
+        if (!row) throw new Error(`[prismaFake] ${name}.update: no row matches ${JSON.stringify(where)}`)
+        return row
+      },
+      updateMany: async ({ where, data = {} }: QueryArgs) => ({ count: updateRows(where, data).length }),
+      upsert: async ({ where, create: createData, update }: { where: Where; create: Row; update: Row }) => {
+        const [row] = updateRows(where, update)
+        return row ?? create({ data: createData })
+      },
+      delete: async ({ where }: QueryArgs) => {
+        const rows = table(name)
+        const index = rows.findIndex((row) => matchesWhere(row, where))
+        if (index === -1) throw new Error(`[prismaFake] ${name}.delete: no row matches ${JSON.stringify(where)}`)
+        return rows.splice(index, 1)[0]
+      },
+      deleteMany: async ({ where }: QueryArgs = {}) => {
+        const rows = table(name)
+        const kept = rows.filter((row) => !matchesWhere(row, where))
+        const count = rows.length - kept.length
+        tables[name] = kept
+        return { count }
+      },
+    }
+  }
+
+  const models = new Map<string, ReturnType<typeof model>>()
+
+  const client = {
+    tables,
+    reset: () => {
+      for (const name of Object.keys(tables)) delete tables[name]
+    },
+    // COMMENT: No rollback - both forms simply run against the same tables
+    $transaction: async (operations: Promise<unknown>[] | ((tx: unknown) => Promise<unknown>)) =>
+      typeof operations === 'function' ? operations(fake) : Promise.all(operations),
+    $disconnect: async () => {},
+  }
+
+  const fake = new Proxy(client, {
+    get(target, prop) {
+      if (typeof prop !== 'string' || prop === 'then') return undefined
+      if (prop in target) return target[prop as keyof typeof target]
+      if (!models.has(prop)) models.set(prop, model(prop))
+      return models.get(prop)
+    },
+  }) as typeof client & Record<string, ReturnType<typeof model>>
+
+  return fake
+}
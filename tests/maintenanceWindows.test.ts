@@ -0,0 +1,94 @@
+/**
+ * Maintenance Window Recurrence
+ *
+ * Repeats keep their local wall-clock time in the window's timezone -
+ * checked across the 2026 daylight saving changes in Europe/Belgrade
+ * (Mar 29: UTC+1 → UTC+2, Oct 25: UTC+2 → UTC+1).
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  getMaintenanceOccurrences,
+  isMaintenanceActive,
+  type MaintenanceWindowLike,
+} from '@/lib/utils/maintenanceWindows'
+
+function dailyWindow(overrides: Partial<MaintenanceWindowLike> = {}): MaintenanceWindowLike {
+  return {
+    scope: 'LAMELA',
+    scope_value: 'L8',
+    title: 'Substation service',
+    // COMMENT: 02:00-04:00 Belgrade summer time
+    starts_at: '2026-10-20T00:00:00.000Z',
+    ends_at: '2026-10-20T02:00:00.000Z',
+    recurrence: 'DAILY',
+    recurrence_until: null,
+    timezone: 'Europe/Belgrade',
+    ...overrides,
+  }
+}
+
+const isoTimes = (occurrences: { start: Date; end: Date }[]) =>
+  occurrences.map(({ start, end }) => [start.toISOString(), end.toISOString()])
+
+describe('getMaintenanceOccurrences', () => {
+  it('keeps the local time of a daily window across the autumn clock change', () => {
+    const occurrences = getMaintenanceOccurrences(
+      dailyWindow(),
+      new Date('2026-10-24T00:00:00.000Z'),
+      new Date('2026-10-27T00:00:00.000Z')
+    )
+
+    expect(isoTimes(occurrences)).toEqual([
+      ['2026-10-24T00:00:00.000Z', '2026-10-24T02:00:00.000Z'],
+      ['2026-10-25T00:00:00.000Z', '2026-10-25T03:00:00.000Z'], // 02:00 CEST → 04:00 CET
+      ['2026-10-26T01:00:00.000Z', '2026-10-26T03:00:00.000Z'],
+    ])
+  })
+
+  it('keeps the weekday and local time of a weekly window across the spring clock change', () => {
+    const occurrences = getMaintenanceOccurrences(
+      dailyWindow({
+        // COMMENT: Mondays 08:00-10:00 Belgrade winter time
+        starts_at: '2026-03-16T07:00:00.000Z',
+        ends_at: '2026-03-16T09:00:00.000Z',
+        recurrence: 'WEEKLY',
+      }),
+      new Date('2026-03-20T00:00:00.000Z'),
+      new Date('2026-04-07T00:00:00.000Z')
+    )
+
+    expect(isoTimes(occurrences)).toEqual([
+      ['2026-03-23T07:00:00.000Z', '2026-03-23T09:00:00.000Z'],
+      ['2026-03-30T06:00:00.000Z', '2026-03-30T08:00:00.000Z'],
+      ['2026-04-06T06:00:00.000Z', '2026-04-06T08:00:00.000Z'],
+    ])
+  })
+
+  it('stops at recurrence_until', () => {
+    const occurrences = getMaintenanceOccurrences(
+      dailyWindow({ recurrence_until: '2026-10-21T23:59:59.000Z' }),
+      new Date('2026-10-19T00:00:00.000Z'),
+      new Date('2026-10-30T00:00:00.000Z')
+    )
+
+    expect(occurrences).toHaveLength(2)
+  })
+
+  it('returns a one-off window only when it overlaps the range', () => {
+    const oneOff = dailyWindow({ recurrence: 'NONE' })
+
+    expect(getMaintenanceOccurrences(oneOff, new Date('2026-10-20T01:00:00.000Z'), new Date('2026-10-21T00:00:00.000Z'))).toHaveLength(1)
+    expect(getMaintenanceOccurrences(oneOff, new Date('2026-10-20T02:00:00.000Z'), new Date('2026-10-21T00:00:00.000Z'))).toHaveLength(0)
+  })
+})
+
+describe('isMaintenanceActive', () => {
+  it('is active at 03:00 local time after the clock change, not at 02:00 UTC+1 of the old offset', () => {
+    const maintenance = dailyWindow()
+
+    expect(isMaintenanceActive(maintenance, new Date('2026-11-02T02:00:00.000Z'))).toBe(true) // 03:00 CET
+    expect(isMaintenanceActive(maintenance, new Date('2026-11-02T03:30:00.000Z'))).toBe(false) // 04:30 CET
+    expect(isMaintenanceActive(maintenance, new Date('2026-11-02T00:30:00.000Z'))).toBe(false) // 01:30 CET
+  })
+})